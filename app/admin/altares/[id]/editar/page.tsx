@@ -0,0 +1,30 @@
+import { notFound } from 'next/navigation'
+import { z } from 'zod'
+import { AltarForm, getAdminAltarById } from '@/features/admin-altares'
+
+export const dynamic = 'force-dynamic'
+
+interface EditAltarPageProps {
+  params: Promise<{ id: string }>
+}
+
+export default async function EditAltarPage({ params }: EditAltarPageProps) {
+  const { id } = await params
+
+  if (!z.string().uuid().safeParse(id).success) {
+    notFound()
+  }
+
+  const altar = await getAdminAltarById(id)
+
+  if (!altar) {
+    notFound()
+  }
+
+  return (
+    <div className="max-w-3xl">
+      <h1 className="mb-8 text-3xl font-bold tracking-tight text-neutral-900">Editar {altar.nombre}</h1>
+      <AltarForm altar={altar} />
+    </div>
+  )
+}
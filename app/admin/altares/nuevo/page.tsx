@@ -0,0 +1,10 @@
+import { AltarForm } from '@/features/admin-altares'
+
+export default function NewAltarPage() {
+  return (
+    <div className="max-w-3xl">
+      <h1 className="mb-8 text-3xl font-bold tracking-tight text-neutral-900">Nuevo altar</h1>
+      <AltarForm />
+    </div>
+  )
+}
@@ -0,0 +1,31 @@
+import { Plus } from 'lucide-react'
+import Link from 'next/link'
+import { Button } from '@/components/ui/button'
+import { AltaresTable, getAdminAltares } from '@/features/admin-altares'
+import { getAdminUser } from '@/lib/auth/admin'
+import { hasPermission } from '@/lib/auth/permissions'
+import { ROUTES } from '@/lib/constants/routes'
+
+export const dynamic = 'force-dynamic'
+
+export default async function AdminAltaresPage() {
+  const [altares, admin] = await Promise.all([getAdminAltares(), getAdminUser()])
+  const canEdit = hasPermission(admin?.rol, 'catalog.write')
+
+  return (
+    <div>
+      <div className="mb-8 flex items-center justify-between gap-4">
+        <h1 className="text-3xl font-bold tracking-tight text-neutral-900">Altares</h1>
+        {canEdit && (
+          <Button asChild>
+            <Link href={ROUTES.ADMIN_ALTAR_NEW}>
+              <Plus className="size-4" />
+              Nuevo altar
+            </Link>
+          </Button>
+        )}
+      </div>
+      <AltaresTable altares={altares} canEdit={canEdit} />
+    </div>
+  )
+}
@@ -0,0 +1,77 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import {
+  ConfiguracionesList,
+  getAdminConfiguraciones,
+  getAdminReglasPrecio,
+  ReglasPrecioEditor,
+} from '@/features/admin-configuraciones'
+import { ConfigTypeEnum } from '@/features/altar-configurator/schemas/configuracion.schema'
+import { getAdminUser } from '@/lib/auth/admin'
+import { hasPermission } from '@/lib/auth/permissions'
+import { CONFIG_TYPES } from '@/lib/constants/business-config'
+
+export const dynamic = 'force-dynamic'
+
+export default async function AdminConfiguracionesPage() {
+  const [configuraciones, reglas, admin] = await Promise.all([
+    getAdminConfiguraciones(),
+    getAdminReglasPrecio(),
+    getAdminUser(),
+  ])
+  const canEditOptions = hasPermission(admin?.rol, 'catalog.write')
+  const canEditPricing = hasPermission(admin?.rol, 'pricing.write')
+
+  return (
+    <div className="space-y-6">
+      <h1 className="text-3xl font-bold tracking-tight text-neutral-900">Configuraciones</h1>
+
+      <Tabs defaultValue="opciones">
+        <TabsList>
+          <TabsTrigger value="opciones">Opciones</TabsTrigger>
+          <TabsTrigger value="precios">Precios</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="opciones" className="grid gap-6 pt-4 lg:grid-cols-3">
+          {ConfigTypeEnum.options.map((tipo) => (
+            <Card key={tipo}>
+              <CardHeader>
+                <CardTitle>{CONFIG_TYPES[tipo].label}</CardTitle>
+                <CardDescription>
+                  {CONFIG_TYPES[tipo].description}.
+                  {canEditOptions && ' Arrastra para cambiar el orden.'}
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ConfiguracionesList
+                  tipo={tipo}
+                  options={configuraciones[tipo]}
+                  canEdit={canEditOptions}
+                />
+              </CardContent>
+            </Card>
+          ))}
+        </TabsContent>
+
+        <TabsContent value="precios" className="pt-4">
+          <Card>
+            <CardHeader>
+              <CardTitle>Precios por medida</CardTitle>
+              <CardDescription>
+                Cada combinación disponible de alto y ancho necesita exactamente una regla activa
+                por grosor. Los cambios de un grosor se guardan todos juntos.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ReglasPrecioEditor
+                configuraciones={configuraciones}
+                reglas={reglas}
+                canEdit={canEditPricing}
+              />
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
+    </div>
+  )
+}
@@ -0,0 +1,20 @@
+import { getAdminItemsExtra, ItemsExtraTable } from '@/features/admin-extras'
+import { getAdminUser } from '@/lib/auth/admin'
+import { hasPermission } from '@/lib/auth/permissions'
+
+export const dynamic = 'force-dynamic'
+
+export default async function AdminExtrasPage() {
+  const [items, admin] = await Promise.all([getAdminItemsExtra(), getAdminUser()])
+
+  return (
+    <div className="space-y-6">
+      <h1 className="text-3xl font-bold tracking-tight text-neutral-900">Items extra</h1>
+      <ItemsExtraTable
+        items={items}
+        canEdit={hasPermission(admin?.rol, 'catalog.write')}
+        canEditPrice={hasPermission(admin?.rol, 'pricing.write')}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,71 @@
+import {
+  LayoutDashboard,
+  type LucideIcon,
+  Package,
+  Plus,
+  Settings,
+  ShoppingCart,
+  TicketPercent,
+  Users,
+} from 'lucide-react'
+import type { Metadata } from 'next'
+import Link from 'next/link'
+import { LogoutButton } from '@/features/auth'
+import { getAdminUser } from '@/lib/auth/admin'
+import { ADMIN_ROLES, canAccessRoute } from '@/lib/auth/permissions'
+import { BUSINESS_CONFIG } from '@/lib/constants/business-config'
+import { ADMIN_NAV_ITEMS } from '@/lib/constants/routes'
+
+export const metadata: Metadata = {
+  title: `Admin - ${BUSINESS_CONFIG.name}`,
+  robots: { index: false },
+}
+
+const NAV_ICONS: Record<(typeof ADMIN_NAV_ITEMS)[number]['icon'], LucideIcon> = {
+  LayoutDashboard,
+  Package,
+  Settings,
+  Plus,
+  ShoppingCart,
+  TicketPercent,
+  Users,
+}
+
+export default async function AdminLayout({ children }: { children: React.ReactNode }) {
+  const admin = await getAdminUser()
+  const navItems = ADMIN_NAV_ITEMS.filter((item) => canAccessRoute(admin?.rol, item.href))
+
+  return (
+    <div className="flex min-h-screen flex-col md:flex-row">
+      <aside className="border-b border-neutral-200 bg-neutral-50 md:w-56 md:border-b-0 md:border-r">
+        <div className="p-4">
+          <p className="font-semibold text-neutral-900">{BUSINESS_CONFIG.name}</p>
+          {admin && (
+            <p className="text-xs text-neutral-500">
+              {admin.nombre ?? admin.email} · {ADMIN_ROLES[admin.rol].label}
+            </p>
+          )}
+        </div>
+        <nav className="flex gap-1 overflow-x-auto px-2 pb-2 md:flex-col">
+          {navItems.map((item) => {
+            const Icon = NAV_ICONS[item.icon]
+            return (
+              <Link
+                key={item.href}
+                href={item.href}
+                className="flex items-center gap-2 rounded-md px-3 py-2 text-sm text-neutral-700 hover:bg-neutral-200 hover:text-neutral-900"
+              >
+                <Icon className="size-4" />
+                {item.label}
+              </Link>
+            )
+          })}
+        </nav>
+        <div className="px-2 pb-4 md:mt-4">
+          <LogoutButton className="w-full justify-start" />
+        </div>
+      </aside>
+      <main className="flex-1 px-4 py-8 sm:px-6 lg:px-8">{children}</main>
+    </div>
+  )
+}
@@ -0,0 +1,30 @@
+import Link from 'next/link'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { getAdminUser } from '@/lib/auth/admin'
+import { canAccessRoute } from '@/lib/auth/permissions'
+import { ADMIN_NAV_ITEMS, ROUTES } from '@/lib/constants/routes'
+
+export default async function AdminDashboardPage() {
+  const admin = await getAdminUser()
+  const sections = ADMIN_NAV_ITEMS.filter(
+    (item) => item.href !== ROUTES.ADMIN && canAccessRoute(admin?.rol, item.href)
+  )
+
+  return (
+    <div>
+      <h1 className="mb-8 text-3xl font-bold tracking-tight text-neutral-900">Panel de administración</h1>
+      <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+        {sections.map((item) => (
+          <Link key={item.href} href={item.href}>
+            <Card className="transition-shadow hover:shadow-md">
+              <CardHeader>
+                <CardTitle>{item.label}</CardTitle>
+              </CardHeader>
+              <CardContent className="text-sm text-neutral-600">Administrar {item.label.toLowerCase()}</CardContent>
+            </Card>
+          </Link>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,139 @@
+import { ArrowLeft } from 'lucide-react'
+import Link from 'next/link'
+import { notFound } from 'next/navigation'
+import { z } from 'zod'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  EstadoBadge,
+  getPedidoById,
+  getPedidoHistorial,
+  PedidoEstadoActions,
+  PedidoHistorial,
+  PedidoItems,
+} from '@/features/admin-pedidos'
+import { getAdminUser } from '@/lib/auth/admin'
+import { hasPermission } from '@/lib/auth/permissions'
+import { ROUTES } from '@/lib/constants/routes'
+import { formatCurrency } from '@/lib/utils/format-currency'
+import { formatDateTime } from '@/lib/utils/format-date'
+
+export const dynamic = 'force-dynamic'
+
+interface AdminPedidoPageProps {
+  params: Promise<{ id: string }>
+}
+
+export default async function AdminPedidoPage({ params }: AdminPedidoPageProps) {
+  const { id } = await params
+
+  if (!z.string().uuid().safeParse(id).success) {
+    notFound()
+  }
+
+  const [pedido, historial, admin] = await Promise.all([
+    getPedidoById(id),
+    getPedidoHistorial(id),
+    getAdminUser(),
+  ])
+
+  if (!pedido) {
+    notFound()
+  }
+
+  return (
+    <div className="space-y-6">
+      <Link
+        href={ROUTES.ADMIN_PEDIDOS}
+        className="inline-flex items-center gap-1 text-sm text-neutral-600 hover:text-neutral-900"
+      >
+        <ArrowLeft className="size-4" />
+        Pedidos
+      </Link>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <h1 className="font-mono text-2xl font-bold tracking-tight text-neutral-900">
+          {pedido.numero_pedido}
+        </h1>
+        <EstadoBadge estado={pedido.estado} />
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-3">
+        <div className="space-y-6 lg:col-span-2">
+          <Card>
+            <CardHeader>
+              <CardTitle>Altares</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <PedidoItems items={pedido.items} />
+              <dl className="mt-4 space-y-1 border-t border-neutral-200 pt-4 text-sm">
+                <div className="flex justify-between">
+                  <dt className="text-neutral-600">Subtotal</dt>
+                  <dd>{formatCurrency(pedido.subtotal)}</dd>
+                </div>
+                {pedido.descuento > 0 && (
+                  <div className="flex justify-between text-green-700">
+                    <dt>Descuento</dt>
+                    <dd>-{formatCurrency(pedido.descuento)}</dd>
+                  </div>
+                )}
+                {pedido.codigo_promocion && (
+                  <div className="flex justify-between text-neutral-600">
+                    <dt>
+                      Incluye código <span className="font-mono">{pedido.codigo_promocion}</span>
+                    </dt>
+                    <dd>-{formatCurrency(pedido.descuento_promocion)}</dd>
+                  </div>
+                )}
+                <div className="flex justify-between text-base font-semibold">
+                  <dt>Total</dt>
+                  <dd>{formatCurrency(pedido.total)}</dd>
+                </div>
+              </dl>
+            </CardContent>
+          </Card>
+
+          {pedido.notas && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Notas del cliente</CardTitle>
+              </CardHeader>
+              <CardContent className="whitespace-pre-line text-sm">{pedido.notas}</CardContent>
+            </Card>
+          )}
+        </div>
+
+        <div className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Estado</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <PedidoEstadoActions
+                pedidoId={pedido.id}
+                estado={pedido.estado}
+                canUpdate={hasPermission(admin?.rol, 'pedidos.update')}
+              />
+              <PedidoHistorial createdAt={pedido.created_at} historial={historial} />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Cliente</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-1 text-sm">
+              <p className="font-medium">{pedido.cliente_nombre}</p>
+              <p>{pedido.cliente_telefono}</p>
+              {pedido.cliente_email && <p>{pedido.cliente_email}</p>}
+              <p className="pt-2 text-neutral-600">
+                {pedido.whatsapp_enviado && pedido.whatsapp_enviado_at
+                  ? `WhatsApp enviado ${formatDateTime(pedido.whatsapp_enviado_at)}`
+                  : 'WhatsApp no confirmado'}
+              </p>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,27 @@
+import {
+  getPedidos,
+  PedidosFilters,
+  PedidosPagination,
+  PedidosTable,
+  pedidoFiltersSchema,
+} from '@/features/admin-pedidos'
+
+export const dynamic = 'force-dynamic'
+
+interface AdminPedidosPageProps {
+  searchParams: Promise<Record<string, string | string[] | undefined>>
+}
+
+export default async function AdminPedidosPage({ searchParams }: AdminPedidosPageProps) {
+  const filters = pedidoFiltersSchema.parse(await searchParams)
+  const { pedidos, total, totalPages } = await getPedidos(filters)
+
+  return (
+    <div className="space-y-6">
+      <h1 className="text-3xl font-bold tracking-tight text-neutral-900">Pedidos</h1>
+      <PedidosFilters key={JSON.stringify(filters)} filters={filters} />
+      <PedidosTable pedidos={pedidos} />
+      <PedidosPagination filters={filters} total={total} totalPages={totalPages} />
+    </div>
+  )
+}
@@ -0,0 +1,20 @@
+import { CodigosPromocionTable, getAdminCodigosPromocion } from '@/features/admin-promociones'
+
+export const dynamic = 'force-dynamic'
+
+export default async function AdminPromocionesPage() {
+  const codigos = await getAdminCodigosPromocion()
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight text-neutral-900">Promociones</h1>
+        <p className="mt-1 text-sm text-neutral-600">
+          Códigos de descuento para campañas. Los descuentos por cantidad de altares se aplican
+          solos.
+        </p>
+      </div>
+      <CodigosPromocionTable codigos={codigos} />
+    </div>
+  )
+}
@@ -0,0 +1,34 @@
+import { notFound } from 'next/navigation'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { AdminUsuariosTable, getAdminUsuarios, InviteAdminForm } from '@/features/admin-usuarios'
+import { getAuthorizedAdmin } from '@/lib/auth/admin'
+
+export const dynamic = 'force-dynamic'
+
+export default async function AdminUsuariosPage() {
+  const owner = await getAuthorizedAdmin('users.manage')
+
+  // middleware.ts already redirects other roles; this guards direct renders
+  if (!owner) {
+    notFound()
+  }
+
+  const usuarios = await getAdminUsuarios()
+
+  return (
+    <div className="space-y-6">
+      <h1 className="text-3xl font-bold tracking-tight text-neutral-900">Usuarios</h1>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Invitar usuario</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <InviteAdminForm />
+        </CardContent>
+      </Card>
+
+      <AdminUsuariosTable usuarios={usuarios} currentUserId={owner.id} />
+    </div>
+  )
+}
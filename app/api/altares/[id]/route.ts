@@ -0,0 +1,129 @@
+import { type NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { altarUpdateSchema, getAltarById } from '@/features/altar-catalog'
+import { deleteAltar, updateAltar } from '@/features/admin-altares/actions'
+import { getAdminAltarById } from '@/features/admin-altares/api'
+import { requireAdminApi } from '@/lib/auth/admin'
+import { withErrorContext } from '@/lib/error-reporting/context'
+import { actionErrorResponse } from '@/lib/utils/action-result'
+import { NotFoundError, ValidationError } from '@/lib/utils/app-errors'
+import { createErrorResponse, logError } from '@/lib/utils/error-handler'
+import { cachedJsonResponse, PUBLIC_CATALOG_CACHE_CONTROL } from '@/lib/utils/http-cache'
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+const INVALID_ID = 'Altar inválido'
+
+const NOT_FOUND = 'El altar no existe o fue eliminado'
+
+/**
+ * Get an active altar
+ * Response: { altar: Altar }
+ */
+export const GET = withErrorContext(
+  'GET /api/altares/[id]',
+  async (request: NextRequest, { params }: RouteContext) => {
+    const { id } = await params
+
+    if (!z.string().uuid().safeParse(id).success) {
+      return createErrorResponse(new ValidationError(INVALID_ID))
+    }
+
+    try {
+      const altar = await getAltarById(id)
+
+      if (!altar) {
+        return createErrorResponse(new NotFoundError(NOT_FOUND))
+      }
+
+      return cachedJsonResponse(request, { altar }, PUBLIC_CATALOG_CACHE_CONTROL)
+    } catch (error) {
+      logError(error, { altarId: id })
+      return createErrorResponse(error)
+    }
+  }
+)
+
+/**
+ * Update some fields of an altar (admins with catalog.write)
+ * Body: altarUpdateSchema; fields left out are not changed
+ * Response: { altar: Altar }
+ */
+export const PATCH = withErrorContext(
+  'PATCH /api/altares/[id]',
+  async (request: NextRequest, { params }: RouteContext) => {
+    const denied = await requireAdminApi('catalog.write')
+    if (denied) {
+      return denied
+    }
+
+    const { id } = await params
+
+    if (!z.string().uuid().safeParse(id).success) {
+      return createErrorResponse(new ValidationError(INVALID_ID))
+    }
+
+    const body = await request.json().catch(() => null)
+    const parsed = altarUpdateSchema.safeParse(body)
+
+    if (!parsed.success) {
+      return createErrorResponse(ValidationError.fromZodError(parsed.error))
+    }
+
+    try {
+      if (!(await getAdminAltarById(id))) {
+        return createErrorResponse(new NotFoundError(NOT_FOUND))
+      }
+    } catch (error) {
+      logError(error, { altarId: id })
+      return createErrorResponse(error)
+    }
+
+    const result = await updateAltar(id, body)
+
+    if (!result.success) {
+      return actionErrorResponse(result)
+    }
+
+    return NextResponse.json({ altar: result.data })
+  }
+)
+
+/**
+ * Soft-delete an altar (admins with catalog.write)
+ * Response: 204
+ */
+export const DELETE = withErrorContext(
+  'DELETE /api/altares/[id]',
+  async (_request: NextRequest, { params }: RouteContext) => {
+    const denied = await requireAdminApi('catalog.write')
+    if (denied) {
+      return denied
+    }
+
+    const { id } = await params
+
+    if (!z.string().uuid().safeParse(id).success) {
+      return createErrorResponse(new ValidationError(INVALID_ID))
+    }
+
+    try {
+      if (!(await getAdminAltarById(id))) {
+        return createErrorResponse(new NotFoundError(NOT_FOUND))
+      }
+    } catch (error) {
+      logError(error, { altarId: id })
+      return createErrorResponse(error)
+    }
+
+    const result = await deleteAltar(id)
+
+    if (!result.success) {
+      return actionErrorResponse(result)
+    }
+
+    return new NextResponse(null, { status: 204 })
+  }
+)
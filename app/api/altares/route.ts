@@ -0,0 +1,64 @@
+import { type NextRequest, NextResponse } from 'next/server'
+import { altarCreateSchema, altaresQuerySchema, getAltaresPage } from '@/features/altar-catalog'
+import { createAltar } from '@/features/admin-altares/actions'
+import { requireAdminApi } from '@/lib/auth/admin'
+import { ROUTES } from '@/lib/constants/routes'
+import { withErrorContext } from '@/lib/error-reporting/context'
+import { actionErrorResponse } from '@/lib/utils/action-result'
+import { ValidationError } from '@/lib/utils/app-errors'
+import { createErrorResponse, logError } from '@/lib/utils/error-handler'
+import { cachedJsonResponse, PUBLIC_CATALOG_CACHE_CONTROL } from '@/lib/utils/http-cache'
+
+/**
+ * List active altars, one page at a time
+ * Query: tipo, destacado (true|false), q (searches nombre and descripcion),
+ * orden (destacado|recientes|nombre), cursor (nextCursor of the previous page), limit (1-50)
+ * Response: { altares: Altar[], nextCursor: string | null }
+ */
+export const GET = withErrorContext('GET /api/altares', async (request: NextRequest) => {
+  const parsed = altaresQuerySchema.safeParse(Object.fromEntries(request.nextUrl.searchParams))
+
+  if (!parsed.success) {
+    return createErrorResponse(ValidationError.fromZodError(parsed.error))
+  }
+
+  const { cursor, limit, ...filters } = parsed.data
+
+  try {
+    const page = await getAltaresPage(filters, cursor, limit)
+    return cachedJsonResponse(request, page, PUBLIC_CATALOG_CACHE_CONTROL)
+  } catch (error) {
+    logError(error)
+    return createErrorResponse(error)
+  }
+})
+
+/**
+ * Create an altar (admins with catalog.write)
+ * Body: altarCreateSchema
+ * Response: 201 { altar: Altar }
+ */
+export const POST = withErrorContext('POST /api/altares', async (request: NextRequest) => {
+  const denied = await requireAdminApi('catalog.write')
+  if (denied) {
+    return denied
+  }
+
+  const body = await request.json().catch(() => null)
+  const parsed = altarCreateSchema.safeParse(body)
+
+  if (!parsed.success) {
+    return createErrorResponse(ValidationError.fromZodError(parsed.error))
+  }
+
+  const result = await createAltar(body)
+
+  if (!result.success) {
+    return actionErrorResponse(result)
+  }
+
+  return NextResponse.json(
+    { altar: result.data },
+    { status: 201, headers: { Location: ROUTES.API_ALTAR_BY_ID(result.data.id) } }
+  )
+})
@@ -0,0 +1,21 @@
+import { NextResponse } from 'next/server'
+import { requireAdminApi } from '@/lib/auth/admin'
+import { getCacheMetrics } from '@/lib/cache/cache'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * Cache hit and miss counts of this server instance (admins with users.manage)
+ * Response: { metrics: { [cachedFunction]: { hits, misses, hitRate } } }
+ * misses counts every run of the cached query, including the background refresh
+ * when the Next.js data cache serves a stale result; that call is not also
+ * counted as a hit, so hitRate slightly understates how often the cache answered.
+ */
+export async function GET() {
+  const denied = await requireAdminApi('users.manage')
+  if (denied) {
+    return denied
+  }
+
+  return NextResponse.json({ metrics: getCacheMetrics() })
+}
@@ -0,0 +1,53 @@
+import { type NextRequest, NextResponse } from 'next/server'
+import {
+  calculatePrice,
+  getPricingContext,
+  priceBreakdownSchema,
+  priceRequestBodySchema,
+} from '@/features/pricing'
+import { withErrorContext } from '@/lib/error-reporting/context'
+import { ValidationError } from '@/lib/utils/app-errors'
+import { createErrorResponse, logError } from '@/lib/utils/error-handler'
+
+/**
+ * Calculate the price of a configured altar
+ * Body: { grosor_id, altura, anchura, pintado, cantidad, items_extra, codigo_descuento? }
+ */
+export const POST = withErrorContext('POST /api/calcular-precio', async (request: NextRequest) => {
+  let body: unknown
+
+  try {
+    body = await request.json()
+  } catch {
+    return createErrorResponse({
+      message: 'El cuerpo de la solicitud no es JSON válido',
+      code: 'INVALID_JSON',
+      statusCode: 400,
+    })
+  }
+
+  const parsed = priceRequestBodySchema.safeParse(body)
+
+  if (!parsed.success) {
+    return createErrorResponse(ValidationError.fromZodError(parsed.error))
+  }
+
+  try {
+    const { codigo_descuento: codigo, ...priceRequest } = parsed.data
+    const context = await getPricingContext(
+      priceRequest.grosor_id,
+      priceRequest.items_extra.map((extra) => extra.item_id),
+      { codigo }
+    )
+    const result = calculatePrice(priceRequest, context, { codigo })
+
+    if (!result.success) {
+      return createErrorResponse(result.error)
+    }
+
+    return NextResponse.json(priceBreakdownSchema.parse(result.data))
+  } catch (error) {
+    logError(error)
+    return createErrorResponse(error)
+  }
+})
@@ -0,0 +1,21 @@
+import { NextResponse } from 'next/server'
+import { getItemsExtra } from '@/features/items-extra'
+import { withErrorContext } from '@/lib/error-reporting/context'
+import { createErrorResponse, logError } from '@/lib/utils/error-handler'
+
+// Static until an admin change or the revalidate webhook calls revalidatePath
+export const revalidate = false
+
+/**
+ * List the available extra items
+ * Response: { items: ItemExtra[] } sorted by tipo and nombre
+ */
+export const GET = withErrorContext('GET /api/items-extra', async () => {
+  try {
+    const items = await getItemsExtra()
+    return NextResponse.json({ items })
+  } catch (error) {
+    logError(error)
+    return createErrorResponse(error)
+  }
+})
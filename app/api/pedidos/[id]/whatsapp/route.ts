@@ -0,0 +1,32 @@
+import { type NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { markPedidoWhatsAppSent } from '@/features/checkout/api'
+import { withErrorContext } from '@/lib/error-reporting/context'
+import { ValidationError } from '@/lib/utils/app-errors'
+import { createErrorResponse, logError } from '@/lib/utils/error-handler'
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+/**
+ * Mark a pedido as sent by WhatsApp (whatsapp_enviado / whatsapp_enviado_at)
+ */
+export const POST = withErrorContext(
+  'POST /api/pedidos/[id]/whatsapp',
+  async (_request: NextRequest, { params }: RouteContext) => {
+    const { id } = await params
+
+    if (!z.string().uuid().safeParse(id).success) {
+      return createErrorResponse(new ValidationError('Pedido inválido'))
+    }
+
+    try {
+      const updated = await markPedidoWhatsAppSent(id)
+      return NextResponse.json({ updated })
+    } catch (error) {
+      logError(error, { pedidoId: id })
+      return createErrorResponse(error)
+    }
+  }
+)
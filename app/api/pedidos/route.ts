@@ -0,0 +1,32 @@
+import { type NextRequest, NextResponse } from 'next/server'
+import { createPedido } from '@/features/checkout/api'
+import { checkoutRequestSchema } from '@/features/checkout/schemas/checkout.schema'
+import { withErrorContext } from '@/lib/error-reporting/context'
+import { ValidationError } from '@/lib/utils/app-errors'
+import { createErrorResponse, logError } from '@/lib/utils/error-handler'
+
+/**
+ * Create a pedido from the checkout
+ * Body: customer data plus cart lines (ids and choices only); prices are
+ * recalculated server-side
+ */
+export const POST = withErrorContext('POST /api/pedidos', async (request: NextRequest) => {
+  const parsed = checkoutRequestSchema.safeParse(await request.json().catch(() => null))
+
+  if (!parsed.success) {
+    return createErrorResponse(ValidationError.fromZodError(parsed.error))
+  }
+
+  try {
+    const result = await createPedido(parsed.data)
+
+    if (!result.success) {
+      return createErrorResponse(result.error)
+    }
+
+    return NextResponse.json(result.data, { status: 201 })
+  } catch (error) {
+    logError(error)
+    return createErrorResponse(error)
+  }
+})
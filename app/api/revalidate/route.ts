@@ -0,0 +1,69 @@
+import { revalidatePath } from 'next/cache'
+import { type NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { revalidateAllAltarPages, revalidateAltarPages } from '@/features/altar-catalog'
+import { CACHE_TAGS } from '@/lib/cache/tags'
+import { ROUTES } from '@/lib/constants/routes'
+import { ValidationError } from '@/lib/utils/app-errors'
+import { createErrorResponse } from '@/lib/utils/error-handler'
+
+/**
+ * Supabase database webhook payload
+ * altares changes carry the slug; configuraciones, reglas_precio and
+ * items_extra changes affect every product page
+ */
+const webhookSchema = z.discriminatedUnion('table', [
+  z.object({
+    type: z.enum(['INSERT', 'UPDATE', 'DELETE']),
+    table: z.literal('altares'),
+    record: z.object({ slug: z.string() }).nullable(),
+    old_record: z.object({ slug: z.string() }).nullable(),
+  }),
+  z.object({
+    type: z.enum(['INSERT', 'UPDATE', 'DELETE']),
+    table: z.enum(['configuraciones', 'reglas_precio', 'items_extra']),
+  }),
+])
+
+// Cached data affected by each shared table (extras are not cached)
+const TABLE_CACHE_TAGS = {
+  configuraciones: [CACHE_TAGS.configuraciones],
+  reglas_precio: [CACHE_TAGS.precios],
+  items_extra: [],
+}
+
+/**
+ * On-demand revalidation of altar pages
+ * Called by a Supabase database webhook, authenticated
+ * with the x-revalidate-secret header
+ */
+export async function POST(request: NextRequest) {
+  const secret = process.env.REVALIDATE_SECRET
+
+  if (!secret || request.headers.get('x-revalidate-secret') !== secret) {
+    return createErrorResponse({
+      message: 'No autorizado',
+      code: 'UNAUTHORIZED',
+      statusCode: 401,
+    })
+  }
+
+  const parsed = webhookSchema.safeParse(await request.json().catch(() => null))
+
+  if (!parsed.success) {
+    return createErrorResponse(ValidationError.fromZodError(parsed.error, 'Payload inválido'))
+  }
+
+  if (parsed.data.table !== 'altares') {
+    await revalidateAllAltarPages(TABLE_CACHE_TAGS[parsed.data.table])
+    if (parsed.data.table === 'items_extra') {
+      revalidatePath(ROUTES.API_ITEMS_EXTRA)
+    }
+    return NextResponse.json({ revalidated: true, slugs: 'all' })
+  }
+
+  const slugs = [parsed.data.record?.slug, parsed.data.old_record?.slug]
+  await revalidateAltarPages(slugs)
+
+  return NextResponse.json({ revalidated: true, slugs: slugs.filter(Boolean) })
+}
@@ -0,0 +1,37 @@
+import { type NextRequest, NextResponse } from 'next/server'
+import { getAdminUser } from '@/lib/auth/admin'
+import { getSafeRedirectPath } from '@/lib/auth/redirect'
+import { ROUTES } from '@/lib/constants/routes'
+import { createClient } from '@/lib/supabase/server'
+import { logError } from '@/lib/utils/error-handler'
+
+/**
+ * Exchange the auth code from a magic link (or OAuth) for a session cookie
+ */
+export async function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl
+  const code = searchParams.get('code')
+  const next = getSafeRedirectPath(searchParams.get('next'))
+
+  const loginUrl = new URL(ROUTES.AUTH_LOGIN, request.url)
+  loginUrl.searchParams.set('error', 'link')
+  loginUrl.searchParams.set('next', next)
+
+  if (!code) {
+    return NextResponse.redirect(loginUrl)
+  }
+
+  const supabase = await createClient()
+  const { error } = await supabase.auth.exchangeCodeForSession(code)
+
+  if (error) {
+    logError(error, { route: 'GET /auth/callback' })
+    return NextResponse.redirect(loginUrl)
+  }
+
+  if (!(await getAdminUser())) {
+    return NextResponse.redirect(new URL(ROUTES.AUTH_NO_ACCESS, request.url))
+  }
+
+  return NextResponse.redirect(new URL(next, request.url))
+}
@@ -0,0 +1,44 @@
+import type { Metadata } from 'next'
+import { redirect } from 'next/navigation'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { LoginForm } from '@/features/auth'
+import { getAdminUser } from '@/lib/auth/admin'
+import { getSafeRedirectPath } from '@/lib/auth/redirect'
+import { BUSINESS_CONFIG } from '@/lib/constants/business-config'
+
+export const metadata: Metadata = {
+  title: `Iniciar sesión - ${BUSINESS_CONFIG.name}`,
+  robots: { index: false },
+}
+
+const ERROR_MESSAGES: Record<string, string> = {
+  link: 'El enlace no es válido o ya expiró. Pide uno nuevo.',
+}
+
+interface LoginPageProps {
+  searchParams: Promise<{ next?: string; error?: string }>
+}
+
+export default async function LoginPage({ searchParams }: LoginPageProps) {
+  const { next, error } = await searchParams
+
+  if (await getAdminUser()) {
+    redirect(getSafeRedirectPath(next))
+  }
+
+  return (
+    <div className="flex min-h-screen items-center justify-center px-4 py-12">
+      <Card className="w-full max-w-sm">
+        <CardHeader>
+          <CardTitle className="text-xl">Panel de {BUSINESS_CONFIG.name}</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {error && ERROR_MESSAGES[error] && (
+            <p className="mb-4 rounded-md bg-red-50 p-3 text-sm text-red-700">{ERROR_MESSAGES[error]}</p>
+          )}
+          <LoginForm next={next} />
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,61 @@
+import type { Metadata } from 'next'
+import Link from 'next/link'
+import { redirect } from 'next/navigation'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { LogoutButton } from '@/features/auth'
+import { getAdminUser } from '@/lib/auth/admin'
+import { ADMIN_ROLES } from '@/lib/auth/permissions'
+import { BUSINESS_CONFIG } from '@/lib/constants/business-config'
+import { ROUTES } from '@/lib/constants/routes'
+import { createClient } from '@/lib/supabase/server'
+
+export const metadata: Metadata = {
+  title: `Sin acceso - ${BUSINESS_CONFIG.name}`,
+  robots: { index: false },
+}
+
+export default async function NoAccessPage() {
+  const supabase = await createClient()
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+
+  if (!user) {
+    redirect(ROUTES.AUTH_LOGIN)
+  }
+
+  const admin = await getAdminUser()
+
+  return (
+    <div className="flex min-h-screen items-center justify-center px-4 py-12">
+      <Card className="w-full max-w-md text-center">
+        <CardHeader>
+          <CardTitle className="text-xl">No tienes acceso</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4 text-sm text-neutral-600">
+          {admin ? (
+            <p>
+              Tu rol, <strong className="text-neutral-900">{ADMIN_ROLES[admin.rol].label}</strong>, no
+              permite abrir esta sección. {ADMIN_ROLES[admin.rol].description}.
+            </p>
+          ) : (
+            <p>
+              Iniciaste sesión como <strong className="text-neutral-900">{user.email}</strong>, pero
+              esta cuenta no tiene acceso al panel de administración o fue desactivada.
+            </p>
+          )}
+          <p>Si crees que es un error, pide al dueño de la tienda que revise tu cuenta.</p>
+          <div className="flex justify-center gap-2 pt-2">
+            <Button asChild variant="outline" size="sm">
+              <Link href={admin ? ROUTES.ADMIN : ROUTES.HOME}>
+                {admin ? 'Volver al panel' : 'Ir a la tienda'}
+              </Link>
+            </Button>
+            <LogoutButton />
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
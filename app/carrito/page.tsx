@@ -0,0 +1,17 @@
+import type { Metadata } from 'next'
+import { CartView } from '@/features/cart'
+import { BUSINESS_CONFIG } from '@/lib/constants/business-config'
+
+export const metadata: Metadata = {
+  title: `Carrito - ${BUSINESS_CONFIG.name}`,
+  robots: { index: false },
+}
+
+export default function CartPage() {
+  return (
+    <div className="container mx-auto px-4 py-8 sm:px-6 lg:px-8">
+      <h1 className="mb-8 text-3xl font-bold tracking-tight text-neutral-900">Tu carrito</h1>
+      <CartView />
+    </div>
+  )
+}
@@ -0,0 +1,26 @@
+import type { Metadata } from 'next'
+import { CheckoutForm, CheckoutSummary } from '@/features/checkout'
+import { BUSINESS_CONFIG } from '@/lib/constants/business-config'
+
+export const metadata: Metadata = {
+  title: `Finalizar pedido - ${BUSINESS_CONFIG.name}`,
+  robots: { index: false },
+}
+
+export default function CheckoutPage() {
+  return (
+    <div className="container mx-auto px-4 py-8 sm:px-6 lg:px-8">
+      <h1 className="mb-2 text-3xl font-bold tracking-tight text-neutral-900">Finalizar pedido</h1>
+      <p className="mb-8 text-neutral-600">
+        Registramos tu pedido y lo enviamos por WhatsApp para confirmar los detalles.
+      </p>
+
+      <div className="grid gap-8 lg:grid-cols-3">
+        <div className="lg:col-span-2">
+          <CheckoutForm />
+        </div>
+        <CheckoutSummary />
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,39 @@
+import { ImageResponse } from 'next/og'
+import { BUSINESS_CONFIG } from '@/lib/constants/business-config'
+
+export const contentType = 'image/png'
+
+// Sizes referenced by the web app manifest
+const ICON_SIZES = [192, 512]
+
+export function generateImageMetadata() {
+  return ICON_SIZES.map((size) => ({
+    id: String(size),
+    size: { width: size, height: size },
+    contentType,
+  }))
+}
+
+export default function Icon({ id }: { id: string }) {
+  const size = Number(id)
+
+  // Letter kept inside the central 80%, the safe zone of maskable icons
+  return new ImageResponse(
+    <div
+      style={{
+        width: '100%',
+        height: '100%',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        background: BUSINESS_CONFIG.colors.primary,
+        color: BUSINESS_CONFIG.colors.accent,
+        fontSize: size * 0.5,
+        fontWeight: 700,
+      }}
+    >
+      {BUSINESS_CONFIG.shortName.charAt(0)}
+    </div>,
+    { width: size, height: size }
+  )
+}
@@ -1,5 +1,10 @@
-import type { Metadata } from "next";
+import type { Metadata, Viewport } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
+import { Toaster } from "@/components/ui/sonner";
+import { CartButton } from "@/features/cart/components/cart-button";
+import { CheckoutQueueSync } from "@/features/checkout/components/checkout-queue-sync";
+import { SITE_URL } from "@/features/seo";
+import { BUSINESS_CONFIG } from "@/lib/constants/business-config";
 import "./globals.css";
 
 const geistSans = Geist({
@@ -12,9 +17,22 @@ const geistMono = Geist_Mono({
   subsets: ["latin"],
 });
 
+// Defaults for every page; pages set their own title and description
 export const metadata: Metadata = {
-  title: "Create Next App",
-  description: "Generated by create next app",
+  metadataBase: new URL(SITE_URL),
+  title: `${BUSINESS_CONFIG.name} - ${BUSINESS_CONFIG.tagline}`,
+  description: BUSINESS_CONFIG.description,
+  applicationName: BUSINESS_CONFIG.name,
+  openGraph: {
+    type: "website",
+    locale: "es_MX",
+    siteName: BUSINESS_CONFIG.name,
+  },
+  twitter: { card: "summary_large_image" },
+};
+
+export const viewport: Viewport = {
+  themeColor: BUSINESS_CONFIG.colors.primary,
 };
 
 export default function RootLayout({
@@ -28,6 +46,9 @@ export default function RootLayout({
         className={`${geistSans.variable} ${geistMono.variable} antialiased`}
       >
         {children}
+        <CartButton />
+        <CheckoutQueueSync />
+        <Toaster />
       </body>
     </html>
   );
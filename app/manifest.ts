@@ -0,0 +1,27 @@
+import type { MetadataRoute } from 'next'
+import { BUSINESS_CONFIG } from '@/lib/constants/business-config'
+import { ROUTES } from '@/lib/constants/routes'
+
+/**
+ * Web app manifest, so the store can be installed on phones
+ */
+export default function manifest(): MetadataRoute.Manifest {
+  return {
+    name: BUSINESS_CONFIG.name,
+    short_name: BUSINESS_CONFIG.shortName,
+    description: BUSINESS_CONFIG.description,
+    lang: 'es-MX',
+    start_url: ROUTES.HOME,
+    scope: ROUTES.HOME,
+    display: 'standalone',
+    background_color: BUSINESS_CONFIG.colors.background,
+    theme_color: BUSINESS_CONFIG.colors.primary,
+    categories: ['shopping'],
+    // Generated by app/icon.tsx
+    icons: [
+      { src: '/icon/192', sizes: '192x192', type: 'image/png' },
+      { src: '/icon/512', sizes: '512x512', type: 'image/png' },
+      { src: '/icon/512', sizes: '512x512', type: 'image/png', purpose: 'maskable' },
+    ],
+  }
+}
@@ -0,0 +1,44 @@
+import type { Metadata } from 'next'
+import Link from 'next/link'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { BUSINESS_CONFIG } from '@/lib/constants/business-config'
+import { ROUTES } from '@/lib/constants/routes'
+
+export const metadata: Metadata = {
+  title: `Sin conexión - ${BUSINESS_CONFIG.name}`,
+  robots: { index: false },
+}
+
+/**
+ * Served by the service worker for pages that were not cached before going offline
+ */
+export default function OfflinePage() {
+  return (
+    <div className="flex min-h-screen items-center justify-center px-4 py-12">
+      <Card className="w-full max-w-md text-center">
+        <CardHeader>
+          <CardTitle className="text-xl">Sin conexión</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4 text-sm text-neutral-600">
+          <p>
+            Esta página no está disponible sin internet. Puedes seguir viendo los altares que ya
+            abriste y tu carrito.
+          </p>
+          <p>
+            Si envías tu pedido sin conexión, lo guardamos y se registrará cuando vuelvas a estar en
+            línea.
+          </p>
+          <div className="flex justify-center gap-2 pt-2">
+            <Button asChild variant="outline" size="sm">
+              <Link href={ROUTES.HOME}>Ver catálogo</Link>
+            </Button>
+            <Button asChild size="sm">
+              <Link href={ROUTES.CART}>Ir al carrito</Link>
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
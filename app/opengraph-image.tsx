@@ -0,0 +1,18 @@
+import { ImageResponse } from 'next/og'
+import { OG_IMAGE_SIZE, OgImage } from '@/features/seo'
+import { BUSINESS_CONFIG } from '@/lib/constants/business-config'
+
+export const alt = `${BUSINESS_CONFIG.name} - ${BUSINESS_CONFIG.tagline}`
+export const size = OG_IMAGE_SIZE
+export const contentType = 'image/png'
+
+export default function Image() {
+  return new ImageResponse(
+    <OgImage
+      eyebrow={BUSINESS_CONFIG.tagline}
+      title={BUSINESS_CONFIG.name}
+      subtitle={BUSINESS_CONFIG.deliveryInfo.message}
+    />,
+    size
+  )
+}
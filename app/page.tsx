@@ -1,24 +1,44 @@
 import type { Metadata } from 'next'
-import { getAltares } from '@/features/altar-catalog'
+import {
+  type AltarCounts,
+  type AltaresPage,
+  catalogFiltersSchema,
+  getAltarCountsByType,
+  getAltaresPage,
+} from '@/features/altar-catalog'
 import { CatalogClient } from '@/features/altar-catalog/components/catalog-client'
 import { BUSINESS_CONFIG } from '@/lib/constants/business-config'
+import { logError } from '@/lib/utils/error-handler'
 
 export const metadata: Metadata = {
   title: `${BUSINESS_CONFIG.name} - Altares de Día de Muertos en MDF`,
   description: BUSINESS_CONFIG.description,
 }
 
-export default async function Home() {
-  // Fetch altares from database (with Redis cache)
-  let altares
+interface HomeProps {
+  searchParams: Promise<Record<string, string | string[] | undefined>>
+}
+
+export default async function Home({ searchParams }: HomeProps) {
+  const filters = catalogFiltersSchema.parse(await searchParams)
+
+  // Only the first page ships with the HTML; the grid loads the rest on scroll
+  let page: AltaresPage
+  let counts: AltarCounts
   let error = null
 
   try {
-    altares = await getAltares()
+    const [firstPage, typeCounts] = await Promise.all([
+      getAltaresPage(filters),
+      getAltarCountsByType(filters.q),
+    ])
+    page = firstPage
+    counts = typeCounts
   } catch (e) {
-    console.error('Failed to load altares:', e)
+    logError(e, { source: 'Home', filters })
     error = e instanceof Error ? e.message : 'Error desconocido'
-    altares = []
+    page = { altares: [], nextCursor: null }
+    counts = { all: 0, seres_queridos: 0, bebes_no_nacidos: 0, mascotas: 0 }
   }
 
   return (
@@ -54,7 +74,7 @@ export default async function Home() {
       )}
 
       {/* Catalog */}
-      <CatalogClient altares={altares} />
+      <CatalogClient initialPage={page} counts={counts} filters={filters} />
     </div>
   )
 }
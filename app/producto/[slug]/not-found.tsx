@@ -0,0 +1,18 @@
+import Link from 'next/link'
+import { Button } from '@/components/ui/button'
+import { ROUTES } from '@/lib/constants/routes'
+
+export default function ProductNotFound() {
+  return (
+    <div className="container mx-auto flex min-h-[60vh] flex-col items-center justify-center px-4 text-center">
+      <div className="text-6xl">🏛️</div>
+      <h1 className="mt-4 text-2xl font-bold text-neutral-900">Altar no encontrado</h1>
+      <p className="mt-2 text-neutral-600">
+        Este altar no existe o ya no está disponible.
+      </p>
+      <Button asChild className="mt-6">
+        <Link href={ROUTES.HOME}>Ver catálogo</Link>
+      </Button>
+    </div>
+  )
+}
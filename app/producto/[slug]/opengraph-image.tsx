@@ -0,0 +1,45 @@
+import { ImageResponse } from 'next/og'
+import { getAltarBySlug } from '@/features/altar-catalog'
+import { getConfiguratorData, getPriceRange } from '@/features/altar-configurator'
+import { OG_IMAGE_SIZE, OgImage } from '@/features/seo'
+import { BUSINESS_CONFIG, MODEL_TYPES } from '@/lib/constants/business-config'
+import { formatCurrency } from '@/lib/utils/format-currency'
+
+// Rendered per request, so the card always shows the current name and price
+export const dynamic = 'force-dynamic'
+
+export const alt = `Altar de Día de Muertos de ${BUSINESS_CONFIG.name}`
+export const size = OG_IMAGE_SIZE
+export const contentType = 'image/png'
+
+interface ImageProps {
+  params: Promise<{ slug: string }>
+}
+
+export default async function Image({ params }: ImageProps) {
+  const { slug } = await params
+  const [altar, configuratorData] = await Promise.all([
+    getAltarBySlug(slug),
+    getConfiguratorData().catch(() => null),
+  ])
+
+  if (!altar) {
+    return new ImageResponse(
+      <OgImage eyebrow={BUSINESS_CONFIG.tagline} title={BUSINESS_CONFIG.name} />,
+      size
+    )
+  }
+
+  const priceRange =
+    configuratorData &&
+    getPriceRange(configuratorData.configuraciones, configuratorData.reglasPrecio)
+
+  return new ImageResponse(
+    <OgImage
+      eyebrow={MODEL_TYPES[altar.modelo_tipo].label}
+      title={altar.nombre}
+      subtitle={priceRange ? `Desde ${formatCurrency(priceRange.min)}` : undefined}
+    />,
+    size
+  )
+}
@@ -0,0 +1,138 @@
+import type { Metadata } from 'next'
+import Link from 'next/link'
+import { notFound } from 'next/navigation'
+import { cache } from 'react'
+import { Badge } from '@/components/ui/badge'
+import { Separator } from '@/components/ui/separator'
+import {
+  AltarGallery,
+  AltarIncludedItems,
+  getActiveAltarSlugs,
+  getAltarBySlug,
+} from '@/features/altar-catalog'
+import {
+  AltarConfigurator,
+  getConfiguratorData,
+  getPriceRange,
+} from '@/features/altar-configurator'
+import { buildProductJsonLd, JsonLd } from '@/features/seo'
+import { BUSINESS_CONFIG, MODEL_TYPES } from '@/lib/constants/business-config'
+import { ROUTES } from '@/lib/constants/routes'
+import { logError } from '@/lib/utils/error-handler'
+
+interface ProductPageProps {
+  params: Promise<{ slug: string }>
+}
+
+// Pages are regenerated on demand through /api/revalidate
+export const revalidate = false
+export const dynamicParams = true
+
+// Deduplicate the query between generateMetadata and the page
+const getAltar = cache(getAltarBySlug)
+
+export async function generateStaticParams() {
+  const slugs = await getActiveAltarSlugs()
+  return slugs.map((slug) => ({ slug }))
+}
+
+export async function generateMetadata({ params }: ProductPageProps): Promise<Metadata> {
+  const { slug } = await params
+  const altar = await getAltar(slug)
+
+  if (!altar) {
+    return { title: `Altar no encontrado - ${BUSINESS_CONFIG.name}` }
+  }
+
+  const title = altar.meta_titulo ?? `${altar.nombre} - ${BUSINESS_CONFIG.name}`
+  const description = altar.meta_descripcion ?? altar.descripcion ?? BUSINESS_CONFIG.description
+
+  return {
+    title,
+    description,
+    alternates: { canonical: ROUTES.PRODUCT_DETAIL(altar.slug) },
+    // The image comes from opengraph-image.tsx
+    openGraph: { title, description },
+  }
+}
+
+export default async function ProductPage({ params }: ProductPageProps) {
+  const { slug } = await params
+  const altar = await getAltar(slug)
+
+  if (!altar) {
+    notFound()
+  }
+
+  const modelType = MODEL_TYPES[altar.modelo_tipo]
+  const configuratorData = await getConfiguratorData().catch((error) => {
+    logError(error, { source: 'getConfiguratorData', slug })
+    return null
+  })
+  const priceRange =
+    configuratorData &&
+    getPriceRange(configuratorData.configuraciones, configuratorData.reglasPrecio)
+
+  return (
+    <div className="container mx-auto px-4 py-8 sm:px-6 lg:px-8">
+      <JsonLd data={buildProductJsonLd(altar, priceRange)} />
+      <nav className="mb-6 text-sm text-neutral-600">
+        <Link href={ROUTES.HOME} className="hover:text-neutral-900">
+          Catálogo
+        </Link>
+        <span className="mx-2">/</span>
+        <span className="text-neutral-900">{altar.nombre}</span>
+      </nav>
+
+      <div className="grid gap-8 lg:grid-cols-2">
+        {/* Gallery */}
+        <AltarGallery altar={altar} />
+
+        {/* Details */}
+        <div className="space-y-6">
+          <div>
+            <div className="flex flex-wrap gap-2">
+              <Badge variant="secondary">
+                <span className="mr-1">{modelType.icon}</span>
+                {modelType.label}
+              </Badge>
+              {altar.destacado && <Badge variant="destructive">Destacado</Badge>}
+            </div>
+            <h1 className="mt-3 text-3xl font-bold tracking-tight text-neutral-900 sm:text-4xl">
+              {altar.nombre}
+            </h1>
+            <p className="mt-2 text-neutral-600">{modelType.description}</p>
+          </div>
+
+          {altar.descripcion && (
+            <p className="whitespace-pre-line text-neutral-700">{altar.descripcion}</p>
+          )}
+
+          {configuratorData ? (
+            <AltarConfigurator
+              altar={altar}
+              configuraciones={configuratorData.configuraciones}
+              reglasPrecio={configuratorData.reglasPrecio}
+              itemsExtra={configuratorData.itemsExtra}
+            />
+          ) : (
+            <p className="rounded-lg border border-amber-200 bg-amber-50 p-4 text-sm text-amber-800">
+              Las opciones de configuración no están disponibles en este momento.
+            </p>
+          )}
+
+          <Separator />
+
+          <AltarIncludedItems altar={altar} />
+
+          <Separator />
+
+          <div className="rounded-lg bg-neutral-50 p-4 text-sm text-neutral-600">
+            <p>{BUSINESS_CONFIG.deliveryInfo.message}</p>
+            <p className="mt-1">Tiempo estimado: {BUSINESS_CONFIG.deliveryInfo.estimatedDays}</p>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,18 @@
+import type { MetadataRoute } from 'next'
+import { absoluteUrl, SITE_URL } from '@/features/seo'
+import { ROUTES } from '@/lib/constants/routes'
+
+/**
+ * Keep crawlers out of the admin panel and the login pages
+ */
+export default function robots(): MetadataRoute.Robots {
+  return {
+    rules: {
+      userAgent: '*',
+      allow: ROUTES.HOME,
+      disallow: [ROUTES.ADMIN, '/auth'],
+    },
+    sitemap: absoluteUrl(ROUTES.SITEMAP),
+    host: SITE_URL,
+  }
+}
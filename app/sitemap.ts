@@ -0,0 +1,29 @@
+import type { MetadataRoute } from 'next'
+import { getAltarImages, getAltares } from '@/features/altar-catalog'
+import { absoluteUrl } from '@/features/seo'
+import { ROUTES } from '@/lib/constants/routes'
+
+// Regenerated when altars change (revalidateAltarPages)
+export const revalidate = false
+
+/**
+ * Catalog and every active altar page
+ */
+export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
+  const altares = await getAltares()
+
+  return [
+    {
+      url: absoluteUrl(ROUTES.HOME),
+      changeFrequency: 'daily',
+      priority: 1,
+    },
+    ...altares.map((altar) => ({
+      url: absoluteUrl(ROUTES.PRODUCT_DETAIL(altar.slug)),
+      lastModified: altar.updated_at,
+      changeFrequency: 'weekly' as const,
+      priority: altar.destacado ? 0.9 : 0.7,
+      images: getAltarImages(altar),
+    })),
+  ]
+}
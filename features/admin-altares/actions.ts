@@ -0,0 +1,253 @@
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import { z } from 'zod'
+import {
+  type Altar,
+  altarCreateSchema,
+  altarSchema,
+  altarUpdateSchema,
+} from '@/features/altar-catalog/schemas/altar.schema'
+import { getAltarImages } from '@/features/altar-catalog/images'
+import { revalidateAltarPages } from '@/features/altar-catalog/revalidate'
+import { getAuthorizedAdmin } from '@/lib/auth/admin'
+import { ROUTES } from '@/lib/constants/routes'
+import { createClient } from '@/lib/supabase/server'
+import {
+  type ActionResult,
+  actionError,
+  actionForbidden,
+  actionSuccess,
+  actionValidationError,
+} from '@/lib/utils/action-result'
+import { ConflictError, NotFoundError, ValidationError } from '@/lib/utils/app-errors'
+import { logError } from '@/lib/utils/error-handler'
+import { getAdminAltarById, isSlugTaken, suggestSlug } from './api'
+import { removeUnusedImages, sweepAbandonedUploads } from './image-cleanup'
+
+const idSchema = z.string().uuid()
+
+const SLUG_TAKEN_ERROR = actionError(
+  new ConflictError('Revisa los campos marcados', {
+    fieldErrors: { slug: 'Este slug ya está en uso por otro altar' },
+  })
+)
+
+async function revalidateAdminAltares(slugs: Array<string | null | undefined>) {
+  revalidatePath(ROUTES.ADMIN_ALTARES)
+  await revalidateAltarPages(slugs)
+}
+
+// Metadata is kept only for images the altar still shows
+function pruneImagenesMeta(
+  altar: Pick<Altar, 'imagen_principal' | 'imagenes_galeria' | 'imagenes_meta'>
+): Altar['imagenes_meta'] {
+  const images = new Set(getAltarImages(altar))
+  return Object.fromEntries(
+    Object.entries(altar.imagenes_meta).filter(([url]) => images.has(url))
+  )
+}
+
+// Storage cleanup never fails the save; leftovers are swept on a later delete
+async function cleanUpImages(removed: string[], context: Record<string, unknown>) {
+  try {
+    await removeUnusedImages(removed)
+  } catch (error) {
+    logError(error, { ...context, step: 'removeUnusedImages' })
+  }
+}
+
+/**
+ * Suggest a unique slug for a name (used by the form's auto-generation)
+ */
+export async function suggestAltarSlug(
+  nombre: string,
+  excludeId?: string
+): Promise<ActionResult<string>> {
+  if (!(await getAuthorizedAdmin('catalog.write'))) {
+    return actionForbidden()
+  }
+
+  try {
+    return actionSuccess(await suggestSlug(nombre, excludeId))
+  } catch (error) {
+    return actionError(error, { action: 'suggestAltarSlug' })
+  }
+}
+
+/**
+ * Create an altar
+ * @param input - Form values validated with altarCreateSchema
+ */
+export async function createAltar(input: unknown): Promise<ActionResult<Altar>> {
+  if (!(await getAuthorizedAdmin('catalog.write'))) {
+    return actionForbidden()
+  }
+
+  const parsed = altarCreateSchema.safeParse(input)
+  if (!parsed.success) {
+    return actionValidationError(parsed.error)
+  }
+
+  try {
+    if (await isSlugTaken(parsed.data.slug)) {
+      return SLUG_TAKEN_ERROR
+    }
+
+    const supabase = await createClient()
+    const { data, error } = await supabase
+      .from('altares')
+      .insert({ ...parsed.data, imagenes_meta: pruneImagenesMeta(parsed.data) })
+      .select('*')
+      .single()
+
+    if (error) {
+      throw error
+    }
+
+    const altar = altarSchema.parse(data)
+    await revalidateAdminAltares([altar.slug])
+    return actionSuccess(altar)
+  } catch (error) {
+    return actionError(error, { action: 'createAltar' })
+  }
+}
+
+/**
+ * Update an altar
+ * @param id - Altar UUID
+ * @param input - Partial values validated with altarUpdateSchema
+ */
+export async function updateAltar(id: string, input: unknown): Promise<ActionResult<Altar>> {
+  if (!(await getAuthorizedAdmin('catalog.write'))) {
+    return actionForbidden()
+  }
+
+  if (!idSchema.safeParse(id).success) {
+    return actionError(new ValidationError('Altar inválido'))
+  }
+
+  const parsed = altarUpdateSchema.safeParse(input)
+  if (!parsed.success) {
+    return actionValidationError(parsed.error)
+  }
+
+  // .partial() still applies the create defaults, so keep only the fields sent
+  const sent = input as Record<string, unknown>
+  const changes = Object.fromEntries(
+    Object.entries(parsed.data).filter(([key]) => key in sent)
+  )
+
+  try {
+    const current = await getAdminAltarById(id)
+    if (!current) {
+      return actionError(new NotFoundError('El altar no existe o fue eliminado'))
+    }
+
+    if (changes.slug && changes.slug !== current.slug && (await isSlugTaken(String(changes.slug), id))) {
+      return SLUG_TAKEN_ERROR
+    }
+
+    const imagesChanged = ['imagen_principal', 'imagenes_galeria', 'imagenes_meta'].some(
+      (key) => key in changes
+    )
+    if (imagesChanged) {
+      changes.imagenes_meta = pruneImagenesMeta({ ...current, ...changes } as Altar)
+    }
+
+    const supabase = await createClient()
+    const { data, error } = await supabase
+      .from('altares')
+      .update(changes)
+      .eq('id', id)
+      .select('*')
+      .single()
+
+    if (error) {
+      throw error
+    }
+
+    const altar = altarSchema.parse(data)
+    await revalidateAdminAltares([altar.slug, current.slug])
+
+    if (imagesChanged) {
+      const kept = new Set(getAltarImages(altar))
+      await cleanUpImages(
+        getAltarImages(current).filter((url) => !kept.has(url)),
+        { action: 'updateAltar', altarId: id }
+      )
+    }
+
+    return actionSuccess(altar)
+  } catch (error) {
+    return actionError(error, { action: 'updateAltar', altarId: id })
+  }
+}
+
+/**
+ * Toggle the activo or destacado flag of an altar
+ * @param id - Altar UUID
+ * @param field - Flag to change
+ * @param value - New value
+ */
+export async function setAltarFlag(
+  id: string,
+  field: 'activo' | 'destacado',
+  value: boolean
+): Promise<ActionResult<Altar>> {
+  return updateAltar(id, { [field]: value })
+}
+
+/**
+ * Soft-delete an altar: hidden everywhere, row kept for order history
+ * Its uploaded images are removed from Storage, along with abandoned uploads
+ * @param id - Altar UUID
+ */
+export async function deleteAltar(id: string): Promise<ActionResult> {
+  if (!(await getAuthorizedAdmin('catalog.write'))) {
+    return actionForbidden()
+  }
+
+  if (!idSchema.safeParse(id).success) {
+    return actionError(new ValidationError('Altar inválido'))
+  }
+
+  try {
+    const current = await getAdminAltarById(id)
+
+    const supabase = await createClient()
+    const { data, error } = await supabase
+      .from('altares')
+      .update({
+        activo: false,
+        destacado: false,
+        eliminado_at: new Date().toISOString(),
+        imagen_principal: null,
+        imagenes_galeria: null,
+        imagenes_meta: {},
+      })
+      .eq('id', id)
+      .is('eliminado_at', null)
+      .select('slug')
+      .maybeSingle()
+
+    if (error) {
+      throw error
+    }
+
+    await revalidateAdminAltares([data?.slug])
+
+    if (current) {
+      await cleanUpImages(getAltarImages(current), { action: 'deleteAltar', altarId: id })
+    }
+    try {
+      await sweepAbandonedUploads()
+    } catch (sweepError) {
+      logError(sweepError, { action: 'deleteAltar', altarId: id, step: 'sweepAbandonedUploads' })
+    }
+
+    return actionSuccess(undefined)
+  } catch (error) {
+    return actionError(error, { action: 'deleteAltar', altarId: id })
+  }
+}
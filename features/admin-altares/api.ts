@@ -0,0 +1,100 @@
+import { type Altar, altarSchema } from '@/features/altar-catalog/schemas/altar.schema'
+import { createClient } from '@/lib/supabase/server'
+import { logError } from '@/lib/utils/error-handler'
+import { slugify, uniqueSlug } from '@/lib/utils/slugify'
+
+/**
+ * Fetch every non-deleted altar, including inactive ones (admin only via RLS)
+ * @returns Array of altars, newest first
+ */
+export async function getAdminAltares(): Promise<Altar[]> {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase
+    .from('altares')
+    .select('*')
+    .is('eliminado_at', null)
+    .order('created_at', { ascending: false })
+
+  if (error) {
+    logError(error, { source: 'getAdminAltares' })
+    throw new Error('Failed to fetch altares')
+  }
+
+  return data.map((altar) => altarSchema.parse(altar))
+}
+
+/**
+ * Fetch a non-deleted altar by ID, active or not (admin only via RLS)
+ * @param id - Altar UUID
+ * @returns Altar or null
+ */
+export async function getAdminAltarById(id: string): Promise<Altar | null> {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase
+    .from('altares')
+    .select('*')
+    .eq('id', id)
+    .is('eliminado_at', null)
+    .maybeSingle()
+
+  if (error) {
+    logError(error, { source: 'getAdminAltarById', altarId: id })
+    throw new Error('Failed to fetch altar')
+  }
+
+  return data ? altarSchema.parse(data) : null
+}
+
+/**
+ * Check whether a slug is used by another altar
+ * Soft-deleted altars keep their slug, so they count as taken
+ * @param slug - Slug to check
+ * @param excludeId - Altar being edited
+ */
+export async function isSlugTaken(slug: string, excludeId?: string): Promise<boolean> {
+  const supabase = await createClient()
+
+  let query = supabase.from('altares').select('id').eq('slug', slug)
+  if (excludeId) {
+    query = query.neq('id', excludeId)
+  }
+
+  const { data, error } = await query
+
+  if (error) {
+    logError(error, { source: 'isSlugTaken', slug })
+    throw new Error('Failed to check slug')
+  }
+
+  return data.length > 0
+}
+
+/**
+ * Suggest a unique slug for an altar name
+ * @param nombre - Altar name
+ * @param excludeId - Altar being edited
+ * @returns Slug from nombre, suffixed with -2, -3... when taken
+ */
+export async function suggestSlug(nombre: string, excludeId?: string): Promise<string> {
+  const base = slugify(nombre) || 'altar'
+  const supabase = await createClient()
+
+  let query = supabase.from('altares').select('slug').like('slug', `${base}%`)
+  if (excludeId) {
+    query = query.neq('id', excludeId)
+  }
+
+  const { data, error } = await query
+
+  if (error) {
+    logError(error, { source: 'suggestSlug', nombre })
+    throw new Error('Failed to suggest slug')
+  }
+
+  return uniqueSlug(
+    base,
+    data.map((row) => row.slug as string)
+  )
+}
@@ -0,0 +1,351 @@
+'use client'
+
+import { zodResolver } from '@hookform/resolvers/zod'
+import { useRouter } from 'next/navigation'
+import { useEffect, useRef, useState } from 'react'
+import { useForm } from 'react-hook-form'
+import { toast } from 'sonner'
+import type { z } from 'zod'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form'
+import { Input } from '@/components/ui/input'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  type Altar,
+  type AltarCreate,
+  altarCreateSchema,
+  ModelTypeEnum,
+} from '@/features/altar-catalog/schemas/altar.schema'
+import { MODEL_TYPES } from '@/lib/constants/business-config'
+import { ROUTES } from '@/lib/constants/routes'
+import type { ActionResult } from '@/lib/utils/action-result'
+import { createAltar, suggestAltarSlug, updateAltar } from '../actions'
+import { AltarImagesField } from './altar-images-field'
+
+type AltarFormValues = z.input<typeof altarCreateSchema>
+
+const INCLUDED_FIELDS = [
+  { name: 'panes_incluidos', label: 'Panes' },
+  { name: 'vasos_incluidos', label: 'Vasos' },
+  { name: 'calaveras_incluidas', label: 'Calaveras' },
+  { name: 'portaretratos_incluidos', label: 'Portarretratos' },
+] as const
+
+const SLUG_SUGGESTION_DELAY_MS = 400
+
+interface AltarFormProps {
+  altar?: Altar
+}
+
+function toFormValues(altar?: Altar): AltarFormValues {
+  return {
+    nombre: altar?.nombre ?? '',
+    slug: altar?.slug ?? '',
+    descripcion: altar?.descripcion ?? null,
+    modelo_tipo: altar?.modelo_tipo ?? 'seres_queridos',
+    panes_incluidos: altar?.panes_incluidos ?? 2,
+    vasos_incluidos: altar?.vasos_incluidos ?? 1,
+    calaveras_incluidas: altar?.calaveras_incluidas ?? 1,
+    portaretratos_incluidos: altar?.portaretratos_incluidos ?? 1,
+    imagen_principal: altar?.imagen_principal ?? null,
+    imagenes_galeria: altar?.imagenes_galeria ?? null,
+    imagenes_meta: altar?.imagenes_meta ?? {},
+    activo: altar?.activo ?? true,
+    destacado: altar?.destacado ?? false,
+    meta_titulo: altar?.meta_titulo ?? null,
+    meta_descripcion: altar?.meta_descripcion ?? null,
+  }
+}
+
+// Empty inputs map to null so nullable columns are cleared rather than set to ''
+function emptyToNull(value: string): string | null {
+  return value.trim() === '' ? null : value
+}
+
+export function AltarForm({ altar }: AltarFormProps) {
+  const router = useRouter()
+  const [submitError, setSubmitError] = useState<string | null>(null)
+  const [isUploading, setIsUploading] = useState(false)
+  // New altars follow the name until the slug is edited by hand
+  const slugEdited = useRef(Boolean(altar))
+
+  const form = useForm<AltarFormValues, unknown, AltarCreate>({
+    resolver: zodResolver(altarCreateSchema),
+    defaultValues: toFormValues(altar),
+  })
+
+  const nombre = form.watch('nombre')
+  const [imagenPrincipal, imagenesGaleria, imagenesMeta] = form.watch([
+    'imagen_principal',
+    'imagenes_galeria',
+    'imagenes_meta',
+  ])
+
+  useEffect(() => {
+    if (slugEdited.current || !nombre.trim()) {
+      return
+    }
+
+    const timeout = setTimeout(async () => {
+      const result = await suggestAltarSlug(nombre, altar?.id)
+      if (result.success && !slugEdited.current) {
+        form.setValue('slug', result.data, { shouldValidate: true })
+      }
+    }, SLUG_SUGGESTION_DELAY_MS)
+
+    return () => clearTimeout(timeout)
+  }, [nombre, altar?.id, form])
+
+  const onSubmit = async (values: AltarCreate) => {
+    setSubmitError(null)
+
+    const result: ActionResult<Altar> = altar
+      ? await updateAltar(altar.id, values)
+      : await createAltar(values)
+
+    if (!result.success) {
+      setSubmitError(result.error)
+      for (const [field, message] of Object.entries(result.fieldErrors ?? {})) {
+        form.setError(field as keyof AltarFormValues, { message })
+      }
+      return
+    }
+
+    toast.success(altar ? 'Altar actualizado' : 'Altar creado')
+    router.push(ROUTES.ADMIN_ALTARES)
+    router.refresh()
+  }
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+        <div className="grid gap-4 sm:grid-cols-2">
+          <FormField
+            control={form.control}
+            name="nombre"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Nombre</FormLabel>
+                <FormControl>
+                  <Input {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="slug"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Slug</FormLabel>
+                <FormControl>
+                  <Input
+                    {...field}
+                    className="font-mono"
+                    onChange={(event) => {
+                      slugEdited.current = event.target.value !== ''
+                      field.onChange(event)
+                    }}
+                  />
+                </FormControl>
+                <FormDescription>URL: {ROUTES.PRODUCT_DETAIL(field.value || '…')}</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <FormField
+          control={form.control}
+          name="modelo_tipo"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Tipo de modelo</FormLabel>
+              <Select value={field.value} onValueChange={field.onChange}>
+                <FormControl>
+                  <SelectTrigger className="w-full sm:w-64">
+                    <SelectValue />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {ModelTypeEnum.options.map((tipo) => (
+                    <SelectItem key={tipo} value={tipo}>
+                      {MODEL_TYPES[tipo].icon} {MODEL_TYPES[tipo].label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="descripcion"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Descripción</FormLabel>
+              <FormControl>
+                <Textarea
+                  rows={4}
+                  {...field}
+                  value={field.value ?? ''}
+                  onChange={(event) => field.onChange(emptyToNull(event.target.value))}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <fieldset>
+          <legend className="text-sm font-medium text-neutral-900">Incluye</legend>
+          <div className="mt-2 grid grid-cols-2 gap-4 sm:grid-cols-4">
+            {INCLUDED_FIELDS.map(({ name, label }) => (
+              <FormField
+                key={name}
+                control={form.control}
+                name={name}
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{label}</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min={0}
+                        {...field}
+                        onChange={(event) => field.onChange(event.target.valueAsNumber)}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            ))}
+          </div>
+        </fieldset>
+
+        <FormField
+          control={form.control}
+          name="imagenes_galeria"
+          render={() => (
+            <FormItem>
+              <FormLabel>Imágenes</FormLabel>
+              <AltarImagesField
+                value={{
+                  imagen_principal: imagenPrincipal ?? null,
+                  imagenes_galeria: imagenesGaleria ?? null,
+                  imagenes_meta: imagenesMeta ?? {},
+                }}
+                onChange={(images) => {
+                  form.setValue('imagen_principal', images.imagen_principal, { shouldDirty: true })
+                  form.setValue('imagenes_galeria', images.imagenes_galeria, { shouldDirty: true })
+                  form.setValue('imagenes_meta', images.imagenes_meta, { shouldDirty: true })
+                }}
+                onUploadingChange={setIsUploading}
+                onUploadError={(message) =>
+                  message
+                    ? form.setError('imagenes_galeria', { message })
+                    : form.clearErrors('imagenes_galeria')
+                }
+              />
+              <FormDescription>
+                Arrastra para ordenar la galería y marca con la estrella la imagen principal.
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="grid gap-4 sm:grid-cols-2">
+          <FormField
+            control={form.control}
+            name="meta_titulo"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Meta título</FormLabel>
+                <FormControl>
+                  <Input
+                    {...field}
+                    value={field.value ?? ''}
+                    onChange={(event) => field.onChange(emptyToNull(event.target.value))}
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="meta_descripcion"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Meta descripción</FormLabel>
+                <FormControl>
+                  <Input
+                    {...field}
+                    value={field.value ?? ''}
+                    onChange={(event) => field.onChange(emptyToNull(event.target.value))}
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <div className="flex gap-6">
+          {(['activo', 'destacado'] as const).map((name) => (
+            <FormField
+              key={name}
+              control={form.control}
+              name={name}
+              render={({ field }) => (
+                <FormItem className="flex items-center gap-2">
+                  <FormControl>
+                    <Checkbox
+                      checked={field.value}
+                      onCheckedChange={(checked) => field.onChange(checked === true)}
+                    />
+                  </FormControl>
+                  <FormLabel>{name === 'activo' ? 'Activo' : 'Destacado'}</FormLabel>
+                </FormItem>
+              )}
+            />
+          ))}
+        </div>
+
+        {submitError && (
+          <p className="rounded-md bg-red-50 p-3 text-sm text-red-700">{submitError}</p>
+        )}
+
+        <div className="flex gap-2">
+          <Button type="submit" disabled={form.formState.isSubmitting || isUploading}>
+            {form.formState.isSubmitting ? 'Guardando…' : altar ? 'Guardar cambios' : 'Crear altar'}
+          </Button>
+          <Button type="button" variant="outline" onClick={() => router.push(ROUTES.ADMIN_ALTARES)}>
+            Cancelar
+          </Button>
+        </div>
+      </form>
+    </Form>
+  )
+}
@@ -0,0 +1,242 @@
+'use client'
+
+import { ArrowLeft, ArrowRight, ImagePlus, Star, X } from 'lucide-react'
+import Image from 'next/image'
+import { type ChangeEvent, useRef, useState } from 'react'
+import { toast } from 'sonner'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Skeleton } from '@/components/ui/skeleton'
+import { getAltarImages } from '@/features/altar-catalog/images'
+import type { Altar, ImagenMeta } from '@/features/altar-catalog/schemas/altar.schema'
+import { cn } from '@/lib/utils'
+import { uploadAltarImage } from '../image-upload'
+
+export type AltarImages = Pick<Altar, 'imagen_principal' | 'imagenes_galeria' | 'imagenes_meta'>
+
+interface AltarImagesFieldProps {
+  value: AltarImages
+  onChange: (value: AltarImages) => void
+  /** Reports uploads in progress, so the form can wait before saving */
+  onUploadingChange?: (uploading: boolean) => void
+  /** Reports the files that failed to upload, or null when a new batch starts */
+  onUploadError?: (message: string | null) => void
+}
+
+function move<T>(items: T[], from: number, to: number): T[] {
+  const next = [...items]
+  const [item] = next.splice(from, 1)
+  next.splice(to, 0, item)
+  return next
+}
+
+export function AltarImagesField({
+  value,
+  onChange,
+  onUploadingChange,
+  onUploadError,
+}: AltarImagesFieldProps) {
+  const fileInput = useRef<HTMLInputElement>(null)
+  const dragIndex = useRef<number | null>(null)
+  const [uploading, setUploading] = useState(0)
+  const [externalUrl, setExternalUrl] = useState('')
+
+  // The gallery holds every image in display order and the main one is marked;
+  // older altars may have a main image outside the gallery, shown first
+  const galeria = value.imagenes_galeria ?? []
+  const images =
+    value.imagen_principal && !galeria.includes(value.imagen_principal)
+      ? getAltarImages(value)
+      : galeria
+  const principal = value.imagen_principal ?? images[0] ?? null
+
+  const update = (next: string[], nextPrincipal: string | null, meta = value.imagenes_meta) => {
+    onChange({
+      imagen_principal: nextPrincipal && next.includes(nextPrincipal) ? nextPrincipal : (next[0] ?? null),
+      imagenes_galeria: next.length > 0 ? next : null,
+      imagenes_meta: meta,
+    })
+  }
+
+  // Uploaded images are added as they finish; value is stale by then, so the
+  // latest list is threaded through the loop
+  const onFiles = async (event: ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? [])
+    event.target.value = ''
+    if (files.length === 0) {
+      return
+    }
+
+    setUploading(files.length)
+    onUploadingChange?.(true)
+    onUploadError?.(null)
+
+    let next = images
+    let meta: Record<string, ImagenMeta> = { ...value.imagenes_meta }
+    const failed: string[] = []
+
+    for (const file of files) {
+      try {
+        const uploaded = await uploadAltarImage(file)
+        next = [...next, uploaded.url]
+        meta = { ...meta, [uploaded.url]: uploaded.meta }
+        update(next, principal ?? uploaded.url, meta)
+      } catch (error) {
+        failed.push(`${file.name}: ${error instanceof Error ? error.message : 'No se pudo subir'}`)
+      }
+      setUploading((count) => count - 1)
+    }
+
+    onUploadingChange?.(false)
+    if (failed.length > 0) {
+      onUploadError?.(failed.join('. '))
+    }
+  }
+
+  const addExternalUrl = () => {
+    const url = externalUrl.trim()
+    if (!URL.canParse(url)) {
+      toast.error('Escribe una URL válida')
+      return
+    }
+    if (!images.includes(url)) {
+      update([...images, url], principal)
+    }
+    setExternalUrl('')
+  }
+
+  return (
+    <div className="space-y-3">
+      {(images.length > 0 || uploading > 0) && (
+        <ul className="grid grid-cols-2 gap-3 sm:grid-cols-4">
+          {images.map((url, index) => {
+            const meta = value.imagenes_meta[url]
+            const isPrincipal = url === principal
+
+            return (
+              <li
+                key={url}
+                draggable
+                onDragStart={() => {
+                  dragIndex.current = index
+                }}
+                onDragOver={(event) => {
+                  event.preventDefault()
+                  const from = dragIndex.current
+                  if (from !== null && from !== index) {
+                    update(move(images, from, index), principal)
+                    dragIndex.current = index
+                  }
+                }}
+                onDragEnd={() => {
+                  dragIndex.current = null
+                }}
+                className={cn(
+                  'group relative aspect-square cursor-grab overflow-hidden rounded-md border-2 bg-neutral-100',
+                  isPrincipal ? 'border-neutral-900' : 'border-transparent'
+                )}
+              >
+                {/* Unoptimized so pasted URLs from any host preview too */}
+                <Image
+                  src={meta?.miniatura ?? url}
+                  alt={`Imagen ${index + 1}`}
+                  fill
+                  unoptimized
+                  className="object-cover"
+                />
+                {isPrincipal && (
+                  <Badge className="absolute top-1 left-1">Principal</Badge>
+                )}
+                <div className="absolute inset-x-1 bottom-1 flex justify-between gap-1 rounded bg-white/90 p-0.5">
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    disabled={index === 0}
+                    onClick={() => update(move(images, index, index - 1), principal)}
+                    aria-label={`Mover imagen ${index + 1} antes`}
+                  >
+                    <ArrowLeft className="size-4" />
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    disabled={isPrincipal}
+                    onClick={() => update(images, url)}
+                    aria-label={`Usar imagen ${index + 1} como principal`}
+                  >
+                    <Star className={cn('size-4', isPrincipal && 'fill-current')} />
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    disabled={index === images.length - 1}
+                    onClick={() => update(move(images, index, index + 1), principal)}
+                    aria-label={`Mover imagen ${index + 1} después`}
+                  >
+                    <ArrowRight className="size-4" />
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => update(images.filter((image) => image !== url), principal)}
+                    aria-label={`Quitar imagen ${index + 1}`}
+                  >
+                    <X className="size-4" />
+                  </Button>
+                </div>
+              </li>
+            )
+          })}
+          {Array.from({ length: uploading }, (_, i) => `subiendo-${images.length + i}`).map((key) => (
+            <li key={key}>
+              <Skeleton className="aspect-square w-full" />
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex flex-col gap-2 sm:flex-row">
+        <input
+          ref={fileInput}
+          type="file"
+          accept="image/*"
+          multiple
+          className="hidden"
+          onChange={onFiles}
+        />
+        <Button
+          type="button"
+          variant="outline"
+          disabled={uploading > 0}
+          onClick={() => fileInput.current?.click()}
+        >
+          <ImagePlus className="size-4" />
+          {uploading > 0 ? 'Subiendo…' : 'Subir imágenes'}
+        </Button>
+        <div className="flex flex-1 gap-2">
+          <Input
+            type="url"
+            value={externalUrl}
+            onChange={(event) => setExternalUrl(event.target.value)}
+            onKeyDown={(event) => {
+              if (event.key === 'Enter') {
+                event.preventDefault()
+                addExternalUrl()
+              }
+            }}
+            placeholder="O pega la URL de una imagen"
+            aria-label="URL de imagen"
+          />
+          <Button type="button" variant="secondary" disabled={!externalUrl.trim()} onClick={addExternalUrl}>
+            Agregar
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,163 @@
+'use client'
+
+import { Pencil, Trash2 } from 'lucide-react'
+import Link from 'next/link'
+import { useState, useTransition } from 'react'
+import { toast } from 'sonner'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import type { Altar } from '@/features/altar-catalog/schemas/altar.schema'
+import { MODEL_TYPES } from '@/lib/constants/business-config'
+import { ROUTES } from '@/lib/constants/routes'
+import { deleteAltar, setAltarFlag } from '../actions'
+
+interface AltaresTableProps {
+  altares: Altar[]
+  canEdit: boolean
+}
+
+export function AltaresTable({ altares, canEdit }: AltaresTableProps) {
+  const [isPending, startTransition] = useTransition()
+  const [toDelete, setToDelete] = useState<Altar | null>(null)
+
+  const toggleFlag = (altar: Altar, field: 'activo' | 'destacado', value: boolean) => {
+    startTransition(async () => {
+      const result = await setAltarFlag(altar.id, field, value)
+      if (!result.success) {
+        toast.error(result.error)
+      }
+    })
+  }
+
+  const confirmDelete = () => {
+    if (!toDelete) {
+      return
+    }
+
+    const altar = toDelete
+    startTransition(async () => {
+      const result = await deleteAltar(altar.id)
+      if (result.success) {
+        toast.success(`${altar.nombre} eliminado`)
+        setToDelete(null)
+      } else {
+        toast.error(result.error)
+      }
+    })
+  }
+
+  if (altares.length === 0) {
+    return (
+      <div className="rounded-lg border-2 border-dashed border-neutral-300 p-8 text-center text-neutral-600">
+        No hay altares todavía.
+      </div>
+    )
+  }
+
+  return (
+    <>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Nombre</TableHead>
+            <TableHead>Tipo</TableHead>
+            <TableHead>Slug</TableHead>
+            <TableHead className="text-center">Activo</TableHead>
+            <TableHead className="text-center">Destacado</TableHead>
+            {canEdit && <TableHead className="text-right">Acciones</TableHead>}
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {altares.map((altar) => (
+            <TableRow key={altar.id} className={altar.activo ? undefined : 'text-neutral-500'}>
+              <TableCell className="font-medium">
+                {altar.nombre}
+                {!altar.activo && (
+                  <Badge variant="secondary" className="ml-2">
+                    Inactivo
+                  </Badge>
+                )}
+              </TableCell>
+              <TableCell>
+                {MODEL_TYPES[altar.modelo_tipo].icon} {MODEL_TYPES[altar.modelo_tipo].label}
+              </TableCell>
+              <TableCell className="font-mono text-xs">{altar.slug}</TableCell>
+              <TableCell className="text-center">
+                <Checkbox
+                  checked={altar.activo}
+                  disabled={!canEdit || isPending}
+                  onCheckedChange={(checked) => toggleFlag(altar, 'activo', checked === true)}
+                  aria-label={`Activo: ${altar.nombre}`}
+                />
+              </TableCell>
+              <TableCell className="text-center">
+                <Checkbox
+                  checked={altar.destacado}
+                  disabled={!canEdit || isPending}
+                  onCheckedChange={(checked) => toggleFlag(altar, 'destacado', checked === true)}
+                  aria-label={`Destacado: ${altar.nombre}`}
+                />
+              </TableCell>
+              {canEdit && (
+                <TableCell className="text-right">
+                  <Button asChild variant="ghost" size="icon" aria-label={`Editar ${altar.nombre}`}>
+                    <Link href={ROUTES.ADMIN_ALTAR_EDIT(altar.id)}>
+                      <Pencil className="size-4" />
+                    </Link>
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    disabled={isPending}
+                    onClick={() => setToDelete(altar)}
+                    aria-label={`Eliminar ${altar.nombre}`}
+                  >
+                    <Trash2 className="size-4" />
+                  </Button>
+                </TableCell>
+              )}
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+
+      <Dialog open={toDelete !== null} onOpenChange={(open) => !open && setToDelete(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Eliminar {toDelete?.nombre}</DialogTitle>
+            <DialogDescription>
+              El altar dejará de mostrarse en el catálogo y en el panel. Los pedidos que lo incluyen
+              se conservan.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setToDelete(null)}>
+              Cancelar
+            </Button>
+            <Button type="button" variant="destructive" disabled={isPending} onClick={confirmDelete}>
+              Eliminar
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
@@ -0,0 +1,111 @@
+import { getAltarImages } from '@/features/altar-catalog/images'
+import { createClient } from '@/lib/supabase/server'
+import {
+  ALTAR_IMAGES_BUCKET,
+  getImageFolder,
+  getVariantPath,
+  IMAGE_VARIANTS,
+  type ImageVariant,
+} from './image-storage'
+
+// Uploads younger than this may belong to a form that has not been saved yet
+const ABANDONED_AFTER_DAYS = 1
+
+/**
+ * Storage folders still used by a non-deleted altar
+ */
+async function getReferencedFolders(): Promise<Set<string>> {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase
+    .from('altares')
+    .select('imagen_principal, imagenes_galeria')
+    .is('eliminado_at', null)
+
+  if (error) {
+    throw error
+  }
+
+  return new Set(
+    data
+      .flatMap((altar) => getAltarImages(altar))
+      .map(getImageFolder)
+      .filter((folder): folder is string => folder !== null)
+  )
+}
+
+async function removeFolders(folders: string[]): Promise<void> {
+  if (folders.length === 0) {
+    return
+  }
+
+  const supabase = await createClient()
+  const paths = folders.flatMap((folder) =>
+    (Object.keys(IMAGE_VARIANTS) as ImageVariant[]).map((variant) => getVariantPath(folder, variant))
+  )
+
+  const { error } = await supabase.storage.from(ALTAR_IMAGES_BUCKET).remove(paths)
+
+  if (error) {
+    throw error
+  }
+}
+
+/**
+ * Delete the stored files of images no altar uses anymore
+ * Call after the altar row has been saved without them
+ * @param urls - Images removed from an altar; pasted external URLs are ignored
+ */
+export async function removeUnusedImages(urls: string[]): Promise<void> {
+  const folders = urls.map(getImageFolder).filter((folder): folder is string => folder !== null)
+  if (folders.length === 0) {
+    return
+  }
+
+  const referenced = await getReferencedFolders()
+  await removeFolders(folders.filter((folder) => !referenced.has(folder)))
+}
+
+/**
+ * Delete uploads that never made it into a saved altar (the form was abandoned)
+ * Only date folders older than ABANDONED_AFTER_DAYS are listed
+ */
+export async function sweepAbandonedUploads(): Promise<void> {
+  const supabase = await createClient()
+  const bucket = supabase.storage.from(ALTAR_IMAGES_BUCKET)
+
+  const cutoff = new Date(Date.now() - ABANDONED_AFTER_DAYS * 24 * 60 * 60 * 1000)
+    .toISOString()
+    .slice(0, 10)
+
+  const { data: days, error } = await bucket.list('', { limit: 1000 })
+  if (error) {
+    throw error
+  }
+
+  const oldDays = days
+    .map((entry) => entry.name)
+    .filter((name) => /^\d{4}-\d{2}-\d{2}$/.test(name) && name < cutoff)
+  if (oldDays.length === 0) {
+    return
+  }
+
+  const referenced = await getReferencedFolders()
+  const abandoned: string[] = []
+
+  for (const day of oldDays) {
+    const { data: uploads, error: listError } = await bucket.list(day, { limit: 1000 })
+    if (listError) {
+      throw listError
+    }
+
+    for (const upload of uploads) {
+      const folder = `${day}/${upload.name}`
+      if (!referenced.has(folder)) {
+        abandoned.push(folder)
+      }
+    }
+  }
+
+  await removeFolders(abandoned)
+}
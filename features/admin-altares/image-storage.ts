@@ -0,0 +1,45 @@
+/**
+ * Supabase Storage layout for altar images
+ * Each upload is a folder <YYYY-MM-DD>/<uuid>/ with one file per variant.
+ * The URL saved on the altar is the public URL of the 'completa' variant.
+ */
+
+export const ALTAR_IMAGES_BUCKET = 'altares'
+
+/**
+ * Longest side, in pixels, of each stored variant
+ */
+export const IMAGE_VARIANTS = {
+  completa: 1600,
+  miniatura: 480,
+} as const
+
+export type ImageVariant = keyof typeof IMAGE_VARIANTS
+
+const PUBLIC_PATH = `/storage/v1/object/public/${ALTAR_IMAGES_BUCKET}/`
+const FOLDER_PATTERN = /^\d{4}-\d{2}-\d{2}\/[0-9a-f-]{36}$/
+
+/**
+ * Storage folder of an uploaded image
+ * @param url - Public URL of any variant
+ * @returns Folder path inside the bucket, or null for images hosted elsewhere
+ */
+export function getImageFolder(url: string): string | null {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
+  if (!supabaseUrl || !url.startsWith(`${supabaseUrl.replace(/\/$/, '')}${PUBLIC_PATH}`)) {
+    return null
+  }
+
+  const path = new URL(url).pathname.slice(PUBLIC_PATH.length)
+  const folder = path.slice(0, path.lastIndexOf('/'))
+  return FOLDER_PATTERN.test(folder) ? folder : null
+}
+
+/**
+ * Path of a variant inside the bucket
+ * @param folder - Upload folder
+ * @param variant - Variant name
+ */
+export function getVariantPath(folder: string, variant: ImageVariant): string {
+  return `${folder}/${variant}`
+}
@@ -0,0 +1,114 @@
+import type { ImagenMeta } from '@/features/altar-catalog/schemas/altar.schema'
+import { createClient } from '@/lib/supabase/client'
+import { ALTAR_IMAGES_BUCKET, getVariantPath, IMAGE_VARIANTS, type ImageVariant } from './image-storage'
+
+// Larger originals are rejected before decoding; the stored variants are small
+const MAX_ORIGINAL_BYTES = 20 * 1024 * 1024
+const BLUR_SIZE = 16
+const QUALITY = 0.85
+
+function drawScaled(bitmap: ImageBitmap, maxSide: number): HTMLCanvasElement {
+  const scale = Math.min(1, maxSide / Math.max(bitmap.width, bitmap.height))
+  const canvas = document.createElement('canvas')
+  canvas.width = Math.max(1, Math.round(bitmap.width * scale))
+  canvas.height = Math.max(1, Math.round(bitmap.height * scale))
+  canvas.getContext('2d')?.drawImage(bitmap, 0, 0, canvas.width, canvas.height)
+  return canvas
+}
+
+function encode(canvas: HTMLCanvasElement, type: string): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error('No se pudo procesar la imagen'))),
+      type,
+      QUALITY
+    )
+  })
+}
+
+// Browsers without WebP encoding silently return PNG, which for a 1600px photo
+// often passes the bucket's 5 MB limit; those get JPEG instead
+async function toBlob(canvas: HTMLCanvasElement): Promise<Blob> {
+  const webp = await encode(canvas, 'image/webp')
+  if (webp.type === 'image/webp') {
+    return webp
+  }
+
+  // JPEG has no transparency: paint white behind the image rather than black
+  const context = canvas.getContext('2d')
+  if (context) {
+    context.globalCompositeOperation = 'destination-over'
+    context.fillStyle = '#ffffff'
+    context.fillRect(0, 0, canvas.width, canvas.height)
+  }
+
+  return encode(canvas, 'image/jpeg')
+}
+
+function uploadErrorMessage(error: unknown): string {
+  if (
+    typeof error === 'object' &&
+    error !== null &&
+    'statusCode' in error &&
+    error.statusCode === '413'
+  ) {
+    return 'La imagen pesa más de 5 MB aun reducida; prueba con una foto más ligera'
+  }
+  return 'No se pudo subir la imagen'
+}
+
+/**
+ * Resize an image in the browser and upload its variants to Storage
+ * Runs with the admin's session; the bucket policy requires catalog.write
+ * @param file - Image picked by the admin
+ * @returns Public URL of the full variant and its metadata for imagenes_meta
+ * @throws Error with a message for the admin when the image cannot be processed or uploaded
+ */
+export async function uploadAltarImage(file: File): Promise<{ url: string; meta: ImagenMeta }> {
+  if (!file.type.startsWith('image/')) {
+    throw new Error('Solo se pueden subir imágenes')
+  }
+  if (file.size > MAX_ORIGINAL_BYTES) {
+    throw new Error('La imagen pesa más de 20 MB')
+  }
+
+  const bitmap = await createImageBitmap(file)
+  const supabase = createClient()
+  const folder = `${new Date().toISOString().slice(0, 10)}/${crypto.randomUUID()}`
+
+  try {
+    const urls = {} as Record<ImageVariant, string>
+    let size = { ancho: bitmap.width, alto: bitmap.height }
+
+    for (const variant of Object.keys(IMAGE_VARIANTS) as ImageVariant[]) {
+      const canvas = drawScaled(bitmap, IMAGE_VARIANTS[variant])
+      const blob = await toBlob(canvas)
+      const path = getVariantPath(folder, variant)
+
+      const { error } = await supabase.storage.from(ALTAR_IMAGES_BUCKET).upload(path, blob, {
+        contentType: blob.type,
+        cacheControl: '31536000',
+      })
+
+      if (error) {
+        throw new Error(uploadErrorMessage(error), { cause: error })
+      }
+
+      urls[variant] = supabase.storage.from(ALTAR_IMAGES_BUCKET).getPublicUrl(path).data.publicUrl
+      if (variant === 'completa') {
+        size = { ancho: canvas.width, alto: canvas.height }
+      }
+    }
+
+    return {
+      url: urls.completa,
+      meta: {
+        miniatura: urls.miniatura,
+        blur: drawScaled(bitmap, BLUR_SIZE).toDataURL('image/png'),
+        ...size,
+      },
+    }
+  } finally {
+    bitmap.close()
+  }
+}
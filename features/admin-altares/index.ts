@@ -0,0 +1,20 @@
+// Components
+export { AltarForm } from './components/altar-form'
+export { AltaresTable } from './components/altares-table'
+export { AltarImagesField, type AltarImages } from './components/altar-images-field'
+
+// API
+export { getAdminAltarById, getAdminAltares, isSlugTaken, suggestSlug } from './api'
+
+// Images
+export { uploadAltarImage } from './image-upload'
+export { removeUnusedImages, sweepAbandonedUploads } from './image-cleanup'
+
+// Actions
+export {
+  createAltar,
+  deleteAltar,
+  setAltarFlag,
+  suggestAltarSlug,
+  updateAltar,
+} from './actions'
@@ -0,0 +1,465 @@
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import { z } from 'zod'
+import { revalidateAllAltarPages } from '@/features/altar-catalog/revalidate'
+import {
+  type Configuracion,
+  configuracionSchema,
+} from '@/features/altar-configurator/schemas/configuracion.schema'
+import { type ReglaPrecio, reglaPrecioSchema } from '@/features/pricing/schemas/pricing.schema'
+import { getAuthorizedAdmin } from '@/lib/auth/admin'
+import { hasPermission } from '@/lib/auth/permissions'
+import { CACHE_TAGS, type CacheTag } from '@/lib/cache/tags'
+import { CONFIG_TYPES } from '@/lib/constants/business-config'
+import { ROUTES } from '@/lib/constants/routes'
+import { createClient } from '@/lib/supabase/server'
+import type { AdminUsuario } from '@/lib/types/database.types'
+import {
+  type ActionResult,
+  actionError,
+  actionForbidden,
+  actionSuccess,
+  actionValidationError,
+} from '@/lib/utils/action-result'
+import { ConflictError, toApplicationError } from '@/lib/utils/app-errors'
+import {
+  getAdminConfiguracionById,
+  getAdminConfiguraciones,
+  getAdminReglasPrecio,
+  getConfiguracionImpact,
+  isConfiguracionTaken,
+} from './api'
+import {
+  analyzeGrosorCoverage,
+  describeCoverageProblems,
+  describeNewCoverageProblems,
+} from './coverage'
+import {
+  type ConfiguracionImpact,
+  configuracionFormSchema,
+  configuracionOrdenSchema,
+} from './schemas/configuracion-form.schema'
+import { reglasPrecioSaveSchema } from './schemas/regla-precio-form.schema'
+
+const idSchema = z.string().uuid()
+
+function configuracionTakenError(tipo: Configuracion['tipo']) {
+  const label = CONFIG_TYPES[tipo].label.toLowerCase()
+  return {
+    success: false as const,
+    error: 'Revisa los campos marcados',
+    fieldErrors: { valor: `Ya existe una opción de ${label} con ese valor y unidad` },
+  }
+}
+
+function isConflict(error: unknown): boolean {
+  return toApplicationError(error) instanceof ConflictError
+}
+
+/**
+ * Refuse an option change that would leave available sizes unpriced or priced twice
+ * Only admins with pricing.write can fix the rules afterwards, so the others are
+ * checked; an unavailable option is never offered and can't open a gap
+ * @param admin - Admin making the change
+ * @param change - Option as it would be saved ('nueva' as id when it is created)
+ * @returns Failed result listing the new problems, or null when the change can go ahead
+ */
+async function checkCoverageChange(
+  admin: AdminUsuario,
+  change: Configuracion
+): Promise<{ success: false; error: string } | null> {
+  if (!change.disponible || hasPermission(admin.rol, 'pricing.write')) {
+    return null
+  }
+
+  const [before, reglas] = await Promise.all([getAdminConfiguraciones(), getAdminReglasPrecio()])
+  const after = {
+    ...before,
+    [change.tipo]: [...before[change.tipo].filter((option) => option.id !== change.id), change],
+  }
+  const problems = describeNewCoverageProblems(before, after, reglas)
+
+  return problems
+    ? actionError(
+        `No se guardó: ${problems}. Pide a quien administra los precios que agregue las reglas primero`
+      )
+    : null
+}
+
+// Options feed the configurator on every product page and the pricing grid
+async function revalidateConfiguraciones(tag: CacheTag = CACHE_TAGS.configuraciones) {
+  revalidatePath(ROUTES.ADMIN_CONFIGURACIONES)
+  await revalidateAllAltarPages([tag])
+}
+
+/**
+ * Create a configuration option, placed last in its type
+ * @param input - Form values validated with configuracionFormSchema
+ */
+export async function createConfiguracion(input: unknown): Promise<ActionResult<Configuracion>> {
+  const admin = await getAuthorizedAdmin('catalog.write')
+  if (!admin) {
+    return actionForbidden()
+  }
+
+  const parsed = configuracionFormSchema.safeParse(input)
+  if (!parsed.success) {
+    return actionValidationError(parsed.error)
+  }
+
+  const { tipo, valor, unidad } = parsed.data
+
+  try {
+    if (await isConfiguracionTaken(tipo, valor, unidad)) {
+      return configuracionTakenError(tipo)
+    }
+
+    const coverageError = await checkCoverageChange(admin, { ...parsed.data, id: 'nueva', orden: 0 })
+    if (coverageError) {
+      return coverageError
+    }
+
+    const supabase = await createClient()
+    const { data: last, error: lastError } = await supabase
+      .from('configuraciones')
+      .select('orden')
+      .eq('tipo', tipo)
+      .order('orden', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    if (lastError) {
+      throw lastError
+    }
+
+    const { data, error } = await supabase
+      .from('configuraciones')
+      .insert({ ...parsed.data, orden: (last?.orden ?? 0) + 1 })
+      .select('*')
+      .single()
+
+    if (error) {
+      if (isConflict(error)) {
+        return configuracionTakenError(tipo)
+      }
+      throw error
+    }
+
+    await revalidateConfiguraciones()
+    return actionSuccess(configuracionSchema.parse(data))
+  } catch (error) {
+    return actionError(error, { action: 'createConfiguracion' })
+  }
+}
+
+/**
+ * Update a configuration option
+ * The type can't change: pricing rules and pedidos refer to it by type
+ * @param id - Configuration UUID
+ * @param input - Form values validated with configuracionFormSchema
+ */
+export async function updateConfiguracion(
+  id: string,
+  input: unknown
+): Promise<ActionResult<Configuracion>> {
+  const admin = await getAuthorizedAdmin('catalog.write')
+  if (!admin) {
+    return actionForbidden()
+  }
+
+  if (!idSchema.safeParse(id).success) {
+    return actionError('Opción inválida')
+  }
+
+  const parsed = configuracionFormSchema.safeParse(input)
+  if (!parsed.success) {
+    return actionValidationError(parsed.error)
+  }
+
+  try {
+    const current = await getAdminConfiguracionById(id)
+    if (!current) {
+      return actionError('La opción no existe')
+    }
+
+    if (parsed.data.tipo !== current.tipo) {
+      return {
+        success: false,
+        error: 'Revisa los campos marcados',
+        fieldErrors: { tipo: 'No se puede cambiar el tipo de una opción existente' },
+      }
+    }
+
+    const { valor, unidad, disponible } = parsed.data
+
+    if (await isConfiguracionTaken(current.tipo, valor, unidad, id)) {
+      return configuracionTakenError(current.tipo)
+    }
+
+    const coverageError = await checkCoverageChange(admin, { ...current, valor, unidad, disponible })
+    if (coverageError) {
+      return coverageError
+    }
+
+    const supabase = await createClient()
+    const { data, error } = await supabase
+      .from('configuraciones')
+      .update({ valor, unidad, disponible })
+      .eq('id', id)
+      .select('*')
+      .single()
+
+    if (error) {
+      if (isConflict(error)) {
+        return configuracionTakenError(current.tipo)
+      }
+      throw error
+    }
+
+    await revalidateConfiguraciones()
+    return actionSuccess(configuracionSchema.parse(data))
+  } catch (error) {
+    return actionError(error, { action: 'updateConfiguracion', configuracionId: id })
+  }
+}
+
+/**
+ * Show or hide an option in the configurator
+ * @param id - Configuration UUID
+ * @param disponible - New availability
+ */
+export async function setConfiguracionDisponible(
+  id: string,
+  disponible: boolean
+): Promise<ActionResult<Configuracion>> {
+  const admin = await getAuthorizedAdmin('catalog.write')
+  if (!admin) {
+    return actionForbidden()
+  }
+
+  if (!idSchema.safeParse(id).success) {
+    return actionError('Opción inválida')
+  }
+
+  try {
+    const current = await getAdminConfiguracionById(id)
+    if (!current) {
+      return actionError('La opción no existe')
+    }
+
+    const coverageError = await checkCoverageChange(admin, { ...current, disponible })
+    if (coverageError) {
+      return coverageError
+    }
+
+    const supabase = await createClient()
+    const { data, error } = await supabase
+      .from('configuraciones')
+      .update({ disponible })
+      .eq('id', id)
+      .select('*')
+      .maybeSingle()
+
+    if (error) {
+      throw error
+    }
+
+    if (!data) {
+      return actionError('La opción no existe')
+    }
+
+    await revalidateConfiguraciones()
+    return actionSuccess(configuracionSchema.parse(data))
+  } catch (error) {
+    return actionError(error, { action: 'setConfiguracionDisponible', configuracionId: id })
+  }
+}
+
+/**
+ * Save the display order of one option type in a single statement
+ * @param input - Type and ids from first to last, validated with configuracionOrdenSchema
+ */
+export async function reorderConfiguraciones(input: unknown): Promise<ActionResult> {
+  if (!(await getAuthorizedAdmin('catalog.write'))) {
+    return actionForbidden()
+  }
+
+  const parsed = configuracionOrdenSchema.safeParse(input)
+  if (!parsed.success) {
+    return actionValidationError(parsed.error)
+  }
+
+  const { tipo, ids } = parsed.data
+
+  try {
+    const supabase = await createClient()
+    const { error } = await supabase.rpc('reordenar_configuraciones', {
+      p_tipo: tipo,
+      p_ids: ids,
+    })
+
+    if (error) {
+      throw error
+    }
+
+    await revalidateConfiguraciones()
+    return actionSuccess(undefined)
+  } catch (error) {
+    return actionError(error, { action: 'reorderConfiguraciones', tipo })
+  }
+}
+
+/**
+ * List the pricing rules and open pedidos that use an option
+ * Shown before disabling or deleting it
+ * @param id - Configuration UUID
+ */
+export async function checkConfiguracionImpact(
+  id: string
+): Promise<ActionResult<ConfiguracionImpact>> {
+  if (!(await getAuthorizedAdmin('catalog.write'))) {
+    return actionForbidden()
+  }
+
+  if (!idSchema.safeParse(id).success) {
+    return actionError('Opción inválida')
+  }
+
+  try {
+    const configuracion = await getAdminConfiguracionById(id)
+    if (!configuracion) {
+      return actionError('La opción no existe')
+    }
+
+    return actionSuccess(await getConfiguracionImpact(configuracion))
+  } catch (error) {
+    return actionError(error, { action: 'checkConfiguracionImpact', configuracionId: id })
+  }
+}
+
+/**
+ * Delete a configuration option
+ * Deleting a grosor also deletes its pricing rules (ON DELETE CASCADE), so it
+ * needs pricing.write while rules point at it; pedidos keep their own copy of the option
+ * @param id - Configuration UUID
+ */
+export async function deleteConfiguracion(id: string): Promise<ActionResult> {
+  const admin = await getAuthorizedAdmin('catalog.write')
+  if (!admin) {
+    return actionForbidden()
+  }
+
+  if (!idSchema.safeParse(id).success) {
+    return actionError('Opción inválida')
+  }
+
+  try {
+    const configuracion = await getAdminConfiguracionById(id)
+    if (!configuracion) {
+      return actionError('La opción no existe')
+    }
+
+    if (configuracion.tipo === 'grosor' && !hasPermission(admin.rol, 'pricing.write')) {
+      const { reglas } = await getConfiguracionImpact(configuracion)
+      if (reglas.length > 0) {
+        const count = `${reglas.length} ${reglas.length === 1 ? 'regla' : 'reglas'} de precio`
+        return actionError(
+          `Eliminar este grosor borraría sus ${count}. Pide a quien administra los precios que lo elimine, o desactívalo.`
+        )
+      }
+    }
+
+    const supabase = await createClient()
+    const { data, error } = await supabase
+      .from('configuraciones')
+      .delete()
+      .eq('id', id)
+      .select('id')
+      .maybeSingle()
+
+    if (error) {
+      throw error
+    }
+
+    if (!data) {
+      return actionError('La opción no existe')
+    }
+
+    await revalidateConfiguraciones()
+    return actionSuccess(undefined)
+  } catch (error) {
+    return actionError(error, { action: 'deleteConfiguracion', configuracionId: id })
+  }
+}
+
+/**
+ * Replace the pricing rules of a thickness in a single transaction
+ * Refuses rule sets that leave an available size unpriced or priced twice;
+ * guardar_reglas_precio repeats the check in the database before committing
+ * @param grosorId - Thickness configuration UUID
+ * @param input - Full rule set validated with reglasPrecioSaveSchema
+ * @returns The saved rules
+ */
+export async function saveReglasPrecio(
+  grosorId: string,
+  input: unknown
+): Promise<ActionResult<ReglaPrecio[]>> {
+  if (!(await getAuthorizedAdmin('pricing.write'))) {
+    return actionForbidden()
+  }
+
+  if (!idSchema.safeParse(grosorId).success) {
+    return actionError('Grosor inválido')
+  }
+
+  const parsed = reglasPrecioSaveSchema.safeParse(input)
+  if (!parsed.success) {
+    return actionValidationError(parsed.error)
+  }
+
+  try {
+    const configuraciones = await getAdminConfiguraciones()
+    const grosor = configuraciones.grosor.find((option) => option.id === grosorId)
+
+    if (!grosor) {
+      return actionError('El grosor no existe')
+    }
+
+    // Drafts without an id get a placeholder so they can be matched like saved rules
+    const reglas = parsed.data.reglas.map((regla, index) => ({
+      ...regla,
+      id: regla.id ?? `nueva-${index}`,
+      grosor_id: grosorId,
+    }))
+    const problems = describeCoverageProblems(
+      analyzeGrosorCoverage(grosor, configuraciones, reglas)
+    )
+
+    if (problems) {
+      return actionError(`No se guardó: ${problems}`)
+    }
+
+    const supabase = await createClient()
+    const { data, error } = await supabase.rpc('guardar_reglas_precio', {
+      p_grosor_id: grosorId,
+      p_reglas: parsed.data.reglas,
+    })
+
+    if (error) {
+      if (error.code === '23514' && error.message.includes('check_precio_pintado_minimo')) {
+        return actionError('El precio pintado debe ser mayor o igual al precio base')
+      }
+      // Options changed between our check and the save
+      if (error.code === '23514') {
+        return actionError('La tabla de precios cambió mientras editabas. Recarga e intenta de nuevo')
+      }
+      throw error
+    }
+
+    await revalidateConfiguraciones(CACHE_TAGS.precios)
+    return actionSuccess(data.map((regla: unknown) => reglaPrecioSchema.parse(regla)))
+  } catch (error) {
+    return actionError(error, { action: 'saveReglasPrecio', grosorId })
+  }
+}
@@ -0,0 +1,175 @@
+import {
+  type Configuracion,
+  type ConfiguracionesByType,
+  type ConfigType,
+  configuracionSchema,
+} from '@/features/altar-configurator/schemas/configuracion.schema'
+import { type ReglaPrecio, reglaPrecioSchema } from '@/features/pricing/schemas/pricing.schema'
+import { createClient } from '@/lib/supabase/server'
+import { logError } from '@/lib/utils/error-handler'
+import {
+  type ConfiguracionImpact,
+  configuracionImpactSchema,
+} from './schemas/configuracion-form.schema'
+
+/**
+ * Orders that still have to be made; completed and cancelled ones aren't affected
+ */
+const OPEN_PEDIDO_ESTADOS = ['pendiente', 'confirmado']
+
+/**
+ * Fetch every configuration option, available or not (admin only via RLS)
+ * @returns Options grouped by type, sorted by orden
+ */
+export async function getAdminConfiguraciones(): Promise<ConfiguracionesByType> {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase
+    .from('configuraciones')
+    .select('*')
+    .order('orden', { ascending: true })
+    .order('valor', { ascending: true })
+
+  if (error) {
+    logError(error, { source: 'getAdminConfiguraciones' })
+    throw new Error('Failed to fetch configuraciones')
+  }
+
+  const grouped: ConfiguracionesByType = { grosor: [], altura: [], anchura: [] }
+
+  for (const row of data) {
+    const configuracion = configuracionSchema.parse(row)
+    grouped[configuracion.tipo].push(configuracion)
+  }
+
+  return grouped
+}
+
+/**
+ * Fetch every pricing rule, active or not (admin only via RLS)
+ * @param grosorId - Optional thickness id to restrict the rules
+ * @returns Pricing rules sorted by their height and width ranges
+ */
+export async function getAdminReglasPrecio(grosorId?: string): Promise<ReglaPrecio[]> {
+  const supabase = await createClient()
+
+  let query = supabase
+    .from('reglas_precio')
+    .select('*')
+    .order('altura_min', { ascending: true, nullsFirst: true })
+    .order('anchura_min', { ascending: true, nullsFirst: true })
+    .order('created_at', { ascending: true })
+
+  if (grosorId) {
+    query = query.eq('grosor_id', grosorId)
+  }
+
+  const { data, error } = await query
+
+  if (error) {
+    logError(error, { source: 'getAdminReglasPrecio', grosorId })
+    throw new Error('Failed to fetch pricing rules')
+  }
+
+  return data.map((regla) => reglaPrecioSchema.parse(regla))
+}
+
+/**
+ * Fetch a configuration option by ID, available or not (admin only via RLS)
+ * @param id - Configuration UUID
+ * @returns Option or null
+ */
+export async function getAdminConfiguracionById(id: string): Promise<Configuracion | null> {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase
+    .from('configuraciones')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle()
+
+  if (error) {
+    logError(error, { source: 'getAdminConfiguracionById', configuracionId: id })
+    throw new Error('Failed to fetch configuracion')
+  }
+
+  return data ? configuracionSchema.parse(data) : null
+}
+
+/**
+ * Check the unique (tipo, valor, unidad) constraint before writing
+ * @param excludeId - Option being edited, which may keep its own value
+ */
+export async function isConfiguracionTaken(
+  tipo: ConfigType,
+  valor: number,
+  unidad: string,
+  excludeId?: string
+): Promise<boolean> {
+  const supabase = await createClient()
+
+  let query = supabase
+    .from('configuraciones')
+    .select('id')
+    .eq('tipo', tipo)
+    .eq('valor', valor)
+    .eq('unidad', unidad)
+
+  if (excludeId) {
+    query = query.neq('id', excludeId)
+  }
+
+  const { data, error } = await query.limit(1)
+
+  if (error) {
+    logError(error, { source: 'isConfiguracionTaken', tipo, valor, unidad })
+    throw new Error('Failed to check configuracion')
+  }
+
+  return data.length > 0
+}
+
+/**
+ * Find what depends on an option before it's disabled or deleted
+ * @param configuracion - Option to check
+ * @returns Pricing rules and open pedidos that use the option
+ */
+export async function getConfiguracionImpact(
+  configuracion: Configuracion
+): Promise<ConfiguracionImpact> {
+  const supabase = await createClient()
+  const { id, tipo, valor } = configuracion
+
+  let reglasQuery = supabase.from('reglas_precio').select('*')
+
+  if (tipo === 'grosor') {
+    // Deleting a grosor cascades to all of its rules, active or not
+    reglasQuery = reglasQuery.eq('grosor_id', id)
+  } else {
+    reglasQuery = reglasQuery
+      .eq('activo', true)
+      .or(`${tipo}_min.is.null,${tipo}_min.lte.${valor}`)
+      .or(`${tipo}_max.is.null,${tipo}_max.gte.${valor}`)
+  }
+
+  const [reglas, pedidos] = await Promise.all([
+    reglasQuery,
+    // Lines snapshot the option as { id, valor, unidad } (see pedido-items.schema.ts)
+    supabase
+      .from('pedidos')
+      .select('id, numero_pedido, cliente_nombre, estado')
+      .in('estado', OPEN_PEDIDO_ESTADOS)
+      .contains('items', JSON.stringify([{ [tipo]: { id } }]))
+      .order('created_at', { ascending: true }),
+  ])
+
+  if (reglas.error || pedidos.error) {
+    logError(reglas.error ?? pedidos.error, {
+      source: 'getConfiguracionImpact',
+      configuracionId: id,
+    })
+    throw new Error('Failed to fetch configuracion impact')
+  }
+
+  return configuracionImpactSchema.parse({ reglas: reglas.data, pedidos: pedidos.data })
+}
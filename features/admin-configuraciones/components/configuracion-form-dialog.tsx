@@ -0,0 +1,183 @@
+'use client'
+
+import { zodResolver } from '@hookform/resolvers/zod'
+import { useState } from 'react'
+import { useForm } from 'react-hook-form'
+import { toast } from 'sonner'
+import type { z } from 'zod'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form'
+import { Input } from '@/components/ui/input'
+import type {
+  Configuracion,
+  ConfigType,
+} from '@/features/altar-configurator/schemas/configuracion.schema'
+import { CONFIG_TYPES } from '@/lib/constants/business-config'
+import type { ActionResult } from '@/lib/utils/action-result'
+import { createConfiguracion, updateConfiguracion } from '../actions'
+import {
+  type ConfiguracionForm,
+  configuracionFormSchema,
+} from '../schemas/configuracion-form.schema'
+
+type ConfiguracionFormValues = z.input<typeof configuracionFormSchema>
+
+interface ConfiguracionFormDialogProps {
+  tipo: ConfigType
+  /** Option to edit; omit to create a new one */
+  configuracion?: Configuracion
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+function toFormValues(tipo: ConfigType, configuracion?: Configuracion): ConfiguracionFormValues {
+  return {
+    tipo,
+    valor: configuracion?.valor ?? Number.NaN,
+    unidad: configuracion?.unidad ?? CONFIG_TYPES[tipo].unidad,
+    // New options start hidden so they can be priced before customers see them
+    disponible: configuracion?.disponible ?? false,
+  }
+}
+
+export function ConfiguracionFormDialog({
+  tipo,
+  configuracion,
+  open,
+  onOpenChange,
+}: ConfiguracionFormDialogProps) {
+  const [submitError, setSubmitError] = useState<string | null>(null)
+  const label = CONFIG_TYPES[tipo].label.toLowerCase()
+
+  const form = useForm<ConfiguracionFormValues, unknown, ConfiguracionForm>({
+    resolver: zodResolver(configuracionFormSchema),
+    defaultValues: toFormValues(tipo, configuracion),
+  })
+
+  const close = () => {
+    setSubmitError(null)
+    form.reset()
+    onOpenChange(false)
+  }
+
+  const onSubmit = async (values: ConfiguracionForm) => {
+    setSubmitError(null)
+
+    const result: ActionResult<Configuracion> = configuracion
+      ? await updateConfiguracion(configuracion.id, values)
+      : await createConfiguracion(values)
+
+    if (!result.success) {
+      setSubmitError(result.error)
+      for (const [field, message] of Object.entries(result.fieldErrors ?? {})) {
+        form.setError(field as keyof ConfiguracionFormValues, { message })
+      }
+      return
+    }
+
+    toast.success(configuracion ? 'Opción actualizada' : 'Opción creada')
+    close()
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => (next ? onOpenChange(true) : close())}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{configuracion ? `Editar ${label}` : `Nueva ${label}`}</DialogTitle>
+          <DialogDescription>{CONFIG_TYPES[tipo].description}.</DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="valor"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Valor</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min={0}
+                        step="any"
+                        name={field.name}
+                        ref={field.ref}
+                        onBlur={field.onBlur}
+                        value={Number.isNaN(field.value) ? '' : field.value}
+                        onChange={(event) => field.onChange(event.target.valueAsNumber)}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="unidad"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Unidad</FormLabel>
+                    <FormControl>
+                      <Input {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <FormField
+              control={form.control}
+              name="disponible"
+              render={({ field }) => (
+                <FormItem className="flex flex-row items-start gap-3">
+                  <FormControl>
+                    <Checkbox
+                      checked={field.value}
+                      onCheckedChange={(checked) => field.onChange(checked === true)}
+                    />
+                  </FormControl>
+                  <div className="space-y-1">
+                    <FormLabel>Disponible en la tienda</FormLabel>
+                    <FormDescription>
+                      Actívala cuando todas sus medidas tengan precio en la pestaña Precios.
+                    </FormDescription>
+                  </div>
+                </FormItem>
+              )}
+            />
+
+            {submitError && (
+              <p className="rounded-md bg-red-50 p-3 text-sm text-red-700">{submitError}</p>
+            )}
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={close}>
+                Cancelar
+              </Button>
+              <Button type="submit" disabled={form.formState.isSubmitting}>
+                {form.formState.isSubmitting ? 'Guardando…' : 'Guardar'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,177 @@
+'use client'
+
+import Link from 'next/link'
+import { useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Skeleton } from '@/components/ui/skeleton'
+import { EstadoBadge } from '@/features/admin-pedidos/components/estado-badge'
+import { formatOption } from '@/features/altar-configurator/availability'
+import type { Configuracion } from '@/features/altar-configurator/schemas/configuracion.schema'
+import type { ReglaPrecio } from '@/features/pricing/schemas/pricing.schema'
+import { ROUTES } from '@/lib/constants/routes'
+import { formatCurrency } from '@/lib/utils/format-currency'
+import { checkConfiguracionImpact } from '../actions'
+import type { ConfiguracionImpact } from '../schemas/configuracion-form.schema'
+
+export type ConfiguracionChange = 'desactivar' | 'eliminar'
+
+interface ConfiguracionImpactDialogProps {
+  /** Option about to change; null closes the dialog */
+  configuracion: Configuracion | null
+  change: ConfiguracionChange
+  isPending: boolean
+  onConfirm: () => void
+  onCancel: () => void
+}
+
+function formatRange(min: number | null, max: number | null): string {
+  if (min === null && max === null) {
+    return 'cualquiera'
+  }
+  return `${min ?? '…'}–${max ?? '…'}`
+}
+
+function describeRegla(regla: ReglaPrecio): string {
+  const altura = formatRange(regla.altura_min, regla.altura_max)
+  const anchura = formatRange(regla.anchura_min, regla.anchura_max)
+  return `Alto ${altura} × ancho ${anchura} · ${formatCurrency(regla.precio_base)}`
+}
+
+export function ConfiguracionImpactDialog({
+  configuracion,
+  change,
+  isPending,
+  onConfirm,
+  onCancel,
+}: ConfiguracionImpactDialogProps) {
+  const [impact, setImpact] = useState<ConfiguracionImpact | null>(null)
+  const [loadError, setLoadError] = useState<string | null>(null)
+
+  useEffect(() => {
+    setImpact(null)
+    setLoadError(null)
+
+    if (!configuracion) {
+      return
+    }
+
+    let cancelled = false
+    checkConfiguracionImpact(configuracion.id).then((result) => {
+      if (cancelled) {
+        return
+      }
+      if (result.success) {
+        setImpact(result.data)
+      } else {
+        setLoadError(result.error)
+      }
+    })
+
+    return () => {
+      cancelled = true
+    }
+  }, [configuracion])
+
+  const isGrosor = configuracion?.tipo === 'grosor'
+  const reglasTitle =
+    isGrosor && change === 'eliminar'
+      ? 'Reglas de precio que se eliminarán'
+      : isGrosor
+        ? 'Reglas de precio que dejarán de usarse'
+        : 'Reglas de precio que cubren esta medida'
+
+  return (
+    <Dialog open={configuracion !== null} onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>
+            {change === 'eliminar' ? 'Eliminar' : 'Desactivar'}{' '}
+            {configuracion && formatOption(configuracion)}
+          </DialogTitle>
+          <DialogDescription>
+            {change === 'eliminar'
+              ? 'La opción se borra definitivamente. Si solo quieres ocultarla, desactívala.'
+              : 'La opción dejará de mostrarse en el configurador.'}{' '}
+            Los pedidos conservan su propia copia de las medidas.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loadError && <p className="rounded-md bg-red-50 p-3 text-sm text-red-700">{loadError}</p>}
+
+        {!impact && !loadError && (
+          <div className="space-y-2">
+            <Skeleton className="h-4 w-2/3" />
+            <Skeleton className="h-4 w-1/2" />
+          </div>
+        )}
+
+        {impact && (
+          <div className="max-h-80 space-y-4 overflow-y-auto text-sm">
+            <section>
+              <h3 className="mb-1 font-medium text-neutral-900">
+                {reglasTitle} ({impact.reglas.length})
+              </h3>
+              {impact.reglas.length === 0 ? (
+                <p className="text-neutral-600">Ninguna.</p>
+              ) : (
+                <ul className="list-inside list-disc text-neutral-700">
+                  {impact.reglas.map((regla) => (
+                    <li key={regla.id}>
+                      {describeRegla(regla)}
+                      {!regla.activo && ' (inactiva)'}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </section>
+            <section>
+              <h3 className="mb-1 font-medium text-neutral-900">
+                Pedidos abiertos con esta opción ({impact.pedidos.length})
+              </h3>
+              {impact.pedidos.length === 0 ? (
+                <p className="text-neutral-600">Ninguno.</p>
+              ) : (
+                <ul className="space-y-1">
+                  {impact.pedidos.map((pedido) => (
+                    <li key={pedido.id} className="flex items-center gap-2">
+                      <Link
+                        href={ROUTES.ADMIN_PEDIDO_DETAIL(pedido.id)}
+                        className="font-mono underline-offset-4 hover:underline"
+                      >
+                        {pedido.numero_pedido}
+                      </Link>
+                      <span className="text-neutral-600">{pedido.cliente_nombre}</span>
+                      <EstadoBadge estado={pedido.estado} />
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </section>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={onCancel}>
+            Cancelar
+          </Button>
+          <Button
+            type="button"
+            variant="destructive"
+            disabled={isPending || !impact}
+            onClick={onConfirm}
+          >
+            {change === 'eliminar' ? 'Eliminar' : 'Desactivar'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
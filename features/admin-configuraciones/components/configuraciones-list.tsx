@@ -0,0 +1,258 @@
+'use client'
+
+import { ArrowDown, ArrowUp, GripVertical, Pencil, Plus, Trash2 } from 'lucide-react'
+import { useEffect, useRef, useState, useTransition } from 'react'
+import { toast } from 'sonner'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { formatOption } from '@/features/altar-configurator/availability'
+import type {
+  Configuracion,
+  ConfigType,
+} from '@/features/altar-configurator/schemas/configuracion.schema'
+import { CONFIG_TYPES } from '@/lib/constants/business-config'
+import { cn } from '@/lib/utils'
+import { deleteConfiguracion, reorderConfiguraciones, setConfiguracionDisponible } from '../actions'
+import { ConfiguracionFormDialog } from './configuracion-form-dialog'
+import { type ConfiguracionChange, ConfiguracionImpactDialog } from './configuracion-impact-dialog'
+
+interface ConfiguracionesListProps {
+  tipo: ConfigType
+  options: Configuracion[]
+  canEdit: boolean
+}
+
+function move<T>(items: T[], from: number, to: number): T[] {
+  const next = [...items]
+  const [item] = next.splice(from, 1)
+  next.splice(to, 0, item)
+  return next
+}
+
+export function ConfiguracionesList({ tipo, options, canEdit }: ConfiguracionesListProps) {
+  const [isPending, startTransition] = useTransition()
+  // Local order, so rows move while dragging and before the server confirms
+  const [items, setItems] = useState(options)
+  const dragIndex = useRef<number | null>(null)
+  const [formOpen, setFormOpen] = useState(false)
+  const [editing, setEditing] = useState<Configuracion | undefined>(undefined)
+  const [pendingChange, setPendingChange] = useState<{
+    configuracion: Configuracion
+    change: ConfiguracionChange
+  } | null>(null)
+
+  useEffect(() => {
+    setItems(options)
+  }, [options])
+
+  const label = CONFIG_TYPES[tipo].label.toLowerCase()
+
+  const saveOrder = (ordered: Configuracion[]) => {
+    if (ordered.every((option, index) => option.id === options[index]?.id)) {
+      return
+    }
+
+    setItems(ordered)
+    startTransition(async () => {
+      const result = await reorderConfiguraciones({ tipo, ids: ordered.map((option) => option.id) })
+      if (!result.success) {
+        toast.error(result.error)
+        setItems(options)
+      }
+    })
+  }
+
+  const enable = (configuracion: Configuracion) => {
+    startTransition(async () => {
+      const result = await setConfiguracionDisponible(configuracion.id, true)
+      if (result.success) {
+        toast.success(`${formatOption(configuracion)} disponible`, {
+          description: 'Revisa en Precios que todas sus medidas tengan precio.',
+        })
+      } else {
+        toast.error(result.error)
+      }
+    })
+  }
+
+  const confirmChange = () => {
+    if (!pendingChange) {
+      return
+    }
+
+    const { configuracion, change } = pendingChange
+    startTransition(async () => {
+      const result =
+        change === 'eliminar'
+          ? await deleteConfiguracion(configuracion.id)
+          : await setConfiguracionDisponible(configuracion.id, false)
+
+      if (result.success) {
+        toast.success(
+          `${formatOption(configuracion)} ${change === 'eliminar' ? 'eliminada' : 'desactivada'}`
+        )
+        setPendingChange(null)
+      } else {
+        toast.error(result.error)
+      }
+    })
+  }
+
+  const openForm = (configuracion?: Configuracion) => {
+    setEditing(configuracion)
+    setFormOpen(true)
+  }
+
+  return (
+    <div className="space-y-4">
+      {items.length === 0 ? (
+        <div className="rounded-lg border-2 border-dashed border-neutral-300 p-6 text-center text-sm text-neutral-600">
+          No hay opciones de {label} todavía.
+        </div>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              {canEdit && <TableHead className="w-10" />}
+              <TableHead>Valor</TableHead>
+              <TableHead className="text-center">Disponible</TableHead>
+              {canEdit && <TableHead className="text-right">Acciones</TableHead>}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {items.map((option, index) => (
+              <TableRow
+                key={option.id}
+                draggable={canEdit && !isPending}
+                onDragStart={() => {
+                  dragIndex.current = index
+                }}
+                onDragOver={(event) => {
+                  event.preventDefault()
+                  const from = dragIndex.current
+                  if (from !== null && from !== index) {
+                    setItems((current) => move(current, from, index))
+                    dragIndex.current = index
+                  }
+                }}
+                onDragEnd={() => {
+                  dragIndex.current = null
+                  saveOrder(items)
+                }}
+                className={cn(!option.disponible && 'text-neutral-500')}
+              >
+                {canEdit && (
+                  <TableCell className="cursor-grab text-neutral-400">
+                    <GripVertical className="size-4" aria-hidden />
+                  </TableCell>
+                )}
+                <TableCell className="font-medium">
+                  {formatOption(option)}
+                  {!option.disponible && (
+                    <Badge variant="secondary" className="ml-2">
+                      Oculta
+                    </Badge>
+                  )}
+                </TableCell>
+                <TableCell className="text-center">
+                  <Checkbox
+                    checked={option.disponible}
+                    disabled={!canEdit || isPending}
+                    onCheckedChange={(checked) =>
+                      checked === true
+                        ? enable(option)
+                        : setPendingChange({ configuracion: option, change: 'desactivar' })
+                    }
+                    aria-label={`Disponible: ${formatOption(option)}`}
+                  />
+                </TableCell>
+                {canEdit && (
+                  <TableCell className="whitespace-nowrap text-right">
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      disabled={isPending || index === 0}
+                      onClick={() => saveOrder(move(items, index, index - 1))}
+                      aria-label={`Subir ${formatOption(option)}`}
+                    >
+                      <ArrowUp className="size-4" />
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      disabled={isPending || index === items.length - 1}
+                      onClick={() => saveOrder(move(items, index, index + 1))}
+                      aria-label={`Bajar ${formatOption(option)}`}
+                    >
+                      <ArrowDown className="size-4" />
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      disabled={isPending}
+                      onClick={() => openForm(option)}
+                      aria-label={`Editar ${formatOption(option)}`}
+                    >
+                      <Pencil className="size-4" />
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      disabled={isPending}
+                      onClick={() => setPendingChange({ configuracion: option, change: 'eliminar' })}
+                      aria-label={`Eliminar ${formatOption(option)}`}
+                    >
+                      <Trash2 className="size-4" />
+                    </Button>
+                  </TableCell>
+                )}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      {canEdit && (
+        <Button type="button" variant="outline" onClick={() => openForm()}>
+          <Plus className="size-4" />
+          Agregar {label}
+        </Button>
+      )}
+
+      {/* Remounted per option so the form starts from that option's values */}
+      <ConfiguracionFormDialog
+        key={editing?.id ?? 'nueva'}
+        tipo={tipo}
+        configuracion={editing}
+        open={formOpen}
+        onOpenChange={(open) => {
+          setFormOpen(open)
+          if (!open) {
+            setEditing(undefined)
+          }
+        }}
+      />
+
+      <ConfiguracionImpactDialog
+        configuracion={pendingChange?.configuracion ?? null}
+        change={pendingChange?.change ?? 'desactivar'}
+        isPending={isPending}
+        onConfirm={confirmChange}
+        onCancel={() => setPendingChange(null)}
+      />
+    </div>
+  )
+}
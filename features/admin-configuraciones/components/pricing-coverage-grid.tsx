@@ -0,0 +1,93 @@
+import { formatOption } from '@/features/altar-configurator/availability'
+import { cn } from '@/lib/utils'
+import { formatCurrency } from '@/lib/utils/format-currency'
+import type { CoverageStatus, GrosorCoverage } from '../coverage'
+
+const STATUS_STYLES: Record<CoverageStatus, string> = {
+  ok: 'bg-green-50 text-green-900',
+  gap: 'bg-red-100 text-red-800',
+  overlap: 'bg-amber-100 text-amber-900',
+}
+
+interface PricingCoverageGridProps {
+  coverage: GrosorCoverage
+  /** Label and price shown for each rule id (e.g. "#2") */
+  reglas: Record<string, { label: string; precio: number | null }>
+}
+
+export function PricingCoverageGrid({ coverage, reglas }: PricingCoverageGridProps) {
+  if (coverage.alturas.length === 0 || coverage.anchuras.length === 0) {
+    return (
+      <p className="text-sm text-neutral-600">
+        No hay alturas o anchuras disponibles, así que no hay medidas que cubrir.
+      </p>
+    )
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="overflow-x-auto">
+        <table className="border-collapse text-xs">
+          <thead>
+            <tr>
+              <th className="p-2 text-left font-medium text-neutral-500">Alto \ Ancho</th>
+              {coverage.anchuras.map((anchura) => (
+                <th key={anchura.id} className="p-2 text-center font-medium text-neutral-700">
+                  {formatOption(anchura)}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {coverage.rows.map((row, rowIndex) => (
+              <tr key={coverage.alturas[rowIndex].id}>
+                <th className="p-2 text-left font-medium text-neutral-700">
+                  {formatOption(coverage.alturas[rowIndex])}
+                </th>
+                {row.map((cell) => {
+                  const regla = cell.status === 'ok' ? reglas[cell.reglaIds[0]] : null
+
+                  return (
+                    <td
+                      key={cell.anchura.id}
+                      className={cn(
+                        'min-w-20 border border-white p-2 text-center',
+                        STATUS_STYLES[cell.status]
+                      )}
+                      title={
+                        cell.status === 'ok'
+                          ? undefined
+                          : `Reglas: ${cell.reglaIds.map((id) => reglas[id]?.label ?? id).join(', ') || 'ninguna'}`
+                      }
+                    >
+                      {cell.status === 'gap' && 'Sin precio'}
+                      {cell.status === 'overlap' &&
+                        cell.reglaIds.map((id) => reglas[id]?.label ?? '?').join(' + ')}
+                      {regla && (
+                        <>
+                          <span className="block font-medium">{regla.label}</span>
+                          {regla.precio !== null && formatCurrency(regla.precio)}
+                        </>
+                      )}
+                    </td>
+                  )
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <div className="flex flex-wrap gap-4 text-xs text-neutral-600">
+        <span className="flex items-center gap-1">
+          <span className={cn('size-3 rounded-sm', STATUS_STYLES.ok)} /> Una regla
+        </span>
+        <span className="flex items-center gap-1">
+          <span className={cn('size-3 rounded-sm', STATUS_STYLES.gap)} /> Sin precio
+        </span>
+        <span className="flex items-center gap-1">
+          <span className={cn('size-3 rounded-sm', STATUS_STYLES.overlap)} /> Más de una regla
+        </span>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,346 @@
+'use client'
+
+import { zodResolver } from '@hookform/resolvers/zod'
+import { Plus, Trash2 } from 'lucide-react'
+import { useMemo, useState } from 'react'
+import { type Control, useFieldArray, useForm, useWatch } from 'react-hook-form'
+import { toast } from 'sonner'
+import type { z } from 'zod'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Form, FormControl, FormField, FormItem, FormMessage } from '@/components/ui/form'
+import { Input } from '@/components/ui/input'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { formatOption } from '@/features/altar-configurator/availability'
+import type {
+  Configuracion,
+  ConfiguracionesByType,
+} from '@/features/altar-configurator/schemas/configuracion.schema'
+import type { ReglaPrecio } from '@/features/pricing/schemas/pricing.schema'
+import { saveReglasPrecio } from '../actions'
+import { analyzeGrosorCoverage, describeCoverageProblems, isCoverageComplete } from '../coverage'
+import { type ReglasPrecioSave, reglasPrecioSaveSchema } from '../schemas/regla-precio-form.schema'
+import { PricingCoverageGrid } from './pricing-coverage-grid'
+
+type ReglasFormValues = z.input<typeof reglasPrecioSaveSchema>
+type ReglaFormValues = ReglasFormValues['reglas'][number]
+
+type NumberField = Exclude<keyof ReglaFormValues, 'id' | 'activo'>
+
+const NUMBER_FIELDS: Array<{ name: NumberField; label: string; placeholder: string }> = [
+  { name: 'altura_min', label: 'Alto mín.', placeholder: 'Sin límite' },
+  { name: 'altura_max', label: 'Alto máx.', placeholder: 'Sin límite' },
+  { name: 'anchura_min', label: 'Ancho mín.', placeholder: 'Sin límite' },
+  { name: 'anchura_max', label: 'Ancho máx.', placeholder: 'Sin límite' },
+  { name: 'precio_base', label: 'Precio', placeholder: '0.00' },
+  { name: 'precio_pintado', label: 'Pintado', placeholder: '0.00' },
+]
+
+function toFormValues(reglas: ReglaPrecio[]): ReglasFormValues {
+  return {
+    reglas: reglas.map((regla) => ({
+      id: regla.id,
+      altura_min: regla.altura_min,
+      altura_max: regla.altura_max,
+      anchura_min: regla.anchura_min,
+      anchura_max: regla.anchura_max,
+      precio_base: regla.precio_base,
+      precio_pintado: regla.precio_pintado,
+      activo: regla.activo,
+    })),
+  }
+}
+
+// Rows are numbered by position; the label is reused in the coverage grid
+function reglaLabel(index: number): string {
+  return `#${index + 1}`
+}
+
+interface GrosorReglasFormProps {
+  grosor: Configuracion
+  configuraciones: ConfiguracionesByType
+  reglas: ReglaPrecio[]
+  canEdit: boolean
+}
+
+function GrosorReglasForm({ grosor, configuraciones, reglas, canEdit }: GrosorReglasFormProps) {
+  const [submitError, setSubmitError] = useState<string | null>(null)
+
+  const form = useForm<ReglasFormValues, unknown, ReglasPrecioSave>({
+    resolver: zodResolver(reglasPrecioSaveSchema),
+    defaultValues: toFormValues(reglas),
+  })
+
+  const { fields, append, remove } = useFieldArray({ control: form.control, name: 'reglas' })
+  const drafts = useWatch({ control: form.control, name: 'reglas' })
+
+  // Live coverage of the unsaved rules, matched exactly like checkout matches them
+  const coverage = useMemo(() => {
+    const candidates = drafts.map((draft, index) => ({
+      ...draft,
+      id: String(index),
+      grosor_id: grosor.id,
+    })) as ReglaPrecio[]
+    return analyzeGrosorCoverage(grosor, configuraciones, candidates)
+  }, [drafts, grosor, configuraciones])
+
+  const gridLabels = Object.fromEntries(
+    drafts.map((draft, index) => [
+      String(index),
+      {
+        label: reglaLabel(index),
+        precio: Number.isFinite(draft.precio_base) ? draft.precio_base : null,
+      },
+    ])
+  )
+
+  const problems = describeCoverageProblems(coverage)
+  const canSave = canEdit && isCoverageComplete(coverage) && form.formState.isDirty
+
+  const onSubmit = async (values: ReglasPrecioSave) => {
+    setSubmitError(null)
+    const result = await saveReglasPrecio(grosor.id, values)
+
+    if (!result.success) {
+      setSubmitError(result.error)
+      for (const [field, message] of Object.entries(result.fieldErrors ?? {})) {
+        form.setError(field as `reglas.${number}.${NumberField}`, { message })
+      }
+      return
+    }
+
+    toast.success(`Precios de ${formatOption(grosor)} guardados`)
+    form.reset(toFormValues(result.data))
+  }
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+        {!grosor.disponible && (
+          <p className="rounded-md bg-neutral-100 p-3 text-sm text-neutral-700">
+            Este grosor no está disponible en la tienda; puedes guardar sus precios aunque queden
+            medidas sin cubrir.
+          </p>
+        )}
+
+        <PricingCoverageGrid coverage={coverage} reglas={gridLabels} />
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Regla</TableHead>
+              {NUMBER_FIELDS.map((numberField) => (
+                <TableHead key={numberField.name}>{numberField.label}</TableHead>
+              ))}
+              <TableHead className="text-center">Activa</TableHead>
+              {canEdit && <TableHead />}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {fields.map((row, index) => (
+              <TableRow key={row.id}>
+                <TableCell className="font-medium">{reglaLabel(index)}</TableCell>
+                {NUMBER_FIELDS.map((numberField) => (
+                  <TableCell key={numberField.name} className="align-top">
+                    <NumberInput
+                      control={form.control}
+                      name={`reglas.${index}.${numberField.name}`}
+                      label={`${numberField.label} ${reglaLabel(index)}`}
+                      placeholder={numberField.placeholder}
+                      disabled={!canEdit}
+                    />
+                  </TableCell>
+                ))}
+                <TableCell className="text-center align-top">
+                  <FormField
+                    control={form.control}
+                    name={`reglas.${index}.activo`}
+                    render={({ field }) => (
+                      <FormItem className="items-center pt-2">
+                        <FormControl>
+                          <Checkbox
+                            checked={field.value}
+                            disabled={!canEdit}
+                            onCheckedChange={(checked) => field.onChange(checked === true)}
+                            aria-label={`Activa ${reglaLabel(index)}`}
+                          />
+                        </FormControl>
+                      </FormItem>
+                    )}
+                  />
+                </TableCell>
+                {canEdit && (
+                  <TableCell className="text-right align-top">
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => remove(index)}
+                      aria-label={`Quitar ${reglaLabel(index)}`}
+                    >
+                      <Trash2 className="size-4" />
+                    </Button>
+                  </TableCell>
+                )}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        {problems && grosor.disponible && (
+          <p className="rounded-md bg-amber-50 p-3 text-sm text-amber-900">
+            {problems}. Ajusta los rangos para que cada medida tenga exactamente una regla activa.
+          </p>
+        )}
+
+        {submitError && (
+          <p className="rounded-md bg-red-50 p-3 text-sm text-red-700">{submitError}</p>
+        )}
+
+        {canEdit && (
+          <div className="flex flex-wrap gap-2">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() =>
+                append({
+                  altura_min: null,
+                  altura_max: null,
+                  anchura_min: null,
+                  anchura_max: null,
+                  precio_base: Number.NaN,
+                  precio_pintado: Number.NaN,
+                  activo: true,
+                })
+              }
+            >
+              <Plus className="size-4" />
+              Agregar regla
+            </Button>
+            <Button type="submit" disabled={!canSave || form.formState.isSubmitting}>
+              {form.formState.isSubmitting ? 'Guardando…' : 'Guardar precios'}
+            </Button>
+            {form.formState.isDirty && (
+              <Button
+                type="button"
+                variant="ghost"
+                disabled={form.formState.isSubmitting}
+                onClick={() => {
+                  setSubmitError(null)
+                  form.reset()
+                }}
+              >
+                Descartar cambios
+              </Button>
+            )}
+          </div>
+        )}
+      </form>
+    </Form>
+  )
+}
+
+interface NumberInputProps {
+  control: Control<ReglasFormValues>
+  name: `reglas.${number}.${NumberField}`
+  label: string
+  placeholder: string
+  disabled: boolean
+}
+
+// Empty inputs map to null (open range bound); prices stay NaN so zod asks for a value
+function NumberInput({ control, name, label, placeholder, disabled }: NumberInputProps) {
+  const isPrice = name.endsWith('precio_base') || name.endsWith('precio_pintado')
+
+  return (
+    <FormField
+      control={control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormControl>
+            <Input
+              type="number"
+              min={0}
+              step={isPrice ? '0.01' : 'any'}
+              className="w-24"
+              aria-label={label}
+              placeholder={placeholder}
+              disabled={disabled}
+              name={field.name}
+              ref={field.ref}
+              onBlur={field.onBlur}
+              value={field.value === null || Number.isNaN(field.value) ? '' : field.value}
+              onChange={(event) => {
+                const value = event.target.value
+                field.onChange(value === '' ? (isPrice ? Number.NaN : null) : Number(value))
+              }}
+            />
+          </FormControl>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  )
+}
+
+interface ReglasPrecioEditorProps {
+  configuraciones: ConfiguracionesByType
+  reglas: ReglaPrecio[]
+  canEdit: boolean
+}
+
+export function ReglasPrecioEditor({ configuraciones, reglas, canEdit }: ReglasPrecioEditorProps) {
+  const grosores = configuraciones.grosor
+
+  if (grosores.length === 0) {
+    return (
+      <div className="rounded-lg border-2 border-dashed border-neutral-300 p-8 text-center text-neutral-600">
+        Agrega al menos un grosor para definir precios.
+      </div>
+    )
+  }
+
+  return (
+    <Tabs defaultValue={grosores[0].id}>
+      <TabsList className="flex-wrap">
+        {grosores.map((grosor) => {
+          const complete = isCoverageComplete(analyzeGrosorCoverage(grosor, configuraciones, reglas))
+
+          return (
+            <TabsTrigger key={grosor.id} value={grosor.id}>
+              {formatOption(grosor)}
+              {!grosor.disponible && <Badge variant="secondary">Oculto</Badge>}
+              {!complete && <Badge variant="destructive">Revisar</Badge>}
+            </TabsTrigger>
+          )
+        })}
+      </TabsList>
+      {grosores.map((grosor) => (
+        // Kept mounted so unsaved edits survive switching tabs
+        <TabsContent
+          key={grosor.id}
+          value={grosor.id}
+          forceMount
+          className="pt-4 data-[state=inactive]:hidden"
+        >
+          <GrosorReglasForm
+            grosor={grosor}
+            configuraciones={configuraciones}
+            reglas={reglas.filter((regla) => regla.grosor_id === grosor.id)}
+            canEdit={canEdit}
+          />
+        </TabsContent>
+      ))}
+    </Tabs>
+  )
+}
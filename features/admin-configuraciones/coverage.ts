@@ -0,0 +1,171 @@
+import { formatOption } from '@/features/altar-configurator/availability'
+import type {
+  Configuracion,
+  ConfiguracionesByType,
+} from '@/features/altar-configurator/schemas/configuracion.schema'
+import { findMatchingRules } from '@/features/pricing/calculate-price'
+import type { ReglaPrecio } from '@/features/pricing/schemas/pricing.schema'
+
+/**
+ * How many active rules price a height × width cell
+ * Checkout needs exactly one: zero is a gap, several is ambiguous
+ */
+export type CoverageStatus = 'ok' | 'gap' | 'overlap'
+
+export interface CoverageCell {
+  altura: Configuracion
+  anchura: Configuracion
+  reglaIds: string[]
+  status: CoverageStatus
+}
+
+/**
+ * Height × width grid for one thickness
+ * rows follow the altura order, each row follows the anchura order
+ */
+export interface GrosorCoverage {
+  grosor: Configuracion
+  alturas: Configuracion[]
+  anchuras: Configuracion[]
+  rows: CoverageCell[][]
+  gaps: CoverageCell[]
+  overlaps: CoverageCell[]
+}
+
+function getCoverageStatus(matches: number): CoverageStatus {
+  if (matches === 0) {
+    return 'gap'
+  }
+  return matches === 1 ? 'ok' : 'overlap'
+}
+
+/**
+ * Check which rules price every available size of a thickness
+ * Uses the same matching as the pricing engine, so the grid shows what checkout will do
+ * @param grosor - Thickness option
+ * @param configuraciones - Options grouped by type (unavailable ones are ignored)
+ * @param reglas - Pricing rules; only active rules for this grosor count
+ * @returns Coverage grid with its gap and overlap cells
+ */
+export function analyzeGrosorCoverage(
+  grosor: Configuracion,
+  configuraciones: ConfiguracionesByType,
+  reglas: ReglaPrecio[]
+): GrosorCoverage {
+  const alturas = configuraciones.altura.filter((option) => option.disponible)
+  const anchuras = configuraciones.anchura.filter((option) => option.disponible)
+
+  const rows = alturas.map((altura) =>
+    anchuras.map((anchura): CoverageCell => {
+      const reglaIds = findMatchingRules(reglas, grosor.id, altura.valor, anchura.valor).map(
+        (regla) => regla.id
+      )
+      return { altura, anchura, reglaIds, status: getCoverageStatus(reglaIds.length) }
+    })
+  )
+
+  const cells = rows.flat()
+
+  return {
+    grosor,
+    alturas,
+    anchuras,
+    rows,
+    gaps: cells.filter((cell) => cell.status === 'gap'),
+    overlaps: cells.filter((cell) => cell.status === 'overlap'),
+  }
+}
+
+/**
+ * Check whether a thickness can be saved as is
+ * Unavailable thicknesses are never offered, so their sizes don't need a price
+ */
+export function isCoverageComplete(coverage: GrosorCoverage): boolean {
+  return !coverage.grosor.disponible || (coverage.gaps.length === 0 && coverage.overlaps.length === 0)
+}
+
+/**
+ * Format a cell as "40 cm × 30 cm"
+ */
+export function formatCoverageCell(cell: CoverageCell): string {
+  return `${formatOption(cell.altura)} × ${formatOption(cell.anchura)}`
+}
+
+function listCells(cells: CoverageCell[]): string {
+  const shown = cells.slice(0, 3).map(formatCoverageCell).join(', ')
+  return cells.length > 3 ? `${shown}…` : shown
+}
+
+/**
+ * Summarize why a thickness can't be saved
+ * @returns Spanish message listing a few problem cells, or null when coverage is complete
+ */
+export function describeCoverageProblems(coverage: GrosorCoverage): string | null {
+  return isCoverageComplete(coverage) ? null : formatCoverageProblems(coverage)
+}
+
+function formatCoverageProblems(coverage: GrosorCoverage): string {
+  const problems: string[] = []
+
+  if (coverage.gaps.length > 0) {
+    problems.push(`${coverage.gaps.length} medida(s) sin precio (${listCells(coverage.gaps)})`)
+  }
+
+  if (coverage.overlaps.length > 0) {
+    problems.push(
+      `${coverage.overlaps.length} medida(s) con más de una regla (${listCells(coverage.overlaps)})`
+    )
+  }
+
+  return `${formatOption(coverage.grosor)}: ${problems.join('; ')}`
+}
+
+function cellKey(grosorId: string, cell: CoverageCell): string {
+  return `${grosorId}:${cell.altura.id}:${cell.anchura.id}:${cell.status}`
+}
+
+function problemKeys(coverage: GrosorCoverage): Set<string> {
+  if (!coverage.grosor.disponible) {
+    return new Set()
+  }
+  return new Set(
+    [...coverage.gaps, ...coverage.overlaps].map((cell) => cellKey(coverage.grosor.id, cell))
+  )
+}
+
+/**
+ * Find the gaps and overlaps an option change would open
+ * Problems that already existed before the change are not reported
+ * @param before - Options as they are now
+ * @param after - Options as they would be after the change
+ * @param reglas - Pricing rules of every thickness
+ * @returns Spanish message listing the new problem cells, or null when the change is safe
+ */
+export function describeNewCoverageProblems(
+  before: ConfiguracionesByType,
+  after: ConfiguracionesByType,
+  reglas: ReglaPrecio[]
+): string | null {
+  const messages: string[] = []
+
+  for (const grosor of after.grosor) {
+    const coverage = analyzeGrosorCoverage(grosor, after, reglas)
+    if (isCoverageComplete(coverage)) {
+      continue
+    }
+
+    const previous = before.grosor.find((option) => option.id === grosor.id)
+    const existing = previous
+      ? problemKeys(analyzeGrosorCoverage(previous, before, reglas))
+      : new Set<string>()
+    const isNew = (cell: CoverageCell) => !existing.has(cellKey(grosor.id, cell))
+    const gaps = coverage.gaps.filter(isNew)
+    const overlaps = coverage.overlaps.filter(isNew)
+
+    if (gaps.length > 0 || overlaps.length > 0) {
+      messages.push(formatCoverageProblems({ ...coverage, gaps, overlaps }))
+    }
+  }
+
+  return messages.length > 0 ? messages.join('. ') : null
+}
@@ -0,0 +1,56 @@
+// Components
+export { ConfiguracionFormDialog } from './components/configuracion-form-dialog'
+export {
+  type ConfiguracionChange,
+  ConfiguracionImpactDialog,
+} from './components/configuracion-impact-dialog'
+export { ConfiguracionesList } from './components/configuraciones-list'
+export { PricingCoverageGrid } from './components/pricing-coverage-grid'
+export { ReglasPrecioEditor } from './components/reglas-precio-editor'
+
+// API
+export {
+  getAdminConfiguracionById,
+  getAdminConfiguraciones,
+  getAdminReglasPrecio,
+  getConfiguracionImpact,
+  isConfiguracionTaken,
+} from './api'
+
+// Actions
+export {
+  checkConfiguracionImpact,
+  createConfiguracion,
+  deleteConfiguracion,
+  reorderConfiguraciones,
+  saveReglasPrecio,
+  setConfiguracionDisponible,
+  updateConfiguracion,
+} from './actions'
+
+// Coverage
+export {
+  analyzeGrosorCoverage,
+  describeCoverageProblems,
+  formatCoverageCell,
+  isCoverageComplete,
+  type CoverageCell,
+  type CoverageStatus,
+  type GrosorCoverage,
+} from './coverage'
+
+// Schemas
+export {
+  configuracionFormSchema,
+  configuracionImpactSchema,
+  configuracionOrdenSchema,
+  type ConfiguracionForm,
+  type ConfiguracionImpact,
+  type ConfiguracionOrden,
+} from './schemas/configuracion-form.schema'
+export {
+  reglaPrecioDraftSchema,
+  reglasPrecioSaveSchema,
+  type ReglaPrecioDraft,
+  type ReglasPrecioSave,
+} from './schemas/regla-precio-form.schema'
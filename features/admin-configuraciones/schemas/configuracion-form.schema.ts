@@ -0,0 +1,50 @@
+import { z } from 'zod'
+import { ConfigTypeEnum } from '@/features/altar-configurator/schemas/configuracion.schema'
+import { OrderStatusEnum } from '@/features/admin-pedidos/schemas/pedido.schema'
+import { reglaPrecioSchema } from '@/features/pricing/schemas/pricing.schema'
+
+/**
+ * Configuration option as created or edited in the admin
+ * orden is managed by drag-to-reorder, so it isn't part of the form
+ */
+export const configuracionFormSchema = z.object({
+  tipo: ConfigTypeEnum,
+  valor: z.number({ error: 'Ingresa un valor' }).positive('El valor debe ser mayor a 0'),
+  unidad: z
+    .string()
+    .trim()
+    .min(1, 'Ingresa la unidad')
+    .max(10, 'La unidad debe tener máximo 10 caracteres'),
+  disponible: z.boolean().default(false),
+})
+
+export type ConfiguracionForm = z.infer<typeof configuracionFormSchema>
+
+/**
+ * New display order of one option type: ids from first to last
+ */
+export const configuracionOrdenSchema = z.object({
+  tipo: ConfigTypeEnum,
+  ids: z.array(z.string().uuid()).min(1),
+})
+
+export type ConfiguracionOrden = z.infer<typeof configuracionOrdenSchema>
+
+/**
+ * What disabling or deleting an option would affect
+ * reglas: rules of a grosor, or active rules whose range covers an altura/anchura
+ * pedidos: pendiente/confirmado orders with a line using the option
+ */
+export const configuracionImpactSchema = z.object({
+  reglas: z.array(reglaPrecioSchema),
+  pedidos: z.array(
+    z.object({
+      id: z.string().uuid(),
+      numero_pedido: z.string(),
+      cliente_nombre: z.string(),
+      estado: OrderStatusEnum,
+    })
+  ),
+})
+
+export type ConfiguracionImpact = z.infer<typeof configuracionImpactSchema>
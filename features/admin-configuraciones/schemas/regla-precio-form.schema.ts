@@ -0,0 +1,52 @@
+import { z } from 'zod'
+
+const rangeBoundSchema = z.number().positive('Debe ser mayor a 0').nullable()
+
+const priceSchema = z
+  .number({ error: 'Ingresa un precio' })
+  .positive('El precio debe ser mayor a 0')
+
+function isValidRange(min: number | null, max: number | null): boolean {
+  return min === null || max === null || max >= min
+}
+
+/**
+ * Pricing rule as edited in the admin grid
+ * id is missing for rules that haven't been saved yet; null bounds leave the range open
+ */
+export const reglaPrecioDraftSchema = z
+  .object({
+    id: z.string().uuid().optional(),
+    altura_min: rangeBoundSchema,
+    altura_max: rangeBoundSchema,
+    anchura_min: rangeBoundSchema,
+    anchura_max: rangeBoundSchema,
+    precio_base: priceSchema,
+    precio_pintado: priceSchema,
+    activo: z.boolean(),
+  })
+  .refine((regla) => isValidRange(regla.altura_min, regla.altura_max), {
+    message: 'Debe ser mayor o igual al mínimo',
+    path: ['altura_max'],
+  })
+  .refine((regla) => isValidRange(regla.anchura_min, regla.anchura_max), {
+    message: 'Debe ser mayor o igual al mínimo',
+    path: ['anchura_max'],
+  })
+  // The painted surcharge is the difference between both prices
+  .refine((regla) => regla.precio_pintado >= regla.precio_base, {
+    message: 'Debe ser mayor o igual al precio base',
+    path: ['precio_pintado'],
+  })
+
+export type ReglaPrecioDraft = z.infer<typeof reglaPrecioDraftSchema>
+
+/**
+ * Full rule set for one thickness, saved all at once
+ * Rules missing from the list are deleted
+ */
+export const reglasPrecioSaveSchema = z.object({
+  reglas: z.array(reglaPrecioDraftSchema),
+})
+
+export type ReglasPrecioSave = z.infer<typeof reglasPrecioSaveSchema>
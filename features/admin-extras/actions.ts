@@ -0,0 +1,222 @@
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import { z } from 'zod'
+import { revalidateAllAltarPages } from '@/features/altar-catalog/revalidate'
+import {
+  type ItemExtra,
+  itemExtraCreateSchema,
+  itemExtraSchema,
+} from '@/features/items-extra/schemas/item-extra.schema'
+import { getAuthorizedAdmin } from '@/lib/auth/admin'
+import { hasPermission } from '@/lib/auth/permissions'
+import { ROUTES } from '@/lib/constants/routes'
+import { createClient } from '@/lib/supabase/server'
+import {
+  type ActionResult,
+  actionError,
+  actionForbidden,
+  actionSuccess,
+  actionValidationError,
+} from '@/lib/utils/action-result'
+
+const idSchema = z.string().uuid()
+
+// Catalog editors manage extras, but prices stay with pricing.write (as in reglas_precio)
+const precioForbiddenError = {
+  success: false as const,
+  error: 'No tienes permisos para cambiar precios',
+  fieldErrors: { precio: 'Solo quien administra los precios puede cambiarlo' },
+}
+
+// Extras show up in every product page's configurator and in /api/items-extra
+async function revalidateItemsExtra() {
+  revalidatePath(ROUTES.ADMIN_EXTRAS)
+  revalidatePath(ROUTES.API_ITEMS_EXTRA)
+  await revalidateAllAltarPages()
+}
+
+/**
+ * Create an extra item
+ * Needs pricing.write too, since a new item comes with its price
+ * @param input - Form values validated with itemExtraCreateSchema
+ */
+export async function createItemExtra(input: unknown): Promise<ActionResult<ItemExtra>> {
+  const admin = await getAuthorizedAdmin('catalog.write')
+  if (!admin) {
+    return actionForbidden()
+  }
+
+  if (!hasPermission(admin.rol, 'pricing.write')) {
+    return precioForbiddenError
+  }
+
+  const parsed = itemExtraCreateSchema.safeParse(input)
+  if (!parsed.success) {
+    return actionValidationError(parsed.error)
+  }
+
+  try {
+    const supabase = await createClient()
+    const { data, error } = await supabase
+      .from('items_extra')
+      .insert(parsed.data)
+      .select('*')
+      .single()
+
+    if (error) {
+      throw error
+    }
+
+    await revalidateItemsExtra()
+    return actionSuccess(itemExtraSchema.parse(data))
+  } catch (error) {
+    return actionError(error, { action: 'createItemExtra' })
+  }
+}
+
+/**
+ * Update an extra item
+ * Changing the price needs pricing.write; pedidos keep the name and price
+ * they were ordered with
+ * @param id - Extra item UUID
+ * @param input - Form values validated with itemExtraCreateSchema
+ */
+export async function updateItemExtra(id: string, input: unknown): Promise<ActionResult<ItemExtra>> {
+  const admin = await getAuthorizedAdmin('catalog.write')
+  if (!admin) {
+    return actionForbidden()
+  }
+
+  if (!idSchema.safeParse(id).success) {
+    return actionError('Item inválido')
+  }
+
+  const parsed = itemExtraCreateSchema.safeParse(input)
+  if (!parsed.success) {
+    return actionValidationError(parsed.error)
+  }
+
+  try {
+    const supabase = await createClient()
+
+    if (!hasPermission(admin.rol, 'pricing.write')) {
+      const { data: current, error } = await supabase
+        .from('items_extra')
+        .select('precio')
+        .eq('id', id)
+        .maybeSingle()
+
+      if (error) {
+        throw error
+      }
+
+      if (!current) {
+        return actionError('El item no existe')
+      }
+
+      if (Number(current.precio) !== parsed.data.precio) {
+        return precioForbiddenError
+      }
+    }
+
+    const { data, error } = await supabase
+      .from('items_extra')
+      .update(parsed.data)
+      .eq('id', id)
+      .select('*')
+      .maybeSingle()
+
+    if (error) {
+      throw error
+    }
+
+    if (!data) {
+      return actionError('El item no existe')
+    }
+
+    await revalidateItemsExtra()
+    return actionSuccess(itemExtraSchema.parse(data))
+  } catch (error) {
+    return actionError(error, { action: 'updateItemExtra', itemId: id })
+  }
+}
+
+/**
+ * Show or hide an extra item in the storefront
+ * @param id - Extra item UUID
+ * @param disponible - New availability
+ */
+export async function setItemExtraDisponible(
+  id: string,
+  disponible: boolean
+): Promise<ActionResult<ItemExtra>> {
+  if (!(await getAuthorizedAdmin('catalog.write'))) {
+    return actionForbidden()
+  }
+
+  if (!idSchema.safeParse(id).success) {
+    return actionError('Item inválido')
+  }
+
+  try {
+    const supabase = await createClient()
+    const { data, error } = await supabase
+      .from('items_extra')
+      .update({ disponible })
+      .eq('id', id)
+      .select('*')
+      .maybeSingle()
+
+    if (error) {
+      throw error
+    }
+
+    if (!data) {
+      return actionError('El item no existe')
+    }
+
+    await revalidateItemsExtra()
+    return actionSuccess(itemExtraSchema.parse(data))
+  } catch (error) {
+    return actionError(error, { action: 'setItemExtraDisponible', itemId: id })
+  }
+}
+
+/**
+ * Delete an extra item
+ * Pedidos keep their own copy; carts holding it get EXTRA_NOT_AVAILABLE at checkout
+ * @param id - Extra item UUID
+ */
+export async function deleteItemExtra(id: string): Promise<ActionResult> {
+  if (!(await getAuthorizedAdmin('catalog.write'))) {
+    return actionForbidden()
+  }
+
+  if (!idSchema.safeParse(id).success) {
+    return actionError('Item inválido')
+  }
+
+  try {
+    const supabase = await createClient()
+    const { data, error } = await supabase
+      .from('items_extra')
+      .delete()
+      .eq('id', id)
+      .select('id')
+      .maybeSingle()
+
+    if (error) {
+      throw error
+    }
+
+    if (!data) {
+      return actionError('El item no existe')
+    }
+
+    await revalidateItemsExtra()
+    return actionSuccess(undefined)
+  } catch (error) {
+    return actionError(error, { action: 'deleteItemExtra', itemId: id })
+  }
+}
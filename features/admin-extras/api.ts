@@ -0,0 +1,24 @@
+import { type ItemExtra, itemExtraSchema } from '@/features/items-extra/schemas/item-extra.schema'
+import { createClient } from '@/lib/supabase/server'
+import { logError } from '@/lib/utils/error-handler'
+
+/**
+ * Fetch every extra item, available or not (admin only via RLS)
+ * @returns Extra items sorted by type and name
+ */
+export async function getAdminItemsExtra(): Promise<ItemExtra[]> {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase
+    .from('items_extra')
+    .select('*')
+    .order('tipo', { ascending: true })
+    .order('nombre', { ascending: true })
+
+  if (error) {
+    logError(error, { source: 'getAdminItemsExtra' })
+    throw new Error('Failed to fetch extra items')
+  }
+
+  return data.map((item) => itemExtraSchema.parse(item))
+}
@@ -0,0 +1,255 @@
+'use client'
+
+import { zodResolver } from '@hookform/resolvers/zod'
+import { useState } from 'react'
+import { useForm } from 'react-hook-form'
+import { toast } from 'sonner'
+import type { z } from 'zod'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form'
+import { Input } from '@/components/ui/input'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  type ItemExtra,
+  type ItemExtraCreate,
+  itemExtraCreateSchema,
+  ItemExtraTypeEnum,
+} from '@/features/items-extra/schemas/item-extra.schema'
+import { ITEM_EXTRA_TYPES } from '@/lib/constants/business-config'
+import type { ActionResult } from '@/lib/utils/action-result'
+import { createItemExtra, updateItemExtra } from '../actions'
+
+type ItemExtraFormValues = z.input<typeof itemExtraCreateSchema>
+
+interface ItemExtraFormDialogProps {
+  /** Item to edit; omit to create a new one */
+  item?: ItemExtra
+  /** Without pricing.write the price is shown read-only */
+  canEditPrice: boolean
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+function toFormValues(item?: ItemExtra): ItemExtraFormValues {
+  return {
+    nombre: item?.nombre ?? '',
+    descripcion: item?.descripcion ?? null,
+    precio: item?.precio ?? Number.NaN,
+    imagen: item?.imagen ?? null,
+    tipo: item?.tipo ?? 'other',
+    disponible: item?.disponible ?? true,
+  }
+}
+
+// Empty inputs map to null so nullable columns are cleared rather than set to ''
+function emptyToNull(value: string): string | null {
+  return value.trim() === '' ? null : value
+}
+
+export function ItemExtraFormDialog({
+  item,
+  canEditPrice,
+  open,
+  onOpenChange,
+}: ItemExtraFormDialogProps) {
+  const [submitError, setSubmitError] = useState<string | null>(null)
+
+  const form = useForm<ItemExtraFormValues, unknown, ItemExtraCreate>({
+    resolver: zodResolver(itemExtraCreateSchema),
+    defaultValues: toFormValues(item),
+  })
+
+  const close = () => {
+    setSubmitError(null)
+    form.reset()
+    onOpenChange(false)
+  }
+
+  const onSubmit = async (values: ItemExtraCreate) => {
+    setSubmitError(null)
+
+    const result: ActionResult<ItemExtra> = item
+      ? await updateItemExtra(item.id, values)
+      : await createItemExtra(values)
+
+    if (!result.success) {
+      setSubmitError(result.error)
+      for (const [field, message] of Object.entries(result.fieldErrors ?? {})) {
+        form.setError(field as keyof ItemExtraFormValues, { message })
+      }
+      return
+    }
+
+    toast.success(item ? 'Item actualizado' : 'Item creado')
+    close()
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => (next ? onOpenChange(true) : close())}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{item ? `Editar ${item.nombre}` : 'Nuevo item extra'}</DialogTitle>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="nombre"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Nombre</FormLabel>
+                  <FormControl>
+                    <Input {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="tipo"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Tipo</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger className="w-full">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {ItemExtraTypeEnum.options.map((tipo) => (
+                          <SelectItem key={tipo} value={tipo}>
+                            {ITEM_EXTRA_TYPES[tipo].icon} {ITEM_EXTRA_TYPES[tipo].label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="precio"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Precio</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min={0}
+                        step="0.01"
+                        disabled={!canEditPrice}
+                        name={field.name}
+                        ref={field.ref}
+                        onBlur={field.onBlur}
+                        value={Number.isNaN(field.value) ? '' : field.value}
+                        onChange={(event) => field.onChange(event.target.valueAsNumber)}
+                      />
+                    </FormControl>
+                    {!canEditPrice && (
+                      <FormDescription>
+                        Solo quien administra los precios puede cambiarlo.
+                      </FormDescription>
+                    )}
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <FormField
+              control={form.control}
+              name="descripcion"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Descripción</FormLabel>
+                  <FormControl>
+                    <Textarea
+                      rows={2}
+                      value={field.value ?? ''}
+                      onChange={(event) => field.onChange(emptyToNull(event.target.value))}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="imagen"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Imagen (URL)</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="url"
+                      value={field.value ?? ''}
+                      onChange={(event) => field.onChange(emptyToNull(event.target.value))}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="disponible"
+              render={({ field }) => (
+                <FormItem className="flex flex-row items-start gap-3">
+                  <FormControl>
+                    <Checkbox
+                      checked={field.value}
+                      onCheckedChange={(checked) => field.onChange(checked === true)}
+                    />
+                  </FormControl>
+                  <div className="space-y-1">
+                    <FormLabel>Disponible en la tienda</FormLabel>
+                    <FormDescription>Los clientes pueden agregarlo a su altar.</FormDescription>
+                  </div>
+                </FormItem>
+              )}
+            />
+
+            {submitError && (
+              <p className="rounded-md bg-red-50 p-3 text-sm text-red-700">{submitError}</p>
+            )}
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={close}>
+                Cancelar
+              </Button>
+              <Button type="submit" disabled={form.formState.isSubmitting}>
+                {form.formState.isSubmitting ? 'Guardando…' : 'Guardar'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  )
+}
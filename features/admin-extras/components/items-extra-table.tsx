@@ -0,0 +1,187 @@
+'use client'
+
+import { Pencil, Plus, Trash2 } from 'lucide-react'
+import { useState, useTransition } from 'react'
+import { toast } from 'sonner'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import type { ItemExtra } from '@/features/items-extra/schemas/item-extra.schema'
+import { ITEM_EXTRA_TYPES } from '@/lib/constants/business-config'
+import { formatCurrency } from '@/lib/utils/format-currency'
+import { deleteItemExtra, setItemExtraDisponible } from '../actions'
+import { ItemExtraFormDialog } from './item-extra-form-dialog'
+
+interface ItemsExtraTableProps {
+  items: ItemExtra[]
+  canEdit: boolean
+  /** Whether the user may set prices (pricing.write); new items need one */
+  canEditPrice: boolean
+}
+
+export function ItemsExtraTable({ items, canEdit, canEditPrice }: ItemsExtraTableProps) {
+  const [isPending, startTransition] = useTransition()
+  const [formOpen, setFormOpen] = useState(false)
+  const [editing, setEditing] = useState<ItemExtra | undefined>(undefined)
+  const [toDelete, setToDelete] = useState<ItemExtra | null>(null)
+
+  const openForm = (item?: ItemExtra) => {
+    setEditing(item)
+    setFormOpen(true)
+  }
+
+  const toggleDisponible = (item: ItemExtra, disponible: boolean) => {
+    startTransition(async () => {
+      const result = await setItemExtraDisponible(item.id, disponible)
+      if (!result.success) {
+        toast.error(result.error)
+      }
+    })
+  }
+
+  const confirmDelete = () => {
+    if (!toDelete) {
+      return
+    }
+
+    const item = toDelete
+    startTransition(async () => {
+      const result = await deleteItemExtra(item.id)
+      if (result.success) {
+        toast.success(`${item.nombre} eliminado`)
+        setToDelete(null)
+      } else {
+        toast.error(result.error)
+      }
+    })
+  }
+
+  return (
+    <div className="space-y-4">
+      {canEdit && canEditPrice && (
+        <Button type="button" onClick={() => openForm()}>
+          <Plus className="size-4" />
+          Nuevo item
+        </Button>
+      )}
+
+      {items.length === 0 ? (
+        <div className="rounded-lg border-2 border-dashed border-neutral-300 p-8 text-center text-neutral-600">
+          No hay items extra todavía.
+        </div>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Nombre</TableHead>
+              <TableHead>Tipo</TableHead>
+              <TableHead className="text-right">Precio</TableHead>
+              <TableHead className="text-center">Disponible</TableHead>
+              {canEdit && <TableHead className="text-right">Acciones</TableHead>}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {items.map((item) => (
+              <TableRow key={item.id} className={item.disponible ? undefined : 'text-neutral-500'}>
+                <TableCell className="font-medium">
+                  {item.nombre}
+                  {!item.disponible && (
+                    <Badge variant="secondary" className="ml-2">
+                      Oculto
+                    </Badge>
+                  )}
+                </TableCell>
+                <TableCell>
+                  {ITEM_EXTRA_TYPES[item.tipo].icon} {ITEM_EXTRA_TYPES[item.tipo].label}
+                </TableCell>
+                <TableCell className="text-right">{formatCurrency(item.precio)}</TableCell>
+                <TableCell className="text-center">
+                  <Checkbox
+                    checked={item.disponible}
+                    disabled={!canEdit || isPending}
+                    onCheckedChange={(checked) => toggleDisponible(item, checked === true)}
+                    aria-label={`Disponible: ${item.nombre}`}
+                  />
+                </TableCell>
+                {canEdit && (
+                  <TableCell className="text-right">
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      disabled={isPending}
+                      onClick={() => openForm(item)}
+                      aria-label={`Editar ${item.nombre}`}
+                    >
+                      <Pencil className="size-4" />
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      disabled={isPending}
+                      onClick={() => setToDelete(item)}
+                      aria-label={`Eliminar ${item.nombre}`}
+                    >
+                      <Trash2 className="size-4" />
+                    </Button>
+                  </TableCell>
+                )}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      {/* Remounted per item so the form starts from that item's values */}
+      <ItemExtraFormDialog
+        key={editing?.id ?? 'nuevo'}
+        item={editing}
+        canEditPrice={canEditPrice}
+        open={formOpen}
+        onOpenChange={(open) => {
+          setFormOpen(open)
+          if (!open) {
+            setEditing(undefined)
+          }
+        }}
+      />
+
+      <Dialog open={toDelete !== null} onOpenChange={(open) => !open && setToDelete(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Eliminar {toDelete?.nombre}</DialogTitle>
+            <DialogDescription>
+              Dejará de ofrecerse en la tienda. Los pedidos que lo incluyen conservan su nombre y
+              precio. Si solo quieres ocultarlo, desmarca “Disponible”.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setToDelete(null)}>
+              Cancelar
+            </Button>
+            <Button type="button" variant="destructive" disabled={isPending} onClick={confirmDelete}>
+              Eliminar
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
@@ -0,0 +1,14 @@
+// Components
+export { ItemExtraFormDialog } from './components/item-extra-form-dialog'
+export { ItemsExtraTable } from './components/items-extra-table'
+
+// API
+export { getAdminItemsExtra } from './api'
+
+// Actions
+export {
+  createItemExtra,
+  deleteItemExtra,
+  setItemExtraDisponible,
+  updateItemExtra,
+} from './actions'
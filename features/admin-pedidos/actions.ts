@@ -0,0 +1,75 @@
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import { z } from 'zod'
+import { getAuthorizedAdmin } from '@/lib/auth/admin'
+import { ORDER_STATUSES } from '@/lib/constants/business-config'
+import { ROUTES } from '@/lib/constants/routes'
+import { createClient } from '@/lib/supabase/server'
+import {
+  type ActionResult,
+  actionError,
+  actionForbidden,
+  actionSuccess,
+} from '@/lib/utils/action-result'
+import { getPedidoById } from './api'
+import { type OrderStatus, OrderStatusEnum } from './schemas/pedido.schema'
+import { canTransition } from './transitions'
+
+const idSchema = z.string().uuid()
+
+/**
+ * Move a pedido to another status
+ * The database rejects invalid moves too and records who made the change
+ * @param id - Pedido UUID
+ * @param estado - Requested status
+ */
+export async function changePedidoEstado(
+  id: string,
+  estado: OrderStatus
+): Promise<ActionResult<OrderStatus>> {
+  if (!(await getAuthorizedAdmin('pedidos.update'))) {
+    return actionForbidden()
+  }
+
+  if (!idSchema.safeParse(id).success || !OrderStatusEnum.safeParse(estado).success) {
+    return actionError('Pedido o estado inválido')
+  }
+
+  try {
+    const pedido = await getPedidoById(id)
+    if (!pedido) {
+      return actionError('El pedido no existe')
+    }
+
+    if (!canTransition(pedido.estado, estado)) {
+      return actionError(
+        `Un pedido ${ORDER_STATUSES[pedido.estado].label.toLowerCase()} no puede pasar a ${ORDER_STATUSES[estado].label.toLowerCase()}`
+      )
+    }
+
+    // Only update if nobody changed the status since it was read
+    const supabase = await createClient()
+    const { data, error } = await supabase
+      .from('pedidos')
+      .update({ estado })
+      .eq('id', id)
+      .eq('estado', pedido.estado)
+      .select('id')
+      .maybeSingle()
+
+    if (error) {
+      throw error
+    }
+
+    if (!data) {
+      return actionError('Otro usuario cambió el estado de este pedido. Recarga la página.')
+    }
+
+    revalidatePath(ROUTES.ADMIN_PEDIDOS)
+    revalidatePath(ROUTES.ADMIN_PEDIDO_DETAIL(id))
+    return actionSuccess(estado)
+  } catch (error) {
+    return actionError(error, { action: 'changePedidoEstado', pedidoId: id, estado })
+  }
+}
@@ -0,0 +1,113 @@
+import { BUSINESS_CONFIG } from '@/lib/constants/business-config'
+import { createClient } from '@/lib/supabase/server'
+import { logError } from '@/lib/utils/error-handler'
+import { startOfDayInTimeZone } from '@/lib/utils/format-date'
+import {
+  type Pedido,
+  type PedidoEstadoCambio,
+  type PedidoFilters,
+  type PedidosPage,
+  pedidoEstadoCambioSchema,
+  pedidoSchema,
+} from './schemas/pedido.schema'
+
+export const PEDIDOS_PAGE_SIZE = 20
+
+/**
+ * Add one day to a YYYY-MM-DD date, so "hasta" includes the whole day
+ */
+function nextDay(date: string): string {
+  const day = new Date(`${date}T00:00:00Z`)
+  day.setUTCDate(day.getUTCDate() + 1)
+  return day.toISOString().slice(0, 10)
+}
+
+/**
+ * Fetch a page of pedidos for the admin board (admin only via RLS)
+ * @param filters - Estado, created_at date range, phone digits and page
+ * @returns Pedidos newest first with the total count for pagination
+ */
+export async function getPedidos(filters: PedidoFilters): Promise<PedidosPage> {
+  const supabase = await createClient()
+  const from = (filters.page - 1) * PEDIDOS_PAGE_SIZE
+
+  let query = supabase
+    .from('pedidos')
+    .select('*', { count: 'exact' })
+    .order('created_at', { ascending: false })
+    .range(from, from + PEDIDOS_PAGE_SIZE - 1)
+
+  if (filters.estado) {
+    query = query.eq('estado', filters.estado)
+  }
+  // Days are those of the business, not UTC
+  if (filters.desde) {
+    query = query.gte('created_at', startOfDayInTimeZone(filters.desde, BUSINESS_CONFIG.timeZone))
+  }
+  if (filters.hasta) {
+    query = query.lt(
+      'created_at',
+      startOfDayInTimeZone(nextDay(filters.hasta), BUSINESS_CONFIG.timeZone)
+    )
+  }
+  if (filters.telefono) {
+    // Customers type phones freely; compare digits against digits
+    query = query.like('cliente_telefono_digitos', `%${filters.telefono}%`)
+  }
+
+  const { data, error, count } = await query
+
+  if (error) {
+    logError(error, { source: 'getPedidos', filters })
+    throw new Error('Failed to fetch pedidos')
+  }
+
+  const total = count ?? 0
+
+  return {
+    pedidos: data.map((pedido) => pedidoSchema.parse(pedido)),
+    total,
+    page: filters.page,
+    totalPages: Math.max(1, Math.ceil(total / PEDIDOS_PAGE_SIZE)),
+  }
+}
+
+/**
+ * Fetch a pedido by ID (admin only via RLS)
+ * @param id - Pedido UUID
+ * @returns Pedido or null
+ */
+export async function getPedidoById(id: string): Promise<Pedido | null> {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase.from('pedidos').select('*').eq('id', id).maybeSingle()
+
+  if (error) {
+    logError(error, { source: 'getPedidoById', pedidoId: id })
+    throw new Error('Failed to fetch pedido')
+  }
+
+  return data ? pedidoSchema.parse(data) : null
+}
+
+/**
+ * Fetch the status history of a pedido
+ * @param id - Pedido UUID
+ * @returns Status changes, oldest first
+ */
+export async function getPedidoHistorial(id: string): Promise<PedidoEstadoCambio[]> {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase
+    .from('pedido_estados_historial')
+    .select('*, admin:admin_usuarios(nombre)')
+    .eq('pedido_id', id)
+    .order('created_at', { ascending: true })
+
+  if (error) {
+    logError(error, { source: 'getPedidoHistorial', pedidoId: id })
+    throw new Error('Failed to fetch pedido history')
+  }
+
+  return data.map((cambio) => pedidoEstadoCambioSchema.parse(cambio))
+}
@@ -0,0 +1,24 @@
+import { Badge } from '@/components/ui/badge'
+import { ORDER_STATUSES } from '@/lib/constants/business-config'
+import { cn } from '@/lib/utils'
+import type { OrderStatus } from '../schemas/pedido.schema'
+
+const ESTADO_CLASSES: Record<OrderStatus, string> = {
+  pendiente: 'bg-amber-100 text-amber-900',
+  confirmado: 'bg-blue-100 text-blue-900',
+  completado: 'bg-green-100 text-green-900',
+  cancelado: 'bg-neutral-200 text-neutral-700',
+}
+
+interface EstadoBadgeProps {
+  estado: OrderStatus
+  className?: string
+}
+
+export function EstadoBadge({ estado, className }: EstadoBadgeProps) {
+  return (
+    <Badge variant="outline" className={cn('border-transparent', ESTADO_CLASSES[estado], className)}>
+      {ORDER_STATUSES[estado].label}
+    </Badge>
+  )
+}
@@ -0,0 +1,103 @@
+'use client'
+
+import { useState, useTransition } from 'react'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { ORDER_STATUSES } from '@/lib/constants/business-config'
+import { changePedidoEstado } from '../actions'
+import type { OrderStatus } from '../schemas/pedido.schema'
+import { getNextStatuses } from '../transitions'
+
+interface PedidoEstadoActionsProps {
+  pedidoId: string
+  estado: OrderStatus
+  canUpdate: boolean
+}
+
+export function PedidoEstadoActions({ pedidoId, estado, canUpdate }: PedidoEstadoActionsProps) {
+  const [isPending, startTransition] = useTransition()
+  const [target, setTarget] = useState<OrderStatus | null>(null)
+  const nextStatuses = getNextStatuses(estado)
+
+  if (nextStatuses.length === 0) {
+    return (
+      <p className="text-sm text-neutral-600">
+        Este pedido está {ORDER_STATUSES[estado].label.toLowerCase()}; su estado ya no puede cambiar.
+      </p>
+    )
+  }
+
+  if (!canUpdate) {
+    return <p className="text-sm text-neutral-600">Tu rol no permite cambiar el estado de los pedidos.</p>
+  }
+
+  const confirm = () => {
+    if (!target) {
+      return
+    }
+
+    const nuevoEstado = target
+    startTransition(async () => {
+      const result = await changePedidoEstado(pedidoId, nuevoEstado)
+      if (result.success) {
+        toast.success(`Pedido ${ORDER_STATUSES[nuevoEstado].label.toLowerCase()}`)
+        setTarget(null)
+      } else {
+        toast.error(result.error)
+      }
+    })
+  }
+
+  return (
+    <>
+      <div className="flex flex-wrap gap-2">
+        {nextStatuses.map((next) => (
+          <Button
+            key={next}
+            type="button"
+            variant={next === 'cancelado' ? 'outline' : 'default'}
+            disabled={isPending}
+            onClick={() => setTarget(next)}
+          >
+            Marcar como {ORDER_STATUSES[next].label.toLowerCase()}
+          </Button>
+        ))}
+      </div>
+
+      <Dialog open={target !== null} onOpenChange={(open) => !open && setTarget(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              ¿Marcar como {target && ORDER_STATUSES[target].label.toLowerCase()}?
+            </DialogTitle>
+            <DialogDescription>
+              {target && ORDER_STATUSES[target].description}.
+              {target && getNextStatuses(target).length === 0 && ' Este cambio no se puede deshacer.'}
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setTarget(null)}>
+              Cancelar
+            </Button>
+            <Button
+              type="button"
+              variant={target === 'cancelado' ? 'destructive' : 'default'}
+              disabled={isPending}
+              onClick={confirm}
+            >
+              Confirmar
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
@@ -0,0 +1,29 @@
+import { ORDER_STATUSES } from '@/lib/constants/business-config'
+import { formatDateTime } from '@/lib/utils/format-date'
+import type { PedidoEstadoCambio } from '../schemas/pedido.schema'
+
+interface PedidoHistorialProps {
+  createdAt: string
+  historial: PedidoEstadoCambio[]
+}
+
+export function PedidoHistorial({ createdAt, historial }: PedidoHistorialProps) {
+  return (
+    <ol className="space-y-3 border-l border-neutral-200 pl-4 text-sm">
+      <li>
+        <p className="font-medium text-neutral-900">Pedido recibido</p>
+        <p className="text-neutral-500">{formatDateTime(createdAt)}</p>
+      </li>
+      {historial.map((cambio) => (
+        <li key={cambio.id}>
+          <p className="font-medium text-neutral-900">
+            {ORDER_STATUSES[cambio.estado_anterior].label} → {ORDER_STATUSES[cambio.estado_nuevo].label}
+          </p>
+          <p className="text-neutral-500">
+            {formatDateTime(cambio.created_at)} · {cambio.admin?.nombre ?? (cambio.admin_id ? 'Administrador' : 'Sistema')}
+          </p>
+        </li>
+      ))}
+    </ol>
+  )
+}
@@ -0,0 +1,54 @@
+import { pedidoItemsSchema } from '@/features/checkout/schemas/pedido-items.schema'
+import { MODEL_TYPES } from '@/lib/constants/business-config'
+import { formatCurrency } from '@/lib/utils/format-currency'
+
+interface PedidoItemsProps {
+  items: unknown
+}
+
+export function PedidoItems({ items }: PedidoItemsProps) {
+  const parsed = pedidoItemsSchema.safeParse(items)
+
+  if (!parsed.success) {
+    return (
+      <div>
+        <p className="mb-2 text-sm text-amber-700">
+          No se pudo interpretar el detalle de este pedido. Se muestra tal como se guardó.
+        </p>
+        <pre className="overflow-x-auto rounded-md bg-neutral-100 p-4 text-xs">
+          {JSON.stringify(items, null, 2)}
+        </pre>
+      </div>
+    )
+  }
+
+  return (
+    <ul className="divide-y divide-neutral-200">
+      {parsed.data.map((item, index) => (
+        <li key={`${item.altar_id}-${index}`} className="py-4">
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <p className="font-medium text-neutral-900">
+                {item.cantidad}× {MODEL_TYPES[item.modelo_tipo].icon} {item.nombre}
+              </p>
+              <p className="mt-1 text-sm text-neutral-600">
+                {item.altura.valor} × {item.anchura.valor} {item.anchura.unidad} ·{' '}
+                {item.grosor.valor} {item.grosor.unidad} · {item.pintado ? 'Pintado' : 'Sin pintar'}
+              </p>
+              {item.items_extra.length > 0 && (
+                <p className="mt-1 text-sm text-neutral-600">
+                  Extras por altar:{' '}
+                  {item.items_extra.map((extra) => `${extra.cantidad}× ${extra.nombre}`).join(', ')}
+                </p>
+              )}
+            </div>
+            <div className="text-right text-sm">
+              <p className="text-neutral-600">{formatCurrency(item.precio_unitario)} c/u</p>
+              <p className="font-medium text-neutral-900">{formatCurrency(item.subtotal)}</p>
+            </div>
+          </div>
+        </li>
+      ))}
+    </ul>
+  )
+}
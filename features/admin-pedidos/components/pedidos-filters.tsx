@@ -0,0 +1,100 @@
+'use client'
+
+import { useRouter } from 'next/navigation'
+import { type FormEvent, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { ORDER_STATUSES } from '@/lib/constants/business-config'
+import { ROUTES } from '@/lib/constants/routes'
+import { toPedidosQuery } from '../filters'
+import { type OrderStatus, OrderStatusEnum, type PedidoFilters } from '../schemas/pedido.schema'
+
+const ALL_ESTADOS = 'todos'
+
+interface PedidosFiltersProps {
+  filters: PedidoFilters
+}
+
+export function PedidosFilters({ filters }: PedidosFiltersProps) {
+  const router = useRouter()
+  const [estado, setEstado] = useState<OrderStatus | typeof ALL_ESTADOS>(
+    filters.estado ?? ALL_ESTADOS
+  )
+  const [desde, setDesde] = useState(filters.desde ?? '')
+  const [hasta, setHasta] = useState(filters.hasta ?? '')
+  const [telefono, setTelefono] = useState(filters.telefono ?? '')
+
+  // Changing any filter starts again from the first page
+  const onSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    router.push(
+      `${ROUTES.ADMIN_PEDIDOS}${toPedidosQuery({
+        estado: estado === ALL_ESTADOS ? undefined : estado,
+        desde,
+        hasta,
+        telefono: telefono.replace(/\D/g, ''),
+      })}`
+    )
+  }
+
+  const onReset = () => {
+    setEstado(ALL_ESTADOS)
+    setDesde('')
+    setHasta('')
+    setTelefono('')
+    router.push(ROUTES.ADMIN_PEDIDOS)
+  }
+
+  return (
+    <form onSubmit={onSubmit} className="grid gap-4 sm:grid-cols-2 lg:grid-cols-5 lg:items-end">
+      <div className="space-y-2">
+        <Label htmlFor="filtro-estado">Estado</Label>
+        <Select value={estado} onValueChange={(value) => setEstado(value as OrderStatus | typeof ALL_ESTADOS)}>
+          <SelectTrigger id="filtro-estado" className="w-full">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL_ESTADOS}>Todos</SelectItem>
+            {OrderStatusEnum.options.map((value) => (
+              <SelectItem key={value} value={value}>
+                {ORDER_STATUSES[value].label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="filtro-desde">Desde</Label>
+        <Input id="filtro-desde" type="date" value={desde} onChange={(event) => setDesde(event.target.value)} />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="filtro-hasta">Hasta</Label>
+        <Input id="filtro-hasta" type="date" value={hasta} onChange={(event) => setHasta(event.target.value)} />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="filtro-telefono">Teléfono</Label>
+        <Input
+          id="filtro-telefono"
+          type="tel"
+          inputMode="tel"
+          value={telefono}
+          onChange={(event) => setTelefono(event.target.value)}
+        />
+      </div>
+      <div className="flex gap-2">
+        <Button type="submit">Filtrar</Button>
+        <Button type="button" variant="outline" onClick={onReset}>
+          Limpiar
+        </Button>
+      </div>
+    </form>
+  )
+}
@@ -0,0 +1,45 @@
+import Link from 'next/link'
+import { Button } from '@/components/ui/button'
+import { ROUTES } from '@/lib/constants/routes'
+import { toPedidosQuery } from '../filters'
+import type { PedidoFilters } from '../schemas/pedido.schema'
+
+interface PedidosPaginationProps {
+  filters: PedidoFilters
+  total: number
+  totalPages: number
+}
+
+export function PedidosPagination({ filters, total, totalPages }: PedidosPaginationProps) {
+  const { page } = filters
+  const pageHref = (target: number) =>
+    `${ROUTES.ADMIN_PEDIDOS}${toPedidosQuery({ ...filters, page: target })}`
+
+  return (
+    <div className="flex items-center justify-between gap-4 text-sm text-neutral-600">
+      <span>
+        {total} {total === 1 ? 'pedido' : 'pedidos'} · Página {page} de {totalPages}
+      </span>
+      <div className="flex gap-2">
+        {page > 1 ? (
+          <Button asChild variant="outline" size="sm">
+            <Link href={pageHref(page - 1)}>Anterior</Link>
+          </Button>
+        ) : (
+          <Button variant="outline" size="sm" disabled>
+            Anterior
+          </Button>
+        )}
+        {page < totalPages ? (
+          <Button asChild variant="outline" size="sm">
+            <Link href={pageHref(page + 1)}>Siguiente</Link>
+          </Button>
+        ) : (
+          <Button variant="outline" size="sm" disabled>
+            Siguiente
+          </Button>
+        )}
+      </div>
+    </div>
+  )
+}
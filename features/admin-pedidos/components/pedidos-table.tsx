@@ -0,0 +1,61 @@
+import Link from 'next/link'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { ROUTES } from '@/lib/constants/routes'
+import { formatCurrency } from '@/lib/utils/format-currency'
+import { formatDateTime } from '@/lib/utils/format-date'
+import type { Pedido } from '../schemas/pedido.schema'
+import { EstadoBadge } from './estado-badge'
+
+interface PedidosTableProps {
+  pedidos: Pedido[]
+}
+
+export function PedidosTable({ pedidos }: PedidosTableProps) {
+  if (pedidos.length === 0) {
+    return (
+      <div className="rounded-lg border-2 border-dashed border-neutral-300 p-8 text-center text-neutral-600">
+        No hay pedidos con estos filtros.
+      </div>
+    )
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Pedido</TableHead>
+          <TableHead>Fecha</TableHead>
+          <TableHead>Cliente</TableHead>
+          <TableHead>Teléfono</TableHead>
+          <TableHead>Estado</TableHead>
+          <TableHead className="text-right">Total</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {pedidos.map((pedido) => (
+          <TableRow key={pedido.id}>
+            <TableCell className="font-mono text-xs">
+              <Link href={ROUTES.ADMIN_PEDIDO_DETAIL(pedido.id)} className="hover:underline">
+                {pedido.numero_pedido}
+              </Link>
+            </TableCell>
+            <TableCell>{formatDateTime(pedido.created_at)}</TableCell>
+            <TableCell>{pedido.cliente_nombre}</TableCell>
+            <TableCell>{pedido.cliente_telefono}</TableCell>
+            <TableCell>
+              <EstadoBadge estado={pedido.estado} />
+            </TableCell>
+            <TableCell className="text-right font-medium">{formatCurrency(pedido.total)}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  )
+}
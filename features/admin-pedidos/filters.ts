@@ -0,0 +1,29 @@
+import type { PedidoFilters } from './schemas/pedido.schema'
+
+/**
+ * Build the admin order list query string for a set of filters
+ * @param filters - Filters to keep; page 1 and empty values are omitted
+ * @returns Query string including the leading "?", or an empty string
+ */
+export function toPedidosQuery(filters: Partial<PedidoFilters>): string {
+  const params = new URLSearchParams()
+
+  if (filters.estado) {
+    params.set('estado', filters.estado)
+  }
+  if (filters.desde) {
+    params.set('desde', filters.desde)
+  }
+  if (filters.hasta) {
+    params.set('hasta', filters.hasta)
+  }
+  if (filters.telefono) {
+    params.set('telefono', filters.telefono)
+  }
+  if (filters.page && filters.page > 1) {
+    params.set('page', String(filters.page))
+  }
+
+  const query = params.toString()
+  return query ? `?${query}` : ''
+}
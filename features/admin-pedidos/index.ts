@@ -0,0 +1,31 @@
+// Components
+export { EstadoBadge } from './components/estado-badge'
+export { PedidoEstadoActions } from './components/pedido-estado-actions'
+export { PedidoHistorial } from './components/pedido-historial'
+export { PedidoItems } from './components/pedido-items'
+export { PedidosFilters } from './components/pedidos-filters'
+export { PedidosPagination } from './components/pedidos-pagination'
+export { PedidosTable } from './components/pedidos-table'
+
+// API
+export { getPedidoById, getPedidoHistorial, getPedidos, PEDIDOS_PAGE_SIZE } from './api'
+
+// Actions
+export { changePedidoEstado } from './actions'
+
+// Transitions
+export { canTransition, getNextStatuses, ORDER_STATUS_TRANSITIONS } from './transitions'
+export { toPedidosQuery } from './filters'
+
+// Schemas
+export {
+  OrderStatusEnum,
+  pedidoEstadoCambioSchema,
+  pedidoFiltersSchema,
+  pedidoSchema,
+  type OrderStatus,
+  type Pedido,
+  type PedidoEstadoCambio,
+  type PedidoFilters,
+  type PedidosPage,
+} from './schemas/pedido.schema'
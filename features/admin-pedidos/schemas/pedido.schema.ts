@@ -0,0 +1,84 @@
+import { z } from 'zod'
+
+/**
+ * Order statuses
+ */
+export const OrderStatusEnum = z.enum(['pendiente', 'confirmado', 'completado', 'cancelado'])
+export type OrderStatus = z.infer<typeof OrderStatusEnum>
+
+/**
+ * Pedido schema for validation
+ */
+export const pedidoSchema = z.object({
+  id: z.string().uuid(),
+  numero_pedido: z.string(),
+  cliente_nombre: z.string(),
+  cliente_telefono: z.string(),
+  cliente_email: z.string().nullable(),
+  // Read with pedidoItemsSchema where the lines are shown, so one
+  // unreadable order doesn't break the list
+  items: z.unknown(),
+  subtotal: z.number(),
+  descuento: z.number(),
+  total: z.number(),
+  estado: OrderStatusEnum,
+  codigo_promocion_id: z.string().uuid().nullable(),
+  codigo_promocion: z.string().nullable(),
+  descuento_promocion: z.number(),
+  whatsapp_enviado: z.boolean(),
+  whatsapp_enviado_at: z.string().nullable(),
+  notas: z.string().nullable(),
+  created_at: z.string(),
+  updated_at: z.string(),
+})
+
+export type Pedido = z.infer<typeof pedidoSchema>
+
+/**
+ * Status change with the admin who made it
+ */
+export const pedidoEstadoCambioSchema = z.object({
+  id: z.string().uuid(),
+  pedido_id: z.string().uuid(),
+  estado_anterior: OrderStatusEnum,
+  estado_nuevo: OrderStatusEnum,
+  admin_id: z.string().uuid().nullable(),
+  admin: z.object({ nombre: z.string().nullable() }).nullable(),
+  created_at: z.string(),
+})
+
+export type PedidoEstadoCambio = z.infer<typeof pedidoEstadoCambioSchema>
+
+const dateParamSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/)
+  .optional()
+  .catch(undefined)
+
+/**
+ * Admin order list filters, parsed from the URL search params
+ * Invalid values are dropped instead of failing the page
+ */
+export const pedidoFiltersSchema = z.object({
+  estado: OrderStatusEnum.optional().catch(undefined),
+  desde: dateParamSchema,
+  hasta: dateParamSchema,
+  telefono: z
+    .string()
+    .transform((value) => value.replace(/\D/g, ''))
+    .optional()
+    .catch(undefined),
+  page: z.coerce.number().int().min(1).default(1).catch(1),
+})
+
+export type PedidoFilters = z.infer<typeof pedidoFiltersSchema>
+
+/**
+ * Paginated admin order list
+ */
+export interface PedidosPage {
+  pedidos: Pedido[]
+  total: number
+  page: number
+  totalPages: number
+}
@@ -0,0 +1,29 @@
+import type { OrderStatus } from './schemas/pedido.schema'
+
+/**
+ * Allowed order status moves; completado and cancelado are final
+ * Mirrors is_valid_order_status_transition in the database
+ */
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, readonly OrderStatus[]> = {
+  pendiente: ['confirmado', 'cancelado'],
+  confirmado: ['completado', 'cancelado'],
+  completado: [],
+  cancelado: [],
+}
+
+/**
+ * Check whether an order can move from one status to another
+ * @param from - Current status
+ * @param to - Requested status
+ */
+export function canTransition(from: OrderStatus, to: OrderStatus): boolean {
+  return ORDER_STATUS_TRANSITIONS[from].includes(to)
+}
+
+/**
+ * Statuses an order can move to next
+ * @param from - Current status
+ */
+export function getNextStatuses(from: OrderStatus): readonly OrderStatus[] {
+  return ORDER_STATUS_TRANSITIONS[from]
+}
@@ -0,0 +1,203 @@
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import { z } from 'zod'
+import { getAuthorizedAdmin } from '@/lib/auth/admin'
+import { ROUTES } from '@/lib/constants/routes'
+import { createClient } from '@/lib/supabase/server'
+import {
+  type ActionResult,
+  actionError,
+  actionForbidden,
+  actionSuccess,
+  actionValidationError,
+} from '@/lib/utils/action-result'
+import {
+  type CodigoPromocionRow,
+  codigoPromocionFormSchema,
+  codigoPromocionRowSchema,
+} from './schemas/codigo-promocion.schema'
+
+const idSchema = z.string().uuid()
+
+function codigoTakenError(codigo: string) {
+  return {
+    success: false as const,
+    error: 'Revisa los campos marcados',
+    fieldErrors: { codigo: `Ya existe el código ${codigo}` },
+  }
+}
+
+function hasErrorCode(error: unknown, code: string): boolean {
+  return typeof error === 'object' && error !== null && 'code' in error && error.code === code
+}
+
+/**
+ * Create a promo code
+ * @param input - Form values validated with codigoPromocionFormSchema
+ */
+export async function createCodigoPromocion(
+  input: unknown
+): Promise<ActionResult<CodigoPromocionRow>> {
+  if (!(await getAuthorizedAdmin('pricing.write'))) {
+    return actionForbidden()
+  }
+
+  const parsed = codigoPromocionFormSchema.safeParse(input)
+  if (!parsed.success) {
+    return actionValidationError(parsed.error)
+  }
+
+  try {
+    const supabase = await createClient()
+    const { data, error } = await supabase
+      .from('codigos_promocion')
+      .insert(parsed.data)
+      .select('*')
+      .single()
+
+    if (error) {
+      if (hasErrorCode(error, '23505')) {
+        return codigoTakenError(parsed.data.codigo)
+      }
+      throw error
+    }
+
+    revalidatePath(ROUTES.ADMIN_PROMOCIONES)
+    return actionSuccess(codigoPromocionRowSchema.parse(data))
+  } catch (error) {
+    return actionError(error, { action: 'createCodigoPromocion' })
+  }
+}
+
+/**
+ * Update a promo code
+ * Pedidos that already used it keep the discount they got
+ * @param id - Promo code UUID
+ * @param input - Form values validated with codigoPromocionFormSchema
+ */
+export async function updateCodigoPromocion(
+  id: string,
+  input: unknown
+): Promise<ActionResult<CodigoPromocionRow>> {
+  if (!(await getAuthorizedAdmin('pricing.write'))) {
+    return actionForbidden()
+  }
+
+  if (!idSchema.safeParse(id).success) {
+    return actionError('Código inválido')
+  }
+
+  const parsed = codigoPromocionFormSchema.safeParse(input)
+  if (!parsed.success) {
+    return actionValidationError(parsed.error)
+  }
+
+  try {
+    const supabase = await createClient()
+    const { data, error } = await supabase
+      .from('codigos_promocion')
+      .update(parsed.data)
+      .eq('id', id)
+      .select('*')
+      .maybeSingle()
+
+    if (error) {
+      if (hasErrorCode(error, '23505')) {
+        return codigoTakenError(parsed.data.codigo)
+      }
+      throw error
+    }
+
+    if (!data) {
+      return actionError('El código no existe')
+    }
+
+    revalidatePath(ROUTES.ADMIN_PROMOCIONES)
+    return actionSuccess(codigoPromocionRowSchema.parse(data))
+  } catch (error) {
+    return actionError(error, { action: 'updateCodigoPromocion', codigoId: id })
+  }
+}
+
+/**
+ * Turn a promo code on or off
+ * @param id - Promo code UUID
+ * @param activo - Whether customers can use it
+ */
+export async function setCodigoPromocionActivo(
+  id: string,
+  activo: boolean
+): Promise<ActionResult<CodigoPromocionRow>> {
+  if (!(await getAuthorizedAdmin('pricing.write'))) {
+    return actionForbidden()
+  }
+
+  if (!idSchema.safeParse(id).success) {
+    return actionError('Código inválido')
+  }
+
+  try {
+    const supabase = await createClient()
+    const { data, error } = await supabase
+      .from('codigos_promocion')
+      .update({ activo })
+      .eq('id', id)
+      .select('*')
+      .maybeSingle()
+
+    if (error) {
+      throw error
+    }
+
+    if (!data) {
+      return actionError('El código no existe')
+    }
+
+    revalidatePath(ROUTES.ADMIN_PROMOCIONES)
+    return actionSuccess(codigoPromocionRowSchema.parse(data))
+  } catch (error) {
+    return actionError(error, { action: 'setCodigoPromocionActivo', codigoId: id })
+  }
+}
+
+/**
+ * Delete a promo code that was never used
+ * Used codes are kept for the campaign report and can only be deactivated
+ * @param id - Promo code UUID
+ */
+export async function deleteCodigoPromocion(id: string): Promise<ActionResult> {
+  if (!(await getAuthorizedAdmin('pricing.write'))) {
+    return actionForbidden()
+  }
+
+  if (!idSchema.safeParse(id).success) {
+    return actionError('Código inválido')
+  }
+
+  try {
+    const supabase = await createClient()
+    const { data, error } = await supabase
+      .from('codigos_promocion')
+      .delete()
+      .eq('id', id)
+      .select('id')
+      .maybeSingle()
+
+    if (error) {
+      if (hasErrorCode(error, '23503')) {
+        return actionError('Este código ya se usó en pedidos; desactívalo en su lugar')
+      }
+      throw error
+    }
+
+    if (!data) {
+      return actionError('El código no existe')
+    }
+
+    revalidatePath(ROUTES.ADMIN_PROMOCIONES)
+    return actionSuccess(undefined)
+  } catch (error) {
+    return actionError(error, { action: 'deleteCodigoPromocion', codigoId: id })
+  }
+}
@@ -0,0 +1,26 @@
+import { createClient } from '@/lib/supabase/server'
+import { logError } from '@/lib/utils/error-handler'
+import {
+  type CodigoPromocionResumen,
+  codigoPromocionResumenSchema,
+} from './schemas/codigo-promocion.schema'
+
+/**
+ * Fetch every promo code with its uses, discount given and sales
+ * @returns Codes, newest first
+ */
+export async function getAdminCodigosPromocion(): Promise<CodigoPromocionResumen[]> {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase
+    .from('codigos_promocion_resumen')
+    .select('*')
+    .order('created_at', { ascending: false })
+
+  if (error) {
+    logError(error, { source: 'getAdminCodigosPromocion' })
+    throw new Error('Failed to fetch promo codes')
+  }
+
+  return data.map((codigo) => codigoPromocionResumenSchema.parse(codigo))
+}
@@ -0,0 +1,370 @@
+'use client'
+
+import { zodResolver } from '@hookform/resolvers/zod'
+import { useState } from 'react'
+import { type ControllerRenderProps, useForm } from 'react-hook-form'
+import { toast } from 'sonner'
+import type { z } from 'zod'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form'
+import { Input } from '@/components/ui/input'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { PromoDiscountTypeEnum } from '@/features/pricing/schemas/pricing.schema'
+import { PROMO_DISCOUNT_TYPES } from '@/lib/constants/business-config'
+import type { ActionResult } from '@/lib/utils/action-result'
+import { createCodigoPromocion, updateCodigoPromocion } from '../actions'
+import {
+  type CodigoPromocionForm,
+  type CodigoPromocionRow,
+  codigoPromocionFormSchema,
+} from '../schemas/codigo-promocion.schema'
+
+type CodigoPromocionFormValues = z.input<typeof codigoPromocionFormSchema>
+
+type OptionalNumberField = 'minimo_compra' | 'usos_maximos' | 'usos_por_telefono'
+type DateField = 'vigente_desde' | 'vigente_hasta'
+
+interface CodigoPromocionFormDialogProps {
+  /** Code to edit; omit to create a new one */
+  codigo?: CodigoPromocionRow
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+function toFormValues(codigo?: CodigoPromocionRow): CodigoPromocionFormValues {
+  return {
+    codigo: codigo?.codigo ?? '',
+    descripcion: codigo?.descripcion ?? null,
+    tipo: codigo?.tipo ?? 'porcentaje',
+    valor: codigo?.valor ?? Number.NaN,
+    acumulable: codigo?.acumulable ?? false,
+    minimo_compra: codigo?.minimo_compra ?? null,
+    usos_maximos: codigo?.usos_maximos ?? null,
+    usos_por_telefono: codigo?.usos_por_telefono ?? null,
+    vigente_desde: codigo?.vigente_desde ?? null,
+    vigente_hasta: codigo?.vigente_hasta ?? null,
+    activo: codigo?.activo ?? true,
+  }
+}
+
+/**
+ * Local calendar day of a timestamp, as a date input value
+ */
+function toDateInput(value: string | null): string {
+  if (!value) {
+    return ''
+  }
+  const date = new Date(value)
+  const pad = (part: number) => String(part).padStart(2, '0')
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`
+}
+
+/**
+ * Start or end of a local calendar day, so "hasta el 2 de noviembre" includes that whole day
+ */
+function fromDateInput(value: string, field: DateField): string | null {
+  if (value === '') {
+    return null
+  }
+  const time = field === 'vigente_desde' ? '00:00:00' : '23:59:59.999'
+  return new Date(`${value}T${time}`).toISOString()
+}
+
+export function CodigoPromocionFormDialog({
+  codigo,
+  open,
+  onOpenChange,
+}: CodigoPromocionFormDialogProps) {
+  const [submitError, setSubmitError] = useState<string | null>(null)
+
+  const form = useForm<CodigoPromocionFormValues, unknown, CodigoPromocionForm>({
+    resolver: zodResolver(codigoPromocionFormSchema),
+    defaultValues: toFormValues(codigo),
+  })
+
+  const tipo = form.watch('tipo')
+
+  const close = () => {
+    setSubmitError(null)
+    form.reset()
+    onOpenChange(false)
+  }
+
+  const onSubmit = async (values: CodigoPromocionForm) => {
+    setSubmitError(null)
+
+    const result: ActionResult<CodigoPromocionRow> = codigo
+      ? await updateCodigoPromocion(codigo.id, values)
+      : await createCodigoPromocion(values)
+
+    if (!result.success) {
+      setSubmitError(result.error)
+      for (const [field, message] of Object.entries(result.fieldErrors ?? {})) {
+        form.setError(field as keyof CodigoPromocionFormValues, { message })
+      }
+      return
+    }
+
+    toast.success(codigo ? 'Código actualizado' : 'Código creado')
+    close()
+  }
+
+  // Empty means "no limit"
+  const renderOptionalNumber = (
+    field: ControllerRenderProps<CodigoPromocionFormValues, OptionalNumberField>,
+    step: string
+  ) => (
+    <Input
+      type="number"
+      min={0}
+      step={step}
+      placeholder="Sin límite"
+      name={field.name}
+      ref={field.ref}
+      onBlur={field.onBlur}
+      value={field.value ?? ''}
+      onChange={(event) =>
+        field.onChange(event.target.value === '' ? null : event.target.valueAsNumber)
+      }
+    />
+  )
+
+  const renderDate = (field: ControllerRenderProps<CodigoPromocionFormValues, DateField>) => (
+    <Input
+      type="date"
+      name={field.name}
+      ref={field.ref}
+      onBlur={field.onBlur}
+      value={toDateInput(field.value ?? null)}
+      onChange={(event) => field.onChange(fromDateInput(event.target.value, field.name))}
+    />
+  )
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => (next ? onOpenChange(true) : close())}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{codigo ? `Editar ${codigo.codigo}` : 'Nuevo código de descuento'}</DialogTitle>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="codigo"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Código</FormLabel>
+                  <FormControl>
+                    <Input
+                      {...field}
+                      className="font-mono uppercase"
+                      onChange={(event) => field.onChange(event.target.value.toUpperCase())}
+                    />
+                  </FormControl>
+                  <FormDescription>Letras, números, guiones; entre 3 y 40 caracteres.</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="descripcion"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Descripción</FormLabel>
+                  <FormControl>
+                    <Input
+                      placeholder="Se muestra al cliente en el carrito"
+                      value={field.value ?? ''}
+                      onChange={(event) =>
+                        field.onChange(event.target.value.trim() === '' ? null : event.target.value)
+                      }
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="tipo"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Tipo</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger className="w-full">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {PromoDiscountTypeEnum.options.map((option) => (
+                          <SelectItem key={option} value={option}>
+                            {PROMO_DISCOUNT_TYPES[option].label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="valor"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{tipo === 'porcentaje' ? 'Descuento (%)' : 'Descuento ($)'}</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min={0}
+                        step="0.01"
+                        name={field.name}
+                        ref={field.ref}
+                        onBlur={field.onBlur}
+                        value={Number.isNaN(field.value) ? '' : field.value}
+                        onChange={(event) => field.onChange(event.target.valueAsNumber)}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <div className="grid grid-cols-3 gap-4">
+              <FormField
+                control={form.control}
+                name="minimo_compra"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Compra mínima</FormLabel>
+                    <FormControl>{renderOptionalNumber(field, '0.01')}</FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="usos_maximos"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Usos totales</FormLabel>
+                    <FormControl>{renderOptionalNumber(field, '1')}</FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="usos_por_telefono"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Usos por teléfono</FormLabel>
+                    <FormControl>{renderOptionalNumber(field, '1')}</FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="vigente_desde"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Desde</FormLabel>
+                    <FormControl>{renderDate(field)}</FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="vigente_hasta"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Hasta (incluido)</FormLabel>
+                    <FormControl>{renderDate(field)}</FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <FormField
+              control={form.control}
+              name="acumulable"
+              render={({ field }) => (
+                <FormItem className="flex flex-row items-start gap-3">
+                  <FormControl>
+                    <Checkbox
+                      checked={field.value}
+                      onCheckedChange={(checked) => field.onChange(checked === true)}
+                    />
+                  </FormControl>
+                  <div className="space-y-1">
+                    <FormLabel>Se suma al descuento por cantidad</FormLabel>
+                    <FormDescription>
+                      Si no, el cliente recibe solo el mayor de los dos descuentos.
+                    </FormDescription>
+                  </div>
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="activo"
+              render={({ field }) => (
+                <FormItem className="flex flex-row items-start gap-3">
+                  <FormControl>
+                    <Checkbox
+                      checked={field.value}
+                      onCheckedChange={(checked) => field.onChange(checked === true)}
+                    />
+                  </FormControl>
+                  <FormLabel>Activo</FormLabel>
+                </FormItem>
+              )}
+            />
+
+            {submitError && (
+              <p className="rounded-md bg-red-50 p-3 text-sm text-red-700">{submitError}</p>
+            )}
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={close}>
+                Cancelar
+              </Button>
+              <Button type="submit" disabled={form.formState.isSubmitting}>
+                {form.formState.isSubmitting ? 'Guardando…' : 'Guardar'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,260 @@
+'use client'
+
+import { Pencil, Plus, Trash2 } from 'lucide-react'
+import { useState, useTransition } from 'react'
+import { toast } from 'sonner'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { formatCurrency } from '@/lib/utils/format-currency'
+import { formatDate } from '@/lib/utils/format-date'
+import { deleteCodigoPromocion, setCodigoPromocionActivo } from '../actions'
+import type {
+  CodigoPromocionResumen,
+  CodigoPromocionRow,
+} from '../schemas/codigo-promocion.schema'
+import { CodigoPromocionFormDialog } from './codigo-promocion-form-dialog'
+
+interface CodigosPromocionTableProps {
+  codigos: CodigoPromocionResumen[]
+}
+
+function formatValor(codigo: CodigoPromocionResumen): string {
+  return codigo.tipo === 'porcentaje' ? `${codigo.valor}%` : formatCurrency(codigo.valor)
+}
+
+function formatVigencia(codigo: CodigoPromocionResumen): string {
+  const desde = codigo.vigente_desde && formatDate(codigo.vigente_desde)
+  const hasta = codigo.vigente_hasta && formatDate(codigo.vigente_hasta)
+
+  if (desde && hasta) {
+    return `${desde} – ${hasta}`
+  }
+  if (desde) {
+    return `Desde ${desde}`
+  }
+  return hasta ? `Hasta ${hasta}` : 'Siempre'
+}
+
+function formatCondiciones(codigo: CodigoPromocionResumen): string[] {
+  const condiciones: string[] = []
+
+  if (codigo.minimo_compra !== null) {
+    condiciones.push(`Compra mínima ${formatCurrency(codigo.minimo_compra)}`)
+  }
+  if (codigo.usos_por_telefono !== null) {
+    condiciones.push(`${codigo.usos_por_telefono} por teléfono`)
+  }
+  if (codigo.acumulable) {
+    condiciones.push('Se suma al descuento por cantidad')
+  }
+
+  return condiciones
+}
+
+/**
+ * Why a code can't be used right now, if it can't
+ */
+function getEstado(codigo: CodigoPromocionResumen, ahora: Date): string | null {
+  if (codigo.vigente_hasta && ahora > new Date(codigo.vigente_hasta)) {
+    return 'Vencido'
+  }
+  if (codigo.vigente_desde && ahora < new Date(codigo.vigente_desde)) {
+    return 'Programado'
+  }
+  if (codigo.usos_maximos !== null && codigo.usos >= codigo.usos_maximos) {
+    return 'Agotado'
+  }
+  return null
+}
+
+export function CodigosPromocionTable({ codigos }: CodigosPromocionTableProps) {
+  const [isPending, startTransition] = useTransition()
+  const [formOpen, setFormOpen] = useState(false)
+  const [editing, setEditing] = useState<CodigoPromocionRow | undefined>(undefined)
+  const [toDelete, setToDelete] = useState<CodigoPromocionResumen | null>(null)
+  const ahora = new Date()
+
+  const openForm = (codigo?: CodigoPromocionRow) => {
+    setEditing(codigo)
+    setFormOpen(true)
+  }
+
+  const toggleActivo = (codigo: CodigoPromocionResumen, activo: boolean) => {
+    startTransition(async () => {
+      const result = await setCodigoPromocionActivo(codigo.id, activo)
+      if (!result.success) {
+        toast.error(result.error)
+      }
+    })
+  }
+
+  const confirmDelete = () => {
+    if (!toDelete) {
+      return
+    }
+
+    const codigo = toDelete
+    startTransition(async () => {
+      const result = await deleteCodigoPromocion(codigo.id)
+      if (result.success) {
+        toast.success(`${codigo.codigo} eliminado`)
+        setToDelete(null)
+      } else {
+        toast.error(result.error)
+      }
+    })
+  }
+
+  return (
+    <div className="space-y-4">
+      <Button type="button" onClick={() => openForm()}>
+        <Plus className="size-4" />
+        Nuevo código
+      </Button>
+
+      {codigos.length === 0 ? (
+        <div className="rounded-lg border-2 border-dashed border-neutral-300 p-8 text-center text-neutral-600">
+          No hay códigos de descuento todavía.
+        </div>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Código</TableHead>
+              <TableHead>Descuento</TableHead>
+              <TableHead>Vigencia</TableHead>
+              <TableHead className="text-right">Usos</TableHead>
+              <TableHead className="text-right">Descuento otorgado</TableHead>
+              <TableHead className="text-right">Ventas</TableHead>
+              <TableHead className="text-center">Activo</TableHead>
+              <TableHead className="text-right">Acciones</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {codigos.map((codigo) => {
+              const estado = getEstado(codigo, ahora)
+
+              return (
+                <TableRow key={codigo.id} className={codigo.activo ? undefined : 'text-neutral-500'}>
+                  <TableCell>
+                    <span className="font-mono font-medium">{codigo.codigo}</span>
+                    {estado && (
+                      <Badge variant="secondary" className="ml-2">
+                        {estado}
+                      </Badge>
+                    )}
+                    {codigo.descripcion && (
+                      <p className="text-xs text-neutral-500">{codigo.descripcion}</p>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    {formatValor(codigo)}
+                    {formatCondiciones(codigo).map((condicion) => (
+                      <p key={condicion} className="text-xs text-neutral-500">
+                        {condicion}
+                      </p>
+                    ))}
+                  </TableCell>
+                  <TableCell className="whitespace-nowrap">{formatVigencia(codigo)}</TableCell>
+                  <TableCell className="text-right">
+                    {codigo.usos}
+                    {codigo.usos_maximos !== null && ` / ${codigo.usos_maximos}`}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {formatCurrency(codigo.descuento_otorgado)}
+                  </TableCell>
+                  <TableCell className="text-right">{formatCurrency(codigo.ventas)}</TableCell>
+                  <TableCell className="text-center">
+                    <Checkbox
+                      checked={codigo.activo}
+                      disabled={isPending}
+                      onCheckedChange={(checked) => toggleActivo(codigo, checked === true)}
+                      aria-label={`Activo: ${codigo.codigo}`}
+                    />
+                  </TableCell>
+                  <TableCell className="whitespace-nowrap text-right">
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      disabled={isPending}
+                      onClick={() => openForm(codigo)}
+                      aria-label={`Editar ${codigo.codigo}`}
+                    >
+                      <Pencil className="size-4" />
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      disabled={isPending || codigo.usos > 0}
+                      onClick={() => setToDelete(codigo)}
+                      aria-label={`Eliminar ${codigo.codigo}`}
+                      title={codigo.usos > 0 ? 'Ya se usó; desactívalo en su lugar' : undefined}
+                    >
+                      <Trash2 className="size-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              )
+            })}
+          </TableBody>
+        </Table>
+      )}
+
+      <p className="text-xs text-neutral-500">
+        Usos, descuento otorgado y ventas no cuentan los pedidos cancelados.
+      </p>
+
+      {/* Remounted per code so the form starts from that code's values */}
+      <CodigoPromocionFormDialog
+        key={editing?.id ?? 'nuevo'}
+        codigo={editing}
+        open={formOpen}
+        onOpenChange={(open) => {
+          setFormOpen(open)
+          if (!open) {
+            setEditing(undefined)
+          }
+        }}
+      />
+
+      <Dialog open={toDelete !== null} onOpenChange={(open) => !open && setToDelete(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Eliminar {toDelete?.codigo}</DialogTitle>
+            <DialogDescription>
+              Los clientes que lo tengan en su carrito verán que el código no existe. Si solo quieres
+              pausarlo, desmarca “Activo”.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setToDelete(null)}>
+              Cancelar
+            </Button>
+            <Button type="button" variant="destructive" disabled={isPending} onClick={confirmDelete}>
+              Eliminar
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
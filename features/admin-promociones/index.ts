@@ -0,0 +1,24 @@
+// Components
+export { CodigoPromocionFormDialog } from './components/codigo-promocion-form-dialog'
+export { CodigosPromocionTable } from './components/codigos-promocion-table'
+
+// API
+export { getAdminCodigosPromocion } from './api'
+
+// Actions
+export {
+  createCodigoPromocion,
+  deleteCodigoPromocion,
+  setCodigoPromocionActivo,
+  updateCodigoPromocion,
+} from './actions'
+
+// Schemas
+export {
+  codigoPromocionFormSchema,
+  codigoPromocionResumenSchema,
+  codigoPromocionRowSchema,
+  type CodigoPromocionForm,
+  type CodigoPromocionResumen,
+  type CodigoPromocionRow,
+} from './schemas/codigo-promocion.schema'
@@ -0,0 +1,76 @@
+import { z } from 'zod'
+import {
+  codigoDescuentoSchema,
+  PromoDiscountTypeEnum,
+} from '@/features/pricing/schemas/pricing.schema'
+
+/**
+ * Promo code (codigos_promocion row)
+ */
+export const codigoPromocionRowSchema = z.object({
+  id: z.string().uuid(),
+  codigo: z.string(),
+  descripcion: z.string().nullable(),
+  tipo: PromoDiscountTypeEnum,
+  valor: z.number(),
+  acumulable: z.boolean(),
+  minimo_compra: z.number().nullable(),
+  usos_maximos: z.number().int().nullable(),
+  usos_por_telefono: z.number().int().nullable(),
+  vigente_desde: z.string().nullable(),
+  vigente_hasta: z.string().nullable(),
+  activo: z.boolean(),
+  created_at: z.string(),
+  updated_at: z.string(),
+})
+
+export type CodigoPromocionRow = z.infer<typeof codigoPromocionRowSchema>
+
+/**
+ * Promo code with its campaign results (codigos_promocion_resumen view)
+ * Cancelled pedidos are not counted
+ */
+export const codigoPromocionResumenSchema = codigoPromocionRowSchema.extend({
+  usos: z.number().int(),
+  descuento_otorgado: z.number(),
+  ventas: z.number(),
+  ultimo_uso: z.string().nullable(),
+})
+
+export type CodigoPromocionResumen = z.infer<typeof codigoPromocionResumenSchema>
+
+const limitSchema = z.number().int('Debe ser un número entero').positive('Debe ser mayor a 0').nullable()
+
+const fechaSchema = z.iso.datetime({ offset: true, error: 'Fecha inválida' }).nullable()
+
+/**
+ * Promo code as edited in the admin form
+ * Null limits, minimum and dates mean "no restriction"
+ */
+export const codigoPromocionFormSchema = z
+  .object({
+    codigo: codigoDescuentoSchema,
+    descripcion: z.string().trim().max(255, 'La descripción es demasiado larga').nullable(),
+    tipo: PromoDiscountTypeEnum,
+    valor: z.number({ error: 'Ingresa el descuento' }).positive('Debe ser mayor a 0'),
+    acumulable: z.boolean(),
+    minimo_compra: z.number().positive('Debe ser mayor a 0').nullable(),
+    usos_maximos: limitSchema,
+    usos_por_telefono: limitSchema,
+    vigente_desde: fechaSchema,
+    vigente_hasta: fechaSchema,
+    activo: z.boolean(),
+  })
+  .refine((form) => form.tipo !== 'porcentaje' || form.valor <= 100, {
+    message: 'Un porcentaje no puede pasar de 100',
+    path: ['valor'],
+  })
+  .refine(
+    (form) =>
+      form.vigente_desde === null ||
+      form.vigente_hasta === null ||
+      new Date(form.vigente_hasta) > new Date(form.vigente_desde),
+    { message: 'Debe ser posterior a la fecha de inicio', path: ['vigente_hasta'] }
+  )
+
+export type CodigoPromocionForm = z.infer<typeof codigoPromocionFormSchema>
@@ -0,0 +1,135 @@
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import { z } from 'zod'
+import { getAuthorizedAdmin } from '@/lib/auth/admin'
+import { getSiteUrl } from '@/lib/auth/redirect'
+import { ROUTES } from '@/lib/constants/routes'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { createClient } from '@/lib/supabase/server'
+import {
+  type ActionResult,
+  actionError,
+  actionForbidden,
+  actionSuccess,
+  actionValidationError,
+} from '@/lib/utils/action-result'
+import {
+  type AdminUsuario,
+  adminAccessUpdateSchema,
+  adminInviteSchema,
+  adminUsuarioSchema,
+} from './schemas/admin-usuario.schema'
+
+const idSchema = z.string().uuid()
+
+/**
+ * Invite a new admin by email and give them a role
+ * The invitation link signs them in through /auth/callback
+ * @param input - Email, name and role validated with adminInviteSchema
+ */
+export async function inviteAdminUsuario(input: unknown): Promise<ActionResult<AdminUsuario>> {
+  if (!(await getAuthorizedAdmin('users.manage'))) {
+    return actionForbidden()
+  }
+
+  const parsed = adminInviteSchema.safeParse(input)
+  if (!parsed.success) {
+    return actionValidationError(parsed.error)
+  }
+
+  const { email, nombre, rol } = parsed.data
+
+  try {
+    const redirectTo = new URL(ROUTES.AUTH_CALLBACK, await getSiteUrl())
+    redirectTo.searchParams.set('next', ROUTES.ADMIN)
+
+    const adminClient = createAdminClient()
+    const { data: invited, error: inviteError } = await adminClient.auth.admin.inviteUserByEmail(
+      email,
+      { redirectTo: redirectTo.toString(), data: { nombre } }
+    )
+
+    if (inviteError) {
+      if (inviteError.code === 'email_exists') {
+        return {
+          success: false,
+          error: 'Revisa los campos marcados',
+          fieldErrors: { email: 'Este email ya tiene una cuenta' },
+        }
+      }
+      throw inviteError
+    }
+
+    // Inserted with the owner's session so RLS checks users.manage again
+    const supabase = await createClient()
+    const { data, error } = await supabase
+      .from('admin_usuarios')
+      .insert({ id: invited.user.id, email, nombre, rol, activo: true })
+      .select('*')
+      .single()
+
+    if (error) {
+      // Don't leave an invited account that has no admin row
+      await adminClient.auth.admin.deleteUser(invited.user.id)
+      throw error
+    }
+
+    revalidatePath(ROUTES.ADMIN_USUARIOS)
+    return actionSuccess(adminUsuarioSchema.parse(data))
+  } catch (error) {
+    return actionError(error, { action: 'inviteAdminUsuario' })
+  }
+}
+
+/**
+ * Change the role or active status of an admin
+ * Owners can't change their own access, so the shop is never left without one
+ * @param id - Admin user UUID
+ * @param input - Role and/or activo validated with adminAccessUpdateSchema
+ */
+export async function updateAdminUsuario(
+  id: string,
+  input: unknown
+): Promise<ActionResult<AdminUsuario>> {
+  const owner = await getAuthorizedAdmin('users.manage')
+  if (!owner) {
+    return actionForbidden()
+  }
+
+  if (!idSchema.safeParse(id).success) {
+    return actionError('Usuario inválido')
+  }
+
+  if (id === owner.id) {
+    return actionError('No puedes cambiar tu propio rol ni desactivar tu cuenta')
+  }
+
+  const parsed = adminAccessUpdateSchema.safeParse(input)
+  if (!parsed.success) {
+    return actionValidationError(parsed.error)
+  }
+
+  try {
+    const supabase = await createClient()
+    const { data, error } = await supabase
+      .from('admin_usuarios')
+      .update(parsed.data)
+      .eq('id', id)
+      .select('*')
+      .maybeSingle()
+
+    if (error) {
+      throw error
+    }
+
+    if (!data) {
+      return actionError('El usuario no existe')
+    }
+
+    revalidatePath(ROUTES.ADMIN_USUARIOS)
+    return actionSuccess(adminUsuarioSchema.parse(data))
+  } catch (error) {
+    return actionError(error, { action: 'updateAdminUsuario', usuarioId: id })
+  }
+}
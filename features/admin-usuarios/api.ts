@@ -0,0 +1,23 @@
+import { createClient } from '@/lib/supabase/server'
+import { logError } from '@/lib/utils/error-handler'
+import { type AdminUsuario, adminUsuarioSchema } from './schemas/admin-usuario.schema'
+
+/**
+ * Fetch every admin user, active or not (admin only via RLS)
+ * @returns Admin users, oldest first
+ */
+export async function getAdminUsuarios(): Promise<AdminUsuario[]> {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase
+    .from('admin_usuarios')
+    .select('*')
+    .order('created_at', { ascending: true })
+
+  if (error) {
+    logError(error, { source: 'getAdminUsuarios' })
+    throw new Error('Failed to fetch admin usuarios')
+  }
+
+  return data.map((usuario) => adminUsuarioSchema.parse(usuario))
+}
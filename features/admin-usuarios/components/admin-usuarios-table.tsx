@@ -0,0 +1,100 @@
+'use client'
+
+import { useTransition } from 'react'
+import { toast } from 'sonner'
+import { Badge } from '@/components/ui/badge'
+import { Checkbox } from '@/components/ui/checkbox'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { ADMIN_ROLES } from '@/lib/auth/permissions'
+import { updateAdminUsuario } from '../actions'
+import { type AdminRole, AdminRoleEnum, type AdminUsuario } from '../schemas/admin-usuario.schema'
+
+interface AdminUsuariosTableProps {
+  usuarios: AdminUsuario[]
+  currentUserId: string
+}
+
+export function AdminUsuariosTable({ usuarios, currentUserId }: AdminUsuariosTableProps) {
+  const [isPending, startTransition] = useTransition()
+
+  const update = (usuario: AdminUsuario, changes: { rol?: AdminRole; activo?: boolean }) => {
+    startTransition(async () => {
+      const result = await updateAdminUsuario(usuario.id, changes)
+      if (!result.success) {
+        toast.error(result.error)
+      }
+    })
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Nombre</TableHead>
+          <TableHead>Email</TableHead>
+          <TableHead>Rol</TableHead>
+          <TableHead className="text-center">Activo</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {usuarios.map((usuario) => {
+          const isSelf = usuario.id === currentUserId
+
+          return (
+            <TableRow key={usuario.id} className={usuario.activo ? undefined : 'text-neutral-500'}>
+              <TableCell className="font-medium">
+                {usuario.nombre ?? '—'}
+                {isSelf && (
+                  <Badge variant="secondary" className="ml-2">
+                    Tú
+                  </Badge>
+                )}
+              </TableCell>
+              <TableCell>{usuario.email ?? '—'}</TableCell>
+              <TableCell>
+                <Select
+                  value={usuario.rol}
+                  disabled={isSelf || isPending}
+                  onValueChange={(rol) => update(usuario, { rol: rol as AdminRole })}
+                >
+                  <SelectTrigger className="w-48" aria-label={`Rol de ${usuario.nombre ?? usuario.email}`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {AdminRoleEnum.options.map((value) => (
+                      <SelectItem key={value} value={value}>
+                        {ADMIN_ROLES[value].label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </TableCell>
+              <TableCell className="text-center">
+                <Checkbox
+                  checked={usuario.activo}
+                  disabled={isSelf || isPending}
+                  onCheckedChange={(checked) => update(usuario, { activo: checked === true })}
+                  aria-label={`Activo: ${usuario.nombre ?? usuario.email}`}
+                />
+              </TableCell>
+            </TableRow>
+          )
+        })}
+      </TableBody>
+    </Table>
+  )
+}
@@ -0,0 +1,122 @@
+'use client'
+
+import { zodResolver } from '@hookform/resolvers/zod'
+import { useState } from 'react'
+import { useForm } from 'react-hook-form'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form'
+import { Input } from '@/components/ui/input'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { ADMIN_ROLES } from '@/lib/auth/permissions'
+import { inviteAdminUsuario } from '../actions'
+import { type AdminInvite, AdminRoleEnum, adminInviteSchema } from '../schemas/admin-usuario.schema'
+
+export function InviteAdminForm() {
+  const [submitError, setSubmitError] = useState<string | null>(null)
+
+  const form = useForm<AdminInvite>({
+    resolver: zodResolver(adminInviteSchema),
+    defaultValues: { email: '', nombre: '', rol: 'viewer' },
+  })
+
+  const rol = form.watch('rol')
+
+  const onSubmit = async (values: AdminInvite) => {
+    setSubmitError(null)
+    const result = await inviteAdminUsuario(values)
+
+    if (!result.success) {
+      setSubmitError(result.error)
+      for (const [field, message] of Object.entries(result.fieldErrors ?? {})) {
+        form.setError(field as keyof AdminInvite, { message })
+      }
+      return
+    }
+
+    toast.success(`Invitación enviada a ${values.email}`)
+    form.reset()
+  }
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        <div className="grid gap-4 sm:grid-cols-3">
+          <FormField
+            control={form.control}
+            name="nombre"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Nombre</FormLabel>
+                <FormControl>
+                  <Input {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="email"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Email</FormLabel>
+                <FormControl>
+                  <Input type="email" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="rol"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Rol</FormLabel>
+                <Select value={field.value} onValueChange={field.onChange}>
+                  <FormControl>
+                    <SelectTrigger className="w-full">
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {AdminRoleEnum.options.map((value) => (
+                      <SelectItem key={value} value={value}>
+                        {ADMIN_ROLES[value].label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+        <FormDescription>{ADMIN_ROLES[rol].description}.</FormDescription>
+
+        {submitError && (
+          <p className="rounded-md bg-red-50 p-3 text-sm text-red-700">{submitError}</p>
+        )}
+
+        <Button type="submit" disabled={form.formState.isSubmitting}>
+          {form.formState.isSubmitting ? 'Enviando…' : 'Enviar invitación'}
+        </Button>
+      </form>
+    </Form>
+  )
+}
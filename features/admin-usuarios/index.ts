@@ -0,0 +1,21 @@
+// Components
+export { AdminUsuariosTable } from './components/admin-usuarios-table'
+export { InviteAdminForm } from './components/invite-admin-form'
+
+// API
+export { getAdminUsuarios } from './api'
+
+// Actions
+export { inviteAdminUsuario, updateAdminUsuario } from './actions'
+
+// Schemas
+export {
+  adminAccessUpdateSchema,
+  adminInviteSchema,
+  AdminRoleEnum,
+  adminUsuarioSchema,
+  type AdminAccessUpdate,
+  type AdminInvite,
+  type AdminRole,
+  type AdminUsuario,
+} from './schemas/admin-usuario.schema'
@@ -0,0 +1,46 @@
+import { z } from 'zod'
+import { ADMIN_ROLE_VALUES } from '@/lib/auth/permissions'
+
+/**
+ * Admin roles
+ */
+export const AdminRoleEnum = z.enum(ADMIN_ROLE_VALUES)
+export type AdminRole = z.infer<typeof AdminRoleEnum>
+
+/**
+ * Admin user schema for validation
+ */
+export const adminUsuarioSchema = z.object({
+  id: z.string().uuid(),
+  nombre: z.string().nullable(),
+  email: z.string().nullable(),
+  rol: AdminRoleEnum,
+  activo: z.boolean(),
+  created_at: z.string(),
+  updated_at: z.string(),
+})
+
+export type AdminUsuario = z.infer<typeof adminUsuarioSchema>
+
+/**
+ * Invitation sent by the owner
+ */
+export const adminInviteSchema = z.object({
+  email: z.string().trim().toLowerCase().email('Email inválido'),
+  nombre: z.string().trim().min(2, 'Escribe el nombre').max(255),
+  rol: AdminRoleEnum,
+})
+
+export type AdminInvite = z.infer<typeof adminInviteSchema>
+
+/**
+ * Role or status change made by the owner
+ */
+export const adminAccessUpdateSchema = z
+  .object({
+    rol: AdminRoleEnum.optional(),
+    activo: z.boolean().optional(),
+  })
+  .refine((value) => value.rol !== undefined || value.activo !== undefined, 'Nada que actualizar')
+
+export type AdminAccessUpdate = z.infer<typeof adminAccessUpdateSchema>
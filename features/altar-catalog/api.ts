@@ -1,25 +1,39 @@
-import { createClient } from '@/lib/supabase/server'
-import { altarSchema, type Altar, type ModelType } from './schemas/altar.schema'
+import { cached } from '@/lib/cache/cache'
+import { CACHE_TAGS } from '@/lib/cache/tags'
+import { createStaticClient } from '@/lib/supabase/static'
+import { logError } from '@/lib/utils/error-handler'
+import {
+  buildCatalogQuery,
+  CATALOG_PAGE_SIZE,
+  type CatalogQueryFilters,
+  queryAltaresPage,
+} from './catalog-query'
+import { toSearchTerm } from './filters'
+import {
+  altarSchema,
+  type Altar,
+  type AltaresPage,
+  type AltarCounts,
+  ModelTypeEnum,
+  type ModelType,
+} from './schemas/altar.schema'
 import type { Altar as AltarDB } from '@/lib/types/database.types'
 
-/**
- * Fetch all active altars from database
- * @returns Array of active altars
- */
-export async function getAltares(): Promise<Altar[]> {
-  const supabase = await createClient()
+// Catalog reads use the cookie-less client: results are the same for every
+// visitor, so they can be cached and shared. Admin changes to altares,
+// configuraciones or pricing rules invalidate these tags (see revalidate.ts).
+const CATALOG_CACHE = {
+  tags: [CACHE_TAGS.altares, CACHE_TAGS.configuraciones, CACHE_TAGS.precios],
+  revalidate: 3600,
+}
 
-  const { data, error } = await supabase
-    .from('altares')
-    .select('*')
-    .eq('activo', true)
-    .order('destacado', { ascending: false })
-    .order('created_at', { ascending: false })
+async function fetchAltares(filters: CatalogQueryFilters = {}): Promise<Altar[]> {
+  const supabase = createStaticClient()
+
+  const { data, error } = await buildCatalogQuery(supabase, filters)
 
   if (error) {
-    console.error('Error fetching altares:', error)
-    console.error('Supabase URL:', process.env.NEXT_PUBLIC_SUPABASE_URL)
-    console.error('Supabase Key exists:', !!process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY)
+    logError(error, { source: 'getAltares', filters })
     throw new Error('Failed to fetch altares')
   }
 
@@ -28,12 +42,69 @@ export async function getAltares(): Promise<Altar[]> {
 }
 
 /**
- * Fetch altars filtered by model type
- * @param tipo - Model type to filter by
- * @returns Array of filtered altars
+ * Fetch active altars from database
+ * @param filters - Optional model type, text search over nombre and descripcion, and sort order
+ * @returns Array of active altars
+ */
+export const getAltares = cached(fetchAltares, 'altar-catalog:getAltares', CATALOG_CACHE)
+
+async function fetchAltaresPage(
+  filters: CatalogQueryFilters = {},
+  cursor?: string | null,
+  limit: number = CATALOG_PAGE_SIZE
+): Promise<AltaresPage> {
+  return queryAltaresPage(createStaticClient(), filters, cursor, limit)
+}
+
+/**
+ * Fetch one page of active altars
+ * @param filters - Optional model type, destacado flag, text search and sort order
+ * @param cursor - nextCursor of the previous page; omit for the first page
+ * @param limit - Altars per page
+ * @returns The page and the cursor for the next one
  */
-export async function getAltaresByType(tipo: ModelType): Promise<Altar[]> {
-  const supabase = await createClient()
+export const getAltaresPage = cached(
+  fetchAltaresPage,
+  'altar-catalog:getAltaresPage',
+  CATALOG_CACHE
+)
+
+async function fetchAltarCountsByType(q?: string): Promise<AltarCounts> {
+  const supabase = createStaticClient()
+
+  const { data, error } = await supabase.rpc('contar_altares_por_tipo', {
+    p_busqueda: toSearchTerm(q) ?? null,
+  })
+
+  if (error) {
+    logError(error, { source: 'getAltarCountsByType' })
+    throw new Error('Failed to count altares')
+  }
+
+  const counts: AltarCounts = { all: 0, seres_queridos: 0, bebes_no_nacidos: 0, mascotas: 0 }
+
+  for (const row of data ?? []) {
+    const tipo = ModelTypeEnum.parse(row.modelo_tipo)
+    counts[tipo] = Number(row.total)
+    counts.all += Number(row.total)
+  }
+
+  return counts
+}
+
+/**
+ * Count active altars per model type, counted in the database
+ * @param q - Optional search term, matched like the catalog list
+ * @returns Count per type plus the total under 'all'
+ */
+export const getAltarCountsByType = cached(
+  fetchAltarCountsByType,
+  'altar-catalog:getAltarCountsByType',
+  CATALOG_CACHE
+)
+
+async function fetchAltaresByType(tipo: ModelType): Promise<Altar[]> {
+  const supabase = createStaticClient()
 
   const { data, error } = await supabase
     .from('altares')
@@ -44,7 +115,7 @@ export async function getAltaresByType(tipo: ModelType): Promise<Altar[]> {
     .order('created_at', { ascending: false })
 
   if (error) {
-    console.error(`Error fetching altares by type ${tipo}:`, error)
+    logError(error, { source: 'getAltaresByType', tipo })
     throw new Error(`Failed to fetch altares for type: ${tipo}`)
   }
 
@@ -52,12 +123,18 @@ export async function getAltaresByType(tipo: ModelType): Promise<Altar[]> {
 }
 
 /**
- * Fetch a single altar by ID
- * @param id - Altar UUID
- * @returns Single altar or null
+ * Fetch altars filtered by model type
+ * @param tipo - Model type to filter by
+ * @returns Array of filtered altars
  */
-export async function getAltarById(id: string): Promise<Altar | null> {
-  const supabase = await createClient()
+export const getAltaresByType = cached(
+  fetchAltaresByType,
+  'altar-catalog:getAltaresByType',
+  CATALOG_CACHE
+)
+
+async function fetchAltarById(id: string): Promise<Altar | null> {
+  const supabase = createStaticClient()
 
   const { data, error } = await supabase
     .from('altares')
@@ -71,7 +148,7 @@ export async function getAltarById(id: string): Promise<Altar | null> {
       // Not found
       return null
     }
-    console.error(`Error fetching altar ${id}:`, error)
+    logError(error, { source: 'getAltarById', altarId: id })
     throw new Error('Failed to fetch altar')
   }
 
@@ -79,12 +156,46 @@ export async function getAltarById(id: string): Promise<Altar | null> {
 }
 
 /**
- * Fetch a single altar by slug
- * @param slug - Altar slug
+ * Fetch a single altar by ID
+ * @param id - Altar UUID
  * @returns Single altar or null
  */
-export async function getAltarBySlug(slug: string): Promise<Altar | null> {
-  const supabase = await createClient()
+export const getAltarById = cached(fetchAltarById, 'altar-catalog:getAltarById', CATALOG_CACHE)
+
+async function fetchAltaresByIds(ids: string[]): Promise<Altar[]> {
+  if (ids.length === 0) {
+    return []
+  }
+
+  const supabase = createStaticClient()
+
+  const { data, error } = await supabase
+    .from('altares')
+    .select('*')
+    .in('id', ids)
+    .eq('activo', true)
+
+  if (error) {
+    logError(error, { source: 'getAltaresByIds' })
+    throw new Error('Failed to fetch altares')
+  }
+
+  return data.map((altar) => altarSchema.parse(altar))
+}
+
+/**
+ * Fetch several active altars by ID
+ * @param ids - Altar UUIDs
+ * @returns Active altars found (inactive or missing ids are omitted)
+ */
+export const getAltaresByIds = cached(
+  fetchAltaresByIds,
+  'altar-catalog:getAltaresByIds',
+  CATALOG_CACHE
+)
+
+async function fetchAltarBySlug(slug: string): Promise<Altar | null> {
+  const supabase = createStaticClient()
 
   const { data, error } = await supabase
     .from('altares')
@@ -98,9 +209,47 @@ export async function getAltarBySlug(slug: string): Promise<Altar | null> {
       // Not found
       return null
     }
-    console.error(`Error fetching altar by slug ${slug}:`, error)
+    logError(error, { source: 'getAltarBySlug', slug })
     throw new Error('Failed to fetch altar')
   }
 
   return data ? altarSchema.parse(data) : null
 }
+
+/**
+ * Fetch a single altar by slug
+ * Uses the cookie-less client so product pages can be statically generated
+ * @param slug - Altar slug
+ * @returns Single altar or null
+ */
+export const getAltarBySlug = cached(
+  fetchAltarBySlug,
+  'altar-catalog:getAltarBySlug',
+  CATALOG_CACHE
+)
+
+async function fetchActiveAltarSlugs(): Promise<string[]> {
+  const supabase = createStaticClient()
+
+  const { data, error } = await supabase
+    .from('altares')
+    .select('slug')
+    .eq('activo', true)
+
+  if (error) {
+    logError(error, { source: 'getActiveAltarSlugs' })
+    throw new Error('Failed to fetch altar slugs')
+  }
+
+  return data.map((altar) => altar.slug as string)
+}
+
+/**
+ * Fetch the slugs of all active altars (for static generation)
+ * @returns Array of active altar slugs
+ */
+export const getActiveAltarSlugs = cached(
+  fetchActiveAltarSlugs,
+  'altar-catalog:getActiveAltarSlugs',
+  CATALOG_CACHE
+)
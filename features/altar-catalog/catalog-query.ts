@@ -0,0 +1,168 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { z } from 'zod'
+import { logError } from '@/lib/utils/error-handler'
+import { toSearchTerm } from './filters'
+import {
+  type AltaresPage,
+  altarSchema,
+  type CatalogFilters,
+  CatalogSortEnum,
+} from './schemas/altar.schema'
+
+/**
+ * Altars per catalog page
+ */
+export const CATALOG_PAGE_SIZE = 12
+
+/**
+ * Storefront filters plus the ones only the REST API exposes
+ */
+export type CatalogQueryFilters = Partial<CatalogFilters> & {
+  destacado?: boolean
+}
+
+// Sort keys of the last altar on a page; id breaks ties between equal keys
+const catalogCursorSchema = z.object({
+  orden: CatalogSortEnum,
+  id: z.string().uuid(),
+  destacado: z.boolean(),
+  created_at: z.string(),
+  nombre: z.string(),
+})
+
+type CatalogCursor = z.infer<typeof catalogCursorSchema>
+
+function encodeCursor(cursor: CatalogCursor): string {
+  const bytes = new TextEncoder().encode(JSON.stringify(cursor))
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '')
+}
+
+// Malformed cursors read as null, so a bad link starts from the first page
+function decodeCursor(value: string): CatalogCursor | null {
+  try {
+    const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'))
+    const bytes = Uint8Array.from(binary, (char) => char.charCodeAt(0))
+    const result = catalogCursorSchema.safeParse(JSON.parse(new TextDecoder().decode(bytes)))
+    return result.success ? result.data : null
+  } catch {
+    return null
+  }
+}
+
+// Double-quoted PostgREST value, so names with commas or parentheses stay intact
+function quote(value: string): string {
+  return `"${value.replace(/["\\]/g, '\\$&')}"`
+}
+
+// Rows strictly after the cursor under its sort order
+function afterCursor(cursor: CatalogCursor): string {
+  const creado = quote(cursor.created_at)
+
+  switch (cursor.orden) {
+    case 'nombre': {
+      const nombre = quote(cursor.nombre)
+      return `nombre.gt.${nombre},and(nombre.eq.${nombre},id.gt.${cursor.id})`
+    }
+    case 'recientes':
+      return `created_at.lt.${creado},and(created_at.eq.${creado},id.lt.${cursor.id})`
+    default: {
+      const destacado = cursor.destacado
+      return [
+        `destacado.lt.${destacado}`,
+        `and(destacado.eq.${destacado},created_at.lt.${creado})`,
+        `and(destacado.eq.${destacado},created_at.eq.${creado},id.lt.${cursor.id})`,
+      ].join(',')
+    }
+  }
+}
+
+/**
+ * Build the public catalog query: active altars matching the filters, sorted
+ * Works with the server and browser clients alike
+ * @param supabase - Supabase client
+ * @param filters - Optional model type, destacado flag, text search over nombre and
+ * descripcion, and sort order
+ */
+export function buildCatalogQuery(supabase: SupabaseClient, filters: CatalogQueryFilters) {
+  let query = supabase
+    .from('altares')
+    .select('*')
+    .eq('activo', true)
+    .is('eliminado_at', null)
+
+  if (filters.tipo) {
+    query = query.eq('modelo_tipo', filters.tipo)
+  }
+
+  if (filters.destacado !== undefined) {
+    query = query.eq('destacado', filters.destacado)
+  }
+
+  const search = toSearchTerm(filters.q)
+  if (search) {
+    query = query.or(`nombre.ilike.%${search}%,descripcion.ilike.%${search}%`)
+  }
+
+  switch (filters.orden ?? 'destacado') {
+    case 'nombre':
+      return query.order('nombre', { ascending: true }).order('id', { ascending: true })
+    case 'recientes':
+      return query.order('created_at', { ascending: false }).order('id', { ascending: false })
+    default:
+      return query
+        .order('destacado', { ascending: false })
+        .order('created_at', { ascending: false })
+        .order('id', { ascending: false })
+  }
+}
+
+/**
+ * Fetch one page of the public catalog with keyset pagination
+ * Pages stay stable while altars are added, unlike offsets
+ * @param supabase - Supabase client
+ * @param filters - Catalog filters; the cursor must come from the same sort order
+ * @param cursor - nextCursor of the previous page; omit for the first page
+ * @param limit - Altars per page
+ */
+export async function queryAltaresPage(
+  supabase: SupabaseClient,
+  filters: CatalogQueryFilters,
+  cursor?: string | null,
+  limit: number = CATALOG_PAGE_SIZE
+): Promise<AltaresPage> {
+  const orden = filters.orden ?? 'destacado'
+  let query = buildCatalogQuery(supabase, { ...filters, orden })
+
+  const after = cursor ? decodeCursor(cursor) : null
+  if (after && after.orden === orden) {
+    query = query.or(afterCursor(after))
+  }
+
+  // One extra row tells whether there is a next page
+  const { data, error } = await query.limit(limit + 1)
+
+  if (error) {
+    logError(error, { source: 'queryAltaresPage' })
+    throw new Error('Failed to fetch altares')
+  }
+
+  const altares = data.slice(0, limit).map((altar) => altarSchema.parse(altar))
+  const last = altares.at(-1)
+
+  return {
+    altares,
+    nextCursor:
+      data.length > limit && last
+        ? encodeCursor({
+            orden,
+            id: last.id,
+            destacado: last.destacado,
+            created_at: last.created_at,
+            nombre: last.nombre,
+          })
+        : null,
+  }
+}
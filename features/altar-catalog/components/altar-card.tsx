@@ -4,6 +4,7 @@ import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardFooter, CardHeader } from '@/components/ui/card'
 import { MODEL_TYPES } from '@/lib/constants/business-config'
+import { getAltarImageSource } from '../images'
 import type { Altar } from '../schemas/altar.schema'
 
 interface AltarCardProps {
@@ -19,7 +20,7 @@ export function AltarCard({ altar }: AltarCardProps) {
         <div className="relative aspect-square w-full overflow-hidden bg-neutral-100">
           {altar.imagen_principal ? (
             <Image
-              src={altar.imagen_principal}
+              {...getAltarImageSource(altar, altar.imagen_principal, 'miniatura')}
               alt={altar.nombre}
               fill
               className="object-cover transition-transform hover:scale-105"
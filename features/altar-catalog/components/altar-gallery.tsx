@@ -0,0 +1,65 @@
+'use client'
+
+import Image from 'next/image'
+import { useState } from 'react'
+import { MODEL_TYPES } from '@/lib/constants/business-config'
+import { cn } from '@/lib/utils'
+import { getAltarImages, getAltarImageSource } from '../images'
+import type { Altar } from '../schemas/altar.schema'
+
+interface AltarGalleryProps {
+  altar: Altar
+}
+
+export function AltarGallery({ altar }: AltarGalleryProps) {
+  const images = getAltarImages(altar)
+  const [selectedIndex, setSelectedIndex] = useState(0)
+  const selectedImage = images[selectedIndex]
+
+  return (
+    <div className="space-y-4">
+      <div className="relative aspect-square w-full overflow-hidden rounded-lg bg-neutral-100">
+        {selectedImage ? (
+          <Image
+            {...getAltarImageSource(altar, selectedImage)}
+            alt={altar.nombre}
+            fill
+            priority
+            className="object-cover"
+            sizes="(max-width: 1024px) 100vw, 50vw"
+          />
+        ) : (
+          <div className="flex h-full items-center justify-center text-neutral-400">
+            <span className="text-8xl">{MODEL_TYPES[altar.modelo_tipo].icon}</span>
+          </div>
+        )}
+      </div>
+
+      {images.length > 1 && (
+        <div className="grid grid-cols-4 gap-2 sm:grid-cols-5">
+          {images.map((url, index) => (
+            <button
+              key={url}
+              type="button"
+              onClick={() => setSelectedIndex(index)}
+              aria-label={`Ver imagen ${index + 1} de ${images.length}`}
+              aria-current={index === selectedIndex}
+              className={cn(
+                'relative aspect-square overflow-hidden rounded-md border-2 bg-neutral-100 transition-colors',
+                index === selectedIndex ? 'border-neutral-900' : 'border-transparent hover:border-neutral-300'
+              )}
+            >
+              <Image
+                {...getAltarImageSource(altar, url, 'miniatura')}
+                alt={`${altar.nombre} - imagen ${index + 1}`}
+                fill
+                className="object-cover"
+                sizes="(max-width: 640px) 25vw, 10vw"
+              />
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,13 +1,56 @@
+'use client'
+
+import { useEffect, useRef } from 'react'
 import { AltarCard } from './altar-card'
 import { Skeleton } from '@/components/ui/skeleton'
 import type { Altar } from '../schemas/altar.schema'
 
+// Placeholders appended while the next page loads
+const LOADING_MORE_KEYS = ['cargando-1', 'cargando-2', 'cargando-3']
+
 interface AltarGridProps {
   altares: Altar[]
   isLoading?: boolean
+  /** Shown when there are no altars, e.g. when a search has no results */
+  emptyMessage?: string
+  /** More altars can be loaded after the last one */
+  hasMore?: boolean
+  isLoadingMore?: boolean
+  /** Called when the end of the grid scrolls into view */
+  onLoadMore?: () => void
 }
 
-export function AltarGrid({ altares, isLoading = false }: AltarGridProps) {
+export function AltarGrid({
+  altares,
+  isLoading = false,
+  emptyMessage = 'No hay altares disponibles en este momento. Vuelve pronto.',
+  hasMore = false,
+  isLoadingMore = false,
+  onLoadMore,
+}: AltarGridProps) {
+  const sentinel = useRef<HTMLDivElement>(null)
+
+  // Re-observed after every page (isLoadingMore flips back), and a new
+  // observer reports right away if the end is still in view, so short pages
+  // on tall screens keep loading
+  useEffect(() => {
+    const element = sentinel.current
+    if (!element || !hasMore || isLoadingMore || !onLoadMore) {
+      return
+    }
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) {
+          onLoadMore()
+        }
+      },
+      { rootMargin: '400px 0px' }
+    )
+    observer.observe(element)
+    return () => observer.disconnect()
+  }, [hasMore, isLoadingMore, onLoadMore])
+
   if (isLoading) {
     return (
       <div className="grid grid-cols-1 gap-6 sm:grid-cols-2 lg:grid-cols-3">
@@ -26,18 +69,22 @@ export function AltarGrid({ altares, isLoading = false }: AltarGridProps) {
           No se encontraron altares
         </h3>
         <p className="mt-2 text-sm text-neutral-600">
-          No hay altares disponibles en este momento. Vuelve pronto.
+          {emptyMessage}
         </p>
       </div>
     )
   }
 
   return (
-    <div className="grid grid-cols-1 gap-6 sm:grid-cols-2 lg:grid-cols-3">
-      {altares.map((altar) => (
-        <AltarCard key={altar.id} altar={altar} />
-      ))}
-    </div>
+    <>
+      <div className="grid grid-cols-1 gap-6 sm:grid-cols-2 lg:grid-cols-3">
+        {altares.map((altar) => (
+          <AltarCard key={altar.id} altar={altar} />
+        ))}
+        {isLoadingMore && LOADING_MORE_KEYS.map((key) => <AltarCardSkeleton key={key} />)}
+      </div>
+      {hasMore && <div ref={sentinel} aria-hidden />}
+    </>
   )
 }
 
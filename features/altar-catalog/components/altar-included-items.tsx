@@ -0,0 +1,43 @@
+import type { Altar } from '../schemas/altar.schema'
+
+interface AltarIncludedItemsProps {
+  altar: Pick<
+    Altar,
+    'panes_incluidos' | 'vasos_incluidos' | 'calaveras_incluidas' | 'portaretratos_incluidos'
+  >
+}
+
+export function AltarIncludedItems({ altar }: AltarIncludedItemsProps) {
+  const items = [
+    { label: 'Panes de muerto', icon: '🍞', count: altar.panes_incluidos },
+    { label: 'Vasos', icon: '🥛', count: altar.vasos_incluidos },
+    { label: 'Calaveras', icon: '💀', count: altar.calaveras_incluidas },
+    { label: 'Portaretratos', icon: '🖼️', count: altar.portaretratos_incluidos },
+  ].filter((item) => item.count > 0)
+
+  if (items.length === 0) {
+    return null
+  }
+
+  return (
+    <div>
+      <h2 className="text-lg font-semibold text-neutral-900">Incluye</h2>
+      <ul className="mt-3 grid grid-cols-2 gap-3">
+        {items.map((item) => (
+          <li
+            key={item.label}
+            className="flex items-center gap-3 rounded-lg border border-neutral-200 p-3"
+          >
+            <span className="text-2xl">{item.icon}</span>
+            <div>
+              <p className="text-sm font-medium text-neutral-900">{item.label}</p>
+              <p className="text-xs text-neutral-600">
+                {item.count} {item.count === 1 ? 'pieza' : 'piezas'}
+              </p>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
@@ -1,63 +1,127 @@
 'use client'
 
-import { useState, useMemo } from 'react'
+import { useRouter } from 'next/navigation'
+import { useCallback, useEffect, useState, useTransition } from 'react'
+import { Button } from '@/components/ui/button'
+import { ROUTES } from '@/lib/constants/routes'
+import { toCatalogQuery } from '../filters'
+import { useInfiniteAltares } from '../hooks/use-infinite-altares'
 import { AltarGrid } from './altar-grid'
 import { AltarFilters } from './altar-filters'
-import type { Altar, ModelType } from '../schemas/altar.schema'
+import { CatalogSearch } from './catalog-search'
+import type { AltarCounts, AltaresPage, CatalogFilters } from '../schemas/altar.schema'
+
+// Wait for the customer to stop typing before fetching the catalog again
+const SEARCH_DEBOUNCE_MS = 300
 
 interface CatalogClientProps {
-  altares: Altar[]
+  /** First page of altars matching the filters */
+  initialPage: AltaresPage
+  /** Altars matching the search, per type */
+  counts: AltarCounts
+  /** Filters parsed from the URL */
+  filters: CatalogFilters
 }
 
-export function CatalogClient({ altares }: CatalogClientProps) {
-  const [selectedType, setSelectedType] = useState<ModelType | 'all'>('all')
+export function CatalogClient({ initialPage, counts, filters }: CatalogClientProps) {
+  const router = useRouter()
+  const [isPending, startTransition] = useTransition()
+  const [search, setSearch] = useState(filters.q ?? '')
+  const selectedType = filters.tipo ?? 'all'
+  const { altares, hasMore, isLoadingMore, error, loadMore } = useInfiniteAltares(
+    initialPage,
+    filters
+  )
 
-  // Filter altares based on selected type
-  const filteredAltares = useMemo(() => {
-    if (selectedType === 'all') {
-      return altares
-    }
-    return altares.filter((altar) => altar.modelo_tipo === selectedType)
-  }, [altares, selectedType])
-
-  // Calculate counts for each type
-  const counts = useMemo(() => {
-    const result: Record<ModelType | 'all', number> = {
-      all: altares.length,
-      seres_queridos: 0,
-      bebes_no_nacidos: 0,
-      mascotas: 0,
+  // Filters live in the URL so the selection survives reloads and can be shared
+  const updateFilters = useCallback(
+    (next: Partial<CatalogFilters>) => {
+      startTransition(() => {
+        router.replace(`${ROUTES.HOME}${toCatalogQuery({ ...filters, ...next })}`, {
+          scroll: false,
+        })
+      })
+    },
+    [filters, router]
+  )
+
+  useEffect(() => {
+    if (search.trim() === (filters.q ?? '')) {
+      return
     }
 
-    altares.forEach((altar) => {
-      result[altar.modelo_tipo]++
-    })
+    const timeout = setTimeout(() => updateFilters({ q: search }), SEARCH_DEBOUNCE_MS)
+    return () => clearTimeout(timeout)
+  }, [search, filters.q, updateFilters])
+
+  const isFiltered = Boolean(filters.q || filters.tipo)
+  const total = counts[selectedType]
 
-    return result
-  }, [altares])
+  const clearFilters = () => {
+    setSearch('')
+    updateFilters({ tipo: undefined, q: undefined })
+  }
 
   return (
     <div className="space-y-8">
       {/* Filters */}
-      <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
-        <div>
-          <h2 className="text-2xl font-bold text-neutral-900">
-            Nuestros Altares
-          </h2>
-          <p className="mt-1 text-sm text-neutral-600">
-            {filteredAltares.length} {filteredAltares.length === 1 ? 'altar disponible' : 'altares disponibles'}
-          </p>
+      <div className="space-y-4">
+        <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+          <div>
+            <h2 className="text-2xl font-bold text-neutral-900">
+              Nuestros Altares
+            </h2>
+            <p className="mt-1 text-sm text-neutral-600">
+              {total} {total === 1 ? 'altar disponible' : 'altares disponibles'}
+              {filters.q && ` para “${filters.q}”`}
+            </p>
+          </div>
+
+          <AltarFilters
+            selectedType={selectedType}
+            onFilterChange={(tipo) => updateFilters({ tipo: tipo === 'all' ? undefined : tipo })}
+            counts={counts}
+          />
         </div>
 
-        <AltarFilters
-          selectedType={selectedType}
-          onFilterChange={setSelectedType}
-          counts={counts}
+        <CatalogSearch
+          search={search}
+          onSearchChange={setSearch}
+          orden={filters.orden}
+          onOrdenChange={(orden) => updateFilters({ orden })}
         />
       </div>
 
       {/* Grid */}
-      <AltarGrid altares={filteredAltares} />
+      <AltarGrid
+        altares={altares}
+        isLoading={isPending}
+        hasMore={hasMore && !error}
+        isLoadingMore={isLoadingMore}
+        onLoadMore={loadMore}
+        emptyMessage={
+          isFiltered
+            ? 'Ningún altar coincide con tu búsqueda. Prueba con otras palabras u otro tipo.'
+            : undefined
+        }
+      />
+
+      {error && (
+        <div className="flex flex-col items-center gap-2 text-center">
+          <p className="text-sm text-red-600">{error}</p>
+          <Button type="button" variant="outline" onClick={loadMore}>
+            Reintentar
+          </Button>
+        </div>
+      )}
+
+      {isFiltered && altares.length === 0 && !isPending && (
+        <div className="text-center">
+          <Button type="button" variant="outline" onClick={clearFilters}>
+            Ver todos los altares
+          </Button>
+        </div>
+      )}
     </div>
   )
 }
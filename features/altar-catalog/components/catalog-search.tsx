@@ -0,0 +1,54 @@
+'use client'
+
+import { Search } from 'lucide-react'
+import { Input } from '@/components/ui/input'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { CATALOG_SORTS } from '@/lib/constants/business-config'
+import { type CatalogSort, CatalogSortEnum } from '../schemas/altar.schema'
+
+interface CatalogSearchProps {
+  search: string
+  onSearchChange: (search: string) => void
+  orden: CatalogSort
+  onOrdenChange: (orden: CatalogSort) => void
+}
+
+export function CatalogSearch({ search, onSearchChange, orden, onOrdenChange }: CatalogSearchProps) {
+  return (
+    <div className="flex flex-col gap-2 sm:flex-row">
+      <div className="relative flex-1">
+        <Search
+          className="pointer-events-none absolute top-1/2 left-3 size-4 -translate-y-1/2 text-neutral-400"
+          aria-hidden
+        />
+        <Input
+          type="search"
+          value={search}
+          onChange={(event) => onSearchChange(event.target.value)}
+          placeholder="Buscar altares…"
+          maxLength={100}
+          className="pl-9"
+          aria-label="Buscar altares"
+        />
+      </div>
+      <Select value={orden} onValueChange={(value) => onOrdenChange(value as CatalogSort)}>
+        <SelectTrigger className="w-full sm:w-48" aria-label="Ordenar por">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {CatalogSortEnum.options.map((value) => (
+            <SelectItem key={value} value={value}>
+              {CATALOG_SORTS[value].label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  )
+}
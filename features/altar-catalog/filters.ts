@@ -0,0 +1,36 @@
+import type { CatalogFilters } from './schemas/altar.schema'
+
+/**
+ * Build the public catalog query string for a set of filters
+ * @param filters - Filters to keep; the default order and empty values are omitted
+ * @returns Query string including the leading "?", or an empty string
+ */
+export function toCatalogQuery(filters: Partial<CatalogFilters>): string {
+  const params = new URLSearchParams()
+
+  if (filters.tipo) {
+    params.set('tipo', filters.tipo)
+  }
+  if (filters.q?.trim()) {
+    params.set('q', filters.q.trim())
+  }
+  if (filters.orden && filters.orden !== 'destacado') {
+    params.set('orden', filters.orden)
+  }
+
+  const query = params.toString()
+  return query ? `?${query}` : ''
+}
+
+// Characters with meaning in PostgREST filters or LIKE patterns
+const SEARCH_RESERVED_CHARS = /[%_*,()"\\]/g
+
+/**
+ * Normalize a catalog search term so it can be embedded in a filter
+ * @param q - Search typed by the customer
+ * @returns The cleaned term, or undefined when nothing searchable is left
+ */
+export function toSearchTerm(q: string | undefined): string | undefined {
+  const term = q?.replace(SEARCH_RESERVED_CHARS, ' ').replace(/\s+/g, ' ').trim()
+  return term || undefined
+}
@@ -0,0 +1,70 @@
+'use client'
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { createClient } from '@/lib/supabase/client'
+import { queryAltaresPage } from '../catalog-query'
+import type { AltaresPage, CatalogFilters } from '../schemas/altar.schema'
+
+/**
+ * Fetch the next catalog page in the browser
+ * RLS exposes the same active altars the server reads
+ * @param filters - Filters of the first page
+ * @param cursor - nextCursor of the previous page
+ */
+export async function fetchAltaresPage(
+  filters: CatalogFilters,
+  cursor: string
+): Promise<AltaresPage> {
+  return queryAltaresPage(createClient(), filters, cursor)
+}
+
+/**
+ * Catalog list that grows one page at a time
+ * Starts over whenever the server renders a new first page (new filters)
+ * @param initialPage - First page, rendered on the server
+ * @param filters - Filters the first page was fetched with
+ */
+export function useInfiniteAltares(initialPage: AltaresPage, filters: CatalogFilters) {
+  const [altares, setAltares] = useState(initialPage.altares)
+  const [nextCursor, setNextCursor] = useState(initialPage.nextCursor)
+  const [isLoadingMore, setIsLoadingMore] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  // Bumped on every reset, so pages requested for older filters are dropped
+  const generation = useRef(0)
+
+  useEffect(() => {
+    generation.current++
+    setAltares(initialPage.altares)
+    setNextCursor(initialPage.nextCursor)
+    setIsLoadingMore(false)
+    setError(null)
+  }, [initialPage])
+
+  const loadMore = useCallback(() => {
+    if (!nextCursor || isLoadingMore) {
+      return
+    }
+
+    const current = generation.current
+    setIsLoadingMore(true)
+    setError(null)
+
+    fetchAltaresPage(filters, nextCursor)
+      .then((page) => {
+        if (generation.current !== current) return
+        setAltares((loaded) => {
+          const ids = new Set(loaded.map((altar) => altar.id))
+          return [...loaded, ...page.altares.filter((altar) => !ids.has(altar.id))]
+        })
+        setNextCursor(page.nextCursor)
+      })
+      .catch(() => {
+        if (generation.current === current) setError('No se pudieron cargar más altares')
+      })
+      .finally(() => {
+        if (generation.current === current) setIsLoadingMore(false)
+      })
+  }, [filters, nextCursor, isLoadingMore])
+
+  return { altares, hasMore: nextCursor !== null, isLoadingMore, error, loadMore }
+}
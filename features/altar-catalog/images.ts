@@ -0,0 +1,43 @@
+import type { Altar } from './schemas/altar.schema'
+
+/**
+ * All images of an altar: main image first, then the gallery without duplicates
+ * @param altar - Altar with its image fields
+ */
+export function getAltarImages(
+  altar: Pick<Altar, 'imagen_principal' | 'imagenes_galeria'>
+): string[] {
+  return Array.from(
+    new Set(
+      [altar.imagen_principal, ...(altar.imagenes_galeria ?? [])].filter(
+        (url): url is string => Boolean(url)
+      )
+    )
+  )
+}
+
+/**
+ * next/image source for an altar image
+ * Uploaded images get their blur placeholder and, for small slots, the
+ * thumbnail variant; pasted URLs are used as they are
+ * @param altar - Altar the image belongs to
+ * @param url - Image URL from imagen_principal or imagenes_galeria
+ * @param variant - 'miniatura' for cards and thumbnails
+ */
+export function getAltarImageSource(
+  altar: Pick<Altar, 'imagenes_meta'>,
+  url: string,
+  variant: 'completa' | 'miniatura' = 'completa'
+): { src: string; placeholder?: 'blur'; blurDataURL?: string } {
+  const meta = altar.imagenes_meta[url]
+
+  if (!meta) {
+    return { src: url }
+  }
+
+  return {
+    src: variant === 'miniatura' ? meta.miniatura : url,
+    placeholder: 'blur',
+    blurDataURL: meta.blur,
+  }
+}
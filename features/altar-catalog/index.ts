@@ -3,25 +3,54 @@ export { AltarCard } from './components/altar-card'
 export { AltarGrid } from './components/altar-grid'
 export { AltarFilters } from './components/altar-filters'
 export { CatalogClient } from './components/catalog-client'
+export { AltarGallery } from './components/altar-gallery'
+export { AltarIncludedItems } from './components/altar-included-items'
 
 // API
 export {
   getAltares,
+  getAltaresPage,
+  getAltarCountsByType,
   getAltaresByType,
   getAltarById,
+  getAltaresByIds,
   getAltarBySlug,
+  getActiveAltarSlugs,
 } from './api'
 
+// Filters
+export { toCatalogQuery, toSearchTerm } from './filters'
+export { CATALOG_PAGE_SIZE, type CatalogQueryFilters } from './catalog-query'
+
+// Images
+export { getAltarImages, getAltarImageSource } from './images'
+
+// Hooks
+export { fetchAltaresPage, useInfiniteAltares } from './hooks/use-infinite-altares'
+
+// Revalidation
+export { revalidateAllAltarPages, revalidateAltarPages } from './revalidate'
+
 // Schemas
 export {
   altarSchema,
   altarCreateSchema,
   altarUpdateSchema,
   altarCatalogSchema,
+  imagenMetaSchema,
+  catalogFiltersSchema,
+  altaresQuerySchema,
+  CatalogSortEnum,
   ModelTypeEnum,
   type Altar,
   type AltarCreate,
   type AltarUpdate,
   type AltarCatalog,
+  type ImagenMeta,
+  type AltarCounts,
+  type AltaresPage,
+  type AltaresQuery,
+  type CatalogFilters,
+  type CatalogSort,
   type ModelType,
 } from './schemas/altar.schema'
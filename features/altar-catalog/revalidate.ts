@@ -0,0 +1,38 @@
+import { revalidatePath } from 'next/cache'
+import { invalidateCacheTags } from '@/lib/cache/cache'
+import { CACHE_TAGS, type CacheTag } from '@/lib/cache/tags'
+import { ROUTES } from '@/lib/constants/routes'
+
+/**
+ * Revalidate the statically generated pages that show an altar, and drop
+ * cached catalog queries
+ * @param slugs - Slugs whose product pages changed (old and new slug on rename)
+ */
+export async function revalidateAltarPages(
+  slugs: Array<string | null | undefined>
+): Promise<void> {
+  revalidatePath(ROUTES.HOME)
+  revalidatePath(ROUTES.SITEMAP)
+
+  for (const slug of new Set(slugs)) {
+    if (slug) {
+      revalidatePath(ROUTES.PRODUCT_DETAIL(slug))
+    }
+  }
+
+  await invalidateCacheTags([CACHE_TAGS.altares])
+}
+
+/**
+ * Revalidate every product page
+ * Used when data shared by all altars changes (configuraciones, pricing rules)
+ * @param tags - Cached data that changed along with the pages
+ */
+export async function revalidateAllAltarPages(tags: CacheTag[] = []): Promise<void> {
+  revalidatePath(ROUTES.HOME)
+  revalidatePath('/producto/[slug]', 'page')
+
+  if (tags.length > 0) {
+    await invalidateCacheTags(tags)
+  }
+}
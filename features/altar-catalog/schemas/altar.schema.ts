@@ -6,6 +6,18 @@ import { z } from 'zod'
 export const ModelTypeEnum = z.enum(['seres_queridos', 'bebes_no_nacidos', 'mascotas'])
 export type ModelType = z.infer<typeof ModelTypeEnum>
 
+/**
+ * Resized variant, blur placeholder and size of an uploaded image
+ */
+export const imagenMetaSchema = z.object({
+  miniatura: z.string().url(),
+  blur: z.string().startsWith('data:image/').max(4000),
+  ancho: z.number().int().positive(),
+  alto: z.number().int().positive(),
+})
+
+export type ImagenMeta = z.infer<typeof imagenMetaSchema>
+
 /**
  * Altar schema for validation
  */
@@ -20,6 +32,8 @@ export const altarSchema = z.object({
   portaretratos_incluidos: z.number().int().min(0).default(1),
   imagen_principal: z.string().url().nullable(),
   imagenes_galeria: z.array(z.string().url()).nullable(),
+  /** Keyed by image URL; only images uploaded to Storage have an entry */
+  imagenes_meta: z.record(z.string(), imagenMetaSchema).default({}),
   activo: z.boolean().default(true),
   destacado: z.boolean().default(false),
   slug: z.string().min(1).max(255),
@@ -62,3 +76,60 @@ export const altarCatalogSchema = altarSchema.pick({
 })
 
 export type AltarCatalog = z.infer<typeof altarCatalogSchema>
+
+/**
+ * Catalog sort orders
+ */
+export const CatalogSortEnum = z.enum(['destacado', 'recientes', 'nombre'])
+export type CatalogSort = z.infer<typeof CatalogSortEnum>
+
+/**
+ * Public catalog filters, parsed from the URL search params
+ * Invalid values are dropped instead of failing the page
+ */
+export const catalogFiltersSchema = z.object({
+  tipo: ModelTypeEnum.optional().catch(undefined),
+  q: z
+    .string()
+    .trim()
+    .max(100)
+    .transform((value) => value || undefined)
+    .optional()
+    .catch(undefined),
+  orden: CatalogSortEnum.default('destacado').catch('destacado'),
+})
+
+export type CatalogFilters = z.infer<typeof catalogFiltersSchema>
+
+/**
+ * Query params of GET /api/altares
+ * Stricter than the storefront filters: invalid values are rejected
+ */
+export const altaresQuerySchema = z.object({
+  tipo: ModelTypeEnum.optional(),
+  destacado: z
+    .enum(['true', 'false'])
+    .transform((value) => value === 'true')
+    .optional(),
+  q: z.string().trim().max(100).optional(),
+  orden: CatalogSortEnum.default('destacado'),
+  cursor: z.string().max(1000).optional(),
+  // Default is the same as CATALOG_PAGE_SIZE
+  limit: z.coerce.number().int().min(1).max(50).default(12),
+})
+
+export type AltaresQuery = z.infer<typeof altaresQuerySchema>
+
+/**
+ * Altars per model type, plus the total under 'all'
+ */
+export type AltarCounts = Record<ModelType | 'all', number>
+
+/**
+ * One page of the public catalog
+ */
+export interface AltaresPage {
+  altares: Altar[]
+  /** Opaque cursor for the next page, or null on the last page */
+  nextCursor: string | null
+}
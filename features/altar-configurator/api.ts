@@ -0,0 +1,57 @@
+import { getItemsExtra } from '@/features/items-extra/api'
+import type { ItemExtra } from '@/features/items-extra/schemas/item-extra.schema'
+import { getReglasPrecio } from '@/features/pricing'
+import type { ReglaPrecio } from '@/features/pricing/schemas/pricing.schema'
+import { createStaticClient } from '@/lib/supabase/static'
+import { logError } from '@/lib/utils/error-handler'
+import {
+  type ConfiguracionesByType,
+  configuracionSchema,
+} from './schemas/configuracion.schema'
+
+/**
+ * Fetch available configuration options grouped by type
+ * @returns Options for grosor, altura and anchura sorted by orden
+ */
+export async function getConfiguraciones(): Promise<ConfiguracionesByType> {
+  const supabase = createStaticClient()
+
+  const { data, error } = await supabase
+    .from('configuraciones')
+    .select('*')
+    .eq('disponible', true)
+    .order('orden', { ascending: true })
+    .order('valor', { ascending: true })
+
+  if (error) {
+    logError(error, { source: 'getConfiguraciones' })
+    throw new Error('Failed to fetch configuraciones')
+  }
+
+  const grouped: ConfiguracionesByType = { grosor: [], altura: [], anchura: [] }
+
+  for (const row of data) {
+    const configuracion = configuracionSchema.parse(row)
+    grouped[configuracion.tipo].push(configuracion)
+  }
+
+  return grouped
+}
+
+/**
+ * Fetch everything the configurator needs to validate and price selections
+ * @returns Available options, active pricing rules and available extra items
+ */
+export async function getConfiguratorData(): Promise<{
+  configuraciones: ConfiguracionesByType
+  reglasPrecio: ReglaPrecio[]
+  itemsExtra: ItemExtra[]
+}> {
+  const [configuraciones, reglasPrecio, itemsExtra] = await Promise.all([
+    getConfiguraciones(),
+    getReglasPrecio(),
+    getItemsExtra(),
+  ])
+
+  return { configuraciones, reglasPrecio, itemsExtra }
+}
@@ -0,0 +1,153 @@
+import { findMatchingRules, findPricingRule } from '@/features/pricing/calculate-price'
+import type { ReglaPrecio } from '@/features/pricing/schemas/pricing.schema'
+import type {
+  Configuracion,
+  ConfiguracionesByType,
+  ConfiguratorSelection,
+} from './schemas/configuracion.schema'
+
+/**
+ * Availability of a single option given the current selection
+ */
+export interface OptionAvailability {
+  option: Configuracion
+  disponible: boolean
+  motivo: string | null
+}
+
+/**
+ * Cheapest and most expensive unit price of an altar
+ */
+export interface PriceRange {
+  min: number
+  max: number
+}
+
+/**
+ * Format an option value with its unit (e.g. "5 mm")
+ * @param option - Configuration option
+ * @returns Display label
+ */
+export function formatOption(option: Configuracion): string {
+  return `${option.valor} ${option.unidad}`
+}
+
+/**
+ * Check whether a grosor/altura/anchura combination is covered by a pricing rule
+ * @returns True when at least one active rule covers the combination
+ */
+export function isCombinationPriced(
+  reglas: ReglaPrecio[],
+  grosor: Configuracion,
+  altura: Configuracion,
+  anchura: Configuracion
+): boolean {
+  return findMatchingRules(reglas, grosor.id, altura.valor, anchura.valor).length > 0
+}
+
+/**
+ * Compute which grosor options have at least one priced size
+ */
+export function getGrosorAvailability(
+  options: ConfiguracionesByType,
+  reglas: ReglaPrecio[]
+): OptionAvailability[] {
+  return options.grosor.map((grosor) => {
+    const disponible = options.altura.some((altura) =>
+      options.anchura.some((anchura) => isCombinationPriced(reglas, grosor, altura, anchura))
+    )
+
+    return {
+      option: grosor,
+      disponible,
+      motivo: disponible ? null : 'Sin medidas disponibles',
+    }
+  })
+}
+
+/**
+ * Compute which altura options can be combined with the selected grosor
+ */
+export function getAlturaAvailability(
+  options: ConfiguracionesByType,
+  reglas: ReglaPrecio[],
+  selection: ConfiguratorSelection
+): OptionAvailability[] {
+  const { grosor } = selection
+
+  return options.altura.map((altura) => {
+    if (!grosor) {
+      return { option: altura, disponible: false, motivo: 'Selecciona primero el grosor' }
+    }
+
+    const disponible = options.anchura.some((anchura) =>
+      isCombinationPriced(reglas, grosor, altura, anchura)
+    )
+
+    return {
+      option: altura,
+      disponible,
+      motivo: disponible ? null : `No disponible en ${formatOption(grosor)}`,
+    }
+  })
+}
+
+/**
+ * Compute which anchura options can be combined with the selected grosor and altura
+ */
+export function getAnchuraAvailability(
+  options: ConfiguracionesByType,
+  reglas: ReglaPrecio[],
+  selection: ConfiguratorSelection
+): OptionAvailability[] {
+  const { grosor, altura } = selection
+
+  return options.anchura.map((anchura) => {
+    if (!grosor || !altura) {
+      return { option: anchura, disponible: false, motivo: 'Selecciona primero grosor y altura' }
+    }
+
+    const disponible = isCombinationPriced(reglas, grosor, altura, anchura)
+
+    return {
+      option: anchura,
+      disponible,
+      motivo: disponible
+        ? null
+        : `No disponible para ${formatOption(altura)} de altura en ${formatOption(grosor)}`,
+    }
+  })
+}
+
+/**
+ * Price range over every combination of available options with exactly one pricing rule
+ * Extras, quantity discounts and promo codes are left out
+ * @returns From the cheapest unpainted to the most expensive painted altar, or null
+ * when no combination is priced
+ */
+export function getPriceRange(
+  options: ConfiguracionesByType,
+  reglas: ReglaPrecio[]
+): PriceRange | null {
+  const rules: ReglaPrecio[] = []
+
+  for (const grosor of options.grosor) {
+    for (const altura of options.altura) {
+      for (const anchura of options.anchura) {
+        const rule = findPricingRule(reglas, grosor.id, altura.valor, anchura.valor)
+        if (rule.success) {
+          rules.push(rule.data)
+        }
+      }
+    }
+  }
+
+  if (rules.length === 0) {
+    return null
+  }
+
+  return {
+    min: Math.min(...rules.map((regla) => regla.precio_base)),
+    max: Math.max(...rules.map((regla) => regla.precio_pintado)),
+  }
+}
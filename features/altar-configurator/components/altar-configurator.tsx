@@ -0,0 +1,140 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import type { Altar } from '@/features/altar-catalog/schemas/altar.schema'
+import { AddToCart } from '@/features/cart/components/add-to-cart'
+import type { CartExtra } from '@/features/cart/schemas/cart.schema'
+import { ItemsExtraPicker } from '@/features/items-extra/components/items-extra-picker'
+import type { ItemExtra } from '@/features/items-extra/schemas/item-extra.schema'
+import { roundMoney } from '@/features/pricing/calculate-price'
+import type { ReglaPrecio } from '@/features/pricing/schemas/pricing.schema'
+import { formatCurrency } from '@/lib/utils/format-currency'
+import { useConfigurator } from '../hooks/use-configurator'
+import type { ConfiguracionesByType } from '../schemas/configuracion.schema'
+import { OptionGroup } from './option-group'
+
+interface AltarConfiguratorProps {
+  altar: Altar
+  configuraciones: ConfiguracionesByType
+  reglasPrecio: ReglaPrecio[]
+  itemsExtra?: ItemExtra[]
+}
+
+export function AltarConfigurator({
+  altar,
+  configuraciones,
+  reglasPrecio,
+  itemsExtra = [],
+}: AltarConfiguratorProps) {
+  const [extras, setExtras] = useState<CartExtra[]>([])
+  const {
+    selection,
+    availability,
+    regla,
+    pricingError,
+    precioUnitario,
+    isComplete,
+    selectGrosor,
+    selectAltura,
+    selectAnchura,
+    setPintado,
+  } = useConfigurator(configuraciones, reglasPrecio)
+
+  // Preview only: the cart and checkout price extras from the database again
+  const extrasTotal = roundMoney(
+    extras.reduce((sum, extra) => {
+      const item = itemsExtra.find((candidate) => candidate.id === extra.item_id)
+      return sum + (item ? item.precio * extra.cantidad : 0)
+    }, 0)
+  )
+
+  const finishes = [
+    { pintado: false, label: 'Sin pintar', precio: regla?.precio_base },
+    { pintado: true, label: 'Pintado', precio: regla?.precio_pintado },
+  ]
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Configura tu altar</CardTitle>
+      </CardHeader>
+
+      <CardContent className="space-y-6">
+        <OptionGroup
+          label="Grosor del MDF"
+          options={availability.grosor}
+          selected={selection.grosor}
+          onSelect={selectGrosor}
+        />
+        <OptionGroup
+          label="Altura"
+          options={availability.altura}
+          selected={selection.altura}
+          onSelect={selectAltura}
+        />
+        <OptionGroup
+          label="Anchura"
+          options={availability.anchura}
+          selected={selection.anchura}
+          onSelect={selectAnchura}
+        />
+
+        <fieldset>
+          <legend className="text-sm font-medium text-neutral-900">Acabado</legend>
+          <div className="mt-2 grid grid-cols-2 gap-2">
+            {finishes.map((finish) => (
+              <Button
+                key={finish.label}
+                type="button"
+                variant={selection.pintado === finish.pintado ? 'default' : 'outline'}
+                aria-pressed={selection.pintado === finish.pintado}
+                onClick={() => setPintado(finish.pintado)}
+                className="h-auto flex-col py-2"
+              >
+                <span>{finish.label}</span>
+                {finish.precio !== undefined && (
+                  <span className="text-xs opacity-80">{formatCurrency(finish.precio)}</span>
+                )}
+              </Button>
+            ))}
+          </div>
+        </fieldset>
+
+        <ItemsExtraPicker altar={altar} items={itemsExtra} value={extras} onChange={setExtras} />
+
+        <div className="rounded-lg bg-neutral-50 p-4">
+          {precioUnitario !== null ? (
+            <>
+              <div className="flex items-baseline justify-between">
+                <span className="text-sm text-neutral-600">Precio por altar</span>
+                <span className="text-2xl font-bold text-neutral-900">
+                  {formatCurrency(roundMoney(precioUnitario + extrasTotal))}
+                </span>
+              </div>
+              {extrasTotal > 0 && (
+                <p className="mt-1 text-right text-xs text-neutral-600">
+                  Incluye {formatCurrency(extrasTotal)} en extras
+                </p>
+              )}
+            </>
+          ) : (
+            <p className="text-sm text-neutral-600">
+              {pricingError?.message ?? 'Selecciona grosor, altura y anchura para ver el precio'}
+            </p>
+          )}
+        </div>
+
+        <AddToCart
+          altar={altar}
+          grosor={isComplete ? selection.grosor : null}
+          altura={isComplete ? selection.altura : null}
+          anchura={isComplete ? selection.anchura : null}
+          pintado={selection.pintado}
+          itemsExtra={extras}
+        />
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,50 @@
+'use client'
+
+import { Button } from '@/components/ui/button'
+import { formatOption, type OptionAvailability } from '../availability'
+import type { Configuracion } from '../schemas/configuracion.schema'
+
+interface OptionGroupProps {
+  label: string
+  options: OptionAvailability[]
+  selected: Configuracion | null
+  onSelect: (option: Configuracion) => void
+}
+
+export function OptionGroup({ label, options, selected, onSelect }: OptionGroupProps) {
+  // Unavailable options in a group share the same explanation
+  const motivos = Array.from(
+    new Set(options.map((item) => item.motivo).filter((motivo): motivo is string => Boolean(motivo)))
+  )
+
+  if (options.length === 0) {
+    return null
+  }
+
+  return (
+    <fieldset>
+      <legend className="text-sm font-medium text-neutral-900">{label}</legend>
+      <div className="mt-2 flex flex-wrap gap-2">
+        {options.map(({ option, disponible, motivo }) => (
+          <Button
+            key={option.id}
+            type="button"
+            size="sm"
+            variant={selected?.id === option.id ? 'default' : 'outline'}
+            disabled={!disponible}
+            title={motivo ?? undefined}
+            aria-pressed={selected?.id === option.id}
+            onClick={() => onSelect(option)}
+          >
+            {formatOption(option)}
+          </Button>
+        ))}
+      </div>
+      {motivos.length > 0 && (
+        <p className="mt-2 text-xs text-neutral-500">
+          Opciones deshabilitadas: {motivos.join('. ')}
+        </p>
+      )}
+    </fieldset>
+  )
+}
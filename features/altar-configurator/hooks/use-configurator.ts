@@ -0,0 +1,108 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { findPricingRule } from '@/features/pricing/calculate-price'
+import type { ReglaPrecio } from '@/features/pricing/schemas/pricing.schema'
+import {
+  getAlturaAvailability,
+  getAnchuraAvailability,
+  getGrosorAvailability,
+  isCombinationPriced,
+} from '../availability'
+import type {
+  Configuracion,
+  ConfiguracionesByType,
+  ConfiguratorSelection,
+} from '../schemas/configuracion.schema'
+
+const EMPTY_SELECTION: ConfiguratorSelection = {
+  grosor: null,
+  altura: null,
+  anchura: null,
+  pintado: false,
+}
+
+/**
+ * Configurator state: selection, per-option availability and live price
+ * Changing an earlier step clears later steps that are no longer priced
+ */
+export function useConfigurator(
+  configuraciones: ConfiguracionesByType,
+  reglasPrecio: ReglaPrecio[]
+) {
+  const [selection, setSelection] = useState<ConfiguratorSelection>(EMPTY_SELECTION)
+
+  const availability = useMemo(
+    () => ({
+      grosor: getGrosorAvailability(configuraciones, reglasPrecio),
+      altura: getAlturaAvailability(configuraciones, reglasPrecio, selection),
+      anchura: getAnchuraAvailability(configuraciones, reglasPrecio, selection),
+    }),
+    [configuraciones, reglasPrecio, selection]
+  )
+
+  const pricing = useMemo(() => {
+    const { grosor, altura, anchura } = selection
+    if (!grosor || !altura || !anchura) {
+      return null
+    }
+    return findPricingRule(reglasPrecio, grosor.id, altura.valor, anchura.valor)
+  }, [reglasPrecio, selection])
+
+  const regla = pricing?.success ? pricing.data : null
+  const precioUnitario = regla ? (selection.pintado ? regla.precio_pintado : regla.precio_base) : null
+
+  const selectGrosor = (grosor: Configuracion) => {
+    setSelection((current) => {
+      const { altura: prevAltura, anchura: prevAnchura } = current
+      const altura =
+        prevAltura &&
+        configuraciones.anchura.some((anchura) =>
+          isCombinationPriced(reglasPrecio, grosor, prevAltura, anchura)
+        )
+          ? prevAltura
+          : null
+      const anchura =
+        altura && prevAnchura && isCombinationPriced(reglasPrecio, grosor, altura, prevAnchura)
+          ? prevAnchura
+          : null
+
+      return { ...current, grosor, altura, anchura }
+    })
+  }
+
+  const selectAltura = (altura: Configuracion) => {
+    setSelection((current) => {
+      const keepAnchura =
+        current.grosor &&
+        current.anchura &&
+        isCombinationPriced(reglasPrecio, current.grosor, altura, current.anchura)
+
+      return { ...current, altura, anchura: keepAnchura ? current.anchura : null }
+    })
+  }
+
+  const selectAnchura = (anchura: Configuracion) => {
+    setSelection((current) => ({ ...current, anchura }))
+  }
+
+  const setPintado = (pintado: boolean) => {
+    setSelection((current) => ({ ...current, pintado }))
+  }
+
+  const reset = () => setSelection(EMPTY_SELECTION)
+
+  return {
+    selection,
+    availability,
+    regla,
+    pricingError: pricing && !pricing.success ? pricing.error : null,
+    precioUnitario,
+    isComplete: regla !== null,
+    selectGrosor,
+    selectAltura,
+    selectAnchura,
+    setPintado,
+    reset,
+  }
+}
@@ -0,0 +1,31 @@
+// Components
+export { AltarConfigurator } from './components/altar-configurator'
+export { OptionGroup } from './components/option-group'
+
+// Hooks
+export { useConfigurator } from './hooks/use-configurator'
+
+// API
+export { getConfiguraciones, getConfiguratorData } from './api'
+
+// Availability
+export {
+  formatOption,
+  getAlturaAvailability,
+  getAnchuraAvailability,
+  getGrosorAvailability,
+  getPriceRange,
+  isCombinationPriced,
+  type OptionAvailability,
+  type PriceRange,
+} from './availability'
+
+// Schemas
+export {
+  configuracionSchema,
+  ConfigTypeEnum,
+  type ConfigType,
+  type Configuracion,
+  type ConfiguracionesByType,
+  type ConfiguratorSelection,
+} from './schemas/configuracion.schema'
@@ -0,0 +1,36 @@
+import { z } from 'zod'
+
+/**
+ * Configuration option types
+ */
+export const ConfigTypeEnum = z.enum(['grosor', 'altura', 'anchura'])
+export type ConfigType = z.infer<typeof ConfigTypeEnum>
+
+/**
+ * Configuration option (configuraciones row)
+ */
+export const configuracionSchema = z.object({
+  id: z.string().uuid(),
+  tipo: ConfigTypeEnum,
+  valor: z.number().positive(),
+  unidad: z.string().min(1).max(10),
+  disponible: z.boolean().default(true),
+  orden: z.number().int().default(0),
+})
+
+export type Configuracion = z.infer<typeof configuracionSchema>
+
+/**
+ * Available options grouped by type, each group sorted by orden
+ */
+export type ConfiguracionesByType = Record<ConfigType, Configuracion[]>
+
+/**
+ * Customer selection in the configurator
+ */
+export interface ConfiguratorSelection {
+  grosor: Configuracion | null
+  altura: Configuracion | null
+  anchura: Configuracion | null
+  pintado: boolean
+}
@@ -0,0 +1,97 @@
+'use server'
+
+import { redirect } from 'next/navigation'
+import { getAdminUser } from '@/lib/auth/admin'
+import { getSafeRedirectPath, getSiteUrl } from '@/lib/auth/redirect'
+import { ROUTES } from '@/lib/constants/routes'
+import { createClient } from '@/lib/supabase/server'
+import {
+  type ActionResult,
+  actionError,
+  actionSuccess,
+  actionValidationError,
+} from '@/lib/utils/action-result'
+import { logError } from '@/lib/utils/error-handler'
+import { magicLinkSchema, passwordLoginSchema } from './schemas/login.schema'
+
+const HTTP_TOO_MANY_REQUESTS = 429
+
+/**
+ * Log in with email and password, then go to the requested admin page
+ * Users without an active admin_usuarios row land on the no-access page
+ * @param input - Email, password and optional next path
+ */
+export async function signInWithPassword(input: unknown): Promise<ActionResult> {
+  const parsed = passwordLoginSchema.safeParse(input)
+  if (!parsed.success) {
+    return actionValidationError(parsed.error)
+  }
+
+  const supabase = await createClient()
+  const { error } = await supabase.auth.signInWithPassword({
+    email: parsed.data.email,
+    password: parsed.data.password,
+  })
+
+  if (error) {
+    if (error.status === HTTP_TOO_MANY_REQUESTS) {
+      return actionError('Demasiados intentos. Espera un momento e intenta de nuevo')
+    }
+    return actionError('Email o contraseña incorrectos')
+  }
+
+  if (!(await getAdminUser())) {
+    redirect(ROUTES.AUTH_NO_ACCESS)
+  }
+
+  redirect(getSafeRedirectPath(parsed.data.next))
+}
+
+/**
+ * Email a one-time login link that returns through /auth/callback
+ * The response is the same whether or not the email is registered
+ * @param input - Email and optional next path
+ */
+export async function sendMagicLink(input: unknown): Promise<ActionResult> {
+  const parsed = magicLinkSchema.safeParse(input)
+  if (!parsed.success) {
+    return actionValidationError(parsed.error)
+  }
+
+  const callbackUrl = new URL(ROUTES.AUTH_CALLBACK, await getSiteUrl())
+  callbackUrl.searchParams.set('next', getSafeRedirectPath(parsed.data.next))
+
+  const supabase = await createClient()
+  const { error } = await supabase.auth.signInWithOtp({
+    email: parsed.data.email,
+    options: {
+      emailRedirectTo: callbackUrl.toString(),
+      // Admin accounts are created by invitation only
+      shouldCreateUser: false,
+    },
+  })
+
+  if (error) {
+    if (error.status === HTTP_TOO_MANY_REQUESTS) {
+      return actionError('Ya enviamos un enlace hace poco. Espera un momento antes de pedir otro')
+    }
+    // Unknown emails also fail here; don't reveal which emails exist
+    logError(error, { action: 'sendMagicLink' })
+  }
+
+  return actionSuccess(undefined)
+}
+
+/**
+ * Log out and go back to the login page
+ */
+export async function signOut(): Promise<void> {
+  const supabase = await createClient()
+  const { error } = await supabase.auth.signOut()
+
+  if (error) {
+    logError(error, { action: 'signOut' })
+  }
+
+  redirect(ROUTES.AUTH_LOGIN)
+}
@@ -0,0 +1,161 @@
+'use client'
+
+import { zodResolver } from '@hookform/resolvers/zod'
+import { useState } from 'react'
+import { useForm } from 'react-hook-form'
+import { Button } from '@/components/ui/button'
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form'
+import { Input } from '@/components/ui/input'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { sendMagicLink, signInWithPassword } from '../actions'
+import {
+  type MagicLink,
+  magicLinkSchema,
+  type PasswordLogin,
+  passwordLoginSchema,
+} from '../schemas/login.schema'
+
+interface LoginFormProps {
+  next?: string
+}
+
+function PasswordLoginForm({ next }: LoginFormProps) {
+  const [submitError, setSubmitError] = useState<string | null>(null)
+  const form = useForm<PasswordLogin>({
+    resolver: zodResolver(passwordLoginSchema),
+    defaultValues: { email: '', password: '', next },
+  })
+
+  // On success the action redirects, so only failures come back
+  const onSubmit = async (values: PasswordLogin) => {
+    setSubmitError(null)
+    const result = await signInWithPassword(values)
+    if (!result.success) {
+      setSubmitError(result.error)
+    }
+  }
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="email"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Email</FormLabel>
+              <FormControl>
+                <Input type="email" autoComplete="email" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="password"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Contraseña</FormLabel>
+              <FormControl>
+                <Input type="password" autoComplete="current-password" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        {submitError && (
+          <p className="rounded-md bg-red-50 p-3 text-sm text-red-700">{submitError}</p>
+        )}
+
+        <Button type="submit" className="w-full" disabled={form.formState.isSubmitting}>
+          {form.formState.isSubmitting ? 'Entrando…' : 'Entrar'}
+        </Button>
+      </form>
+    </Form>
+  )
+}
+
+function MagicLinkForm({ next }: LoginFormProps) {
+  const [submitError, setSubmitError] = useState<string | null>(null)
+  const [sentTo, setSentTo] = useState<string | null>(null)
+  const form = useForm<MagicLink>({
+    resolver: zodResolver(magicLinkSchema),
+    defaultValues: { email: '', next },
+  })
+
+  const onSubmit = async (values: MagicLink) => {
+    setSubmitError(null)
+    const result = await sendMagicLink(values)
+    if (result.success) {
+      setSentTo(values.email)
+    } else {
+      setSubmitError(result.error)
+    }
+  }
+
+  if (sentTo) {
+    return (
+      <div className="rounded-md bg-green-50 p-4 text-sm text-green-800">
+        Si <strong>{sentTo}</strong> tiene acceso al panel, recibirás un enlace para entrar. Revisa
+        tu bandeja de entrada.
+        <Button type="button" variant="link" className="mt-2 h-auto p-0" onClick={() => setSentTo(null)}>
+          Usar otro email
+        </Button>
+      </div>
+    )
+  }
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="email"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Email</FormLabel>
+              <FormControl>
+                <Input type="email" autoComplete="email" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        {submitError && (
+          <p className="rounded-md bg-red-50 p-3 text-sm text-red-700">{submitError}</p>
+        )}
+
+        <Button type="submit" className="w-full" disabled={form.formState.isSubmitting}>
+          {form.formState.isSubmitting ? 'Enviando…' : 'Enviar enlace'}
+        </Button>
+      </form>
+    </Form>
+  )
+}
+
+export function LoginForm({ next }: LoginFormProps) {
+  return (
+    <Tabs defaultValue="password">
+      <TabsList className="mb-4 w-full">
+        <TabsTrigger value="password">Contraseña</TabsTrigger>
+        <TabsTrigger value="magic-link">Enlace por email</TabsTrigger>
+      </TabsList>
+      <TabsContent value="password">
+        <PasswordLoginForm next={next} />
+      </TabsContent>
+      <TabsContent value="magic-link">
+        <MagicLinkForm next={next} />
+      </TabsContent>
+    </Tabs>
+  )
+}
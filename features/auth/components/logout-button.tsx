@@ -0,0 +1,18 @@
+import { LogOut } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { signOut } from '../actions'
+
+interface LogoutButtonProps {
+  className?: string
+}
+
+export function LogoutButton({ className }: LogoutButtonProps) {
+  return (
+    <form action={signOut}>
+      <Button type="submit" variant="ghost" size="sm" className={className}>
+        <LogOut className="size-4" />
+        Cerrar sesión
+      </Button>
+    </form>
+  )
+}
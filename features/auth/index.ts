@@ -0,0 +1,14 @@
+// Components
+export { LoginForm } from './components/login-form'
+export { LogoutButton } from './components/logout-button'
+
+// Actions
+export { sendMagicLink, signInWithPassword, signOut } from './actions'
+
+// Schemas
+export {
+  magicLinkSchema,
+  passwordLoginSchema,
+  type MagicLink,
+  type PasswordLogin,
+} from './schemas/login.schema'
@@ -0,0 +1,24 @@
+import { z } from 'zod'
+
+const emailSchema = z.string().trim().toLowerCase().email('Email inválido')
+
+/**
+ * Email and password login
+ */
+export const passwordLoginSchema = z.object({
+  email: emailSchema,
+  password: z.string().min(1, 'Escribe tu contraseña'),
+  next: z.string().optional(),
+})
+
+export type PasswordLogin = z.infer<typeof passwordLoginSchema>
+
+/**
+ * Magic link login
+ */
+export const magicLinkSchema = z.object({
+  email: emailSchema,
+  next: z.string().optional(),
+})
+
+export type MagicLink = z.infer<typeof magicLinkSchema>
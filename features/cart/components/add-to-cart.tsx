@@ -0,0 +1,86 @@
+'use client'
+
+import { Minus, Plus } from 'lucide-react'
+import { useState } from 'react'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import type { Altar } from '@/features/altar-catalog/schemas/altar.schema'
+import type { CartExtra, CartOption } from '../schemas/cart.schema'
+import { useCartStore } from '../stores/cart-store'
+
+interface AddToCartProps {
+  altar: Pick<Altar, 'id' | 'nombre' | 'slug' | 'modelo_tipo' | 'imagen_principal'>
+  grosor: CartOption | null
+  altura: CartOption | null
+  anchura: CartOption | null
+  pintado: boolean
+  itemsExtra?: CartExtra[]
+}
+
+export function AddToCart({
+  altar,
+  grosor,
+  altura,
+  anchura,
+  pintado,
+  itemsExtra = [],
+}: AddToCartProps) {
+  const addItem = useCartStore((state) => state.addItem)
+  const [cantidad, setCantidad] = useState(1)
+  const isComplete = Boolean(grosor && altura && anchura)
+
+  const handleAdd = () => {
+    if (!grosor || !altura || !anchura) {
+      return
+    }
+
+    addItem({
+      altar: {
+        id: altar.id,
+        nombre: altar.nombre,
+        slug: altar.slug,
+        modelo_tipo: altar.modelo_tipo,
+        imagen_principal: altar.imagen_principal,
+      },
+      grosor: { id: grosor.id, valor: grosor.valor, unidad: grosor.unidad },
+      altura: { id: altura.id, valor: altura.valor, unidad: altura.unidad },
+      anchura: { id: anchura.id, valor: anchura.valor, unidad: anchura.unidad },
+      pintado,
+      cantidad,
+      items_extra: itemsExtra,
+    })
+    toast.success(`${altar.nombre} agregado al carrito`)
+    setCantidad(1)
+  }
+
+  return (
+    <div className="flex gap-2">
+      <div className="flex items-center rounded-md border border-neutral-200">
+        <Button
+          type="button"
+          variant="ghost"
+          size="icon"
+          onClick={() => setCantidad((value) => Math.max(value - 1, 1))}
+          aria-label="Disminuir cantidad"
+        >
+          <Minus className="size-4" />
+        </Button>
+        <span className="w-8 text-center text-sm font-medium" aria-live="polite">
+          {cantidad}
+        </span>
+        <Button
+          type="button"
+          variant="ghost"
+          size="icon"
+          onClick={() => setCantidad((value) => Math.min(value + 1, 100))}
+          aria-label="Aumentar cantidad"
+        >
+          <Plus className="size-4" />
+        </Button>
+      </div>
+      <Button type="button" className="flex-1" disabled={!isComplete} onClick={handleAdd}>
+        Agregar al carrito
+      </Button>
+    </div>
+  )
+}
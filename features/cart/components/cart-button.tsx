@@ -0,0 +1,32 @@
+'use client'
+
+import { ShoppingCart } from 'lucide-react'
+import Link from 'next/link'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { ROUTES } from '@/lib/constants/routes'
+import { useCartHydration } from '../hooks/use-cart-hydration'
+import { useCartStore } from '../stores/cart-store'
+
+export function CartButton() {
+  const hydrated = useCartHydration()
+  const cantidad = useCartStore((state) =>
+    state.items.reduce((sum, item) => sum + item.cantidad, 0)
+  )
+
+  if (!hydrated || cantidad === 0) {
+    return null
+  }
+
+  return (
+    <Button asChild size="lg" className="fixed bottom-6 right-6 z-40 rounded-full shadow-lg">
+      <Link href={ROUTES.CART} aria-label={`Ver carrito (${cantidad})`}>
+        <ShoppingCart className="size-5" />
+        Carrito
+        <Badge variant="secondary" className="ml-1 rounded-full px-2">
+          {cantidad}
+        </Badge>
+      </Link>
+    </Button>
+  )
+}
@@ -0,0 +1,72 @@
+'use client'
+
+import type { ReactNode } from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Separator } from '@/components/ui/separator'
+import { Skeleton } from '@/components/ui/skeleton'
+import { formatCurrency } from '@/lib/utils/format-currency'
+import { cn } from '@/lib/utils'
+import { formatDiscountLabel } from '../discount-progress'
+import type { useCartTotals } from '../hooks/use-cart-totals'
+import { PromoCodeForm } from './promo-code-form'
+
+interface CartSummaryProps {
+  totals: ReturnType<typeof useCartTotals>
+  children?: ReactNode
+}
+
+export function CartSummary({ totals, children }: CartSummaryProps) {
+  const { breakdown, pricingError, loadError, isLoading, discountProgress } = totals
+  const promocion = discountProgress?.promocion
+
+  return (
+    <Card className="h-fit">
+      <CardHeader>
+        <CardTitle className="text-lg">Resumen</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3 text-sm">
+        {discountProgress?.siguiente && (
+          <p className="rounded-md bg-amber-50 p-3 text-amber-800">
+            {discountProgress.siguiente.mensaje}
+          </p>
+        )}
+
+        <PromoCodeForm />
+        {promocion && (
+          <p className={cn(promocion.estado === 'aplicado' ? 'text-green-700' : 'text-amber-700')}>
+            {promocion.mensaje}
+          </p>
+        )}
+
+        {isLoading && <Skeleton className="h-20 w-full" />}
+        {loadError && <p className="text-red-600">{loadError}</p>}
+        {pricingError && <p className="text-red-600">{pricingError.message}</p>}
+
+        {breakdown && (
+          <>
+            <div className="flex justify-between">
+              <span className="text-neutral-600">Subtotal</span>
+              <span>{formatCurrency(breakdown.subtotal)}</span>
+            </div>
+            {breakdown.descuentos.map((descuento) => (
+              <div key={descuento.id} className="flex justify-between gap-4 text-green-700">
+                <span>
+                  {formatDiscountLabel(descuento)}
+                  <span className="block text-xs text-green-600">{descuento.descripcion}</span>
+                </span>
+                <span>-{formatCurrency(descuento.monto)}</span>
+              </div>
+            ))}
+            <Separator />
+            <div className="flex justify-between text-base font-bold text-neutral-900">
+              <span>Total</span>
+              <span>{formatCurrency(breakdown.total)}</span>
+            </div>
+          </>
+        )}
+
+        {children}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,114 @@
+'use client'
+
+import { Minus, Plus, Trash2 } from 'lucide-react'
+import Link from 'next/link'
+import { Button } from '@/components/ui/button'
+import { Skeleton } from '@/components/ui/skeleton'
+import { MODEL_TYPES } from '@/lib/constants/business-config'
+import { ROUTES } from '@/lib/constants/routes'
+import { formatCurrency } from '@/lib/utils/format-currency'
+import { useCartHydration } from '../hooks/use-cart-hydration'
+import { useCartTotals } from '../hooks/use-cart-totals'
+import { useCartStore } from '../stores/cart-store'
+import { CartSummary } from './cart-summary'
+
+export function CartView() {
+  const hydrated = useCartHydration()
+  const updateQuantity = useCartStore((state) => state.updateQuantity)
+  const removeItem = useCartStore((state) => state.removeItem)
+  const totals = useCartTotals()
+  const { items, breakdown } = totals
+
+  if (!hydrated) {
+    return <Skeleton className="h-64 w-full" />
+  }
+
+  if (items.length === 0) {
+    return (
+      <div className="flex min-h-[300px] flex-col items-center justify-center rounded-lg border-2 border-dashed border-neutral-300 p-8 text-center">
+        <h2 className="text-lg font-semibold text-neutral-900">Tu carrito está vacío</h2>
+        <p className="mt-2 text-sm text-neutral-600">Configura un altar para agregarlo aquí.</p>
+        <Button asChild className="mt-6">
+          <Link href={ROUTES.HOME}>Ver catálogo</Link>
+        </Button>
+      </div>
+    )
+  }
+
+  return (
+    <div className="grid gap-8 lg:grid-cols-3">
+      <ul className="space-y-4 lg:col-span-2">
+        {items.map((item, index) => {
+          const linea = breakdown?.lineas[index]
+
+          return (
+            <li key={item.id} className="rounded-lg border border-neutral-200 p-4">
+              <div className="flex items-start justify-between gap-4">
+                <div>
+                  <Link
+                    href={ROUTES.PRODUCT_DETAIL(item.altar.slug)}
+                    className="font-semibold text-neutral-900 hover:underline"
+                  >
+                    {MODEL_TYPES[item.altar.modelo_tipo].icon} {item.altar.nombre}
+                  </Link>
+                  <p className="mt-1 text-sm text-neutral-600">
+                    {item.altura.valor} × {item.anchura.valor} {item.anchura.unidad} ·{' '}
+                    {item.grosor.valor} {item.grosor.unidad} · {item.pintado ? 'Pintado' : 'Sin pintar'}
+                  </p>
+                  {item.items_extra.length > 0 && (
+                    <p className="mt-1 text-sm text-neutral-600">
+                      Extras:{' '}
+                      {item.items_extra.map((extra) => `${extra.cantidad}× ${extra.nombre}`).join(', ')}
+                    </p>
+                  )}
+                </div>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => removeItem(item.id)}
+                  aria-label={`Eliminar ${item.altar.nombre}`}
+                >
+                  <Trash2 className="size-4" />
+                </Button>
+              </div>
+
+              <div className="mt-4 flex items-center justify-between">
+                <div className="flex items-center rounded-md border border-neutral-200">
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon-sm"
+                    onClick={() => updateQuantity(item.id, item.cantidad - 1)}
+                    aria-label="Disminuir cantidad"
+                  >
+                    <Minus className="size-4" />
+                  </Button>
+                  <span className="w-8 text-center text-sm font-medium">{item.cantidad}</span>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon-sm"
+                    onClick={() => updateQuantity(item.id, item.cantidad + 1)}
+                    aria-label="Aumentar cantidad"
+                  >
+                    <Plus className="size-4" />
+                  </Button>
+                </div>
+                <span className="font-semibold text-neutral-900">
+                  {linea ? formatCurrency(linea.subtotal) : '—'}
+                </span>
+              </div>
+            </li>
+          )
+        })}
+      </ul>
+
+      <CartSummary totals={totals}>
+        <Button asChild className="w-full">
+          <Link href={ROUTES.CHECKOUT}>Continuar con el pedido</Link>
+        </Button>
+      </CartSummary>
+    </div>
+  )
+}
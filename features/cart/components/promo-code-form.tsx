@@ -0,0 +1,65 @@
+'use client'
+
+import { X } from 'lucide-react'
+import { type FormEvent, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { codigoDescuentoSchema } from '@/features/pricing/schemas/pricing.schema'
+import { useCartStore } from '../stores/cart-store'
+
+export function PromoCodeForm() {
+  const codigo = useCartStore((state) => state.codigo_descuento)
+  const setCodigoDescuento = useCartStore((state) => state.setCodigoDescuento)
+  const [value, setValue] = useState('')
+  const [error, setError] = useState<string | null>(null)
+
+  const onSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+
+    const parsed = codigoDescuentoSchema.safeParse(value)
+    if (!parsed.success) {
+      setError(parsed.error.issues[0]?.message ?? 'Código de descuento inválido')
+      return
+    }
+
+    setError(null)
+    setValue('')
+    setCodigoDescuento(parsed.data)
+  }
+
+  if (codigo) {
+    return (
+      <div className="flex items-center justify-between rounded-md border border-neutral-200 px-3 py-2">
+        <span className="font-mono font-medium text-neutral-900">{codigo}</span>
+        <Button
+          type="button"
+          variant="ghost"
+          size="icon-sm"
+          onClick={() => setCodigoDescuento(null)}
+          aria-label={`Quitar código ${codigo}`}
+        >
+          <X className="size-4" />
+        </Button>
+      </div>
+    )
+  }
+
+  return (
+    <form onSubmit={onSubmit} className="space-y-1">
+      <div className="flex gap-2">
+        <Input
+          value={value}
+          onChange={(event) => setValue(event.target.value)}
+          placeholder="Código de descuento"
+          aria-label="Código de descuento"
+          aria-invalid={error !== null}
+          autoCapitalize="characters"
+        />
+        <Button type="submit" variant="outline" disabled={value.trim() === ''}>
+          Aplicar
+        </Button>
+      </div>
+      {error && <p className="text-red-600">{error}</p>}
+    </form>
+  )
+}
@@ -0,0 +1,109 @@
+import { isDiscountRuleActive, selectDiscountRule } from '@/features/pricing/calculate-price'
+import type { AppliedDiscount, ReglaDescuento } from '@/features/pricing/schemas/pricing.schema'
+import { formatDate } from '@/lib/utils/format-date'
+
+export type PromoCodeStatus = 'aplicado' | 'no_acumulable' | 'no_valido'
+
+export interface DiscountProgress {
+  /** Next quantity tier worth reaching, with how many altars are missing */
+  siguiente: { regla: ReglaDescuento; faltantes: number; mensaje: string } | null
+  /** What happened to the promo code, when one was entered */
+  promocion: { estado: PromoCodeStatus; mensaje: string } | null
+}
+
+/**
+ * Short label for a discount line, e.g. "Descuento (10%)" or "Código MUERTOS"
+ * @param descuento - Applied discount
+ */
+export function formatDiscountLabel(descuento: AppliedDiscount): string {
+  const label = descuento.codigo ? `Código ${descuento.codigo}` : 'Descuento'
+  return descuento.porcentaje === null ? label : `${label} (${descuento.porcentaje}%)`
+}
+
+function formatVigencia(regla: ReglaDescuento): string {
+  return regla.vigente_hasta
+    ? ` (hasta el ${formatDate(regla.vigente_hasta, { day: 'numeric', month: 'long' })})`
+    : ''
+}
+
+/**
+ * Find the smallest quantity tier that beats the current one
+ */
+function findNextTier(
+  reglas: ReglaDescuento[],
+  cantidadTotal: number,
+  fecha: Date
+): ReglaDescuento | null {
+  const actual = selectDiscountRule(reglas, cantidadTotal, fecha)
+
+  return reglas
+    .filter(
+      (regla) =>
+        isDiscountRuleActive(regla, fecha) &&
+        regla.cantidad_minima > cantidadTotal &&
+        regla.porcentaje_descuento > (actual?.porcentaje_descuento ?? 0)
+    )
+    .reduce<ReglaDescuento | null>((next, regla) => {
+      if (!next || regla.cantidad_minima < next.cantidad_minima) {
+        return regla
+      }
+      if (
+        regla.cantidad_minima === next.cantidad_minima &&
+        regla.porcentaje_descuento > next.porcentaje_descuento
+      ) {
+        return regla
+      }
+      return next
+    }, null)
+}
+
+function getPromoCodeStatus(
+  codigo: string,
+  descuentos: AppliedDiscount[],
+  promoError: string | null
+): DiscountProgress['promocion'] {
+  if (promoError) {
+    return { estado: 'no_valido', mensaje: promoError }
+  }
+
+  if (descuentos.some((descuento) => descuento.origen === 'promocion')) {
+    return { estado: 'aplicado', mensaje: `Código ${codigo} aplicado` }
+  }
+
+  return {
+    estado: 'no_acumulable',
+    mensaje: `El código ${codigo} no se combina con el descuento por cantidad; aplicamos el mayor`,
+  }
+}
+
+/**
+ * Explain the cart discounts: the next tier to reach and the promo code outcome
+ * @param reglas - Discount tiers from the pricing context
+ * @param cantidadTotal - Total number of altars in the cart
+ * @param descuentos - Discounts the engine applied
+ * @param codigo - Promo code entered by the customer
+ * @param promoError - Why the engine rejected the code, if it did
+ * @param fecha - Moment the cart is priced
+ * @returns Messages to show next to the cart totals
+ */
+export function getDiscountProgress(
+  reglas: ReglaDescuento[],
+  cantidadTotal: number,
+  descuentos: AppliedDiscount[],
+  codigo: string | null,
+  promoError: string | null,
+  fecha: Date = new Date()
+): DiscountProgress {
+  const siguiente = findNextTier(reglas, cantidadTotal, fecha)
+  const faltantes = siguiente ? siguiente.cantidad_minima - cantidadTotal : 0
+  const altares = `${faltantes} ${faltantes === 1 ? 'altar' : 'altares'}`
+
+  return {
+    siguiente: siguiente && {
+      regla: siguiente,
+      faltantes,
+      mensaje: `Agrega ${altares} más para ${siguiente.porcentaje_descuento}% de descuento${formatVigencia(siguiente)}`,
+    },
+    promocion: codigo ? getPromoCodeStatus(codigo, descuentos, promoError) : null,
+  }
+}
@@ -0,0 +1,24 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useCartStore } from '../stores/cart-store'
+
+/**
+ * Rehydrate the persisted cart after mount
+ * @returns True once the cart has been read from localStorage
+ */
+export function useCartHydration(): boolean {
+  const [hydrated, setHydrated] = useState(() => useCartStore.persist.hasHydrated())
+
+  useEffect(() => {
+    const unsubscribe = useCartStore.persist.onFinishHydration(() => setHydrated(true))
+
+    if (!useCartStore.persist.hasHydrated()) {
+      useCartStore.persist.rehydrate()
+    }
+
+    return unsubscribe
+  }, [])
+
+  return hydrated
+}
@@ -0,0 +1,86 @@
+'use client'
+
+import { useMemo } from 'react'
+import { calculateOrderPrice, type PricingContext } from '@/features/pricing/calculate-price'
+import { usePricingContext } from '@/features/pricing/hooks/use-pricing-context'
+import { usePromoCode } from '@/features/pricing/hooks/use-promo-code'
+import type {
+  PriceRequest,
+  PricingErrorCode,
+} from '@/features/pricing/schemas/pricing.schema'
+import { getDiscountProgress } from '../discount-progress'
+import type { CartItem } from '../schemas/cart.schema'
+import { useCartStore } from '../stores/cart-store'
+
+const PROMO_CODE_ERRORS: PricingErrorCode[] = ['PROMO_CODE_NOT_FOUND', 'PROMO_CODE_NOT_VALID']
+
+/**
+ * Convert a cart line into a pricing engine request
+ * @param item - Cart line
+ * @returns Price request for calculatePrice
+ */
+export function toPriceRequest(item: CartItem): PriceRequest {
+  return {
+    grosor_id: item.grosor.id,
+    altura: item.altura.valor,
+    anchura: item.anchura.valor,
+    pintado: item.pintado,
+    cantidad: item.cantidad,
+    items_extra: item.items_extra.map(({ item_id, cantidad }) => ({ item_id, cantidad })),
+  }
+}
+
+/**
+ * Cart totals recomputed with the same engine the server uses
+ */
+export function useCartTotals() {
+  const items = useCartStore((state) => state.items)
+  const codigo = useCartStore((state) => state.codigo_descuento)
+  const { context: baseContext, error, isLoading } = usePricingContext()
+  const promo = usePromoCode(codigo)
+
+  const context = useMemo<PricingContext | null>(
+    () => baseContext && { ...baseContext, promocion: promo.promocion },
+    [baseContext, promo.promocion]
+  )
+
+  const pricing = useMemo(() => {
+    if (!context || items.length === 0 || promo.isLoading) {
+      return null
+    }
+
+    const requests = items.map(toPriceRequest)
+    const result = calculateOrderPrice(requests, context, { codigo })
+
+    // An unusable code is reported next to it; the cart keeps its other discounts
+    if (!result.success && PROMO_CODE_ERRORS.includes(result.error.code)) {
+      return { result: calculateOrderPrice(requests, context), promoError: result.error.message }
+    }
+
+    return { result, promoError: null }
+  }, [context, items, codigo, promo.isLoading])
+
+  const cantidadTotal = items.reduce((sum, item) => sum + item.cantidad, 0)
+  const result = pricing?.result
+  const breakdown = result?.success ? result.data : null
+
+  return {
+    items,
+    cantidadTotal,
+    codigo,
+    breakdown,
+    pricingError: result && !result.success ? result.error : null,
+    loadError: error ?? promo.error,
+    isLoading: isLoading || promo.isLoading,
+    discountProgress:
+      context && breakdown
+        ? getDiscountProgress(
+            context.reglasDescuento,
+            cantidadTotal,
+            breakdown.descuentos,
+            codigo,
+            pricing?.promoError ?? null
+          )
+        : null,
+  }
+}
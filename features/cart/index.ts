@@ -0,0 +1,39 @@
+// Components
+export { AddToCart } from './components/add-to-cart'
+export { CartButton } from './components/cart-button'
+export { CartSummary } from './components/cart-summary'
+export { CartView } from './components/cart-view'
+export { PromoCodeForm } from './components/promo-code-form'
+
+// Hooks
+export { useCartHydration } from './hooks/use-cart-hydration'
+export { toPriceRequest, useCartTotals } from './hooks/use-cart-totals'
+
+// Store
+export {
+  CART_STORAGE_KEY,
+  CART_STORAGE_VERSION,
+  migrateCart,
+  useCartStore,
+} from './stores/cart-store'
+
+// Discounts
+export {
+  formatDiscountLabel,
+  getDiscountProgress,
+  type DiscountProgress,
+  type PromoCodeStatus,
+} from './discount-progress'
+
+// Schemas
+export {
+  cartExtraSchema,
+  cartItemSchema,
+  cartOptionSchema,
+  persistedCartSchema,
+  type CartExtra,
+  type CartItem,
+  type CartItemInput,
+  type CartOption,
+  type PersistedCart,
+} from './schemas/cart.schema'
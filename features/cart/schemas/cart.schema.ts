@@ -0,0 +1,63 @@
+import { z } from 'zod'
+import { ModelTypeEnum } from '@/features/altar-catalog/schemas/altar.schema'
+
+/**
+ * Snapshot of a chosen configuration option
+ */
+export const cartOptionSchema = z.object({
+  id: z.string().uuid(),
+  valor: z.number().positive(),
+  unidad: z.string(),
+})
+
+export type CartOption = z.infer<typeof cartOptionSchema>
+
+/**
+ * Extra item added to a cart line (quantity per altar)
+ */
+export const cartExtraSchema = z.object({
+  item_id: z.string().uuid(),
+  nombre: z.string(),
+  cantidad: z.number().int().min(1),
+})
+
+export type CartExtra = z.infer<typeof cartExtraSchema>
+
+/**
+ * A configured altar in the cart
+ * Prices are not stored: they are always recomputed from the pricing rules
+ */
+export const cartItemSchema = z.object({
+  id: z.string(),
+  altar: z.object({
+    id: z.string().uuid(),
+    nombre: z.string(),
+    slug: z.string(),
+    modelo_tipo: ModelTypeEnum,
+    imagen_principal: z.string().url().nullable(),
+  }),
+  grosor: cartOptionSchema,
+  altura: cartOptionSchema,
+  anchura: cartOptionSchema,
+  pintado: z.boolean(),
+  cantidad: z.number().int().min(1).max(100),
+  items_extra: z.array(cartExtraSchema),
+})
+
+export type CartItem = z.infer<typeof cartItemSchema>
+
+/**
+ * Cart line as passed to addItem (id is assigned by the store)
+ */
+export type CartItemInput = Omit<CartItem, 'id'>
+
+/**
+ * Shape persisted to localStorage
+ */
+export const persistedCartSchema = z.object({
+  items: z.array(cartItemSchema),
+  // Added without a version bump: carts saved before it simply have no code
+  codigo_descuento: z.string().nullable().default(null),
+})
+
+export type PersistedCart = z.infer<typeof persistedCartSchema>
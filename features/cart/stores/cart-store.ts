@@ -0,0 +1,141 @@
+'use client'
+
+import { create } from 'zustand'
+import { createJSONStorage, persist } from 'zustand/middleware'
+import {
+  type CartItem,
+  type CartItemInput,
+  type PersistedCart,
+  persistedCartSchema,
+} from '../schemas/cart.schema'
+
+/**
+ * Bump when the persisted shape changes and add a migration below
+ */
+export const CART_STORAGE_VERSION = 1
+export const CART_STORAGE_KEY = 'mayand-cart'
+
+/**
+ * Migrations from older persisted versions, keyed by the version they upgrade from
+ * A version without a migration is discarded
+ */
+const CART_MIGRATIONS: Record<number, (state: unknown) => unknown> = {}
+
+const EMPTY_CART: PersistedCart = { items: [], codigo_descuento: null }
+
+interface CartState {
+  items: CartItem[]
+  /** Coupon code entered by the customer, validated when the cart is priced */
+  codigo_descuento: string | null
+  addItem: (item: CartItemInput) => void
+  updateQuantity: (id: string, cantidad: number) => void
+  removeItem: (id: string) => void
+  setCodigoDescuento: (codigo: string | null) => void
+  clear: () => void
+}
+
+/**
+ * Validate persisted data, falling back to an empty cart
+ * @param state - Raw persisted state
+ * @returns Valid persisted cart
+ */
+function toPersistedCart(state: unknown): PersistedCart {
+  const parsed = persistedCartSchema.safeParse(state)
+  return parsed.success ? parsed.data : EMPTY_CART
+}
+
+/**
+ * Run migrations from a persisted version up to the current one
+ * @param state - Persisted state
+ * @param version - Version the state was written with
+ * @returns Migrated cart, or an empty cart when it cannot be migrated safely
+ */
+export function migrateCart(state: unknown, version: number): PersistedCart {
+  let current = state
+
+  for (let from = version; from < CART_STORAGE_VERSION; from++) {
+    const migration = CART_MIGRATIONS[from]
+    if (!migration) {
+      return EMPTY_CART
+    }
+    current = migration(current)
+  }
+
+  return toPersistedCart(current)
+}
+
+/**
+ * Two lines are the same product when every configuration choice matches
+ */
+function isSameConfiguration(a: CartItemInput, b: CartItemInput): boolean {
+  const extrasKey = (item: CartItemInput) =>
+    item.items_extra
+      .map((extra) => `${extra.item_id}:${extra.cantidad}`)
+      .sort()
+      .join(',')
+
+  return (
+    a.altar.id === b.altar.id &&
+    a.grosor.id === b.grosor.id &&
+    a.altura.id === b.altura.id &&
+    a.anchura.id === b.anchura.id &&
+    a.pintado === b.pintado &&
+    extrasKey(a) === extrasKey(b)
+  )
+}
+
+export const useCartStore = create<CartState>()(
+  persist(
+    (set) => ({
+      items: [],
+      codigo_descuento: null,
+
+      addItem: (input) =>
+        set((state) => {
+          const existing = state.items.find((item) => isSameConfiguration(item, input))
+
+          if (existing) {
+            return {
+              items: state.items.map((item) =>
+                item.id === existing.id
+                  ? { ...item, cantidad: Math.min(item.cantidad + input.cantidad, 100) }
+                  : item
+              ),
+            }
+          }
+
+          return { items: [...state.items, { ...input, id: crypto.randomUUID() }] }
+        }),
+
+      updateQuantity: (id, cantidad) =>
+        set((state) => ({
+          items:
+            cantidad < 1
+              ? state.items.filter((item) => item.id !== id)
+              : state.items.map((item) =>
+                  item.id === id ? { ...item, cantidad: Math.min(cantidad, 100) } : item
+                ),
+        })),
+
+      removeItem: (id) =>
+        set((state) => ({ items: state.items.filter((item) => item.id !== id) })),
+
+      setCodigoDescuento: (codigo) => set({ codigo_descuento: codigo }),
+
+      clear: () => set(EMPTY_CART),
+    }),
+    {
+      name: CART_STORAGE_KEY,
+      version: CART_STORAGE_VERSION,
+      storage: createJSONStorage(() => localStorage),
+      partialize: (state): PersistedCart => ({
+        items: state.items,
+        codigo_descuento: state.codigo_descuento,
+      }),
+      migrate: (state, version) => migrateCart(state, version) as CartState,
+      merge: (persisted, current) => ({ ...current, ...toPersistedCart(persisted) }),
+      // Hydrated from CartHydration so server and first client render match
+      skipHydration: true,
+    }
+  )
+)
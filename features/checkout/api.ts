@@ -0,0 +1,249 @@
+import { getAltaresByIds } from '@/features/altar-catalog/api'
+import type { Altar } from '@/features/altar-catalog/schemas/altar.schema'
+import { getConfiguraciones } from '@/features/altar-configurator/api'
+import type { Configuracion } from '@/features/altar-configurator/schemas/configuracion.schema'
+import { getPricingContext } from '@/features/pricing/api'
+import { calculateOrderPrice, type PricingError } from '@/features/pricing/calculate-price'
+import type { PriceRequest } from '@/features/pricing/schemas/pricing.schema'
+import { addErrorContext } from '@/lib/error-reporting/context'
+import { createClient } from '@/lib/supabase/server'
+import { logError } from '@/lib/utils/error-handler'
+import {
+  type CheckoutItem,
+  type CheckoutRequest,
+  type CheckoutResponse,
+  checkoutResponseSchema,
+} from './schemas/checkout.schema'
+import {
+  PEDIDO_ITEM_VERSION,
+  type PedidoItem,
+  pedidoItemsWriteSchema,
+} from './schemas/pedido-items.schema'
+
+type CheckoutErrorCode = 'ALTAR_NOT_AVAILABLE' | 'CONFIG_NOT_AVAILABLE' | 'PROMO_CODE_NOT_VALID'
+
+// HINTs raised by validar_codigo_promocion_pedido when a code runs out between
+// pricing and insert
+const PROMO_CODE_HINT_MESSAGES: Record<string, string> = {
+  PROMO_CODE_NOT_ACTIVE: 'El código de descuento ya no está vigente',
+  PROMO_CODE_MINIMUM: 'Tu pedido no alcanza la compra mínima del código de descuento',
+  PROMO_CODE_EXHAUSTED: 'El código de descuento se acaba de agotar',
+  PROMO_CODE_PHONE_LIMIT: 'Ya usaste este código de descuento las veces permitidas con este teléfono',
+}
+
+/**
+ * Checkout error, shaped like AppError for createErrorResponse
+ */
+export type CheckoutError = {
+  message: string
+  code: CheckoutErrorCode
+  statusCode: number
+}
+
+export type CheckoutResult =
+  | { success: true; data: CheckoutResponse }
+  | { success: false; error: CheckoutError | PricingError }
+
+interface ResolvedLine {
+  altar: Altar
+  grosor: Configuracion
+  altura: Configuracion
+  anchura: Configuracion
+  item: CheckoutItem
+}
+
+function checkoutError(code: CheckoutErrorCode, message: string): CheckoutResult {
+  return { success: false, error: { message, code, statusCode: 422 } }
+}
+
+/**
+ * Find the pedido already created with a checkout key
+ * @param clave - Idempotency key sent by the checkout client
+ * @returns The pedido as it was returned when created, or null if the key is unused
+ */
+async function findPedidoByClave(clave: string): Promise<CheckoutResponse | null> {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase.rpc('buscar_pedido_por_clave', { p_clave: clave })
+
+  if (error) {
+    logError(error, { source: 'findPedidoByClave' })
+    throw new Error('Failed to look up pedido')
+  }
+
+  const row = Array.isArray(data) ? data[0] : null
+  if (!row) {
+    return null
+  }
+
+  return checkoutResponseSchema.parse({
+    id: row.id,
+    numero_pedido: row.numero_pedido,
+    breakdown: row.desglose,
+  })
+}
+
+/**
+ * Create a pedido from the checkout request
+ * Prices are recalculated from the database; client totals are never used.
+ * Configuration ids are resolved to their current values server-side.
+ * A request whose idempotency key was already used returns that pedido instead
+ * of creating a new one.
+ * @param request - Validated checkout request
+ * @returns Created order number and its price breakdown, or a typed error
+ */
+export async function createPedido(request: CheckoutRequest): Promise<CheckoutResult> {
+  // Checked before pricing: the first request may have used up the promo code
+  if (request.clave_idempotencia) {
+    const existing = await findPedidoByClave(request.clave_idempotencia)
+    if (existing) {
+      return { success: true, data: existing }
+    }
+  }
+
+  const altarIds = Array.from(new Set(request.items.map((item) => item.altar_id)))
+  const extraIds = Array.from(
+    new Set(request.items.flatMap((item) => item.items_extra.map((extra) => extra.item_id)))
+  )
+
+  const [altares, configuraciones, context] = await Promise.all([
+    getAltaresByIds(altarIds),
+    getConfiguraciones(),
+    getPricingContext(undefined, extraIds, {
+      codigo: request.codigo_descuento,
+      telefono: request.cliente_telefono,
+    }),
+  ])
+
+  const findOption = (tipo: keyof typeof configuraciones, id: string) =>
+    configuraciones[tipo].find((option) => option.id === id)
+
+  const lines: ResolvedLine[] = []
+  const priceRequests: PriceRequest[] = []
+
+  for (const item of request.items) {
+    const altar = altares.find((candidate) => candidate.id === item.altar_id)
+    const grosor = findOption('grosor', item.grosor_id)
+    const altura = findOption('altura', item.altura_id)
+    const anchura = findOption('anchura', item.anchura_id)
+
+    if (!altar) {
+      return checkoutError('ALTAR_NOT_AVAILABLE', 'Uno de los altares de tu carrito ya no está disponible')
+    }
+    if (!grosor || !altura || !anchura) {
+      return checkoutError(
+        'CONFIG_NOT_AVAILABLE',
+        `Una de las medidas elegidas para ${altar.nombre} ya no está disponible`
+      )
+    }
+
+    lines.push({ altar, grosor, altura, anchura, item })
+    priceRequests.push({
+      grosor_id: grosor.id,
+      altura: altura.valor,
+      anchura: anchura.valor,
+      pintado: item.pintado,
+      cantidad: item.cantidad,
+      items_extra: item.items_extra,
+    })
+  }
+
+  const pricing = calculateOrderPrice(priceRequests, context, {
+    codigo: request.codigo_descuento,
+  })
+  if (!pricing.success) {
+    return pricing
+  }
+
+  const breakdown = pricing.data
+  const promocion = breakdown.descuentos.find((descuento) => descuento.origen === 'promocion')
+  const items = lines.map(
+    ({ altar, grosor, altura, anchura, item }, index): PedidoItem => ({
+      version: PEDIDO_ITEM_VERSION,
+      altar_id: altar.id,
+      nombre: altar.nombre,
+      modelo_tipo: altar.modelo_tipo,
+      grosor: { id: grosor.id, valor: grosor.valor, unidad: grosor.unidad },
+      altura: { id: altura.id, valor: altura.valor, unidad: altura.unidad },
+      anchura: { id: anchura.id, valor: anchura.valor, unidad: anchura.unidad },
+      pintado: item.pintado,
+      cantidad: item.cantidad,
+      precio_unitario: breakdown.lineas[index].precio_unitario,
+      subtotal: breakdown.lineas[index].subtotal,
+      items_extra: breakdown.lineas[index].extras,
+    })
+  )
+
+  const supabase = await createClient()
+
+  // The public can insert pedidos but not read them back, so the id and
+  // order number are generated before the insert
+  const { data: numeroPedido, error: numeroError } = await supabase.rpc('generate_numero_pedido')
+
+  if (numeroError || typeof numeroPedido !== 'string') {
+    logError(numeroError, { source: 'createPedido' })
+    throw new Error('Failed to generate order number')
+  }
+
+  addErrorContext({ numeroPedido })
+
+  const id = crypto.randomUUID()
+
+  const { error } = await supabase.from('pedidos').insert({
+    id,
+    numero_pedido: numeroPedido,
+    cliente_nombre: request.cliente_nombre,
+    cliente_telefono: request.cliente_telefono,
+    cliente_email: request.cliente_email || null,
+    items: pedidoItemsWriteSchema.parse(items),
+    subtotal: breakdown.subtotal,
+    descuento: breakdown.descuento_total,
+    total: breakdown.total,
+    // The code is only recorded when it actually discounted the order
+    codigo_promocion_id: promocion?.id ?? null,
+    descuento_promocion: promocion?.monto ?? 0,
+    notas: request.notas || null,
+    clave_idempotencia: request.clave_idempotencia ?? null,
+    desglose: breakdown,
+  })
+
+  // A resend raced the first request with the same key: the insert fails on the
+  // unique key, or on the promo code the first one just used up
+  if (error && request.clave_idempotencia) {
+    const existing = await findPedidoByClave(request.clave_idempotencia)
+    if (existing) {
+      return { success: true, data: existing }
+    }
+  }
+
+  if (error?.code === '23514' && error.hint && PROMO_CODE_HINT_MESSAGES[error.hint]) {
+    return checkoutError('PROMO_CODE_NOT_VALID', PROMO_CODE_HINT_MESSAGES[error.hint])
+  }
+
+  if (error) {
+    logError(error, { source: 'createPedido' })
+    throw error
+  }
+
+  return { success: true, data: { id, numero_pedido: numeroPedido, breakdown } }
+}
+
+/**
+ * Mark a pedido as sent by WhatsApp
+ * @param id - Pedido UUID
+ * @returns True if the pedido was updated, false if it was already marked or not found
+ */
+export async function markPedidoWhatsAppSent(id: string): Promise<boolean> {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase.rpc('marcar_pedido_whatsapp_enviado', {
+    p_pedido_id: id,
+  })
+
+  if (error) {
+    logError(error, { source: 'markPedidoWhatsAppSent', pedidoId: id })
+    throw new Error('Failed to update pedido')
+  }
+
+  return data === true
+}
@@ -0,0 +1,253 @@
+'use client'
+
+import { zodResolver } from '@hookform/resolvers/zod'
+import Link from 'next/link'
+import { useState } from 'react'
+import { useForm } from 'react-hook-form'
+import { Button } from '@/components/ui/button'
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form'
+import { Input } from '@/components/ui/input'
+import { Textarea } from '@/components/ui/textarea'
+import { useCartHydration } from '@/features/cart/hooks/use-cart-hydration'
+import type { CartItem } from '@/features/cart/schemas/cart.schema'
+import { useCartStore } from '@/features/cart/stores/cart-store'
+import { ROUTES } from '@/lib/constants/routes'
+import { getUserFriendlyMessage } from '@/lib/utils/error-handler'
+import {
+  type CheckoutForm as CheckoutFormValues,
+  type CheckoutRequest,
+  type CheckoutResponse,
+  checkoutFormSchema,
+} from '../schemas/checkout.schema'
+import { useCheckoutQueueStore } from '../stores/checkout-queue-store'
+import {
+  buildCheckoutWhatsAppUrl,
+  isNetworkError,
+  markWhatsAppSent,
+  submitCheckout,
+} from '../submit-checkout'
+
+interface CreatedOrder {
+  pedido: CheckoutResponse
+  whatsappUrl: string
+}
+
+function toCheckoutItems(items: CartItem[]): CheckoutRequest['items'] {
+  return items.map((item) => ({
+    altar_id: item.altar.id,
+    grosor_id: item.grosor.id,
+    altura_id: item.altura.id,
+    anchura_id: item.anchura.id,
+    pintado: item.pintado,
+    cantidad: item.cantidad,
+    items_extra: item.items_extra.map(({ item_id, cantidad }) => ({ item_id, cantidad })),
+  }))
+}
+
+export function CheckoutForm() {
+  const hydrated = useCartHydration()
+  const items = useCartStore((state) => state.items)
+  const codigoDescuento = useCartStore((state) => state.codigo_descuento)
+  const clearCart = useCartStore((state) => state.clear)
+  const enqueueCheckout = useCheckoutQueueStore((state) => state.enqueue)
+  const [submitError, setSubmitError] = useState<string | null>(null)
+  const [created, setCreated] = useState<CreatedOrder | null>(null)
+  const [queued, setQueued] = useState(false)
+  // Sent with every attempt (and with the queued copy) so a resend after a lost
+  // response gets the same pedido back instead of a duplicate
+  const [claveIdempotencia] = useState(() => crypto.randomUUID())
+
+  const form = useForm<CheckoutFormValues>({
+    resolver: zodResolver(checkoutFormSchema),
+    defaultValues: {
+      cliente_nombre: '',
+      cliente_telefono: '',
+      cliente_email: '',
+      notas: '',
+    },
+  })
+
+  const onSubmit = async (values: CheckoutFormValues) => {
+    setSubmitError(null)
+
+    const request: CheckoutRequest = {
+      ...values,
+      items: toCheckoutItems(items),
+      codigo_descuento: codigoDescuento ?? undefined,
+      clave_idempotencia: claveIdempotencia,
+    }
+
+    // Offline, the order waits in the queue and CheckoutQueueSync sends it later
+    const queueCheckout = () => {
+      enqueueCheckout(request, items)
+      clearCart()
+      setQueued(true)
+    }
+
+    if (!navigator.onLine) {
+      queueCheckout()
+      return
+    }
+
+    try {
+      const result = await submitCheckout(request)
+
+      if (!result.success) {
+        setSubmitError(result.error)
+        // Validation errors come keyed by field; those of the cart lines have no input
+        for (const [field, message] of Object.entries(result.fields)) {
+          if (field in values) {
+            form.setError(field as keyof CheckoutFormValues, { message })
+          }
+        }
+        return
+      }
+
+      const { pedido } = result
+      const whatsappUrl = buildCheckoutWhatsAppUrl(request, items, pedido)
+
+      setCreated({ pedido, whatsappUrl })
+      clearCart()
+
+      // May be blocked as a popup; the confirmation keeps a manual link
+      const whatsappWindow = window.open(whatsappUrl, '_blank')
+      if (whatsappWindow) {
+        whatsappWindow.opener = null
+        await markWhatsAppSent(pedido.id)
+      }
+    } catch (error) {
+      if (isNetworkError(error)) {
+        queueCheckout()
+        return
+      }
+      setSubmitError(getUserFriendlyMessage(error))
+    }
+  }
+
+  if (queued) {
+    return (
+      <div className="rounded-lg border border-amber-200 bg-amber-50 p-6 text-center">
+        <h2 className="text-xl font-semibold text-amber-900">Pedido guardado</h2>
+        <p className="mt-2 text-amber-800">
+          No hay conexión en este momento. Enviaremos tu pedido en cuanto vuelvas a estar en línea.
+        </p>
+        <p className="mt-1 text-sm text-amber-800">
+          Te avisaremos con tu número de pedido para que lo confirmes por WhatsApp.
+        </p>
+      </div>
+    )
+  }
+
+  if (created) {
+    return (
+      <div className="rounded-lg border border-green-200 bg-green-50 p-6 text-center">
+        <h2 className="text-xl font-semibold text-green-900">¡Pedido registrado!</h2>
+        <p className="mt-2 text-green-800">
+          Tu número de pedido es <strong>{created.pedido.numero_pedido}</strong>.
+        </p>
+        <p className="mt-1 text-sm text-green-800">
+          Envíanos el mensaje por WhatsApp para confirmar tu pedido.
+        </p>
+        <Button asChild className="mt-6">
+          <a
+            href={created.whatsappUrl}
+            target="_blank"
+            rel="noopener noreferrer"
+            onClick={() => markWhatsAppSent(created.pedido.id)}
+          >
+            Abrir WhatsApp
+          </a>
+        </Button>
+      </div>
+    )
+  }
+
+  if (hydrated && items.length === 0) {
+    return (
+      <div className="text-center">
+        <p className="text-neutral-600">Tu carrito está vacío.</p>
+        <Button asChild className="mt-4">
+          <Link href={ROUTES.HOME}>Ver catálogo</Link>
+        </Button>
+      </div>
+    )
+  }
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="cliente_nombre"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Nombre</FormLabel>
+              <FormControl>
+                <Input autoComplete="name" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="cliente_telefono"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Teléfono (WhatsApp)</FormLabel>
+              <FormControl>
+                <Input type="tel" autoComplete="tel" inputMode="tel" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="cliente_email"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Email (opcional)</FormLabel>
+              <FormControl>
+                <Input type="email" autoComplete="email" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="notas"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Notas (opcional)</FormLabel>
+              <FormControl>
+                <Textarea rows={4} placeholder="Nombre a grabar, fecha de entrega, etc." {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        {submitError && (
+          <p className="rounded-md bg-red-50 p-3 text-sm text-red-700">{submitError}</p>
+        )}
+
+        <Button
+          type="submit"
+          className="w-full"
+          disabled={!hydrated || form.formState.isSubmitting}
+        >
+          {form.formState.isSubmitting ? 'Registrando pedido…' : 'Enviar pedido por WhatsApp'}
+        </Button>
+      </form>
+    </Form>
+  )
+}
@@ -0,0 +1,134 @@
+'use client'
+
+import { useRouter } from 'next/navigation'
+import { useEffect, useRef } from 'react'
+import { toast } from 'sonner'
+import { useCartStore } from '@/features/cart/stores/cart-store'
+import { ROUTES } from '@/lib/constants/routes'
+import { logError } from '@/lib/utils/error-handler'
+import type { QueuedCheckout } from '../schemas/checkout.schema'
+import { useCheckoutQueueStore } from '../stores/checkout-queue-store'
+import {
+  buildCheckoutWhatsAppUrl,
+  isNetworkError,
+  markWhatsAppSent,
+  submitCheckout,
+} from '../submit-checkout'
+
+/**
+ * Put the lines of a rejected checkout back in the cart, so the customer can fix it
+ */
+async function restoreCart(entry: QueuedCheckout): Promise<void> {
+  // Rehydrating later would overwrite lines added to an unhydrated cart
+  if (!useCartStore.persist.hasHydrated()) {
+    await useCartStore.persist.rehydrate()
+  }
+
+  const { addItem } = useCartStore.getState()
+  for (const { id: _id, ...item } of entry.items) {
+    addItem(item)
+  }
+}
+
+/**
+ * Send one queued checkout
+ * @returns False when it could not reach the server, to retry the queue later
+ */
+async function sendQueuedCheckout(
+  entry: QueuedCheckout,
+  onRejected: () => void
+): Promise<boolean> {
+  const { remove } = useCheckoutQueueStore.getState()
+
+  let result: Awaited<ReturnType<typeof submitCheckout>>
+  try {
+    result = await submitCheckout(entry.request)
+  } catch (error) {
+    if (!isNetworkError(error)) {
+      logError(error, { source: 'sendQueuedCheckout', queuedCheckoutId: entry.id })
+    }
+    return false
+  }
+
+  if (result.success) {
+    remove(entry.id)
+    const { pedido } = result
+    const whatsappUrl = buildCheckoutWhatsAppUrl(entry.request, entry.items, pedido)
+
+    // Opening WhatsApp needs a user gesture, so it waits for the toast action
+    toast.success(`Pedido ${pedido.numero_pedido} registrado`, {
+      description: 'Envíanos el mensaje por WhatsApp para confirmar tu pedido.',
+      duration: Number.POSITIVE_INFINITY,
+      action: {
+        label: 'Abrir WhatsApp',
+        onClick: () => {
+          const whatsappWindow = window.open(whatsappUrl, '_blank')
+          if (whatsappWindow) {
+            whatsappWindow.opener = null
+          }
+          void markWhatsAppSent(pedido.id)
+        },
+      },
+    })
+    return true
+  }
+
+  // Server errors may be temporary; keep the order queued
+  if (result.status >= 500) {
+    return false
+  }
+
+  remove(entry.id)
+  await restoreCart(entry)
+  toast.error(result.error, {
+    description: 'No pudimos registrar tu pedido guardado. Regresamos los altares a tu carrito.',
+    action: { label: 'Ver carrito', onClick: onRejected },
+  })
+  return true
+}
+
+/**
+ * Sends the checkouts queued while offline when the connection comes back
+ * Mounted once in the root layout.
+ */
+export function CheckoutQueueSync() {
+  const router = useRouter()
+  const flushing = useRef(false)
+
+  useEffect(() => {
+    const flush = async () => {
+      if (flushing.current || !navigator.onLine) {
+        return
+      }
+
+      flushing.current = true
+      try {
+        // In order: stop at the first one that cannot reach the server
+        for (const entry of useCheckoutQueueStore.getState().entries) {
+          const sent = await sendQueuedCheckout(entry, () => router.push(ROUTES.CART))
+          if (!sent) {
+            break
+          }
+        }
+      } finally {
+        flushing.current = false
+      }
+    }
+
+    const unsubscribe = useCheckoutQueueStore.persist.onFinishHydration(() => void flush())
+
+    if (useCheckoutQueueStore.persist.hasHydrated()) {
+      void flush()
+    } else {
+      void useCheckoutQueueStore.persist.rehydrate()
+    }
+
+    window.addEventListener('online', flush)
+    return () => {
+      unsubscribe()
+      window.removeEventListener('online', flush)
+    }
+  }, [router])
+
+  return null
+}
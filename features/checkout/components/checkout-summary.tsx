@@ -0,0 +1,27 @@
+'use client'
+
+import { CartSummary } from '@/features/cart/components/cart-summary'
+import { useCartHydration } from '@/features/cart/hooks/use-cart-hydration'
+import { useCartTotals } from '@/features/cart/hooks/use-cart-totals'
+
+export function CheckoutSummary() {
+  const hydrated = useCartHydration()
+  const totals = useCartTotals()
+
+  if (!hydrated || totals.items.length === 0) {
+    return null
+  }
+
+  return (
+    <CartSummary totals={totals}>
+      <ul className="space-y-1 text-neutral-600">
+        {totals.items.map((item) => (
+          <li key={item.id}>
+            {item.cantidad}× {item.altar.nombre} ({item.altura.valor} × {item.anchura.valor}{' '}
+            {item.anchura.unidad})
+          </li>
+        ))}
+      </ul>
+    </CartSummary>
+  )
+}
@@ -0,0 +1,52 @@
+// Components
+export { CheckoutForm } from './components/checkout-form'
+export { CheckoutQueueSync } from './components/checkout-queue-sync'
+export { CheckoutSummary } from './components/checkout-summary'
+
+// API
+export {
+  createPedido,
+  markPedidoWhatsAppSent,
+  type CheckoutError,
+  type CheckoutResult,
+} from './api'
+export {
+  buildCheckoutWhatsAppUrl,
+  isNetworkError,
+  markWhatsAppSent,
+  submitCheckout,
+  type SubmitCheckoutResult,
+} from './submit-checkout'
+
+// Store
+export {
+  CHECKOUT_QUEUE_STORAGE_KEY,
+  useCheckoutQueueStore,
+} from './stores/checkout-queue-store'
+
+// Schemas
+export {
+  checkoutFormSchema,
+  checkoutItemSchema,
+  checkoutRequestSchema,
+  checkoutResponseSchema,
+  queuedCheckoutSchema,
+  type CheckoutForm as CheckoutFormValues,
+  type CheckoutItem,
+  type CheckoutRequest,
+  type CheckoutResponse,
+  type QueuedCheckout,
+} from './schemas/checkout.schema'
+export {
+  PEDIDO_ITEM_VERSION,
+  pedidoItemOptionSchema,
+  pedidoItemSchema,
+  pedidoItemsSchema,
+  pedidoItemsWriteSchema,
+  pedidoItemV1Schema,
+  storedPedidoItemSchema,
+  upgradePedidoItem,
+  type PedidoItem,
+  type PedidoItemOption,
+  type StoredPedidoItem,
+} from './schemas/pedido-items.schema'
@@ -0,0 +1,82 @@
+import { z } from 'zod'
+import { cartItemSchema } from '@/features/cart/schemas/cart.schema'
+import {
+  codigoDescuentoSchema,
+  extraSelectionSchema,
+  orderPriceBreakdownSchema,
+} from '@/features/pricing/schemas/pricing.schema'
+
+/**
+ * Customer data collected in the checkout form
+ */
+export const checkoutFormSchema = z.object({
+  cliente_nombre: z
+    .string()
+    .trim()
+    .min(2, 'Escribe tu nombre')
+    .max(255, 'El nombre es demasiado largo'),
+  cliente_telefono: z
+    .string()
+    .trim()
+    .regex(/^\+?[0-9\s()-]+$/, 'Escribe solo números')
+    .refine((value) => value.replace(/\D/g, '').length >= 10, 'El teléfono debe tener al menos 10 dígitos')
+    .refine((value) => value.length <= 20, 'El teléfono es demasiado largo'),
+  cliente_email: z
+    .union([z.literal(''), z.string().trim().email('Email inválido').max(255)])
+    .optional(),
+  notas: z.string().trim().max(1000, 'Las notas son demasiado largas').optional(),
+})
+
+export type CheckoutForm = z.infer<typeof checkoutFormSchema>
+
+/**
+ * Order line sent by the client: only ids and choices, never prices
+ */
+export const checkoutItemSchema = z.object({
+  altar_id: z.string().uuid(),
+  grosor_id: z.string().uuid(),
+  altura_id: z.string().uuid(),
+  anchura_id: z.string().uuid(),
+  pintado: z.boolean(),
+  cantidad: z.number().int().min(1).max(100),
+  items_extra: z.array(extraSelectionSchema).default([]),
+})
+
+export type CheckoutItem = z.infer<typeof checkoutItemSchema>
+
+/**
+ * Request body for POST /api/pedidos
+ */
+export const checkoutRequestSchema = checkoutFormSchema.extend({
+  items: z.array(checkoutItemSchema).min(1, 'El carrito está vacío').max(50),
+  codigo_descuento: codigoDescuentoSchema.optional(),
+  // Generated once per checkout by the client; a resend with the same key returns the
+  // pedido already created. Optional for checkouts queued before the key existed.
+  clave_idempotencia: z.string().uuid().optional(),
+})
+
+export type CheckoutRequest = z.infer<typeof checkoutRequestSchema>
+
+/**
+ * Response of POST /api/pedidos
+ */
+export const checkoutResponseSchema = z.object({
+  id: z.string().uuid(),
+  numero_pedido: z.string(),
+  breakdown: orderPriceBreakdownSchema,
+})
+
+export type CheckoutResponse = z.infer<typeof checkoutResponseSchema>
+
+/**
+ * Checkout submitted while offline, kept until it reaches the server
+ * The cart lines are kept for the WhatsApp message and to restore the cart if it is rejected.
+ */
+export const queuedCheckoutSchema = z.object({
+  id: z.string(),
+  request: checkoutRequestSchema,
+  items: z.array(cartItemSchema).min(1),
+  queued_at: z.string().datetime(),
+})
+
+export type QueuedCheckout = z.infer<typeof queuedCheckoutSchema>
@@ -0,0 +1,88 @@
+import { z } from 'zod'
+import { ModelTypeEnum } from '@/features/altar-catalog/schemas/altar.schema'
+import { extraLineSchema } from '@/features/pricing/schemas/pricing.schema'
+
+/**
+ * Version written by createPedido; bump it together with a new schema below
+ * and an upgrade step in upgradePedidoItem
+ */
+export const PEDIDO_ITEM_VERSION = 1
+
+/**
+ * Configuration snapshot: id plus the value shown to the customer
+ */
+export const pedidoItemOptionSchema = z.object({
+  id: z.string().uuid(),
+  valor: z.number(),
+  unidad: z.string(),
+})
+
+export type PedidoItemOption = z.infer<typeof pedidoItemOptionSchema>
+
+/**
+ * Order line, version 1
+ * Everything the customer saw is copied so the line stays readable after
+ * the altar, its configurations or the prices change
+ */
+export const pedidoItemV1Schema = z.object({
+  version: z.literal(1),
+  altar_id: z.string().uuid(),
+  nombre: z.string(),
+  modelo_tipo: ModelTypeEnum,
+  grosor: pedidoItemOptionSchema,
+  altura: pedidoItemOptionSchema,
+  anchura: pedidoItemOptionSchema,
+  pintado: z.boolean(),
+  cantidad: z.number().int().min(1),
+  precio_unitario: z.number(),
+  subtotal: z.number(),
+  items_extra: z.array(extraLineSchema),
+})
+
+/**
+ * Any order line ever stored in pedidos.items
+ */
+export const storedPedidoItemSchema = z.discriminatedUnion('version', [pedidoItemV1Schema])
+
+export type StoredPedidoItem = z.infer<typeof storedPedidoItemSchema>
+
+/**
+ * Order line in the current version
+ */
+export const pedidoItemSchema = pedidoItemV1Schema
+
+export type PedidoItem = z.infer<typeof pedidoItemSchema>
+
+/**
+ * Lines stored before versioning have no version key; they are version 1
+ */
+function withDefaultVersion(value: unknown): unknown {
+  if (value && typeof value === 'object' && !('version' in value)) {
+    return { ...value, version: 1 }
+  }
+  return value
+}
+
+/**
+ * Convert a stored line of any version to the current version
+ * @param item - Parsed stored line
+ */
+export function upgradePedidoItem(item: StoredPedidoItem): PedidoItem {
+  switch (item.version) {
+    case 1:
+      return item
+  }
+}
+
+/**
+ * Schema for reading pedidos.items: accepts every stored version and
+ * returns current-version lines
+ */
+export const pedidoItemsSchema = z
+  .array(z.preprocess(withDefaultVersion, storedPedidoItemSchema))
+  .transform((items) => items.map(upgradePedidoItem))
+
+/**
+ * Schema for writing pedidos.items: only the current version
+ */
+export const pedidoItemsWriteSchema = z.array(pedidoItemSchema).min(1)
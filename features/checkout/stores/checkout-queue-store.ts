@@ -0,0 +1,60 @@
+'use client'
+
+import { z } from 'zod'
+import { create } from 'zustand'
+import { createJSONStorage, persist } from 'zustand/middleware'
+import type { CartItem } from '@/features/cart/schemas/cart.schema'
+import {
+  type CheckoutRequest,
+  type QueuedCheckout,
+  queuedCheckoutSchema,
+} from '../schemas/checkout.schema'
+
+export const CHECKOUT_QUEUE_STORAGE_KEY = 'mayand-checkout-queue'
+
+const persistedQueueSchema = z.object({ entries: z.array(queuedCheckoutSchema) })
+
+interface CheckoutQueueState {
+  entries: QueuedCheckout[]
+  enqueue: (request: CheckoutRequest, items: CartItem[]) => void
+  remove: (id: string) => void
+}
+
+/**
+ * Validate persisted data, dropping the queue when it cannot be read
+ * @param state - Raw persisted state
+ * @returns Queued checkouts
+ */
+function toQueuedCheckouts(state: unknown): QueuedCheckout[] {
+  const parsed = persistedQueueSchema.safeParse(state)
+  return parsed.success ? parsed.data.entries : []
+}
+
+/**
+ * Checkouts waiting for connectivity, sent by CheckoutQueueSync
+ */
+export const useCheckoutQueueStore = create<CheckoutQueueState>()(
+  persist(
+    (set) => ({
+      entries: [],
+
+      enqueue: (request, items) =>
+        set((state) => ({
+          entries: [
+            ...state.entries,
+            { id: crypto.randomUUID(), request, items, queued_at: new Date().toISOString() },
+          ],
+        })),
+
+      remove: (id) => set((state) => ({ entries: state.entries.filter((entry) => entry.id !== id) })),
+    }),
+    {
+      name: CHECKOUT_QUEUE_STORAGE_KEY,
+      storage: createJSONStorage(() => localStorage),
+      partialize: (state) => ({ entries: state.entries }),
+      merge: (persisted, current) => ({ ...current, entries: toQueuedCheckouts(persisted) }),
+      // Rehydrated by CheckoutQueueSync after mount
+      skipHydration: true,
+    }
+  )
+)
@@ -0,0 +1,79 @@
+import type { CartItem } from '@/features/cart/schemas/cart.schema'
+import { buildOrderWhatsAppUrl } from '@/features/whatsapp-order/build-order-message'
+import { ROUTES } from '@/lib/constants/routes'
+import { logError } from '@/lib/utils/error-handler'
+import {
+  type CheckoutRequest,
+  type CheckoutResponse,
+  checkoutResponseSchema,
+} from './schemas/checkout.schema'
+
+export type SubmitCheckoutResult =
+  | { success: true; pedido: CheckoutResponse }
+  | { success: false; status: number; error: string; fields: Record<string, string> }
+
+/**
+ * Send a checkout to POST /api/pedidos
+ * Throws a TypeError when the request does not reach the server (see isNetworkError).
+ * @param request - Checkout request body
+ * @returns Created order, or the error returned by the server
+ */
+export async function submitCheckout(request: CheckoutRequest): Promise<SubmitCheckoutResult> {
+  const response = await fetch(ROUTES.API_PEDIDOS, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(request),
+  })
+  const body = await response.json()
+
+  if (!response.ok) {
+    return {
+      success: false,
+      status: response.status,
+      error: body?.error?.message ?? 'No pudimos registrar tu pedido',
+      fields: body?.error?.fields ?? {},
+    }
+  }
+
+  return { success: true, pedido: checkoutResponseSchema.parse(body) }
+}
+
+/**
+ * Whether fetch failed before getting a response (offline, DNS, dropped connection)
+ */
+export function isNetworkError(error: unknown): boolean {
+  return error instanceof TypeError
+}
+
+/**
+ * WhatsApp link for a created order
+ * Message totals come from the server response, not the local cart.
+ */
+export function buildCheckoutWhatsAppUrl(
+  request: CheckoutRequest,
+  items: CartItem[],
+  pedido: CheckoutResponse
+): string {
+  return buildOrderWhatsAppUrl({
+    numeroPedido: pedido.numero_pedido,
+    cliente: {
+      nombre: request.cliente_nombre,
+      telefono: request.cliente_telefono,
+      email: request.cliente_email,
+    },
+    items,
+    breakdown: pedido.breakdown,
+    notas: request.notas,
+  })
+}
+
+/**
+ * Record that the customer opened the WhatsApp message; failures are only logged
+ */
+export async function markWhatsAppSent(pedidoId: string): Promise<void> {
+  try {
+    await fetch(ROUTES.API_PEDIDO_WHATSAPP(pedidoId), { method: 'POST' })
+  } catch (error) {
+    logError(error, { source: 'markWhatsAppSent', pedidoId })
+  }
+}
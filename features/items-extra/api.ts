@@ -0,0 +1,25 @@
+import { createStaticClient } from '@/lib/supabase/static'
+import { logError } from '@/lib/utils/error-handler'
+import { type ItemExtra, itemExtraSchema } from './schemas/item-extra.schema'
+
+/**
+ * Fetch available extra items
+ * @returns Extra items sorted by type and name
+ */
+export async function getItemsExtra(): Promise<ItemExtra[]> {
+  const supabase = createStaticClient()
+
+  const { data, error } = await supabase
+    .from('items_extra')
+    .select('*')
+    .eq('disponible', true)
+    .order('tipo', { ascending: true })
+    .order('nombre', { ascending: true })
+
+  if (error) {
+    logError(error, { source: 'getItemsExtra' })
+    throw new Error('Failed to fetch extra items')
+  }
+
+  return data.map((item) => itemExtraSchema.parse(item))
+}
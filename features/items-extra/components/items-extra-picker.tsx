@@ -0,0 +1,114 @@
+'use client'
+
+import { Minus, Plus } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import type { Altar } from '@/features/altar-catalog/schemas/altar.schema'
+import type { CartExtra } from '@/features/cart/schemas/cart.schema'
+import { ITEM_EXTRA_TYPES } from '@/lib/constants/business-config'
+import { formatCurrency } from '@/lib/utils/format-currency'
+import { getIncludedCount, groupItemsExtra } from '../group'
+import { type ItemExtra, ItemExtraTypeEnum } from '../schemas/item-extra.schema'
+
+// Same limit as extraSelectionSchema
+const MAX_CANTIDAD = 50
+
+interface ItemsExtraPickerProps {
+  altar: Pick<
+    Altar,
+    'panes_incluidos' | 'vasos_incluidos' | 'calaveras_incluidas' | 'portaretratos_incluidos'
+  >
+  items: ItemExtra[]
+  /** Selected extras, per altar */
+  value: CartExtra[]
+  onChange: (value: CartExtra[]) => void
+}
+
+export function ItemsExtraPicker({ altar, items, value, onChange }: ItemsExtraPickerProps) {
+  if (items.length === 0) {
+    return null
+  }
+
+  const grouped = groupItemsExtra(items)
+
+  const getCantidad = (item: ItemExtra) =>
+    value.find((extra) => extra.item_id === item.id)?.cantidad ?? 0
+
+  const setCantidad = (item: ItemExtra, cantidad: number) => {
+    const others = value.filter((extra) => extra.item_id !== item.id)
+    onChange(
+      cantidad > 0 ? [...others, { item_id: item.id, nombre: item.nombre, cantidad }] : others
+    )
+  }
+
+  return (
+    <fieldset className="space-y-4">
+      <legend className="text-sm font-medium text-neutral-900">Agrega extras</legend>
+      {ItemExtraTypeEnum.options
+        .filter((tipo) => grouped[tipo].length > 0)
+        .map((tipo) => {
+          const incluidos = getIncludedCount(altar, tipo)
+
+          return (
+            <div key={tipo}>
+              <div className="flex items-baseline justify-between gap-2">
+                <h3 className="text-sm text-neutral-700">
+                  <span className="mr-1">{ITEM_EXTRA_TYPES[tipo].icon}</span>
+                  {ITEM_EXTRA_TYPES[tipo].label}
+                </h3>
+                {incluidos !== null && (
+                  <span className="text-xs text-neutral-500">
+                    {incluidos > 0 ? `Ya incluye ${incluidos}` : 'No incluidos'}
+                  </span>
+                )}
+              </div>
+              <ul className="mt-2 space-y-2">
+                {grouped[tipo].map((item) => {
+                  const cantidad = getCantidad(item)
+
+                  return (
+                    <li
+                      key={item.id}
+                      className="flex items-center justify-between gap-3 rounded-lg border border-neutral-200 p-3"
+                    >
+                      <div className="min-w-0">
+                        <p className="text-sm font-medium text-neutral-900">{item.nombre}</p>
+                        <p className="text-xs text-neutral-600">
+                          {formatCurrency(item.precio)} c/u
+                          {item.descripcion && ` · ${item.descripcion}`}
+                        </p>
+                      </div>
+                      <div className="flex shrink-0 items-center rounded-md border border-neutral-200">
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="icon"
+                          disabled={cantidad === 0}
+                          onClick={() => setCantidad(item, cantidad - 1)}
+                          aria-label={`Quitar ${item.nombre}`}
+                        >
+                          <Minus className="size-4" />
+                        </Button>
+                        <span className="w-6 text-center text-sm font-medium" aria-live="polite">
+                          {cantidad}
+                        </span>
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="icon"
+                          disabled={cantidad >= MAX_CANTIDAD}
+                          onClick={() => setCantidad(item, cantidad + 1)}
+                          aria-label={`Agregar ${item.nombre}`}
+                        >
+                          <Plus className="size-4" />
+                        </Button>
+                      </div>
+                    </li>
+                  )
+                })}
+              </ul>
+            </div>
+          )
+        })}
+    </fieldset>
+  )
+}
@@ -0,0 +1,40 @@
+import type { Altar } from '@/features/altar-catalog/schemas/altar.schema'
+import { ITEM_EXTRA_TYPES } from '@/lib/constants/business-config'
+import {
+  type ItemExtra,
+  type ItemExtraType,
+  ItemExtraTypeEnum,
+  type ItemsExtraByType,
+} from './schemas/item-extra.schema'
+
+/**
+ * Group extra items by type, keeping their order
+ * @param items - Extra items
+ * @returns Items per type (every type present, possibly empty)
+ */
+export function groupItemsExtra(items: ItemExtra[]): ItemsExtraByType {
+  const grouped = Object.fromEntries(
+    ItemExtraTypeEnum.options.map((tipo) => [tipo, [] as ItemExtra[]])
+  ) as ItemsExtraByType
+
+  for (const item of items) {
+    grouped[item.tipo].push(item)
+  }
+
+  return grouped
+}
+
+/**
+ * How many pieces of a type an altar already includes
+ * @returns Count from the matching *_incluidos column, or null for types altars don't include
+ */
+export function getIncludedCount(
+  altar: Pick<
+    Altar,
+    'panes_incluidos' | 'vasos_incluidos' | 'calaveras_incluidas' | 'portaretratos_incluidos'
+  >,
+  tipo: ItemExtraType
+): number | null {
+  const field = ITEM_EXTRA_TYPES[tipo].incluidoField
+  return field ? altar[field] : null
+}
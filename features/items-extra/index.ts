@@ -0,0 +1,19 @@
+// Components
+export { ItemsExtraPicker } from './components/items-extra-picker'
+
+// API
+export { getItemsExtra } from './api'
+
+// Grouping
+export { getIncludedCount, groupItemsExtra } from './group'
+
+// Schemas
+export {
+  itemExtraCreateSchema,
+  itemExtraSchema,
+  ItemExtraTypeEnum,
+  type ItemExtra,
+  type ItemExtraCreate,
+  type ItemExtraType,
+  type ItemsExtraByType,
+} from './schemas/item-extra.schema'
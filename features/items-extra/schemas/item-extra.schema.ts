@@ -0,0 +1,40 @@
+import { z } from 'zod'
+
+/**
+ * Extra item types (item_extra_type enum)
+ */
+export const ItemExtraTypeEnum = z.enum(['portaretrato', 'calavera', 'vaso', 'pan', 'other'])
+export type ItemExtraType = z.infer<typeof ItemExtraTypeEnum>
+
+/**
+ * Extra item (items_extra row)
+ */
+export const itemExtraSchema = z.object({
+  id: z.string().uuid(),
+  nombre: z.string().min(1, 'Nombre requerido').max(255),
+  descripcion: z.string().nullable(),
+  precio: z.number().positive('El precio debe ser mayor a 0'),
+  imagen: z.string().url('Ingresa una URL válida').nullable(),
+  tipo: ItemExtraTypeEnum,
+  disponible: z.boolean().default(true),
+  created_at: z.string(),
+  updated_at: z.string(),
+})
+
+export type ItemExtra = z.infer<typeof itemExtraSchema>
+
+/**
+ * Schema for creating an extra item (admin)
+ */
+export const itemExtraCreateSchema = itemExtraSchema.omit({
+  id: true,
+  created_at: true,
+  updated_at: true,
+})
+
+export type ItemExtraCreate = z.infer<typeof itemExtraCreateSchema>
+
+/**
+ * Extra items grouped by type, each group sorted by name
+ */
+export type ItemsExtraByType = Record<ItemExtraType, ItemExtra[]>
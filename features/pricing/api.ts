@@ -0,0 +1,155 @@
+import { z } from 'zod'
+import { createStaticClient } from '@/lib/supabase/static'
+import { PricingUnavailableError } from '@/lib/utils/app-errors'
+import { logError } from '@/lib/utils/error-handler'
+import type { PricingContext } from './calculate-price'
+import {
+  type CodigoPromocion,
+  codigoPromocionSchema,
+  type ItemExtraPrice,
+  itemExtraPriceSchema,
+  type ReglaDescuento,
+  type ReglaPrecio,
+  reglaDescuentoSchema,
+  reglaPrecioSchema,
+} from './schemas/pricing.schema'
+
+/**
+ * Fetch active pricing rules
+ * @param grosorId - Optional thickness id to restrict the rules
+ * @returns Array of active pricing rules
+ */
+export async function getReglasPrecio(grosorId?: string): Promise<ReglaPrecio[]> {
+  const supabase = createStaticClient()
+
+  let query = supabase.from('reglas_precio').select('*').eq('activo', true)
+
+  if (grosorId) {
+    query = query.eq('grosor_id', grosorId)
+  }
+
+  const { data, error } = await query
+
+  if (error) {
+    logError(error, { source: 'getReglasPrecio', grosorId })
+    throw new Error('Failed to fetch pricing rules')
+  }
+
+  return data.map((regla) => reglaPrecioSchema.parse(regla))
+}
+
+/**
+ * Fetch active quantity discount tiers
+ * @returns Array of active discount rules ordered by minimum quantity
+ */
+export async function getReglasDescuento(): Promise<ReglaDescuento[]> {
+  const supabase = createStaticClient()
+
+  const { data, error } = await supabase
+    .from('reglas_descuento')
+    .select('*')
+    .eq('activo', true)
+    .order('cantidad_minima', { ascending: true })
+
+  if (error) {
+    logError(error, { source: 'getReglasDescuento' })
+    throw new Error('Failed to fetch discount rules')
+  }
+
+  return data.map((regla) => reglaDescuentoSchema.parse(regla))
+}
+
+/**
+ * Look up a promo code entered by the customer
+ * The uses of a phone are private; the database only says whether it can use the code
+ * @param codigo - Normalized promo code
+ * @param telefono - Customer phone, to check its per-phone limit
+ * @returns The active code with its remaining uses, or null if it does not exist
+ */
+export async function getCodigoPromocion(
+  codigo: string,
+  telefono?: string
+): Promise<CodigoPromocion | null> {
+  const supabase = createStaticClient()
+
+  const { data, error } = await supabase.rpc('buscar_codigo_promocion', { p_codigo: codigo })
+
+  if (error) {
+    logError(error, { source: 'getCodigoPromocion', codigo })
+    throw new Error('Failed to fetch promo code')
+  }
+
+  const [row] = data ?? []
+  if (!row) {
+    return null
+  }
+
+  const promocion = codigoPromocionSchema.parse(row)
+  if (promocion.usos_por_telefono === null || !telefono) {
+    return promocion
+  }
+
+  const { data: disponible, error: telefonoError } = await supabase.rpc(
+    'codigo_promocion_disponible_telefono',
+    { p_codigo_id: promocion.id, p_telefono: telefono }
+  )
+
+  if (telefonoError) {
+    logError(telefonoError, { source: 'getCodigoPromocion', codigo })
+    throw new Error('Failed to fetch promo code')
+  }
+
+  return { ...promocion, disponible_para_telefono: z.boolean().nullable().parse(disponible) }
+}
+
+/**
+ * Fetch extra items by id for pricing
+ * @param ids - Extra item UUIDs
+ * @returns Matching extra items (unavailable ones are hidden by RLS)
+ */
+export async function getItemsExtraByIds(ids: string[]): Promise<ItemExtraPrice[]> {
+  if (ids.length === 0) {
+    return []
+  }
+
+  const supabase = createStaticClient()
+
+  const { data, error } = await supabase
+    .from('items_extra')
+    .select('id, nombre, precio, disponible')
+    .in('id', ids)
+
+  if (error) {
+    logError(error, { source: 'getItemsExtraByIds', ids })
+    throw new Error('Failed to fetch extra items')
+  }
+
+  return data.map((item) => itemExtraPriceSchema.parse(item))
+}
+
+/**
+ * Load everything needed to price a configuration
+ * @param grosorId - Thickness id (pass undefined to load rules for all thicknesses)
+ * @param extraIds - Extra item ids selected by the customer
+ * @param promo - Promo code entered by the customer and their phone, if known
+ * @returns Pricing context for calculatePrice
+ * @throws PricingUnavailableError when any of it cannot be loaded
+ */
+export async function getPricingContext(
+  grosorId: string | undefined,
+  extraIds: string[],
+  promo?: { codigo?: string; telefono?: string }
+): Promise<PricingContext> {
+  try {
+    const [reglasPrecio, reglasDescuento, itemsExtra, promocion] = await Promise.all([
+      getReglasPrecio(grosorId),
+      getReglasDescuento(),
+      getItemsExtraByIds(extraIds),
+      promo?.codigo ? getCodigoPromocion(promo.codigo, promo.telefono) : null,
+    ])
+
+    return { reglasPrecio, reglasDescuento, itemsExtra, promocion }
+  } catch (error) {
+    throw new PricingUnavailableError(undefined, { cause: error })
+  }
+}
@@ -0,0 +1,409 @@
+import { describe, expect, it } from 'vitest'
+import {
+  calculateDiscounts,
+  calculateOrderPrice,
+  calculatePrice,
+  findPricingRule,
+  type PricingContext,
+  roundMoney,
+  selectDiscountRule,
+  validatePromoCode,
+} from './calculate-price'
+import type {
+  CodigoPromocion,
+  ItemExtraPrice,
+  PriceRequest,
+  ReglaDescuento,
+  ReglaPrecio,
+} from './schemas/pricing.schema'
+
+const GROSOR_ID = '11111111-1111-4111-8111-111111111111'
+const OTRO_GROSOR_ID = '22222222-2222-4222-8222-222222222222'
+const REGLA_ID = '33333333-3333-4333-8333-333333333333'
+const TIER_ID = '44444444-4444-4444-8444-444444444444'
+const PROMO_ID = '55555555-5555-4555-8555-555555555555'
+const EXTRA_ID = '66666666-6666-4666-8666-666666666666'
+
+const FECHA = new Date('2025-10-31T12:00:00Z')
+
+function makeRegla(overrides: Partial<ReglaPrecio> = {}): ReglaPrecio {
+  return {
+    id: REGLA_ID,
+    grosor_id: GROSOR_ID,
+    altura_min: null,
+    altura_max: null,
+    anchura_min: null,
+    anchura_max: null,
+    precio_base: 1000,
+    precio_pintado: 1200,
+    activo: true,
+    ...overrides,
+  }
+}
+
+function makeTier(overrides: Partial<ReglaDescuento> = {}): ReglaDescuento {
+  return {
+    id: TIER_ID,
+    cantidad_minima: 3,
+    porcentaje_descuento: 10,
+    descripcion: null,
+    activo: true,
+    vigente_desde: null,
+    vigente_hasta: null,
+    ...overrides,
+  }
+}
+
+function makePromo(overrides: Partial<CodigoPromocion> = {}): CodigoPromocion {
+  return {
+    id: PROMO_ID,
+    codigo: 'MUERTOS',
+    descripcion: null,
+    tipo: 'porcentaje',
+    valor: 15,
+    acumulable: false,
+    minimo_compra: null,
+    vigente_desde: null,
+    vigente_hasta: null,
+    usos_restantes: null,
+    usos_por_telefono: null,
+    disponible_para_telefono: null,
+    ...overrides,
+  }
+}
+
+const VELADORA: ItemExtraPrice = { id: EXTRA_ID, nombre: 'Veladora', precio: 150, disponible: true }
+
+function makeRequest(overrides: Partial<PriceRequest> = {}): PriceRequest {
+  return {
+    grosor_id: GROSOR_ID,
+    altura: 60,
+    anchura: 40,
+    pintado: false,
+    cantidad: 1,
+    items_extra: [],
+    ...overrides,
+  }
+}
+
+function makeContext(overrides: Partial<PricingContext> = {}): PricingContext {
+  return {
+    reglasPrecio: [makeRegla()],
+    reglasDescuento: [],
+    itemsExtra: [VELADORA],
+    promocion: null,
+    ...overrides,
+  }
+}
+
+describe('roundMoney', () => {
+  it('rounds to cents', () => {
+    expect(roundMoney(0.1 + 0.2)).toBe(0.3)
+    expect(roundMoney(329.9967)).toBe(330)
+  })
+})
+
+describe('findPricingRule', () => {
+  it('returns the only active rule whose ranges cover the size', () => {
+    const regla = makeRegla({ altura_min: 50, altura_max: 80, anchura_min: 30, anchura_max: 50 })
+    const result = findPricingRule([regla], GROSOR_ID, 60, 40)
+
+    expect(result).toEqual({ success: true, data: regla })
+  })
+
+  it('includes both range bounds', () => {
+    const regla = makeRegla({ altura_min: 60, altura_max: 60, anchura_min: 40, anchura_max: 40 })
+
+    expect(findPricingRule([regla], GROSOR_ID, 60, 40).success).toBe(true)
+  })
+
+  it('fails with NO_PRICING_RULE when no rule covers the size', () => {
+    const reglas = [
+      makeRegla({ altura_max: 50 }),
+      makeRegla({ activo: false }),
+      makeRegla({ grosor_id: OTRO_GROSOR_ID }),
+    ]
+    const result = findPricingRule(reglas, GROSOR_ID, 60, 40)
+
+    expect(result).toMatchObject({
+      success: false,
+      error: {
+        code: 'NO_PRICING_RULE',
+        statusCode: 422,
+        details: { grosor_id: GROSOR_ID, altura: 60, anchura: 40 },
+      },
+    })
+  })
+
+  it('fails with AMBIGUOUS_PRICING_RULE when several rules cover the size', () => {
+    const otraId = '77777777-7777-4777-8777-777777777777'
+    const reglas = [makeRegla({ altura_max: 60 }), makeRegla({ id: otraId, altura_min: 60 })]
+    const result = findPricingRule(reglas, GROSOR_ID, 60, 40)
+
+    expect(result).toMatchObject({
+      success: false,
+      error: {
+        code: 'AMBIGUOUS_PRICING_RULE',
+        statusCode: 409,
+        details: { reglas: [REGLA_ID, otraId] },
+      },
+    })
+  })
+})
+
+describe('selectDiscountRule', () => {
+  const tiers = [
+    makeTier(),
+    makeTier({
+      id: '88888888-8888-4888-8888-888888888888',
+      cantidad_minima: 5,
+      porcentaje_descuento: 15,
+    }),
+  ]
+
+  it('picks the highest percentage whose minimum is met', () => {
+    expect(selectDiscountRule(tiers, 2, FECHA)).toBeNull()
+    expect(selectDiscountRule(tiers, 4, FECHA)?.porcentaje_descuento).toBe(10)
+    expect(selectDiscountRule(tiers, 5, FECHA)?.porcentaje_descuento).toBe(15)
+  })
+
+  it('skips disabled tiers and tiers outside their date window', () => {
+    const vencido = makeTier({ porcentaje_descuento: 20, vigente_hasta: '2025-10-30T23:59:59Z' })
+    const futuro = makeTier({ porcentaje_descuento: 25, vigente_desde: '2025-11-01T00:00:00Z' })
+    const inactivo = makeTier({ porcentaje_descuento: 30, activo: false })
+
+    const tier = selectDiscountRule([makeTier(), vencido, futuro, inactivo], 3, FECHA)
+
+    expect(tier?.porcentaje_descuento).toBe(10)
+  })
+})
+
+describe('calculateDiscounts', () => {
+  it('applies nothing without a tier or code', () => {
+    expect(calculateDiscounts(1000, 3, [], null, FECHA)).toEqual([])
+  })
+
+  it('ignores a 0% tier', () => {
+    const tiers = [makeTier({ porcentaje_descuento: 0 })]
+
+    expect(calculateDiscounts(1000, 3, tiers, null, FECHA)).toEqual([])
+  })
+
+  it('applies the quantity tier on its own', () => {
+    expect(calculateDiscounts(1000, 3, [makeTier()], null, FECHA)).toEqual([
+      {
+        origen: 'regla',
+        id: TIER_ID,
+        porcentaje: 10,
+        descripcion: '10% de descuento en pedidos de 3 o más altares',
+        codigo: null,
+        monto: 100,
+      },
+    ])
+  })
+
+  it('applies the code on its own when no tier is met', () => {
+    const descuentos = calculateDiscounts(1000, 1, [makeTier()], makePromo(), FECHA)
+
+    expect(descuentos).toEqual([
+      {
+        origen: 'promocion',
+        id: PROMO_ID,
+        porcentaje: 15,
+        descripcion: '15% de descuento con el código MUERTOS',
+        codigo: 'MUERTOS',
+        monto: 150,
+      },
+    ])
+  })
+
+  it('stacks an acumulable code over the amount left after the tier', () => {
+    const descuentos = calculateDiscounts(
+      1000,
+      3,
+      [makeTier()],
+      makePromo({ acumulable: true }),
+      FECHA
+    )
+
+    expect(descuentos.map(({ origen, monto }) => ({ origen, monto }))).toEqual([
+      { origen: 'regla', monto: 100 },
+      { origen: 'promocion', monto: 135 },
+    ])
+  })
+
+  it('replaces the tier with a non-acumulable code that saves more', () => {
+    const descuentos = calculateDiscounts(1000, 3, [makeTier()], makePromo(), FECHA)
+
+    expect(descuentos).toHaveLength(1)
+    expect(descuentos[0]).toMatchObject({ origen: 'promocion', monto: 150 })
+  })
+
+  it('keeps the tier when a non-acumulable code saves less or the same', () => {
+    const menor = calculateDiscounts(1000, 3, [makeTier()], makePromo({ valor: 5 }), FECHA)
+    const igual = calculateDiscounts(1000, 3, [makeTier()], makePromo({ valor: 10 }), FECHA)
+
+    expect(menor).toEqual([expect.objectContaining({ origen: 'regla', monto: 100 })])
+    expect(igual).toEqual([expect.objectContaining({ origen: 'regla', monto: 100 })])
+  })
+
+  it('caps a fixed amount at the subtotal', () => {
+    const promocion = makePromo({ tipo: 'monto_fijo', valor: 1500 })
+    const descuentos = calculateDiscounts(1000, 1, [], promocion, FECHA)
+
+    expect(descuentos).toEqual([
+      expect.objectContaining({ origen: 'promocion', porcentaje: null, monto: 1000 }),
+    ])
+  })
+
+  it('caps a stacked fixed amount at what the tier left', () => {
+    const promocion = makePromo({ tipo: 'monto_fijo', valor: 950, acumulable: true })
+    const descuentos = calculateDiscounts(1000, 3, [makeTier()], promocion, FECHA)
+
+    expect(descuentos.map((descuento) => descuento.monto)).toEqual([100, 900])
+  })
+})
+
+describe('validatePromoCode', () => {
+  it('accepts a usable code', () => {
+    const promocion = makePromo({
+      vigente_desde: '2025-10-01T00:00:00Z',
+      vigente_hasta: '2025-11-02T23:59:59Z',
+      usos_restantes: 3,
+      minimo_compra: 500,
+      disponible_para_telefono: true,
+    })
+
+    expect(validatePromoCode('MUERTOS', promocion, 1000, FECHA)).toEqual({
+      success: true,
+      data: promocion,
+    })
+  })
+
+  it.each([
+    ['does not exist', null],
+    ['belongs to another code', makePromo({ codigo: 'OTRO' })],
+  ])('fails with PROMO_CODE_NOT_FOUND when the code %s', (_, promocion) => {
+    expect(validatePromoCode('MUERTOS', promocion, 1000, FECHA)).toMatchObject({
+      success: false,
+      error: { code: 'PROMO_CODE_NOT_FOUND', statusCode: 422, details: { codigo: 'MUERTOS' } },
+    })
+  })
+
+  it.each([
+    ['no_iniciado', makePromo({ vigente_desde: '2025-11-01T00:00:00Z' })],
+    ['vencido', makePromo({ vigente_hasta: '2025-10-31T11:59:59Z' })],
+    ['agotado', makePromo({ usos_restantes: 0 })],
+    ['limite_telefono', makePromo({ usos_por_telefono: 1, disponible_para_telefono: false })],
+    ['minimo_compra', makePromo({ minimo_compra: 1500 })],
+  ])('fails with PROMO_CODE_NOT_VALID (%s)', (motivo, promocion) => {
+    expect(validatePromoCode('MUERTOS', promocion, 1000, FECHA)).toMatchObject({
+      success: false,
+      error: {
+        code: 'PROMO_CODE_NOT_VALID',
+        statusCode: 422,
+        details: { codigo: 'MUERTOS', motivo },
+      },
+    })
+  })
+
+  it('treats unlimited codes and unknown phone limits as usable', () => {
+    const promocion = makePromo({ usos_restantes: null, disponible_para_telefono: null })
+
+    expect(validatePromoCode('MUERTOS', promocion, 1000, FECHA).success).toBe(true)
+  })
+})
+
+describe('calculatePrice', () => {
+  it('adds the painted surcharge and extras per unit', () => {
+    const request = makeRequest({
+      pintado: true,
+      cantidad: 2,
+      items_extra: [{ item_id: EXTRA_ID, cantidad: 1 }],
+    })
+    const result = calculatePrice(request, makeContext(), { fecha: FECHA })
+
+    expect(result).toEqual({
+      success: true,
+      data: {
+        regla_precio_id: REGLA_ID,
+        cantidad: 2,
+        precio_unitario: 1350,
+        base: 2000,
+        recargo_pintado: 400,
+        extras: [
+          {
+            item_id: EXTRA_ID,
+            nombre: 'Veladora',
+            precio_unitario: 150,
+            cantidad: 1,
+            subtotal: 150,
+          },
+        ],
+        extras_total: 300,
+        subtotal: 2700,
+        descuentos: [],
+        descuento_total: 0,
+        total: 2700,
+      },
+    })
+  })
+
+  it('fails with EXTRA_NOT_AVAILABLE for an unavailable extra', () => {
+    const context = makeContext({ itemsExtra: [{ ...VELADORA, disponible: false }] })
+    const request = makeRequest({ items_extra: [{ item_id: EXTRA_ID, cantidad: 1 }] })
+
+    expect(calculatePrice(request, context)).toMatchObject({
+      success: false,
+      error: { code: 'EXTRA_NOT_AVAILABLE', details: { item_id: EXTRA_ID } },
+    })
+  })
+
+  it('returns the promo code error instead of a price', () => {
+    const context = makeContext({ promocion: makePromo({ usos_restantes: 0 }) })
+
+    const result = calculatePrice(makeRequest(), context, { codigo: 'MUERTOS', fecha: FECHA })
+
+    expect(result).toMatchObject({ success: false, error: { code: 'PROMO_CODE_NOT_VALID' } })
+  })
+})
+
+describe('calculateOrderPrice', () => {
+  it('applies the tier for the total quantity to the order subtotal, not to the lines', () => {
+    const requests = [
+      makeRequest({
+        pintado: true,
+        cantidad: 2,
+        items_extra: [{ item_id: EXTRA_ID, cantidad: 1 }],
+      }),
+      makeRequest(),
+    ]
+    const result = calculateOrderPrice(requests, makeContext({ reglasDescuento: [makeTier()] }), {
+      fecha: FECHA,
+    })
+
+    if (!result.success) {
+      throw new Error(result.error.message)
+    }
+
+    expect(result.data.lineas.map((linea) => [linea.subtotal, linea.descuento_total])).toEqual([
+      [2700, 0],
+      [1000, 0],
+    ])
+    expect(result.data).toMatchObject({
+      cantidad_total: 3,
+      subtotal: 3700,
+      descuento_total: 370,
+      total: 3330,
+    })
+  })
+
+  it('returns the first line error', () => {
+    const requests = [makeRequest(), makeRequest({ grosor_id: OTRO_GROSOR_ID })]
+
+    expect(calculateOrderPrice(requests, makeContext())).toMatchObject({
+      success: false,
+      error: { code: 'NO_PRICING_RULE' },
+    })
+  })
+})
@@ -0,0 +1,496 @@
+import { formatCurrency } from '@/lib/utils/format-currency'
+import type {
+  AppliedDiscount,
+  CodigoPromocion,
+  ExtraLine,
+  ItemExtraPrice,
+  OrderPriceBreakdown,
+  PriceBreakdown,
+  PriceRequest,
+  PricingErrorCode,
+  ReglaDescuento,
+  ReglaPrecio,
+} from './schemas/pricing.schema'
+
+/**
+ * Pricing engine error, shaped like AppError so it can be passed
+ * straight to createErrorResponse
+ */
+export type PricingError = {
+  message: string
+  code: PricingErrorCode
+  statusCode: number
+  details?: unknown
+}
+
+export type PricingResult<T> =
+  | { success: true; data: T }
+  | { success: false; error: PricingError }
+
+/**
+ * Data the engine needs to price a configured altar
+ */
+export interface PricingContext {
+  reglasPrecio: ReglaPrecio[]
+  reglasDescuento: ReglaDescuento[]
+  itemsExtra: ItemExtraPrice[]
+  /** Promo code the customer entered, when it exists */
+  promocion: CodigoPromocion | null
+}
+
+/**
+ * Round an amount to cents
+ * @param amount - Amount to round
+ * @returns Amount rounded to 2 decimals
+ */
+export function roundMoney(amount: number): number {
+  return Math.round((amount + Number.EPSILON) * 100) / 100
+}
+
+function isInRange(value: number, min: number | null, max: number | null): boolean {
+  return (min === null || value >= min) && (max === null || value <= max)
+}
+
+/**
+ * Find every active pricing rule covering a thickness and dimensions
+ * @param reglas - Pricing rules to search
+ * @param grosorId - Thickness configuration id
+ * @param altura - Height in cm
+ * @param anchura - Width in cm
+ * @returns Matching rules
+ */
+export function findMatchingRules(
+  reglas: ReglaPrecio[],
+  grosorId: string,
+  altura: number,
+  anchura: number
+): ReglaPrecio[] {
+  return reglas.filter(
+    (regla) =>
+      regla.activo &&
+      regla.grosor_id === grosorId &&
+      isInRange(altura, regla.altura_min, regla.altura_max) &&
+      isInRange(anchura, regla.anchura_min, regla.anchura_max)
+  )
+}
+
+/**
+ * Find the single pricing rule for a configuration
+ * @returns The rule, or an error when zero or several rules match
+ */
+export function findPricingRule(
+  reglas: ReglaPrecio[],
+  grosorId: string,
+  altura: number,
+  anchura: number
+): PricingResult<ReglaPrecio> {
+  const matches = findMatchingRules(reglas, grosorId, altura, anchura)
+
+  if (matches.length === 0) {
+    return {
+      success: false,
+      error: {
+        message: `No hay precio disponible para ${altura} × ${anchura} cm con el grosor seleccionado`,
+        code: 'NO_PRICING_RULE',
+        statusCode: 422,
+        details: { grosor_id: grosorId, altura, anchura },
+      },
+    }
+  }
+
+  if (matches.length > 1) {
+    return {
+      success: false,
+      error: {
+        message: 'La configuración seleccionada tiene más de un precio definido',
+        code: 'AMBIGUOUS_PRICING_RULE',
+        statusCode: 409,
+        details: { reglas: matches.map((regla) => regla.id) },
+      },
+    }
+  }
+
+  return { success: true, data: matches[0] }
+}
+
+/**
+ * Options that decide which discounts apply
+ */
+export interface DiscountOptions {
+  /** Promo code entered by the customer, already normalized */
+  codigo?: string | null
+  /** Moment the order is priced, checked against date windows (defaults to now) */
+  fecha?: Date
+}
+
+function isWithinWindow(
+  vigencia: { vigente_desde: string | null; vigente_hasta: string | null },
+  fecha: Date
+): boolean {
+  return (
+    (vigencia.vigente_desde === null || fecha >= new Date(vigencia.vigente_desde)) &&
+    (vigencia.vigente_hasta === null || fecha <= new Date(vigencia.vigente_hasta))
+  )
+}
+
+/**
+ * Check whether a discount tier is enabled and inside its date window
+ * @param regla - Discount tier
+ * @param fecha - Moment to check
+ * @returns True when the tier can apply at that moment
+ */
+export function isDiscountRuleActive(regla: ReglaDescuento, fecha: Date): boolean {
+  return regla.activo && isWithinWindow(regla, fecha)
+}
+
+/**
+ * Pick the best active discount tier for a quantity
+ * @param reglas - Discount tiers
+ * @param cantidad - Total number of altars
+ * @param fecha - Moment the order is priced
+ * @returns Tier with the highest percentage whose minimum is met, or null
+ */
+export function selectDiscountRule(
+  reglas: ReglaDescuento[],
+  cantidad: number,
+  fecha: Date = new Date()
+): ReglaDescuento | null {
+  return reglas.reduce<ReglaDescuento | null>((best, regla) => {
+    if (!isDiscountRuleActive(regla, fecha) || cantidad < regla.cantidad_minima) {
+      return best
+    }
+    if (!best || regla.porcentaje_descuento > best.porcentaje_descuento) {
+      return regla
+    }
+    return best
+  }, null)
+}
+
+/**
+ * Customer-facing explanation of a discount tier
+ * @param regla - Discount tier
+ * @returns The tier description, or one built from its percentage and minimum
+ */
+export function describeDiscountRule(regla: ReglaDescuento): string {
+  return (
+    regla.descripcion ??
+    `${regla.porcentaje_descuento}% de descuento en pedidos de ${regla.cantidad_minima} o más altares`
+  )
+}
+
+/**
+ * Customer-facing explanation of a promo code
+ * @param promocion - Promo code
+ * @returns The code description, or one built from its value
+ */
+export function describePromoCode(promocion: CodigoPromocion): string {
+  if (promocion.descripcion) {
+    return promocion.descripcion
+  }
+
+  return promocion.tipo === 'porcentaje'
+    ? `${promocion.valor}% de descuento con el código ${promocion.codigo}`
+    : `${formatCurrency(promocion.valor)} de descuento con el código ${promocion.codigo}`
+}
+
+function promoCodeError(
+  code: Extract<PricingErrorCode, 'PROMO_CODE_NOT_FOUND' | 'PROMO_CODE_NOT_VALID'>,
+  message: string,
+  details: Record<string, unknown>
+): PricingResult<never> {
+  return { success: false, error: { message, code, statusCode: 422, details } }
+}
+
+/**
+ * Check that a promo code can be used on an order
+ * Usage limits come precomputed from getCodigoPromocion; the database
+ * checks them again when the pedido is inserted
+ * @param codigo - Normalized code entered by the customer
+ * @param promocion - Code looked up for it, or null when it does not exist
+ * @param subtotal - Order subtotal before discounts
+ * @param fecha - Moment the order is priced
+ * @returns The usable code, or PROMO_CODE_NOT_FOUND / PROMO_CODE_NOT_VALID
+ */
+export function validatePromoCode(
+  codigo: string,
+  promocion: CodigoPromocion | null,
+  subtotal: number,
+  fecha: Date = new Date()
+): PricingResult<CodigoPromocion> {
+  if (!promocion || promocion.codigo !== codigo) {
+    return promoCodeError('PROMO_CODE_NOT_FOUND', `El código ${codigo} no existe`, { codigo })
+  }
+
+  if (promocion.vigente_desde !== null && fecha < new Date(promocion.vigente_desde)) {
+    return promoCodeError('PROMO_CODE_NOT_VALID', `El código ${codigo} todavía no está vigente`, {
+      codigo,
+      motivo: 'no_iniciado',
+    })
+  }
+  if (!isWithinWindow(promocion, fecha)) {
+    return promoCodeError('PROMO_CODE_NOT_VALID', `El código ${codigo} ya venció`, {
+      codigo,
+      motivo: 'vencido',
+    })
+  }
+  if (promocion.usos_restantes === 0) {
+    return promoCodeError('PROMO_CODE_NOT_VALID', `El código ${codigo} ya se agotó`, {
+      codigo,
+      motivo: 'agotado',
+    })
+  }
+  if (promocion.disponible_para_telefono === false) {
+    return promoCodeError(
+      'PROMO_CODE_NOT_VALID',
+      `Ya usaste el código ${codigo} las veces permitidas con este teléfono`,
+      { codigo, motivo: 'limite_telefono' }
+    )
+  }
+  if (promocion.minimo_compra !== null && subtotal < promocion.minimo_compra) {
+    return promoCodeError(
+      'PROMO_CODE_NOT_VALID',
+      `El código ${codigo} aplica en compras desde ${formatCurrency(promocion.minimo_compra)}`,
+      { codigo, motivo: 'minimo_compra', minimo_compra: promocion.minimo_compra }
+    )
+  }
+
+  return { success: true, data: promocion }
+}
+
+function applyDiscountRule(regla: ReglaDescuento, amount: number): AppliedDiscount {
+  return {
+    origen: 'regla',
+    id: regla.id,
+    porcentaje: regla.porcentaje_descuento,
+    descripcion: describeDiscountRule(regla),
+    codigo: null,
+    monto: roundMoney((amount * regla.porcentaje_descuento) / 100),
+  }
+}
+
+function applyPromoCode(promocion: CodigoPromocion, amount: number): AppliedDiscount {
+  // A fixed amount never takes the order below zero
+  const monto =
+    promocion.tipo === 'porcentaje'
+      ? (amount * promocion.valor) / 100
+      : Math.min(promocion.valor, amount)
+
+  return {
+    origen: 'promocion',
+    id: promocion.id,
+    porcentaje: promocion.tipo === 'porcentaje' ? promocion.valor : null,
+    descripcion: describePromoCode(promocion),
+    codigo: promocion.codigo,
+    monto: roundMoney(monto),
+  }
+}
+
+/**
+ * Compute the discounts applied to a subtotal
+ * The best quantity tier applies automatically. An acumulable promo code is
+ * applied on top of it, over the amount left after the tier; any other code
+ * replaces the tier only when it saves more.
+ * @param subtotal - Amount before discount
+ * @param cantidad - Total number of altars
+ * @param reglas - Discount tiers
+ * @param promocion - Validated promo code, if any
+ * @param fecha - Moment the order is priced
+ * @returns Applied discounts in the order they were applied (empty when none applies)
+ */
+export function calculateDiscounts(
+  subtotal: number,
+  cantidad: number,
+  reglas: ReglaDescuento[],
+  promocion: CodigoPromocion | null = null,
+  fecha: Date = new Date()
+): AppliedDiscount[] {
+  const tier = selectDiscountRule(reglas, cantidad, fecha)
+  const tierDiscount =
+    tier && tier.porcentaje_descuento > 0 ? applyDiscountRule(tier, subtotal) : null
+
+  if (!promocion) {
+    return tierDiscount ? [tierDiscount] : []
+  }
+  if (!tierDiscount) {
+    return [applyPromoCode(promocion, subtotal)]
+  }
+  if (promocion.acumulable) {
+    return [tierDiscount, applyPromoCode(promocion, subtotal - tierDiscount.monto)]
+  }
+
+  const promoDiscount = applyPromoCode(promocion, subtotal)
+  return promoDiscount.monto > tierDiscount.monto ? [promoDiscount] : [tierDiscount]
+}
+
+/**
+ * Validate the promo code in the options and compute the discounts
+ * @returns Applied discounts, or the promo code error
+ */
+function resolveDiscounts(
+  subtotal: number,
+  cantidad: number,
+  context: PricingContext,
+  options: DiscountOptions
+): PricingResult<AppliedDiscount[]> {
+  const fecha = options.fecha ?? new Date()
+  let promocion: CodigoPromocion | null = null
+
+  if (options.codigo) {
+    const validation = validatePromoCode(options.codigo, context.promocion, subtotal, fecha)
+    if (!validation.success) {
+      return validation
+    }
+    promocion = validation.data
+  }
+
+  return {
+    success: true,
+    data: calculateDiscounts(subtotal, cantidad, context.reglasDescuento, promocion, fecha),
+  }
+}
+
+function sumDiscounts(descuentos: AppliedDiscount[]): number {
+  return roundMoney(descuentos.reduce((sum, descuento) => sum + descuento.monto, 0))
+}
+
+/**
+ * Price the selected extras for one altar unit
+ * @returns Priced extra lines, or an error if an item is unknown or unavailable
+ */
+export function priceExtras(
+  selections: PriceRequest['items_extra'],
+  itemsExtra: ItemExtraPrice[]
+): PricingResult<ExtraLine[]> {
+  const lines: ExtraLine[] = []
+
+  for (const selection of selections) {
+    const item = itemsExtra.find((extra) => extra.id === selection.item_id)
+
+    if (!item || !item.disponible) {
+      return {
+        success: false,
+        error: {
+          message: 'Uno de los items extra seleccionados ya no está disponible',
+          code: 'EXTRA_NOT_AVAILABLE',
+          statusCode: 422,
+          details: { item_id: selection.item_id },
+        },
+      }
+    }
+
+    lines.push({
+      item_id: item.id,
+      nombre: item.nombre,
+      precio_unitario: item.precio,
+      cantidad: selection.cantidad,
+      subtotal: roundMoney(item.precio * selection.cantidad),
+    })
+  }
+
+  return { success: true, data: lines }
+}
+
+/**
+ * Calculate the full price breakdown for a configured altar
+ * @param request - Validated price request
+ * @param context - Pricing rules, discount rules and extras
+ * @param options - Coupon code and pricing date
+ * @returns Breakdown (base, painted surcharge, extras, discounts, total) or a typed error
+ */
+export function calculatePrice(
+  request: PriceRequest,
+  context: PricingContext,
+  options: DiscountOptions = {}
+): PricingResult<PriceBreakdown> {
+  const rule = findPricingRule(
+    context.reglasPrecio,
+    request.grosor_id,
+    request.altura,
+    request.anchura
+  )
+  if (!rule.success) {
+    return rule
+  }
+
+  const extras = priceExtras(request.items_extra, context.itemsExtra)
+  if (!extras.success) {
+    return extras
+  }
+
+  const regla = rule.data
+  const recargoUnitario = request.pintado ? regla.precio_pintado - regla.precio_base : 0
+  const extrasUnitario = extras.data.reduce((sum, line) => sum + line.subtotal, 0)
+
+  const base = roundMoney(regla.precio_base * request.cantidad)
+  const recargoPintado = roundMoney(recargoUnitario * request.cantidad)
+  const extrasTotal = roundMoney(extrasUnitario * request.cantidad)
+  const subtotal = roundMoney(base + recargoPintado + extrasTotal)
+  const descuentos = resolveDiscounts(subtotal, request.cantidad, context, options)
+  if (!descuentos.success) {
+    return descuentos
+  }
+  const descuentoTotal = sumDiscounts(descuentos.data)
+
+  return {
+    success: true,
+    data: {
+      regla_precio_id: regla.id,
+      cantidad: request.cantidad,
+      precio_unitario: roundMoney(regla.precio_base + recargoUnitario + extrasUnitario),
+      base,
+      recargo_pintado: recargoPintado,
+      extras: extras.data,
+      extras_total: extrasTotal,
+      subtotal,
+      descuentos: descuentos.data,
+      descuento_total: descuentoTotal,
+      total: roundMoney(subtotal - descuentoTotal),
+    },
+  }
+}
+
+/**
+ * Calculate the price of several configured altars (cart or order)
+ * Each line is priced without discount, then the discounts for the total
+ * altar quantity are applied to the order subtotal
+ * @param requests - Validated price requests, one per line
+ * @param context - Pricing rules, discount rules and extras
+ * @param options - Coupon code and pricing date
+ * @returns Order breakdown or the first line error
+ */
+export function calculateOrderPrice(
+  requests: PriceRequest[],
+  context: PricingContext,
+  options: DiscountOptions = {}
+): PricingResult<OrderPriceBreakdown> {
+  const lineContext = { ...context, reglasDescuento: [], promocion: null }
+  const lineas: PriceBreakdown[] = []
+
+  for (const request of requests) {
+    const line = calculatePrice(request, lineContext)
+    if (!line.success) {
+      return line
+    }
+    lineas.push(line.data)
+  }
+
+  const cantidadTotal = lineas.reduce((sum, line) => sum + line.cantidad, 0)
+  const subtotal = roundMoney(lineas.reduce((sum, line) => sum + line.subtotal, 0))
+  const descuentos = resolveDiscounts(subtotal, cantidadTotal, context, options)
+  if (!descuentos.success) {
+    return descuentos
+  }
+  const descuentoTotal = sumDiscounts(descuentos.data)
+
+  return {
+    success: true,
+    data: {
+      lineas,
+      cantidad_total: cantidadTotal,
+      subtotal,
+      descuentos: descuentos.data,
+      descuento_total: descuentoTotal,
+      total: roundMoney(subtotal - descuentoTotal),
+    },
+  }
+}
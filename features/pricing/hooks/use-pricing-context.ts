@@ -0,0 +1,66 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { createClient } from '@/lib/supabase/client'
+import { logError } from '@/lib/utils/error-handler'
+import type { PricingContext } from '../calculate-price'
+import {
+  itemExtraPriceSchema,
+  reglaDescuentoSchema,
+  reglaPrecioSchema,
+} from '../schemas/pricing.schema'
+
+/**
+ * Load the public pricing rules in the browser
+ * RLS only exposes active rules and available extras, the same rows the
+ * server uses when it prices an order. Promo codes are looked up one at a
+ * time with usePromoCode.
+ */
+export async function fetchPricingContext(): Promise<PricingContext> {
+  const supabase = createClient()
+
+  const [reglasPrecio, reglasDescuento, itemsExtra] = await Promise.all([
+    supabase.from('reglas_precio').select('*').eq('activo', true),
+    supabase.from('reglas_descuento').select('*').eq('activo', true),
+    supabase.from('items_extra').select('id, nombre, precio, disponible').eq('disponible', true),
+  ])
+
+  const error = reglasPrecio.error ?? reglasDescuento.error ?? itemsExtra.error
+  if (error) {
+    logError(error, { source: 'fetchPricingContext' })
+    throw new Error('Failed to fetch pricing rules')
+  }
+
+  return {
+    reglasPrecio: (reglasPrecio.data ?? []).map((regla) => reglaPrecioSchema.parse(regla)),
+    reglasDescuento: (reglasDescuento.data ?? []).map((regla) => reglaDescuentoSchema.parse(regla)),
+    itemsExtra: (itemsExtra.data ?? []).map((item) => itemExtraPriceSchema.parse(item)),
+    promocion: null,
+  }
+}
+
+/**
+ * Pricing rules for client-side price previews
+ */
+export function usePricingContext() {
+  const [context, setContext] = useState<PricingContext | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+
+    fetchPricingContext()
+      .then((data) => {
+        if (!cancelled) setContext(data)
+      })
+      .catch(() => {
+        if (!cancelled) setError('No se pudieron cargar los precios')
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  return { context, error, isLoading: !context && !error }
+}
@@ -0,0 +1,69 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { createClient } from '@/lib/supabase/client'
+import { logError } from '@/lib/utils/error-handler'
+import { type CodigoPromocion, codigoPromocionSchema } from '../schemas/pricing.schema'
+
+/**
+ * Look up a promo code in the browser
+ * Goes through the same function the server uses, since RLS hides the codes
+ * @param codigo - Normalized promo code
+ * @returns The active code with its remaining uses, or null if it does not exist
+ */
+export async function fetchCodigoPromocion(codigo: string): Promise<CodigoPromocion | null> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase.rpc('buscar_codigo_promocion', { p_codigo: codigo })
+
+  if (error) {
+    logError(error, { source: 'fetchCodigoPromocion', codigo })
+    throw new Error('Failed to fetch promo code')
+  }
+
+  const [promocion] = data ?? []
+  return promocion ? codigoPromocionSchema.parse(promocion) : null
+}
+
+/**
+ * Promo code entered in the cart
+ * The per-phone limit is only known at checkout, once the phone is typed
+ * @param codigo - Normalized promo code, or null when none was entered
+ */
+export function usePromoCode(codigo: string | null) {
+  const [result, setResult] = useState<{
+    codigo: string
+    promocion: CodigoPromocion | null
+  } | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!codigo) {
+      return
+    }
+
+    let cancelled = false
+    setError(null)
+
+    fetchCodigoPromocion(codigo)
+      .then((promocion) => {
+        if (!cancelled) setResult({ codigo, promocion })
+      })
+      .catch(() => {
+        if (!cancelled) setError('No se pudo validar el código')
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [codigo])
+
+  // Ignore the previous code while a new one loads
+  const current = codigo && result?.codigo === codigo ? result : null
+
+  return {
+    promocion: current?.promocion ?? null,
+    error: codigo ? error : null,
+    isLoading: codigo !== null && !current && !error,
+  }
+}
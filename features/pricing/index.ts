@@ -0,0 +1,65 @@
+// Engine
+export {
+  calculatePrice,
+  calculateOrderPrice,
+  calculateDiscounts,
+  describeDiscountRule,
+  describePromoCode,
+  findMatchingRules,
+  findPricingRule,
+  isDiscountRuleActive,
+  priceExtras,
+  roundMoney,
+  selectDiscountRule,
+  validatePromoCode,
+  type DiscountOptions,
+  type PricingContext,
+  type PricingError,
+  type PricingResult,
+} from './calculate-price'
+
+// API
+export {
+  getCodigoPromocion,
+  getItemsExtraByIds,
+  getPricingContext,
+  getReglasDescuento,
+  getReglasPrecio,
+} from './api'
+
+// Hooks
+export { fetchPricingContext, usePricingContext } from './hooks/use-pricing-context'
+export { fetchCodigoPromocion, usePromoCode } from './hooks/use-promo-code'
+
+// Schemas
+export {
+  appliedDiscountSchema,
+  codigoDescuentoSchema,
+  codigoPromocionSchema,
+  extraLineSchema,
+  extraSelectionSchema,
+  itemExtraPriceSchema,
+  orderPriceBreakdownSchema,
+  orderPriceRequestSchema,
+  priceBreakdownSchema,
+  priceRequestBodySchema,
+  priceRequestSchema,
+  reglaDescuentoSchema,
+  reglaPrecioSchema,
+  PricingErrorCodeEnum,
+  PromoDiscountTypeEnum,
+  type AppliedDiscount,
+  type CodigoPromocion,
+  type ExtraLine,
+  type ExtraSelection,
+  type ItemExtraPrice,
+  type OrderPriceBreakdown,
+  type OrderPriceRequest,
+  type PriceBreakdown,
+  type PriceRequest,
+  type PriceRequestBody,
+  type PricingErrorCode,
+  type PromoDiscountType,
+  type ReglaDescuento,
+  type ReglaPrecio,
+} from './schemas/pricing.schema'
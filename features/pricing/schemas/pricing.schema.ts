@@ -0,0 +1,203 @@
+import { z } from 'zod'
+
+/**
+ * Pricing rule (reglas_precio row)
+ * Null range bounds mean the range is open on that side
+ */
+export const reglaPrecioSchema = z.object({
+  id: z.string().uuid(),
+  grosor_id: z.string().uuid().nullable(),
+  altura_min: z.number().nullable(),
+  altura_max: z.number().nullable(),
+  anchura_min: z.number().nullable(),
+  anchura_max: z.number().nullable(),
+  precio_base: z.number().positive(),
+  precio_pintado: z.number().positive(),
+  activo: z.boolean(),
+})
+
+export type ReglaPrecio = z.infer<typeof reglaPrecioSchema>
+
+/**
+ * Promo code typed by the customer, normalized like codigos_promocion.codigo
+ */
+export const codigoDescuentoSchema = z
+  .string()
+  .trim()
+  .toUpperCase()
+  .regex(/^[A-Z0-9_-]{3,40}$/, 'Código de descuento inválido')
+
+/**
+ * Quantity discount tier (reglas_descuento row)
+ * Null window bounds mean the tier has no start or end date
+ */
+export const reglaDescuentoSchema = z.object({
+  id: z.string().uuid(),
+  cantidad_minima: z.number().int().positive(),
+  porcentaje_descuento: z.number().min(0).max(100),
+  descripcion: z.string().nullable(),
+  activo: z.boolean(),
+  vigente_desde: z.string().nullable(),
+  vigente_hasta: z.string().nullable(),
+})
+
+export type ReglaDescuento = z.infer<typeof reglaDescuentoSchema>
+
+/**
+ * How a promo code discounts (promo_discount_type enum)
+ */
+export const PromoDiscountTypeEnum = z.enum(['porcentaje', 'monto_fijo'])
+export type PromoDiscountType = z.infer<typeof PromoDiscountTypeEnum>
+
+/**
+ * Promo code as returned by buscar_codigo_promocion
+ * Remaining uses are null when the code has no limit. The public lookup only
+ * returns the per-phone limit; getCodigoPromocion asks whether the customer's
+ * phone can still use the code (null when unknown).
+ */
+export const codigoPromocionSchema = z.object({
+  id: z.string().uuid(),
+  codigo: z.string(),
+  descripcion: z.string().nullable(),
+  tipo: PromoDiscountTypeEnum,
+  valor: z.number().positive(),
+  acumulable: z.boolean(),
+  minimo_compra: z.number().nullable(),
+  vigente_desde: z.string().nullable(),
+  vigente_hasta: z.string().nullable(),
+  usos_restantes: z.number().int().nullable(),
+  usos_por_telefono: z.number().int().nullable(),
+  disponible_para_telefono: z.boolean().nullable().default(null),
+})
+
+export type CodigoPromocion = z.infer<typeof codigoPromocionSchema>
+
+/**
+ * Extra item as needed for pricing
+ */
+export const itemExtraPriceSchema = z.object({
+  id: z.string().uuid(),
+  nombre: z.string(),
+  precio: z.number().positive(),
+  disponible: z.boolean(),
+})
+
+export type ItemExtraPrice = z.infer<typeof itemExtraPriceSchema>
+
+/**
+ * Selected extra item with quantity (per altar)
+ */
+export const extraSelectionSchema = z.object({
+  item_id: z.string().uuid('Item extra inválido'),
+  cantidad: z.number().int().min(1, 'La cantidad mínima es 1').max(50),
+})
+
+export type ExtraSelection = z.infer<typeof extraSelectionSchema>
+
+/**
+ * Configured altar to price
+ */
+export const priceRequestSchema = z.object({
+  grosor_id: z.string().uuid('Grosor inválido'),
+  altura: z.number().positive('La altura debe ser mayor a 0'),
+  anchura: z.number().positive('La anchura debe ser mayor a 0'),
+  pintado: z.boolean().default(false),
+  cantidad: z.number().int().min(1, 'La cantidad mínima es 1').max(100),
+  items_extra: z.array(extraSelectionSchema).default([]),
+})
+
+export type PriceRequest = z.infer<typeof priceRequestSchema>
+
+/**
+ * Request body for /api/calcular-precio
+ */
+export const priceRequestBodySchema = priceRequestSchema.extend({
+  codigo_descuento: codigoDescuentoSchema.optional(),
+})
+
+export type PriceRequestBody = z.infer<typeof priceRequestBodySchema>
+
+/**
+ * Priced extra line in a breakdown
+ */
+export const extraLineSchema = z.object({
+  item_id: z.string().uuid(),
+  nombre: z.string(),
+  precio_unitario: z.number(),
+  cantidad: z.number().int(),
+  subtotal: z.number(),
+})
+
+export type ExtraLine = z.infer<typeof extraLineSchema>
+
+/**
+ * Applied discount in a breakdown
+ * origen tells whether id is a reglas_descuento tier or a codigos_promocion code
+ */
+export const appliedDiscountSchema = z.object({
+  origen: z.enum(['regla', 'promocion']),
+  id: z.string().uuid(),
+  porcentaje: z.number().nullable(),
+  descripcion: z.string(),
+  codigo: z.string().nullable(),
+  monto: z.number(),
+})
+
+export type AppliedDiscount = z.infer<typeof appliedDiscountSchema>
+
+/**
+ * Line-by-line price breakdown returned by the pricing engine
+ */
+export const priceBreakdownSchema = z.object({
+  regla_precio_id: z.string().uuid(),
+  cantidad: z.number().int(),
+  precio_unitario: z.number(),
+  base: z.number(),
+  recargo_pintado: z.number(),
+  extras: z.array(extraLineSchema),
+  extras_total: z.number(),
+  subtotal: z.number(),
+  descuentos: z.array(appliedDiscountSchema),
+  descuento_total: z.number(),
+  total: z.number(),
+})
+
+export type PriceBreakdown = z.infer<typeof priceBreakdownSchema>
+
+/**
+ * Request body for pricing several configured altars at once (cart / order)
+ */
+export const orderPriceRequestSchema = z.object({
+  items: z.array(priceRequestSchema).min(1, 'Agrega al menos un altar'),
+  codigo_descuento: codigoDescuentoSchema.optional(),
+})
+
+export type OrderPriceRequest = z.infer<typeof orderPriceRequestSchema>
+
+/**
+ * Price breakdown for several configured altars
+ * Line breakdowns carry no discount; the tier is chosen by the total quantity
+ */
+export const orderPriceBreakdownSchema = z.object({
+  lineas: z.array(priceBreakdownSchema),
+  cantidad_total: z.number().int(),
+  subtotal: z.number(),
+  descuentos: z.array(appliedDiscountSchema),
+  descuento_total: z.number(),
+  total: z.number(),
+})
+
+export type OrderPriceBreakdown = z.infer<typeof orderPriceBreakdownSchema>
+
+/**
+ * Error codes the pricing engine can return
+ */
+export const PricingErrorCodeEnum = z.enum([
+  'NO_PRICING_RULE',
+  'AMBIGUOUS_PRICING_RULE',
+  'EXTRA_NOT_AVAILABLE',
+  'PROMO_CODE_NOT_FOUND',
+  'PROMO_CODE_NOT_VALID',
+])
+
+export type PricingErrorCode = z.infer<typeof PricingErrorCodeEnum>
@@ -0,0 +1,19 @@
+interface JsonLdProps {
+  data: object
+}
+
+/**
+ * Structured data script for search engines
+ */
+export function JsonLd({ data }: JsonLdProps) {
+  // Escaping < keeps text like "</script>" in descriptions from closing the tag
+  const json = JSON.stringify(data).replace(/</g, '\\u003c')
+
+  return (
+    <script
+      type="application/ld+json"
+      // biome-ignore lint/security/noDangerouslySetInnerHtml: JSON with < escaped, not markup
+      dangerouslySetInnerHTML={{ __html: json }}
+    />
+  )
+}
@@ -0,0 +1,49 @@
+import { BUSINESS_CONFIG } from '@/lib/constants/business-config'
+
+/**
+ * Size of the generated Open Graph images (1.91:1, as social networks crop them)
+ */
+export const OG_IMAGE_SIZE = { width: 1200, height: 630 }
+
+interface OgImageProps {
+  /** Small line above the title, e.g. the model type */
+  eyebrow: string
+  title: string
+  /** Line under the title, e.g. the price */
+  subtitle?: string
+}
+
+/**
+ * Open Graph card layout, rendered by ImageResponse
+ * Inline styles only: ImageResponse supports a subset of CSS and no classes.
+ */
+export function OgImage({ eyebrow, title, subtitle }: OgImageProps) {
+  return (
+    <div
+      style={{
+        width: '100%',
+        height: '100%',
+        display: 'flex',
+        flexDirection: 'column',
+        justifyContent: 'space-between',
+        padding: 72,
+        background: BUSINESS_CONFIG.colors.primary,
+        color: '#fafafa',
+        borderBottom: `24px solid ${BUSINESS_CONFIG.colors.accent}`,
+      }}
+    >
+      <div style={{ display: 'flex', fontSize: 32, color: '#fdba74' }}>{eyebrow}</div>
+      <div style={{ display: 'flex', flexDirection: 'column', gap: 24 }}>
+        <div style={{ display: 'flex', fontSize: 80, fontWeight: 700, lineHeight: 1.1 }}>
+          {title}
+        </div>
+        {subtitle && (
+          <div style={{ display: 'flex', fontSize: 40, color: '#d4d4d4' }}>{subtitle}</div>
+        )}
+      </div>
+      <div style={{ display: 'flex', fontSize: 32, color: '#a3a3a3' }}>
+        {`${BUSINESS_CONFIG.name} · ${BUSINESS_CONFIG.tagline}`}
+      </div>
+    </div>
+  )
+}
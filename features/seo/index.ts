@@ -0,0 +1,9 @@
+// Components
+export { JsonLd } from './components/json-ld'
+export { OG_IMAGE_SIZE, OgImage } from './components/og-image'
+
+// Structured data
+export { buildProductJsonLd } from './json-ld'
+
+// URLs
+export { absoluteUrl, SITE_URL } from './site-url'
@@ -0,0 +1,42 @@
+import { getAltarImages } from '@/features/altar-catalog/images'
+import type { Altar } from '@/features/altar-catalog/schemas/altar.schema'
+import type { PriceRange } from '@/features/altar-configurator/availability'
+import { BUSINESS_CONFIG, MODEL_TYPES } from '@/lib/constants/business-config'
+import { ROUTES } from '@/lib/constants/routes'
+import { absoluteUrl } from './site-url'
+
+/**
+ * schema.org Product for an altar's page
+ * Offers span the cheapest to the most expensive priced configuration; they
+ * are left out when nothing is priced, since a Product must not advertise a
+ * price customers cannot get.
+ * @param altar - Active altar
+ * @param priceRange - Unit price range from getPriceRange, or null
+ * @returns JSON-LD object for JsonLd
+ */
+export function buildProductJsonLd(altar: Altar, priceRange: PriceRange | null) {
+  const url = absoluteUrl(ROUTES.PRODUCT_DETAIL(altar.slug))
+
+  return {
+    '@context': 'https://schema.org',
+    '@type': 'Product',
+    name: altar.nombre,
+    description: altar.meta_descripcion ?? altar.descripcion ?? BUSINESS_CONFIG.description,
+    image: getAltarImages(altar),
+    sku: altar.slug,
+    category: MODEL_TYPES[altar.modelo_tipo].label,
+    brand: { '@type': 'Brand', name: BUSINESS_CONFIG.name },
+    url,
+    offers: priceRange
+      ? {
+          '@type': 'AggregateOffer',
+          priceCurrency: BUSINESS_CONFIG.currency.code,
+          lowPrice: priceRange.min,
+          highPrice: priceRange.max,
+          availability: 'https://schema.org/InStock',
+          url,
+          seller: { '@type': 'Organization', name: BUSINESS_CONFIG.name },
+        }
+      : undefined,
+  }
+}
@@ -0,0 +1,17 @@
+/**
+ * Public URL of the store, for metadata, the sitemap and structured data
+ * NEXT_PUBLIC_SITE_URL in production; localhost during development
+ */
+export const SITE_URL = (process.env.NEXT_PUBLIC_SITE_URL ?? 'http://localhost:3000').replace(
+  /\/$/,
+  ''
+)
+
+/**
+ * Absolute URL for a path of the store
+ * @param path - Path starting with /
+ * @returns URL on SITE_URL
+ */
+export function absoluteUrl(path: string): string {
+  return new URL(path, SITE_URL).toString()
+}
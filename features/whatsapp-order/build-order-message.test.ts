@@ -0,0 +1,203 @@
+import { describe, expect, it } from 'vitest'
+import type { ModelType } from '@/features/altar-catalog/schemas/altar.schema'
+import type { CartItem } from '@/features/cart/schemas/cart.schema'
+import type {
+  OrderPriceBreakdown,
+  PriceBreakdown,
+} from '@/features/pricing/schemas/pricing.schema'
+import { WHATSAPP_CONFIG } from '@/lib/constants/whatsapp-config'
+import {
+  buildOrderMessage,
+  buildOrderMessageForUrl,
+  getWhatsAppUrlLength,
+  type OrderMessageInput,
+} from './build-order-message'
+
+const ALTARES: Record<ModelType, CartItem['altar']> = {
+  seres_queridos: {
+    id: '11111111-1111-4111-8111-111111111111',
+    nombre: 'Altar Tradicional',
+    slug: 'altar-tradicional',
+    modelo_tipo: 'seres_queridos',
+    imagen_principal: null,
+  },
+  bebes_no_nacidos: {
+    id: '22222222-2222-4222-8222-222222222222',
+    nombre: 'Altar Angelito',
+    slug: 'altar-angelito',
+    modelo_tipo: 'bebes_no_nacidos',
+    imagen_principal: null,
+  },
+  mascotas: {
+    id: '33333333-3333-4333-8333-333333333333',
+    nombre: 'Altar Huellita',
+    slug: 'altar-huellita',
+    modelo_tipo: 'mascotas',
+    imagen_principal: null,
+  },
+}
+
+const EXTRA_ID = '44444444-4444-4444-8444-444444444444'
+const REGLA_ID = '55555555-5555-4555-8555-555555555555'
+
+function makeItem(modelo: ModelType, overrides: Partial<CartItem> = {}): CartItem {
+  return {
+    id: `linea-${modelo}`,
+    altar: ALTARES[modelo],
+    grosor: { id: '66666666-6666-4666-8666-666666666666', valor: 3, unidad: 'mm' },
+    altura: { id: '77777777-7777-4777-8777-777777777777', valor: 60, unidad: 'cm' },
+    anchura: { id: '88888888-8888-4888-8888-888888888888', valor: 40, unidad: 'cm' },
+    pintado: true,
+    cantidad: 2,
+    items_extra: [{ item_id: EXTRA_ID, nombre: 'Veladora', cantidad: 1 }],
+    ...overrides,
+  }
+}
+
+function makeLinea(item: CartItem): PriceBreakdown {
+  const precio = 850
+  const extras = item.items_extra.map((extra) => ({
+    item_id: extra.item_id,
+    nombre: extra.nombre,
+    precio_unitario: 45,
+    cantidad: extra.cantidad * item.cantidad,
+    subtotal: 45 * extra.cantidad * item.cantidad,
+  }))
+  const extrasTotal = extras.reduce((sum, extra) => sum + extra.subtotal, 0)
+  const subtotal = precio * item.cantidad + extrasTotal
+
+  return {
+    regla_precio_id: REGLA_ID,
+    cantidad: item.cantidad,
+    precio_unitario: precio,
+    base: 700,
+    recargo_pintado: 150,
+    extras,
+    extras_total: extrasTotal,
+    subtotal,
+    descuentos: [],
+    descuento_total: 0,
+    total: subtotal,
+  }
+}
+
+function makeInput(items: CartItem[], overrides: Partial<OrderMessageInput> = {}): OrderMessageInput {
+  const lineas = items.map(makeLinea)
+  const subtotal = lineas.reduce((sum, linea) => sum + linea.subtotal, 0)
+  const breakdown: OrderPriceBreakdown = {
+    lineas,
+    cantidad_total: items.reduce((sum, item) => sum + item.cantidad, 0),
+    subtotal,
+    descuentos: [
+      {
+        origen: 'regla',
+        id: REGLA_ID,
+        porcentaje: 10,
+        descripcion: 'Mayoreo',
+        codigo: null,
+        monto: subtotal * 0.1,
+      },
+    ],
+    descuento_total: subtotal * 0.1,
+    total: subtotal * 0.9,
+  }
+
+  return {
+    numeroPedido: 'MAY-20251102-0001',
+    cliente: { nombre: 'Ana López', telefono: '55 1234 5678', email: 'ana@example.com' },
+    items,
+    breakdown,
+    notas: 'Entregar antes del 1 de noviembre',
+    ...overrides,
+  }
+}
+
+/** Cart with as many lines as needed to push a detail level over the URL limit */
+function makeLargeCart(lineas: number): CartItem[] {
+  const modelos = Object.keys(ALTARES) as ModelType[]
+  return Array.from({ length: lineas }, (_, index) =>
+    makeItem(modelos[index % modelos.length], {
+      id: `linea-${index}`,
+      cantidad: (index % 5) + 1,
+    })
+  )
+}
+
+function fitsInUrl(message: string): boolean {
+  return getWhatsAppUrlLength(message) <= WHATSAPP_CONFIG.maxUrlLength
+}
+
+describe('buildOrderMessage', () => {
+  it.each(Object.keys(ALTARES) as ModelType[])('builds the full message for %s', (modelo) => {
+    expect(buildOrderMessage(makeInput([makeItem(modelo)]))).toMatchSnapshot()
+  })
+
+  it('builds the summary message', () => {
+    const input = makeInput([makeItem('seres_queridos'), makeItem('mascotas', { pintado: false })])
+    expect(buildOrderMessage(input, 'summary')).toMatchSnapshot()
+  })
+
+  it('builds the minimal message', () => {
+    const input = makeInput([makeItem('bebes_no_nacidos'), makeItem('mascotas')])
+    expect(buildOrderMessage(input, 'minimal')).toMatchSnapshot()
+  })
+
+  it('leaves out the order number, email and notes when missing', () => {
+    const input = makeInput([makeItem('seres_queridos', { items_extra: [] })], {
+      numeroPedido: null,
+      cliente: { nombre: 'Ana López', telefono: '55 1234 5678' },
+      notas: '   ',
+    })
+    expect(buildOrderMessage(input)).toMatchSnapshot()
+  })
+})
+
+describe('buildOrderMessageForUrl', () => {
+  it('keeps the full message when it fits', () => {
+    const input = makeInput([makeItem('mascotas')])
+    const result = buildOrderMessageForUrl(input)
+
+    expect(result.detail).toBe('full')
+    expect(result.message).toBe(buildOrderMessage(input))
+  })
+
+  it('falls back to the summary when the full message is too long', () => {
+    const result = buildOrderMessageForUrl(makeInput(makeLargeCart(6)))
+
+    expect(result.detail).toBe('summary')
+    expect(fitsInUrl(result.message)).toBe(true)
+    expect(result.message).toMatchSnapshot()
+  })
+
+  it('falls back to the minimal message when the summary is too long', () => {
+    const result = buildOrderMessageForUrl(makeInput(makeLargeCart(40)))
+
+    expect(result.detail).toBe('minimal')
+    expect(fitsInUrl(result.message)).toBe(true)
+    expect(result.message).toMatchSnapshot()
+  })
+
+  it('truncates the notes when the minimal message is too long', () => {
+    const notas = 'Dedicatoria: '.padEnd(3000, 'con cariño ')
+    const result = buildOrderMessageForUrl(makeInput(makeLargeCart(40), { notas }))
+
+    expect(result.detail).toBe('minimal')
+    expect(fitsInUrl(result.message)).toBe(true)
+    expect(result.message).toContain('Dedicatoria: con cariño')
+    expect(result.message).toMatch(/…$/)
+  })
+
+  it('cuts the message to the limit when it is too long without notes', () => {
+    const result = buildOrderMessageForUrl(
+      makeInput(makeLargeCart(40), {
+        cliente: { nombre: 'Ana '.repeat(800), telefono: '55 1234 5678' },
+        notas: undefined,
+      })
+    )
+
+    expect(result.detail).toBe('minimal')
+    expect(fitsInUrl(result.message)).toBe(true)
+    expect(result.message.startsWith(WHATSAPP_CONFIG.greeting)).toBe(true)
+    expect(result.message).toMatch(/…$/)
+  })
+})
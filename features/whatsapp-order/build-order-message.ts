@@ -0,0 +1,239 @@
+import { formatDiscountLabel } from '@/features/cart/discount-progress'
+import type { CartItem } from '@/features/cart/schemas/cart.schema'
+import type {
+  OrderPriceBreakdown,
+  PriceBreakdown,
+} from '@/features/pricing/schemas/pricing.schema'
+import { MODEL_TYPES } from '@/lib/constants/business-config'
+import { WHATSAPP_CONFIG } from '@/lib/constants/whatsapp-config'
+import { formatCurrency } from '@/lib/utils/format-currency'
+
+/**
+ * Level of detail of the order message
+ * full: one block per altar; summary: one line per altar; minimal: totals only
+ */
+export type OrderMessageDetail = 'full' | 'summary' | 'minimal'
+
+export interface OrderMessageCustomer {
+  nombre: string
+  telefono: string
+  email?: string | null
+}
+
+export interface OrderMessageInput {
+  numeroPedido?: string | null
+  cliente: OrderMessageCustomer
+  items: CartItem[]
+  breakdown: OrderPriceBreakdown
+  notas?: string | null
+}
+
+const { emojis } = WHATSAPP_CONFIG
+
+function formatDimensions(item: CartItem): string {
+  return `${item.altura.valor} × ${item.anchura.valor} ${item.anchura.unidad}`
+}
+
+function formatAltarTitle(item: CartItem, index: number): string {
+  const modelType = MODEL_TYPES[item.altar.modelo_tipo]
+  return `*${index + 1}. ${item.altar.nombre}* (${modelType.icon} ${modelType.label})`
+}
+
+function buildAltarBlock(item: CartItem, linea: PriceBreakdown | undefined, index: number): string[] {
+  const lines = [
+    formatAltarTitle(item, index),
+    `${emojis.dimensions} Medidas: ${formatDimensions(item)}`,
+    `${emojis.details} Grosor: ${item.grosor.valor} ${item.grosor.unidad}`,
+    `${emojis.paint} Acabado: ${item.pintado ? 'Pintado' : 'Sin pintar'}`,
+  ]
+
+  if (item.items_extra.length > 0) {
+    const extras = item.items_extra.map((extra) => {
+      const priced = linea?.extras.find((line) => line.item_id === extra.item_id)
+      return priced
+        ? `${extra.cantidad}× ${extra.nombre} (${formatCurrency(priced.subtotal)})`
+        : `${extra.cantidad}× ${extra.nombre}`
+    })
+    lines.push(`${emojis.extras} Extras por altar: ${extras.join(', ')}`)
+  }
+
+  lines.push(
+    linea
+      ? `${emojis.quantity} Cantidad: ${item.cantidad} × ${formatCurrency(linea.precio_unitario)} = ${formatCurrency(linea.subtotal)}`
+      : `${emojis.quantity} Cantidad: ${item.cantidad}`
+  )
+
+  return lines
+}
+
+function buildAltarSummaryLine(item: CartItem, linea: PriceBreakdown | undefined, index: number): string {
+  const parts = [
+    `${index + 1}. ${item.cantidad}× ${item.altar.nombre}`,
+    formatDimensions(item),
+    `${item.grosor.valor} ${item.grosor.unidad}`,
+    item.pintado ? 'pintado' : 'sin pintar',
+  ]
+
+  if (item.items_extra.length > 0) {
+    parts.push(`+${item.items_extra.reduce((sum, extra) => sum + extra.cantidad, 0)} extras`)
+  }
+
+  return linea ? `${parts.join(' · ')} = ${formatCurrency(linea.subtotal)}` : parts.join(' · ')
+}
+
+function buildPricingBlock(breakdown: OrderPriceBreakdown): string[] {
+  const lines = [
+    `${emojis.pricing} *Resumen*`,
+    `Altares: ${breakdown.cantidad_total}`,
+    `Subtotal: ${formatCurrency(breakdown.subtotal)}`,
+  ]
+
+  for (const descuento of breakdown.descuentos) {
+    lines.push(`${formatDiscountLabel(descuento)}: -${formatCurrency(descuento.monto)}`)
+  }
+
+  lines.push(`*Total: ${formatCurrency(breakdown.total)}*`)
+
+  return lines
+}
+
+function buildCustomerBlock(cliente: OrderMessageCustomer): string[] {
+  const lines = [
+    `${emojis.customer} *Cliente*`,
+    `Nombre: ${cliente.nombre}`,
+    `Teléfono: ${cliente.telefono}`,
+  ]
+
+  if (cliente.email) {
+    lines.push(`Email: ${cliente.email}`)
+  }
+
+  return lines
+}
+
+/**
+ * Build the WhatsApp order message
+ * @param input - Cart lines, their price breakdown and customer data
+ * @param detail - Level of detail for the altar list
+ * @returns Message text using WhatsApp formatting (*bold*)
+ */
+export function buildOrderMessage(
+  input: OrderMessageInput,
+  detail: OrderMessageDetail = 'full'
+): string {
+  const { numeroPedido, cliente, items, breakdown, notas } = input
+  const sections: string[][] = [[WHATSAPP_CONFIG.greeting]]
+
+  if (numeroPedido) {
+    sections[0].push(`${emojis.title} *Pedido ${numeroPedido}*`)
+  }
+
+  if (detail === 'full') {
+    sections.push(
+      [`${emojis.details} *Altares*`],
+      ...items.map((item, index) => buildAltarBlock(item, breakdown.lineas[index], index))
+    )
+  } else if (detail === 'summary') {
+    sections.push([
+      `${emojis.details} *Altares*`,
+      ...items.map((item, index) => buildAltarSummaryLine(item, breakdown.lineas[index], index)),
+    ])
+  } else {
+    sections.push([
+      `${emojis.details} ${breakdown.cantidad_total} altares en ${items.length} configuraciones`,
+      numeroPedido
+        ? `El detalle completo está registrado en el pedido ${numeroPedido}`
+        : 'Les comparto el detalle completo por este medio',
+    ])
+  }
+
+  sections.push(buildPricingBlock(breakdown), buildCustomerBlock(cliente))
+
+  if (notas?.trim()) {
+    sections.push([`${emojis.notes} *Notas*`, notas.trim()])
+  }
+
+  return sections.map((lines) => lines.join('\n')).join('\n\n')
+}
+
+/**
+ * Length of the longest WhatsApp URL (web or mobile) for a message
+ * @param message - Message text
+ * @returns URL length in characters
+ */
+export function getWhatsAppUrlLength(message: string): number {
+  const phone = WHATSAPP_CONFIG.businessNumber.replace(/[^0-9]/g, '')
+  return Math.max(
+    WHATSAPP_CONFIG.getWebUrl(phone, message).length,
+    WHATSAPP_CONFIG.getMobileUrl(phone, message).length
+  )
+}
+
+/**
+ * Cut a message so its WhatsApp URL fits the limit, ending it with an ellipsis
+ * Cuts between code points, so emojis are never split in half
+ * @param message - Message text
+ * @returns Longest prefix of the message that fits
+ */
+function truncateForUrl(message: string): string {
+  const chars = Array.from(message)
+  const cut = (length: number) => `${chars.slice(0, length).join('').trimEnd()}…`
+
+  let low = 0
+  let high = chars.length
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2)
+    if (getWhatsAppUrlLength(cut(middle)) <= WHATSAPP_CONFIG.maxUrlLength) {
+      low = middle
+    } else {
+      high = middle - 1
+    }
+  }
+
+  return cut(low)
+}
+
+/**
+ * Build the most detailed order message that fits in a WhatsApp URL
+ * Falls back from full to summary to minimal when the URL would be too long;
+ * notes are truncated next, and the message itself as a last resort
+ * @param input - Order message input
+ * @returns Message text and the level of detail used
+ */
+export function buildOrderMessageForUrl(input: OrderMessageInput): {
+  message: string
+  detail: OrderMessageDetail
+} {
+  const levels: OrderMessageDetail[] = ['full', 'summary', 'minimal']
+
+  for (const detail of levels) {
+    const message = buildOrderMessage(input, detail)
+    if (getWhatsAppUrlLength(message) <= WHATSAPP_CONFIG.maxUrlLength) {
+      return { message, detail }
+    }
+  }
+
+  let notas = input.notas?.trim() ?? ''
+  let message = buildOrderMessage({ ...input, notas }, 'minimal')
+
+  while (notas.length > 0 && getWhatsAppUrlLength(message) > WHATSAPP_CONFIG.maxUrlLength) {
+    notas = notas.length > 20 ? `${notas.slice(0, Math.floor(notas.length * 0.75)).trimEnd()}…` : ''
+    message = buildOrderMessage({ ...input, notas }, 'minimal')
+  }
+
+  // Long customer data can overflow even without notes
+  if (getWhatsAppUrlLength(message) > WHATSAPP_CONFIG.maxUrlLength) {
+    message = truncateForUrl(message)
+  }
+
+  return { message, detail: 'minimal' }
+}
+
+/**
+ * Build the WhatsApp URL for an order
+ * @param input - Order message input
+ * @returns URL for the current device (wa.me on mobile, web.whatsapp.com on desktop)
+ */
+export function buildOrderWhatsAppUrl(input: OrderMessageInput): string {
+  return WHATSAPP_CONFIG.getUrl(buildOrderMessageForUrl(input).message)
+}
@@ -0,0 +1,9 @@
+export {
+  buildOrderMessage,
+  buildOrderMessageForUrl,
+  buildOrderWhatsAppUrl,
+  getWhatsAppUrlLength,
+  type OrderMessageCustomer,
+  type OrderMessageDetail,
+  type OrderMessageInput,
+} from './build-order-message'
@@ -0,0 +1,29 @@
+import type { Instrumentation } from 'next'
+
+/**
+ * Runs once when the server starts
+ * ERROR_REPORTER=jsonl appends error reports to ERROR_REPORTER_FILE
+ * (logs/errors.jsonl by default), for local debugging
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs' || process.env.ERROR_REPORTER !== 'jsonl') {
+    return
+  }
+
+  const [{ createJsonlReporter }, { setErrorReporter }] = await Promise.all([
+    import('@/lib/error-reporting/jsonl-reporter'),
+    import('@/lib/error-reporting/reporter'),
+  ])
+  setErrorReporter(createJsonlReporter(process.env.ERROR_REPORTER_FILE ?? 'logs/errors.jsonl'))
+}
+
+/**
+ * Report errors that no route or page caught
+ */
+export const onRequestError: Instrumentation.onRequestError = async (error, request, context) => {
+  const { logError } = await import('@/lib/utils/error-handler')
+  logError(error, {
+    route: `${request.method} ${context.routePath}`,
+    routeType: context.routeType,
+  })
+}
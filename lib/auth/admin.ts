@@ -0,0 +1,75 @@
+import { cache } from 'react'
+import { addErrorContext } from '@/lib/error-reporting/context'
+import { createClient } from '@/lib/supabase/server'
+import type { AdminUsuario } from '@/lib/types/database.types'
+import { ForbiddenError } from '@/lib/utils/app-errors'
+import { createErrorResponse, logError } from '@/lib/utils/error-handler'
+import { hasPermission, type Permission } from './permissions'
+
+/**
+ * Get the current user's admin profile
+ * Cached per request, so layouts and pages can both call it
+ * @returns Active admin row, or null when not logged in or not an active admin
+ */
+export const getAdminUser = cache(async (): Promise<AdminUsuario | null> => {
+  const supabase = await createClient()
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+
+  if (!user) {
+    return null
+  }
+
+  const { data, error } = await supabase
+    .from('admin_usuarios')
+    .select('*')
+    .eq('id', user.id)
+    .eq('activo', true)
+    .maybeSingle()
+
+  if (error) {
+    logError(error, { source: 'getAdminUser' })
+    return null
+  }
+
+  if (data) {
+    addErrorContext({ userId: data.id })
+  }
+
+  return data
+})
+
+/**
+ * Get the current admin if their role grants a permission
+ * @param permission - Permission required by the caller
+ * @returns Active admin row, or null when not logged in, not an admin or not allowed
+ */
+export async function getAuthorizedAdmin(permission: Permission): Promise<AdminUsuario | null> {
+  const admin = await getAdminUser()
+  return admin && hasPermission(admin.rol, permission) ? admin : null
+}
+
+/**
+ * Check admin access from an API route
+ * @param permission - Permission required by the route
+ * @returns An error response (401 without session, 403 without permission), or null when allowed
+ */
+export async function requireAdminApi(permission: Permission): Promise<Response | null> {
+  const admin = await getAdminUser()
+
+  if (!admin) {
+    return createErrorResponse({
+      message: 'Inicia sesión como administrador',
+      code: 'UNAUTHORIZED',
+      statusCode: 401,
+    })
+  }
+
+  if (!hasPermission(admin.rol, permission)) {
+    return createErrorResponse(new ForbiddenError())
+  }
+
+  return null
+}
@@ -0,0 +1,96 @@
+/**
+ * Admin roles, in decreasing order of access
+ */
+export const ADMIN_ROLE_VALUES = ['owner', 'catalog_editor', 'production', 'viewer'] as const
+export type AdminRole = (typeof ADMIN_ROLE_VALUES)[number]
+
+// Admin roles with display names
+export const ADMIN_ROLES = {
+  owner: {
+    value: 'owner',
+    label: 'Dueño',
+    description: 'Acceso completo, incluidos precios y usuarios',
+  },
+  catalog_editor: {
+    value: 'catalog_editor',
+    label: 'Editor de catálogo',
+    description: 'Altares, medidas y extras; no cambia precios',
+  },
+  production: {
+    value: 'production',
+    label: 'Producción',
+    description: 'Consulta el catálogo y avanza pedidos',
+  },
+  viewer: {
+    value: 'viewer',
+    label: 'Solo lectura',
+    description: 'Consulta el catálogo y los pedidos',
+  },
+} as const satisfies Record<AdminRole, { value: AdminRole; label: string; description: string }>
+
+export type Permission =
+  | 'catalog.read'
+  | 'catalog.write'
+  | 'pricing.write'
+  | 'pedidos.read'
+  | 'pedidos.update'
+  | 'users.manage'
+
+/**
+ * Permissions granted by each role
+ * Mirrors role_has_permission in the database, which RLS relies on
+ */
+export const ROLE_PERMISSIONS: Record<AdminRole, readonly Permission[]> = {
+  owner: ['catalog.read', 'catalog.write', 'pricing.write', 'pedidos.read', 'pedidos.update', 'users.manage'],
+  catalog_editor: ['catalog.read', 'catalog.write', 'pedidos.read'],
+  production: ['catalog.read', 'pedidos.read', 'pedidos.update'],
+  viewer: ['catalog.read', 'pedidos.read'],
+}
+
+/**
+ * Check whether a role grants a permission
+ * @param role - Admin role (unknown values grant nothing)
+ * @param permission - Permission to check
+ */
+export function hasPermission(role: string | null | undefined, permission: Permission): boolean {
+  return isAdminRole(role) && ROLE_PERMISSIONS[role].includes(permission)
+}
+
+/**
+ * Type guard for admin roles
+ * @param role - Value to check
+ */
+export function isAdminRole(role: unknown): role is AdminRole {
+  return typeof role === 'string' && (ADMIN_ROLE_VALUES as readonly string[]).includes(role)
+}
+
+/**
+ * Permission needed to open each admin section, most specific first
+ */
+const ADMIN_ROUTE_PERMISSIONS: Array<{ pattern: RegExp; permission: Permission }> = [
+  { pattern: /^\/admin\/usuarios(\/|$)/, permission: 'users.manage' },
+  { pattern: /^\/admin\/altares\/(nuevo|[^/]+\/editar)(\/|$)/, permission: 'catalog.write' },
+  { pattern: /^\/admin\/(altares|configuraciones|extras)(\/|$)/, permission: 'catalog.read' },
+  { pattern: /^\/admin\/pedidos(\/|$)/, permission: 'pedidos.read' },
+  { pattern: /^\/admin\/promociones(\/|$)/, permission: 'pricing.write' },
+]
+
+/**
+ * Permission required for an admin path
+ * @param pathname - Request path
+ * @returns Permission, or null when any active admin may open it
+ */
+export function getRoutePermission(pathname: string): Permission | null {
+  return ADMIN_ROUTE_PERMISSIONS.find(({ pattern }) => pattern.test(pathname))?.permission ?? null
+}
+
+/**
+ * Check whether a role may open an admin path
+ * @param role - Admin role
+ * @param pathname - Request path
+ */
+export function canAccessRoute(role: string | null | undefined, pathname: string): boolean {
+  const permission = getRoutePermission(pathname)
+  return permission ? hasPermission(role, permission) : isAdminRole(role)
+}
+
@@ -0,0 +1,29 @@
+import { headers } from 'next/headers'
+import { ROUTES } from '@/lib/constants/routes'
+
+/**
+ * Sanitize a post-login redirect target
+ * Only same-site paths are allowed, so ?next= can't send users to another domain
+ * @param next - Requested path
+ * @returns The path, or the admin dashboard when missing or unsafe
+ */
+export function getSafeRedirectPath(next: string | null | undefined): string {
+  if (!next || !next.startsWith('/') || next.startsWith('//') || next.startsWith('/\\')) {
+    return ROUTES.ADMIN
+  }
+  return next
+}
+
+/**
+ * Base URL for auth emails: NEXT_PUBLIC_SITE_URL, or the request origin
+ */
+export async function getSiteUrl(): Promise<string> {
+  if (process.env.NEXT_PUBLIC_SITE_URL) {
+    return process.env.NEXT_PUBLIC_SITE_URL.replace(/\/$/, '')
+  }
+
+  const headerList = await headers()
+  const host = headerList.get('x-forwarded-host') ?? headerList.get('host')
+  const protocol = headerList.get('x-forwarded-proto') ?? 'https'
+  return headerList.get('origin') ?? `${protocol}://${host}`
+}
@@ -0,0 +1,105 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import {
+  cached,
+  getCacheMetrics,
+  invalidateCacheTags,
+  resetCacheMetrics,
+  setCacheStore,
+} from './cache'
+import { createMemoryCacheStore } from './memory-store'
+import type { CacheStore } from './types'
+
+const OPTIONS = { tags: ['altares'], revalidate: 60 }
+
+describe('cached', () => {
+  beforeEach(() => {
+    setCacheStore(createMemoryCacheStore())
+    resetCacheMetrics()
+  })
+
+  it('runs the function once per arguments and counts hits and misses', async () => {
+    const fn = vi.fn(async (slug: string) => ({ slug }))
+    const getAltar = cached(fn, 'getAltar', OPTIONS)
+
+    expect(await getAltar('tradicional')).toEqual({ slug: 'tradicional' })
+    expect(await getAltar('tradicional')).toEqual({ slug: 'tradicional' })
+    expect(await getAltar('angelito')).toEqual({ slug: 'angelito' })
+
+    expect(fn).toHaveBeenCalledTimes(2)
+    expect(getCacheMetrics()).toEqual({
+      getAltar: { hits: 1, misses: 2, hitRate: 1 / 3 },
+    })
+  })
+
+  it('keeps separate counters per function', async () => {
+    const getAltares = cached(async () => [], 'getAltares', OPTIONS)
+    const getPrecios = cached(async () => [], 'getPrecios', { ...OPTIONS, tags: ['precios'] })
+
+    await getAltares()
+    await getAltares()
+    await getPrecios()
+
+    expect(getCacheMetrics()).toEqual({
+      getAltares: { hits: 1, misses: 1, hitRate: 0.5 },
+      getPrecios: { hits: 0, misses: 1, hitRate: 0 },
+    })
+  })
+
+  it('counts a stale result refreshed in the background as a single miss', async () => {
+    let stale: unknown = null
+    // Serves the previous result and refreshes it afterwards, like unstable_cache
+    const staleWhileRevalidate: CacheStore = {
+      wrap<Args extends unknown[], T>(fn: (...args: Args) => Promise<T>) {
+        return async (...args: Args) => {
+          if (stale === null) {
+            stale = await fn(...args)
+          } else {
+            void fn(...args).then((fresh) => {
+              stale = fresh
+            })
+          }
+          return stale as T
+        }
+      },
+      async invalidateTags() {},
+    }
+    setCacheStore(staleWhileRevalidate)
+
+    let version = 0
+    const getVersion = cached(async () => ++version, 'getVersion', OPTIONS)
+
+    expect(await getVersion()).toBe(1)
+    expect(await getVersion()).toBe(1)
+
+    expect(getCacheMetrics()).toEqual({
+      getVersion: { hits: 0, misses: 2, hitRate: 0 },
+    })
+  })
+})
+
+describe('invalidateCacheTags', () => {
+  beforeEach(() => {
+    setCacheStore(createMemoryCacheStore())
+    resetCacheMetrics()
+  })
+
+  it('drops only the results carrying the tags', async () => {
+    const loadAltares = vi.fn(async () => ['tradicional'])
+    const loadPrecios = vi.fn(async () => [850])
+    const getAltares = cached(loadAltares, 'getAltares', OPTIONS)
+    const getPrecios = cached(loadPrecios, 'getPrecios', { ...OPTIONS, tags: ['precios'] })
+
+    await getAltares()
+    await getPrecios()
+    await invalidateCacheTags(['altares'])
+    await getAltares()
+    await getPrecios()
+
+    expect(loadAltares).toHaveBeenCalledTimes(2)
+    expect(loadPrecios).toHaveBeenCalledTimes(1)
+    expect(getCacheMetrics()).toMatchObject({
+      getAltares: { hits: 0, misses: 2 },
+      getPrecios: { hits: 1, misses: 1 },
+    })
+  })
+})
@@ -0,0 +1,98 @@
+import { createMemoryCacheStore } from './memory-store'
+import { createNextCacheStore } from './next-store'
+import type { CacheOptions, CacheStore } from './types'
+
+interface CacheCounter {
+  calls: number
+  misses: number
+}
+
+let store: CacheStore | null = null
+const counters = new Map<string, CacheCounter>()
+
+/**
+ * Store used by cached functions
+ * Next.js data cache unless CACHE_STORE=memory or setCacheStore was called
+ */
+export function getCacheStore(): CacheStore {
+  if (!store) {
+    store = process.env.CACHE_STORE === 'memory' ? createMemoryCacheStore() : createNextCacheStore()
+  }
+  return store
+}
+
+/**
+ * Replace the cache store, e.g. with createRedisCacheStore from instrumentation.ts
+ * or a fresh createMemoryCacheStore in tests
+ * @param next - Store to use from now on
+ */
+export function setCacheStore(next: CacheStore): void {
+  store = next
+}
+
+function getCounter(key: string): CacheCounter {
+  let counter = counters.get(key)
+  if (!counter) {
+    counter = { calls: 0, misses: 0 }
+    counters.set(key, counter)
+  }
+  return counter
+}
+
+/**
+ * Cache an async function's results per arguments, counting hits and misses
+ * The store is resolved on every call, so setCacheStore applies to functions
+ * created at import time. A miss is counted each time the store runs the
+ * function, including background refreshes of stale results, and hits are the
+ * calls left over.
+ * @param fn - Function to cache; results must be JSON-serializable
+ * @param key - Unique name for the function, also the metrics key
+ * @param options - Invalidation tags and maximum age
+ */
+export function cached<Args extends unknown[], T>(
+  fn: (...args: Args) => Promise<T>,
+  key: string,
+  options: CacheOptions
+): (...args: Args) => Promise<T> {
+  // The store only calls through on a miss
+  const load = (...args: Args) => {
+    getCounter(key).misses++
+    return fn(...args)
+  }
+
+  return async (...args) => {
+    getCounter(key).calls++
+    return getCacheStore().wrap(load, key, options)(...args)
+  }
+}
+
+/**
+ * Drop cached results carrying any of the tags
+ * @param tags - Tags from CACHE_TAGS
+ */
+export async function invalidateCacheTags(tags: string[]): Promise<void> {
+  await getCacheStore().invalidateTags(tags)
+}
+
+/**
+ * Hit and miss counts per cached function since this server instance started
+ * Hits are the calls that did not run the query (see cached)
+ */
+export function getCacheMetrics(): Record<
+  string,
+  { hits: number; misses: number; hitRate: number }
+> {
+  return Object.fromEntries(
+    Array.from(counters, ([key, { calls, misses }]) => {
+      const hits = Math.max(calls - misses, 0)
+      return [key, { hits, misses, hitRate: calls > 0 ? hits / calls : 0 }]
+    })
+  )
+}
+
+/**
+ * Reset the hit and miss counters
+ */
+export function resetCacheMetrics(): void {
+  counters.clear()
+}
@@ -0,0 +1,37 @@
+import type { CacheStore } from './types'
+
+/**
+ * Minimal storage needed to cache by key and invalidate by tag
+ */
+export interface KeyValueBackend {
+  get(key: string): Promise<string | null>
+  set(key: string, value: string, ttlSeconds: number, tags: string[]): Promise<void>
+  invalidateTags(tags: string[]): Promise<void>
+}
+
+/**
+ * Cache store on top of a key-value backend
+ * Values are stored as JSON, so callers get a fresh copy like with unstable_cache
+ * @param backend - Where entries and tag indexes live
+ */
+export function createKeyValueCacheStore(backend: KeyValueBackend): CacheStore {
+  return {
+    wrap(fn, key, options) {
+      return async (...args) => {
+        const entryKey = `${key}:${JSON.stringify(args)}`
+        const stored = await backend.get(entryKey)
+
+        if (stored !== null) {
+          return JSON.parse(stored)
+        }
+
+        const result = await fn(...args)
+        await backend.set(entryKey, JSON.stringify(result), options.revalidate, options.tags)
+        return result
+      }
+    },
+    invalidateTags(tags) {
+      return backend.invalidateTags(tags)
+    },
+  }
+}
@@ -0,0 +1,31 @@
+import { createKeyValueCacheStore } from './key-value-store'
+import type { CacheStore } from './types'
+
+/**
+ * In-process cache, for tests and local scripts
+ * Not shared between server instances, so invalidation only reaches this process
+ */
+export function createMemoryCacheStore(): CacheStore {
+  const entries = new Map<string, { value: string; expiresAt: number; tags: string[] }>()
+
+  return createKeyValueCacheStore({
+    async get(key) {
+      const entry = entries.get(key)
+      if (!entry || entry.expiresAt <= Date.now()) {
+        entries.delete(key)
+        return null
+      }
+      return entry.value
+    },
+    async set(key, value, ttlSeconds, tags) {
+      entries.set(key, { value, expiresAt: Date.now() + ttlSeconds * 1000, tags })
+    },
+    async invalidateTags(tags) {
+      for (const [key, entry] of entries) {
+        if (entry.tags.some((tag) => tags.includes(tag))) {
+          entries.delete(key)
+        }
+      }
+    },
+  })
+}
@@ -0,0 +1,19 @@
+import { revalidateTag, unstable_cache } from 'next/cache'
+import type { CacheStore } from './types'
+
+/**
+ * Next.js data cache (unstable_cache and revalidateTag)
+ * Shared by every server instance on Vercel; the default store
+ */
+export function createNextCacheStore(): CacheStore {
+  return {
+    wrap(fn, key, options) {
+      return unstable_cache(fn, [key], options)
+    },
+    async invalidateTags(tags) {
+      for (const tag of tags) {
+        revalidateTag(tag)
+      }
+    },
+  }
+}
@@ -0,0 +1,46 @@
+import { createKeyValueCacheStore } from './key-value-store'
+import type { CacheStore } from './types'
+
+/**
+ * Commands used by the Redis store
+ * ioredis and @upstash/redis clients match it as they are
+ */
+export interface RedisClientLike {
+  get(key: string): Promise<string | null>
+  setex(key: string, seconds: number, value: string): Promise<unknown>
+  sadd(key: string, ...members: string[]): Promise<unknown>
+  expire(key: string, seconds: number): Promise<unknown>
+  smembers(key: string): Promise<string[]>
+  del(...keys: string[]): Promise<unknown>
+}
+
+const PREFIX = 'mayand:cache:'
+
+/**
+ * Redis-backed cache, shared by every server instance
+ * Each tag is a set of the entry keys carrying it
+ * @param redis - Connected client
+ */
+export function createRedisCacheStore(redis: RedisClientLike): CacheStore {
+  const tagKey = (tag: string) => `${PREFIX}tag:${tag}`
+
+  return createKeyValueCacheStore({
+    get(key) {
+      return redis.get(`${PREFIX}${key}`)
+    },
+    async set(key, value, ttlSeconds, tags) {
+      await redis.setex(`${PREFIX}${key}`, ttlSeconds, value)
+      for (const tag of tags) {
+        await redis.sadd(tagKey(tag), `${PREFIX}${key}`)
+        // Tag sets outlive their entries by a little, then expire on their own
+        await redis.expire(tagKey(tag), ttlSeconds * 2)
+      }
+    },
+    async invalidateTags(tags) {
+      for (const tag of tags) {
+        const keys = await redis.smembers(tagKey(tag))
+        await redis.del(...keys, tagKey(tag))
+      }
+    },
+  })
+}
@@ -0,0 +1,10 @@
+/**
+ * Cache tags, one per kind of data an admin can change
+ */
+export const CACHE_TAGS = {
+  altares: 'altares',
+  configuraciones: 'configuraciones',
+  precios: 'precios',
+} as const
+
+export type CacheTag = (typeof CACHE_TAGS)[keyof typeof CACHE_TAGS]
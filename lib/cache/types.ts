@@ -0,0 +1,26 @@
+/**
+ * Options for a cached function
+ */
+export interface CacheOptions {
+  /** Tags that invalidate the cached results (see CACHE_TAGS) */
+  tags: string[]
+  /** Seconds before a result is refetched even without invalidation */
+  revalidate: number
+}
+
+/**
+ * Backend that stores cached function results
+ */
+export interface CacheStore {
+  /**
+   * Wrap an async function so its results are cached per key and arguments
+   * Results must be JSON-serializable
+   */
+  wrap<Args extends unknown[], T>(
+    fn: (...args: Args) => Promise<T>,
+    key: string,
+    options: CacheOptions
+  ): (...args: Args) => Promise<T>
+  /** Drop every cached result carrying any of the tags */
+  invalidateTags(tags: string[]): Promise<void>
+}
@@ -5,9 +5,17 @@
 export const BUSINESS_CONFIG = {
   // Business information
   name: 'Mayand Altares',
+  shortName: 'Mayand',
   tagline: 'Altares de Día de Muertos en MDF',
   description: 'Altares personalizados de Día de Muertos hechos en MDF cortado con láser CNC',
 
+  // Brand colors, for the web app manifest and generated images
+  colors: {
+    primary: '#171717',
+    accent: '#f97316',
+    background: '#ffffff',
+  },
+
   // Contact information
   email: 'contacto@mayand-altares.com',
   phone: process.env.NEXT_PUBLIC_WHATSAPP_BUSINESS_NUMBER || '',
@@ -40,14 +48,8 @@ export const BUSINESS_CONFIG = {
     locale: 'es-MX',
   },
 
-  // Discount rules
-  discounts: {
-    bulkOrder: {
-      minQuantity: 5,
-      percentage: 10, // 10% discount for 5+ altars
-      message: '10% de descuento en pedidos de 5 o más altares',
-    },
-  },
+  // Time zone of dates typed in the admin (pedido filters)
+  timeZone: 'America/Mexico_City',
 } as const
 
 // Model types with display names
@@ -72,6 +74,117 @@ export const MODEL_TYPES = {
   },
 } as const
 
+// Order statuses with display names
+export const ORDER_STATUSES = {
+  pendiente: {
+    value: 'pendiente',
+    label: 'Pendiente',
+    description: 'Pedido recibido, falta confirmarlo con el cliente',
+  },
+  confirmado: {
+    value: 'confirmado',
+    label: 'Confirmado',
+    description: 'Confirmado con el cliente y en producción',
+  },
+  completado: {
+    value: 'completado',
+    label: 'Completado',
+    description: 'Entregado al cliente',
+  },
+  cancelado: {
+    value: 'cancelado',
+    label: 'Cancelado',
+    description: 'Cancelado por el cliente o el negocio',
+  },
+} as const
+
+// Configuration option types with display names and default units
+export const CONFIG_TYPES = {
+  grosor: {
+    value: 'grosor',
+    label: 'Grosor',
+    description: 'Espesor del MDF',
+    unidad: 'mm',
+  },
+  altura: {
+    value: 'altura',
+    label: 'Altura',
+    description: 'Alto del altar armado',
+    unidad: 'cm',
+  },
+  anchura: {
+    value: 'anchura',
+    label: 'Anchura',
+    description: 'Ancho del altar armado',
+    unidad: 'cm',
+  },
+} as const
+
+// Extra item types with display names
+// incluidoField is the altares column counting the pieces already included
+export const ITEM_EXTRA_TYPES = {
+  portaretrato: {
+    value: 'portaretrato',
+    label: 'Portaretratos',
+    icon: '🖼️',
+    incluidoField: 'portaretratos_incluidos',
+  },
+  calavera: {
+    value: 'calavera',
+    label: 'Calaveras',
+    icon: '💀',
+    incluidoField: 'calaveras_incluidas',
+  },
+  vaso: {
+    value: 'vaso',
+    label: 'Vasos',
+    icon: '🥛',
+    incluidoField: 'vasos_incluidos',
+  },
+  pan: {
+    value: 'pan',
+    label: 'Panes de muerto',
+    icon: '🍞',
+    incluidoField: 'panes_incluidos',
+  },
+  other: {
+    value: 'other',
+    label: 'Otros adornos',
+    icon: '✨',
+    incluidoField: null,
+  },
+} as const
+
+// Promo code discount types with display names
+export const PROMO_DISCOUNT_TYPES = {
+  porcentaje: {
+    value: 'porcentaje',
+    label: 'Porcentaje',
+    description: 'Porcentaje del subtotal',
+  },
+  monto_fijo: {
+    value: 'monto_fijo',
+    label: 'Monto fijo',
+    description: 'Cantidad fija en pesos',
+  },
+} as const
+
+// Catalog sort orders with display names
+export const CATALOG_SORTS = {
+  destacado: {
+    value: 'destacado',
+    label: 'Destacados',
+  },
+  recientes: {
+    value: 'recientes',
+    label: 'Más recientes',
+  },
+  nombre: {
+    value: 'nombre',
+    label: 'Nombre (A-Z)',
+  },
+} as const
+
 // Default included items per altar
 export const DEFAULT_INCLUDED_ITEMS = {
   panes: 2,
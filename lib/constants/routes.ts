@@ -6,10 +6,15 @@ export const ROUTES = {
   // Public routes
   HOME: '/',
   PRODUCT_DETAIL: (slug: string) => `/producto/${slug}`,
+  CART: '/carrito',
+  CHECKOUT: '/checkout',
+  SITEMAP: '/sitemap.xml',
+  OFFLINE: '/offline',
 
   // Auth routes
   AUTH_LOGIN: '/auth/login',
   AUTH_CALLBACK: '/auth/callback',
+  AUTH_NO_ACCESS: '/auth/sin-acceso',
 
   // Admin routes
   ADMIN: '/admin',
@@ -19,6 +24,9 @@ export const ROUTES = {
   ADMIN_CONFIGURACIONES: '/admin/configuraciones',
   ADMIN_EXTRAS: '/admin/extras',
   ADMIN_PEDIDOS: '/admin/pedidos',
+  ADMIN_PEDIDO_DETAIL: (id: string) => `/admin/pedidos/${id}`,
+  ADMIN_PROMOCIONES: '/admin/promociones',
+  ADMIN_USUARIOS: '/admin/usuarios',
 
   // API routes
   API_ALTARES: '/api/altares',
@@ -27,6 +35,9 @@ export const ROUTES = {
   API_ITEMS_EXTRA: '/api/items-extra',
   API_CALCULAR_PRECIO: '/api/calcular-precio',
   API_PEDIDOS: '/api/pedidos',
+  API_PEDIDO_WHATSAPP: (id: string) => `/api/pedidos/${id}/whatsapp`,
+  API_REVALIDATE: '/api/revalidate',
+  API_CACHE_METRICS: '/api/cache/metrics',
 } as const
 
 export const ADMIN_NAV_ITEMS = [
@@ -55,4 +66,14 @@ export const ADMIN_NAV_ITEMS = [
     href: ROUTES.ADMIN_PEDIDOS,
     icon: 'ShoppingCart',
   },
+  {
+    label: 'Promociones',
+    href: ROUTES.ADMIN_PROMOCIONES,
+    icon: 'TicketPercent',
+  },
+  {
+    label: 'Usuarios',
+    href: ROUTES.ADMIN_USUARIOS,
+    icon: 'Users',
+  },
 ] as const
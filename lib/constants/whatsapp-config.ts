@@ -9,6 +9,9 @@ export const WHATSAPP_CONFIG = {
   // Message templates
   greeting: '¡Hola! Me gustaría hacer un pedido de altares:',
 
+  // Longer URLs get truncated by some browsers and the WhatsApp apps
+  maxUrlLength: 2000,
+
   // Message formatting
   emojis: {
     title: '🎨',
@@ -0,0 +1,12 @@
+import type { ErrorReporter } from './types'
+
+/**
+ * Reporter that prints to the server (or browser) console
+ */
+export function createConsoleReporter(): ErrorReporter {
+  return {
+    report(report) {
+      console.error('[Error]', report)
+    },
+  }
+}
@@ -0,0 +1,32 @@
+import { AsyncLocalStorage } from 'node:async_hooks'
+import { setErrorContextSource } from './reporter'
+import type { ErrorContext } from './types'
+
+const storage = new AsyncLocalStorage<ErrorContext>()
+
+setErrorContextSource(() => storage.getStore() ?? {})
+
+/**
+ * Wrap a route handler so errors logged while it runs carry its context
+ * @param route - Method and path, e.g. 'POST /api/pedidos'
+ * @param handler - Route handler
+ * @returns Handler that runs inside its own error context
+ */
+export function withErrorContext<Args extends unknown[], T>(
+  route: string,
+  handler: (...args: Args) => Promise<T>
+): (...args: Args) => Promise<T> {
+  return (...args) => storage.run({ route }, () => handler(...args))
+}
+
+/**
+ * Add to the current error context, like the user id once it is known
+ * Does nothing outside withErrorContext.
+ * @param context - Keys to add
+ */
+export function addErrorContext(context: ErrorContext): void {
+  const store = storage.getStore()
+  if (store) {
+    Object.assign(store, context)
+  }
+}
@@ -0,0 +1,32 @@
+import type { ErrorReporter } from './types'
+
+interface HttpReporterOptions {
+  /** Sent as a Bearer token */
+  token?: string
+  timeoutMs?: number
+}
+
+/**
+ * Reporter that POSTs each report as JSON to a collector endpoint
+ * @param url - Collector URL
+ * @param options - Auth token and request timeout (5s by default)
+ */
+export function createHttpReporter(url: string, options: HttpReporterOptions = {}): ErrorReporter {
+  return {
+    async report(report) {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(options.token ? { Authorization: `Bearer ${options.token}` } : {}),
+        },
+        body: JSON.stringify(report),
+        signal: AbortSignal.timeout(options.timeoutMs ?? 5000),
+      })
+
+      if (!response.ok) {
+        throw new Error(`Error collector responded with ${response.status}`)
+      }
+    },
+  }
+}
@@ -0,0 +1,20 @@
+import { appendFile, mkdir } from 'node:fs/promises'
+import { dirname } from 'node:path'
+import type { ErrorReporter } from './types'
+
+/**
+ * Reporter that appends one JSON line per error to a file, for local debugging
+ * Node.js only; registered from instrumentation.ts with ERROR_REPORTER=jsonl
+ * @param path - File to append to; its folder is created on the first report
+ */
+export function createJsonlReporter(path: string): ErrorReporter {
+  let folder: Promise<unknown> | null = null
+
+  return {
+    async report(report) {
+      folder ??= mkdir(dirname(path), { recursive: true })
+      await folder
+      await appendFile(path, `${JSON.stringify(report)}\n`)
+    },
+  }
+}
@@ -0,0 +1,75 @@
+import { createConsoleReporter } from './console-reporter'
+import { createHttpReporter } from './http-reporter'
+import { scrubPii } from './scrub'
+import type { ErrorContext, ErrorReport, ErrorReporter } from './types'
+
+// On globalThis because Next.js bundles instrumentation.ts apart from the
+// routes; both must see the same reporter and context source
+const registry = globalThis as typeof globalThis & {
+  __errorReporter?: ErrorReporter
+  __errorContextSource?: () => ErrorContext
+}
+
+/**
+ * Reporter used by logError
+ * HTTP when ERROR_REPORTER=http and ERROR_REPORTER_URL are set, otherwise the
+ * console, unless setErrorReporter was called
+ */
+export function getErrorReporter(): ErrorReporter {
+  if (!registry.__errorReporter) {
+    const url = process.env.ERROR_REPORTER_URL
+    registry.__errorReporter =
+      process.env.ERROR_REPORTER === 'http' && url
+        ? createHttpReporter(url, { token: process.env.ERROR_REPORTER_TOKEN })
+        : createConsoleReporter()
+  }
+  return registry.__errorReporter
+}
+
+/**
+ * Replace the reporter, e.g. with createJsonlReporter from instrumentation.ts
+ * @param reporter - Reporter to use from now on
+ */
+export function setErrorReporter(reporter: ErrorReporter): void {
+  registry.__errorReporter = reporter
+}
+
+/**
+ * Set where the current request's context comes from (see withErrorContext)
+ * @param source - Returns the context of the code running now
+ */
+export function setErrorContextSource(source: () => ErrorContext): void {
+  registry.__errorContextSource = source
+}
+
+// ERROR_REPORT_SAMPLE_RATE between 0 and 1; everything is reported by default
+function getSampleRate(): number {
+  const rate = Number(process.env.ERROR_REPORT_SAMPLE_RATE ?? 1)
+  return Number.isFinite(rate) ? Math.min(Math.max(rate, 0), 1) : 1
+}
+
+/**
+ * Send an error to the active reporter
+ * Adds the request context and the timestamp, scrubs customer contact data
+ * and applies the sample rate. Never throws: a failing reporter is logged to
+ * the console along with the report it could not send.
+ * @param report - Error fields plus any context from the caller
+ */
+export function reportError(
+  report: Omit<ErrorReport, 'timestamp' | 'context'> & { context?: ErrorContext }
+): void {
+  if (Math.random() >= getSampleRate()) {
+    return
+  }
+
+  const scrubbed = scrubPii({
+    ...report,
+    timestamp: new Date().toISOString(),
+    context: { ...registry.__errorContextSource?.(), ...report.context },
+  }) as ErrorReport
+
+  const reporter = getErrorReporter()
+  Promise.resolve()
+    .then(() => reporter.report(scrubbed))
+    .catch((error) => console.error('[Error reporter failed]', error, scrubbed))
+}
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest'
+import { scrubPii } from './scrub'
+
+describe('scrubPii', () => {
+  it.each([
+    '5512345678',
+    '55 1234 5678',
+    '55-1234-5678',
+    '+52 55-1234-5678',
+    '(55) 1234-5678',
+    '+52 (55) 1234 5678',
+  ])('masks the phone number %s', (telefono) => {
+    expect(scrubPii(`Teléfono: ${telefono}.`)).toBe('Teléfono: [redactado].')
+  })
+
+  it('keeps order numbers, UUIDs and short numbers', () => {
+    const value = 'Pedido ALT-20250101-0001 (550e8400-e29b-41d4-a716-446655440000), 3 altares'
+    expect(scrubPii(value)).toBe(value)
+  })
+
+  it('masks emails inside strings', () => {
+    expect(scrubPii('Enviado a ana.lopez+altares@example.com')).toBe('Enviado a [redactado]')
+  })
+
+  it('redacts the row of Postgres constraint errors', () => {
+    const error = {
+      code: '23514',
+      details: 'Failing row contains (8f1c, MAY-0001, Ana López, 55 1234 5678, ana@example.com).',
+    }
+    expect(scrubPii(error)).toEqual({
+      code: '23514',
+      details: 'Failing row contains [redactado].',
+    })
+  })
+
+  it('redacts known contact keys and converts errors to plain objects', () => {
+    const error = Object.assign(new Error('Insert failed'), {
+      cliente_telefono: '5512345678',
+      cliente_email: 'ana@example.com',
+    })
+    const scrubbed = scrubPii({ error, cliente_nombre: 'Ana' }) as {
+      error: Record<string, unknown>
+      cliente_nombre: string
+    }
+
+    expect(scrubbed.error).toMatchObject({
+      name: 'Error',
+      message: 'Insert failed',
+      cliente_telefono: '[redactado]',
+      cliente_email: '[redactado]',
+    })
+    expect(scrubbed.cliente_nombre).toBe('Ana')
+  })
+
+  it('marks circular references', () => {
+    const value: Record<string, unknown> = { id: 1 }
+    value.self = value
+    expect(scrubPii(value)).toEqual({ id: 1, self: '[circular]' })
+  })
+})
@@ -0,0 +1,62 @@
+const REDACTED = '[redactado]'
+
+// Customer contact fields, as named in pedidos, the checkout body and RPC params
+const PII_KEYS = new Set(['cliente_telefono', 'cliente_email', 'telefono', 'email', 'p_telefono'])
+
+const EMAIL_PATTERN = /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g
+// 10 or more digits, split by spaces, dashes or parentheses as the checkout
+// accepts them ("(55) 1234-5678", "+52 (55) 1234 5678"); the lookarounds keep
+// order numbers (ALT-20250101-0001) and UUIDs intact
+const PHONE_PATTERN = /(?<![\w-])\+?\(?\d(?:[\s()-]{0,3}\d){9,}\)?(?![\w-])/g
+// Postgres constraint errors list the whole row, customer name included
+const FAILING_ROW_PATTERN = /(Failing row contains )\([\s\S]*\)/g
+
+function scrubString(value: string): string {
+  return value
+    .replace(FAILING_ROW_PATTERN, `$1${REDACTED}`)
+    .replace(EMAIL_PATTERN, REDACTED)
+    .replace(PHONE_PATTERN, REDACTED)
+}
+
+/**
+ * Remove customer phone numbers and emails before a value leaves the server
+ * Known keys are redacted outright; other strings have emails and phone
+ * numbers masked. Errors become plain objects, since their fields are not
+ * enumerable.
+ * @param value - Value to scrub
+ * @returns Scrubbed copy, safe to serialize
+ */
+export function scrubPii(value: unknown, seen = new WeakSet<object>()): unknown {
+  if (typeof value === 'string') {
+    return scrubString(value)
+  }
+
+  if (!value || typeof value !== 'object') {
+    return value
+  }
+
+  if (value instanceof Date) {
+    return value.toISOString()
+  }
+
+  if (seen.has(value)) {
+    return '[circular]'
+  }
+  seen.add(value)
+
+  if (Array.isArray(value)) {
+    return value.map((item) => scrubPii(item, seen))
+  }
+
+  const source =
+    value instanceof Error
+      ? { ...value, name: value.name, message: value.message, stack: value.stack }
+      : value
+
+  return Object.fromEntries(
+    Object.entries(source).map(([key, item]) => [
+      key,
+      PII_KEYS.has(key) ? REDACTED : scrubPii(item, seen),
+    ])
+  )
+}
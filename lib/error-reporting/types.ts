@@ -0,0 +1,32 @@
+/**
+ * What was being handled when an error happened
+ * Attached automatically inside withErrorContext; logError adds its own keys.
+ */
+export interface ErrorContext {
+  /** Route or action, e.g. 'POST /api/pedidos' */
+  route?: string
+  /** Admin user id, once the request is authenticated */
+  userId?: string
+  numeroPedido?: string
+  [key: string]: unknown
+}
+
+/**
+ * Error as handed to a reporter, already scrubbed of customer contact data
+ */
+export interface ErrorReport {
+  timestamp: string
+  message: string
+  code?: string
+  statusCode?: number
+  stack?: string
+  details?: unknown
+  context: ErrorContext
+}
+
+/**
+ * Destination for error reports (console, file, tracking service)
+ */
+export interface ErrorReporter {
+  report(report: ErrorReport): void | Promise<void>
+}
@@ -0,0 +1,20 @@
+import { createClient as createSupabaseClient } from '@supabase/supabase-js'
+
+/**
+ * Service-role client for Auth admin calls (inviting users)
+ * Bypasses RLS: server-only, and only after checking the caller's permissions
+ */
+export function createAdminClient() {
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+
+  if (!serviceRoleKey) {
+    throw new Error('SUPABASE_SERVICE_ROLE_KEY is not set')
+  }
+
+  return createSupabaseClient(process.env.NEXT_PUBLIC_SUPABASE_URL!, serviceRoleKey, {
+    auth: {
+      persistSession: false,
+      autoRefreshToken: false,
+    },
+  })
+}
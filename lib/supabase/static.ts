@@ -0,0 +1,19 @@
+import { createClient as createSupabaseClient } from '@supabase/supabase-js'
+
+/**
+ * Cookie-less client for public data
+ * Safe to use in generateStaticParams and other build-time contexts,
+ * where next/headers cookies() is not available
+ */
+export function createStaticClient() {
+  return createSupabaseClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      auth: {
+        persistSession: false,
+        autoRefreshToken: false,
+      },
+    }
+  )
+}
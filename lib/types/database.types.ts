@@ -19,7 +19,8 @@ export interface Database {
         Row: {
           id: string
           nombre: string | null
-          rol: string
+          email: string | null
+          rol: AdminRole
           activo: boolean
           created_at: string
           updated_at: string
@@ -27,7 +28,8 @@ export interface Database {
         Insert: {
           id: string
           nombre?: string | null
-          rol?: string
+          email?: string | null
+          rol?: AdminRole
           activo?: boolean
           created_at?: string
           updated_at?: string
@@ -35,7 +37,8 @@ export interface Database {
         Update: {
           id?: string
           nombre?: string | null
-          rol?: string
+          email?: string | null
+          rol?: AdminRole
           activo?: boolean
           created_at?: string
           updated_at?: string
@@ -62,11 +65,13 @@ export interface Database {
           portaretratos_incluidos: number
           imagen_principal: string | null
           imagenes_galeria: string[] | null
+          imagenes_meta: Json
           activo: boolean
           destacado: boolean
           slug: string
           meta_titulo: string | null
           meta_descripcion: string | null
+          eliminado_at: string | null
           created_at: string
           updated_at: string
         }
@@ -81,11 +86,13 @@ export interface Database {
           portaretratos_incluidos?: number
           imagen_principal?: string | null
           imagenes_galeria?: string[] | null
+          imagenes_meta?: Json
           activo?: boolean
           destacado?: boolean
           slug: string
           meta_titulo?: string | null
           meta_descripcion?: string | null
+          eliminado_at?: string | null
           created_at?: string
           updated_at?: string
         }
@@ -100,11 +107,64 @@ export interface Database {
           portaretratos_incluidos?: number
           imagen_principal?: string | null
           imagenes_galeria?: string[] | null
+          imagenes_meta?: Json
           activo?: boolean
           destacado?: boolean
           slug?: string
           meta_titulo?: string | null
           meta_descripcion?: string | null
+          eliminado_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      codigos_promocion: {
+        Row: {
+          id: string
+          codigo: string
+          descripcion: string | null
+          tipo: PromoDiscountType
+          valor: number
+          acumulable: boolean
+          minimo_compra: number | null
+          usos_maximos: number | null
+          usos_por_telefono: number | null
+          vigente_desde: string | null
+          vigente_hasta: string | null
+          activo: boolean
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          codigo: string
+          descripcion?: string | null
+          tipo?: PromoDiscountType
+          valor: number
+          acumulable?: boolean
+          minimo_compra?: number | null
+          usos_maximos?: number | null
+          usos_por_telefono?: number | null
+          vigente_desde?: string | null
+          vigente_hasta?: string | null
+          activo?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          codigo?: string
+          descripcion?: string | null
+          tipo?: PromoDiscountType
+          valor?: number
+          acumulable?: boolean
+          minimo_compra?: number | null
+          usos_maximos?: number | null
+          usos_por_telefono?: number | null
+          vigente_desde?: string | null
+          vigente_hasta?: string | null
+          activo?: boolean
           created_at?: string
           updated_at?: string
         }
@@ -150,7 +210,7 @@ export interface Database {
           descripcion: string | null
           precio: number
           imagen: string | null
-          tipo: string
+          tipo: ItemExtraType
           disponible: boolean
           created_at: string
           updated_at: string
@@ -161,7 +221,7 @@ export interface Database {
           descripcion?: string | null
           precio: number
           imagen?: string | null
-          tipo: string
+          tipo?: ItemExtraType
           disponible?: boolean
           created_at?: string
           updated_at?: string
@@ -172,28 +232,79 @@ export interface Database {
           descripcion?: string | null
           precio?: number
           imagen?: string | null
-          tipo?: string
+          tipo?: ItemExtraType
           disponible?: boolean
           created_at?: string
           updated_at?: string
         }
         Relationships: []
       }
+      pedido_estados_historial: {
+        Row: {
+          id: string
+          pedido_id: string
+          estado_anterior: OrderStatus
+          estado_nuevo: OrderStatus
+          admin_id: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          pedido_id: string
+          estado_anterior: OrderStatus
+          estado_nuevo: OrderStatus
+          admin_id?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          pedido_id?: string
+          estado_anterior?: OrderStatus
+          estado_nuevo?: OrderStatus
+          admin_id?: string | null
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "pedido_estados_historial_pedido_id_fkey"
+            columns: ["pedido_id"]
+            isOneToOne: false
+            referencedRelation: "pedidos"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "pedido_estados_historial_admin_id_fkey"
+            columns: ["admin_id"]
+            isOneToOne: false
+            referencedRelation: "admin_usuarios"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
       pedidos: {
         Row: {
           id: string
           numero_pedido: string
           cliente_nombre: string
           cliente_telefono: string
+          // Generated from cliente_telefono, digits only
+          cliente_telefono_digitos: string
           cliente_email: string | null
+          // Versioned order lines, parse with pedidoItemsSchema
           items: Json
           subtotal: number
           descuento: number
           total: number
           estado: OrderStatus
+          codigo_promocion_id: string | null
+          codigo_promocion: string | null
+          descuento_promocion: number
           whatsapp_enviado: boolean
           whatsapp_enviado_at: string | null
           notas: string | null
+          clave_idempotencia: string | null
+          // Order breakdown quoted at checkout, parse with orderPriceBreakdownSchema
+          desglose: Json | null
           created_at: string
           updated_at: string
         }
@@ -202,15 +313,21 @@ export interface Database {
           numero_pedido?: string
           cliente_nombre: string
           cliente_telefono: string
+          cliente_telefono_digitos?: never
           cliente_email?: string | null
           items: Json
           subtotal: number
           descuento?: number
           total: number
           estado?: OrderStatus
+          codigo_promocion_id?: string | null
+          codigo_promocion?: string | null
+          descuento_promocion?: number
           whatsapp_enviado?: boolean
           whatsapp_enviado_at?: string | null
           notas?: string | null
+          clave_idempotencia?: string | null
+          desglose?: Json | null
           created_at?: string
           updated_at?: string
         }
@@ -219,19 +336,33 @@ export interface Database {
           numero_pedido?: string
           cliente_nombre?: string
           cliente_telefono?: string
+          cliente_telefono_digitos?: never
           cliente_email?: string | null
           items?: Json
           subtotal?: number
           descuento?: number
           total?: number
           estado?: OrderStatus
+          codigo_promocion_id?: string | null
+          codigo_promocion?: string | null
+          descuento_promocion?: number
           whatsapp_enviado?: boolean
           whatsapp_enviado_at?: string | null
           notas?: string | null
+          clave_idempotencia?: string | null
+          desglose?: Json | null
           created_at?: string
           updated_at?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "pedidos_codigo_promocion_id_fkey"
+            columns: ["codigo_promocion_id"]
+            isOneToOne: false
+            referencedRelation: "codigos_promocion"
+            referencedColumns: ["id"]
+          }
+        ]
       }
       reglas_descuento: {
         Row: {
@@ -240,6 +371,8 @@ export interface Database {
           porcentaje_descuento: number
           descripcion: string | null
           activo: boolean
+          vigente_desde: string | null
+          vigente_hasta: string | null
           created_at: string
           updated_at: string
         }
@@ -249,6 +382,8 @@ export interface Database {
           porcentaje_descuento: number
           descripcion?: string | null
           activo?: boolean
+          vigente_desde?: string | null
+          vigente_hasta?: string | null
           created_at?: string
           updated_at?: string
         }
@@ -258,6 +393,8 @@ export interface Database {
           porcentaje_descuento?: number
           descripcion?: string | null
           activo?: boolean
+          vigente_desde?: string | null
+          vigente_hasta?: string | null
           created_at?: string
           updated_at?: string
         }
@@ -315,22 +452,104 @@ export interface Database {
       }
     }
     Views: {
-      [_ in never]: never
+      codigos_promocion_resumen: {
+        Row: Database['public']['Tables']['codigos_promocion']['Row'] & {
+          usos: number
+          descuento_otorgado: number
+          ventas: number
+          ultimo_uso: string | null
+        }
+        Relationships: []
+      }
     }
     Functions: {
+      buscar_codigo_promocion: {
+        Args: { p_codigo: string }
+        Returns: {
+          id: string
+          codigo: string
+          descripcion: string | null
+          tipo: PromoDiscountType
+          valor: number
+          acumulable: boolean
+          minimo_compra: number | null
+          vigente_desde: string | null
+          vigente_hasta: string | null
+          usos_restantes: number | null
+          usos_por_telefono: number | null
+        }[]
+      }
+      buscar_pedido_por_clave: {
+        Args: { p_clave: string }
+        Returns: {
+          id: string
+          numero_pedido: string
+          desglose: Json | null
+        }[]
+      }
+      codigo_promocion_disponible_telefono: {
+        Args: { p_codigo_id: string; p_telefono: string }
+        Returns: boolean | null
+      }
+      contar_altares_por_tipo: {
+        Args: { p_busqueda?: string | null }
+        Returns: {
+          modelo_tipo: ModelType
+          total: number
+        }[]
+      }
+      current_admin_role: {
+        Args: Record<PropertyKey, never>
+        Returns: AdminRole | null
+      }
       generate_numero_pedido: {
         Args: Record<PropertyKey, never>
         Returns: string
       }
+      guardar_reglas_precio: {
+        Args: { p_grosor_id: string; p_reglas: Json }
+        Returns: Database['public']['Tables']['reglas_precio']['Row'][]
+      }
+      has_admin_permission: {
+        Args: { p_permission: string }
+        Returns: boolean
+      }
       is_admin: {
         Args: Record<PropertyKey, never>
         Returns: boolean
       }
+      is_valid_order_status_transition: {
+        Args: { p_from: OrderStatus; p_to: OrderStatus }
+        Returns: boolean
+      }
+      marcar_pedido_whatsapp_enviado: {
+        Args: { p_pedido_id: string }
+        Returns: boolean
+      }
+      normalizar_telefono: {
+        Args: { p_telefono: string }
+        Returns: string
+      }
+      reglas_precio_coverage_problems: {
+        Args: { p_grosor_id: string }
+        Returns: { altura: number; anchura: number; reglas: number }[]
+      }
+      reordenar_configuraciones: {
+        Args: { p_tipo: ConfigType; p_ids: string[] }
+        Returns: undefined
+      }
+      role_has_permission: {
+        Args: { p_role: AdminRole; p_permission: string }
+        Returns: boolean
+      }
     }
     Enums: {
+      admin_role: AdminRole
       config_type: ConfigType
+      item_extra_type: ItemExtraType
       model_type: ModelType
       order_status: OrderStatus
+      promo_discount_type: PromoDiscountType
     }
     CompositeTypes: {
       [_ in never]: never
@@ -342,6 +561,9 @@ export interface Database {
 export type ModelType = 'seres_queridos' | 'bebes_no_nacidos' | 'mascotas'
 export type ConfigType = 'grosor' | 'altura' | 'anchura'
 export type OrderStatus = 'pendiente' | 'confirmado' | 'completado' | 'cancelado'
+export type AdminRole = 'owner' | 'catalog_editor' | 'production' | 'viewer'
+export type ItemExtraType = 'portaretrato' | 'calavera' | 'vaso' | 'pan' | 'other'
+export type PromoDiscountType = 'porcentaje' | 'monto_fijo'
 
 // Type helpers
 export type Tables<T extends keyof Database['public']['Tables']> =
@@ -362,7 +584,9 @@ export type Configuracion = Tables<'configuraciones'>
 export type ReglaPrecio = Tables<'reglas_precio'>
 export type ItemExtra = Tables<'items_extra'>
 export type ReglaDescuento = Tables<'reglas_descuento'>
+export type CodigoPromocion = Tables<'codigos_promocion'>
 export type Pedido = Tables<'pedidos'>
+export type PedidoEstadoHistorial = Tables<'pedido_estados_historial'>
 export type AdminUsuario = Tables<'admin_usuarios'>
 
 // Insert types
@@ -371,6 +595,7 @@ export type ConfiguracionInsert = TablesInsert<'configuraciones'>
 export type ReglaPrecioInsert = TablesInsert<'reglas_precio'>
 export type ItemExtraInsert = TablesInsert<'items_extra'>
 export type ReglaDescuentoInsert = TablesInsert<'reglas_descuento'>
+export type CodigoPromocionInsert = TablesInsert<'codigos_promocion'>
 export type PedidoInsert = TablesInsert<'pedidos'>
 
 // Update types
@@ -379,4 +604,5 @@ export type ConfiguracionUpdate = TablesUpdate<'configuraciones'>
 export type ReglaPrecioUpdate = TablesUpdate<'reglas_precio'>
 export type ItemExtraUpdate = TablesUpdate<'items_extra'>
 export type ReglaDescuentoUpdate = TablesUpdate<'reglas_descuento'>
+export type CodigoPromocionUpdate = TablesUpdate<'codigos_promocion'>
 export type PedidoUpdate = TablesUpdate<'pedidos'>
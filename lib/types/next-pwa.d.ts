@@ -0,0 +1,23 @@
+/**
+ * Types for next-pwa, which ships none
+ * Only the options next.config.ts uses; see the next-pwa README for the rest.
+ */
+declare module 'next-pwa' {
+  import type { NextConfig } from 'next'
+  import type { RuntimeCaching } from 'workbox-build'
+
+  interface PWAConfig {
+    /** Folder the service worker is written to */
+    dest?: string
+    disable?: boolean
+    register?: boolean
+    skipWaiting?: boolean
+    /** Build assets left out of the precache */
+    buildExcludes?: Array<string | RegExp>
+    /** Pages and assets served when a request fails offline */
+    fallbacks?: { document?: string; image?: string; font?: string }
+    runtimeCaching?: RuntimeCaching[]
+  }
+
+  export default function withPWAInit(config: PWAConfig): (nextConfig: NextConfig) => NextConfig
+}
@@ -0,0 +1,49 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import { setErrorReporter } from '@/lib/error-reporting/reporter'
+import type { ErrorReport } from '@/lib/error-reporting/types'
+import { actionError, actionErrorResponse, actionForbidden } from './action-result'
+import { NotFoundError } from './app-errors'
+
+const reports: ErrorReport[] = []
+
+beforeEach(() => {
+  reports.length = 0
+  setErrorReporter({ report: (report) => void reports.push(report) })
+})
+
+describe('actionErrorResponse', () => {
+  it.each([
+    ['a row-level security denial', { code: '42501', message: 'denied' }, 403, 'FORBIDDEN'],
+    ['a missing row', { code: 'PGRST116', message: 'no rows' }, 404, 'NOT_FOUND'],
+    ['a unique violation', { code: '23505', message: 'duplicate key' }, 409, 'CONFLICT'],
+    ['a typed not found error', new NotFoundError('El altar no existe'), 404, 'NOT_FOUND'],
+  ])('answers %s with its mapped status', async (_, error, status, code) => {
+    const response = actionErrorResponse(actionError(error))
+
+    expect(response.status).toBe(status)
+    expect((await response.json()).error.code).toBe(code)
+  })
+
+  it('answers forbidden actions with 403', () => {
+    expect(actionErrorResponse(actionForbidden()).status).toBe(403)
+  })
+
+  it('answers unexpected errors with 500', async () => {
+    const response = actionErrorResponse(actionError(new Error('socket hang up')))
+
+    expect(response.status).toBe(500)
+    expect((await response.json()).error.code).toBe('ERROR')
+  })
+})
+
+describe('actionError', () => {
+  it('logs database errors but not typed client errors', async () => {
+    actionError(new NotFoundError('El altar no existe'))
+    actionError({ code: '42501', message: 'denied' }, { action: 'updateAltar' })
+    // Reports are sent after the current task
+    await new Promise((resolve) => setTimeout(resolve, 0))
+
+    expect(reports).toHaveLength(1)
+    expect(reports[0]).toMatchObject({ code: 'FORBIDDEN', context: { action: 'updateAltar' } })
+  })
+})
@@ -0,0 +1,103 @@
+import type { z } from 'zod'
+import {
+  ApplicationError,
+  type ApplicationErrorCode,
+  ForbiddenError,
+  toApplicationError,
+  ValidationError,
+} from './app-errors'
+import { createErrorResponse, getUserFriendlyMessage, logError } from './error-handler'
+
+/**
+ * Failed server action
+ * fieldErrors is keyed by form field name, for react-hook-form setError.
+ * code and statusCode come from the typed application error, for API routes.
+ */
+export type ActionFailure = {
+  success: false
+  error: string
+  fieldErrors?: Record<string, string>
+  code?: ApplicationErrorCode
+  statusCode?: number
+}
+
+/**
+ * Result returned by server actions
+ */
+export type ActionResult<T = undefined> = { success: true; data: T } | ActionFailure
+
+/**
+ * Successful action result
+ */
+export function actionSuccess<T>(data: T): ActionResult<T> {
+  return { success: true, data }
+}
+
+/**
+ * Failed action result with a user-friendly message
+ * Typed application errors and mapped database errors keep their code and status.
+ * Client errors (4xx) raised as ApplicationError are expected and not logged.
+ * @param error - Error or message
+ * @param context - Context for logError
+ */
+export function actionError(error: unknown, context?: Record<string, unknown>): ActionFailure {
+  const expected = error instanceof ApplicationError && error.statusCode < 500
+  if (typeof error !== 'string' && !expected) {
+    logError(error, context)
+  }
+
+  const applicationError = toApplicationError(error)
+  return {
+    success: false,
+    error: getUserFriendlyMessage(error),
+    ...(applicationError && {
+      code: applicationError.code,
+      statusCode: applicationError.statusCode,
+      fieldErrors: applicationError.fieldErrors,
+    }),
+  }
+}
+
+/**
+ * Failed action result from a zod validation error
+ * @param error - ZodError from safeParse
+ */
+export function actionValidationError(
+  error: z.ZodError
+): ActionFailure & { fieldErrors: Record<string, string> } {
+  const validation = ValidationError.fromZodError(error)
+  return {
+    success: false,
+    error: validation.message,
+    fieldErrors: validation.fieldErrors ?? {},
+    code: validation.code,
+    statusCode: validation.statusCode,
+  }
+}
+
+/**
+ * Failed action result for users without permission
+ */
+export function actionForbidden(): ActionFailure {
+  const forbidden = new ForbiddenError()
+  return {
+    success: false,
+    error: forbidden.message,
+    code: forbidden.code,
+    statusCode: forbidden.statusCode,
+  }
+}
+
+/**
+ * API route response for a failed action result
+ * Uses the status and code of the error behind the failure; 500 when it was unexpected
+ * @param result - Failed action result
+ */
+export function actionErrorResponse(result: ActionFailure): Response {
+  return createErrorResponse({
+    message: result.error,
+    code: result.code ?? 'ERROR',
+    statusCode: result.statusCode ?? 500,
+    fieldErrors: result.fieldErrors,
+  })
+}
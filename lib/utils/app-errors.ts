@@ -0,0 +1,164 @@
+import { z } from 'zod'
+import './zod-error-map'
+
+/**
+ * Typed application errors
+ * Thrown from feature code and API routes; parseError keeps their code and
+ * HTTP status, so createErrorResponse answers with the right one.
+ */
+
+export type ApplicationErrorCode =
+  | 'NOT_FOUND'
+  | 'VALIDATION_ERROR'
+  | 'CONFLICT'
+  | 'FORBIDDEN'
+  | 'PRICING_UNAVAILABLE'
+
+interface ApplicationErrorOptions {
+  code: ApplicationErrorCode
+  statusCode: number
+  details?: unknown
+  fieldErrors?: Record<string, string>
+  cause?: unknown
+}
+
+/**
+ * Optional data for the typed errors below
+ */
+export type ApplicationErrorInit = Pick<
+  ApplicationErrorOptions,
+  'details' | 'fieldErrors' | 'cause'
+>
+
+/**
+ * Base class for errors whose message can be shown to users as-is
+ */
+export class ApplicationError extends Error {
+  readonly code: ApplicationErrorCode
+  readonly statusCode: number
+  readonly details?: unknown
+  /** Messages per input field, for react-hook-form setError */
+  readonly fieldErrors?: Record<string, string>
+
+  constructor(message: string, options: ApplicationErrorOptions) {
+    super(message, { cause: options.cause })
+    this.name = new.target.name
+    this.code = options.code
+    this.statusCode = options.statusCode
+    this.details = options.details
+    this.fieldErrors = options.fieldErrors
+  }
+}
+
+/**
+ * The requested record does not exist (404)
+ */
+export class NotFoundError extends ApplicationError {
+  constructor(message = 'No se encontró el recurso solicitado', init: ApplicationErrorInit = {}) {
+    super(message, { ...init, code: 'NOT_FOUND', statusCode: 404 })
+  }
+}
+
+/**
+ * The input is invalid (400)
+ */
+export class ValidationError extends ApplicationError {
+  constructor(message = 'Revisa los campos marcados', init: ApplicationErrorInit = {}) {
+    super(message, { ...init, code: 'VALIDATION_ERROR', statusCode: 400 })
+  }
+
+  /**
+   * Validation error from a zod error, with the first message per field
+   * @param error - ZodError from safeParse
+   * @param message - Summary message
+   */
+  static fromZodError(error: z.ZodError, message?: string): ValidationError {
+    const fieldErrors: Record<string, string> = {}
+
+    for (const issue of error.issues) {
+      const field = issue.path.join('.')
+      if (field && !fieldErrors[field]) {
+        fieldErrors[field] = issue.message
+      }
+    }
+
+    // Issues without a path (like a missing body) have no field to show them on
+    const hasFields = Object.keys(fieldErrors).length > 0
+    return new ValidationError(message ?? (hasFields ? undefined : error.issues[0]?.message), {
+      fieldErrors,
+      details: error.issues,
+    })
+  }
+}
+
+/**
+ * The change clashes with existing data, like a taken slug (409)
+ */
+export class ConflictError extends ApplicationError {
+  constructor(message = 'Este registro ya existe', init: ApplicationErrorInit = {}) {
+    super(message, { ...init, code: 'CONFLICT', statusCode: 409 })
+  }
+}
+
+/**
+ * The user is not allowed to do this (403)
+ */
+export class ForbiddenError extends ApplicationError {
+  constructor(
+    message = 'No tienes permisos para realizar esta acción',
+    init: ApplicationErrorInit = {}
+  ) {
+    super(message, { ...init, code: 'FORBIDDEN', statusCode: 403 })
+  }
+}
+
+/**
+ * Prices cannot be calculated right now, usually because the pricing
+ * rules could not be loaded (503)
+ */
+export class PricingUnavailableError extends ApplicationError {
+  constructor(
+    message = 'No pudimos calcular el precio en este momento. Intenta de nuevo en unos minutos',
+    init: ApplicationErrorInit = {}
+  ) {
+    super(message, { ...init, code: 'PRICING_UNAVAILABLE', statusCode: 503 })
+  }
+}
+
+// Postgres (SQLSTATE) and PostgREST codes with a meaning for users
+const DATABASE_ERRORS: Record<string, (init: ApplicationErrorInit) => ApplicationError> = {
+  PGRST116: (init) => new NotFoundError(undefined, init),
+  '23505': (init) => new ConflictError(undefined, init),
+  '23503': (init) => new ConflictError('No se puede eliminar porque está en uso', init),
+  '23502': (init) => new ValidationError('Faltan campos requeridos', init),
+  '23514': (init) => new ValidationError('Los datos no cumplen una regla de validación', init),
+  '22P02': (init) => new ValidationError('Datos inválidos', init),
+  '42501': (init) => new ForbiddenError(undefined, init),
+}
+
+/**
+ * Convert a known error into its typed application error
+ * @param error - Error of unknown type
+ * @returns ApplicationError for ZodError and mapped database codes, or null
+ */
+export function toApplicationError(error: unknown): ApplicationError | null {
+  if (error instanceof ApplicationError) {
+    return error
+  }
+
+  if (error instanceof z.ZodError) {
+    return ValidationError.fromZodError(error)
+  }
+
+  if (
+    error &&
+    typeof error === 'object' &&
+    'code' in error &&
+    typeof error.code === 'string' &&
+    DATABASE_ERRORS[error.code]
+  ) {
+    return DATABASE_ERRORS[error.code]({ details: error, cause: error })
+  }
+
+  return null
+}
@@ -1,3 +1,6 @@
+import { reportError } from '@/lib/error-reporting/reporter'
+import { toApplicationError } from './app-errors'
+
 /**
  * Error handling utilities
  */
@@ -7,6 +10,8 @@ export type AppError = {
   code?: string
   statusCode?: number
   details?: unknown
+  /** Messages per input field, for validation errors */
+  fieldErrors?: Record<string, string>
 }
 
 /**
@@ -15,10 +20,23 @@ export type AppError = {
  * @returns Formatted error object
  */
 export function parseError(error: unknown): AppError {
+  const applicationError = toApplicationError(error)
+
+  if (applicationError) {
+    return {
+      message: applicationError.message,
+      code: applicationError.code,
+      statusCode: applicationError.statusCode,
+      details: applicationError.details ?? applicationError.cause,
+      fieldErrors: applicationError.fieldErrors,
+    }
+  }
+
   if (error instanceof Error) {
     return {
       message: error.message,
-      code: 'ERROR',
+      // PostgrestError extends Error and carries the Postgres code
+      code: 'code' in error && typeof error.code === 'string' ? error.code : 'ERROR',
       statusCode: 500,
       details: error,
     }
@@ -38,6 +56,8 @@ export function parseError(error: unknown): AppError {
       code: 'code' in error ? String(error.code) : 'ERROR',
       statusCode: 'statusCode' in error ? Number(error.statusCode) : 500,
       details: error,
+      fieldErrors:
+        'fieldErrors' in error ? (error.fieldErrors as Record<string, string>) : undefined,
     }
   }
 
@@ -57,13 +77,9 @@ export function parseError(error: unknown): AppError {
 export function getUserFriendlyMessage(error: unknown): string {
   const parsed = parseError(error)
 
-  // Map common error codes to user-friendly messages in Spanish
+  // Typed application errors and mapped database codes already carry a
+  // Spanish message; these cover the remaining codes
   const messageMap: Record<string, string> = {
-    PGRST301: 'No se encontró el recurso solicitado',
-    '23505': 'Este registro ya existe',
-    '23503': 'No se puede eliminar porque está en uso',
-    '23502': 'Faltan campos requeridos',
-    '42501': 'No tienes permisos para realizar esta acción',
     NETWORK_ERROR: 'Error de conexión. Por favor verifica tu internet',
     TIMEOUT: 'La operación tardó demasiado. Por favor intenta de nuevo',
   }
@@ -76,23 +92,23 @@ export function getUserFriendlyMessage(error: unknown): string {
 }
 
 /**
- * Log error (can be extended to send to error tracking service)
+ * Log error through the configured error reporter
+ * Request context (route, user id, numero_pedido) is added automatically
+ * inside withErrorContext, and customer contact data is scrubbed.
  * @param error - Error to log
  * @param context - Additional context
  */
 export function logError(error: unknown, context?: Record<string, unknown>): void {
   const parsed = parseError(error)
 
-  console.error('[Error]', {
-    ...parsed,
+  reportError({
+    message: parsed.message,
+    code: parsed.code,
+    statusCode: parsed.statusCode,
+    stack: error instanceof Error ? error.stack : undefined,
+    details: parsed.details,
     context,
-    timestamp: new Date().toISOString(),
   })
-
-  // TODO: Send to error tracking service (Sentry, etc.)
-  // if (process.env.NEXT_PUBLIC_SENTRY_DSN) {
-  //   Sentry.captureException(error, { extra: context })
-  // }
 }
 
 /**
@@ -110,6 +126,7 @@ export function createErrorResponse(error: unknown, statusCode?: number): Respon
       error: {
         message: getUserFriendlyMessage(error),
         code: parsed.code,
+        fields: parsed.fieldErrors,
       },
     }),
     {
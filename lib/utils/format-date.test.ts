@@ -0,0 +1,16 @@
+import { describe, expect, it } from 'vitest'
+import { startOfDayInTimeZone } from './format-date'
+
+describe('startOfDayInTimeZone', () => {
+  it.each([
+    ['2025-10-31', 'America/Mexico_City', '2025-10-31T06:00:00.000Z'],
+    // Mexico City still observed daylight saving time in 2021
+    ['2021-06-01', 'America/Mexico_City', '2021-06-01T05:00:00.000Z'],
+    ['2025-03-09', 'America/New_York', '2025-03-09T05:00:00.000Z'],
+    ['2025-11-02', 'America/New_York', '2025-11-02T04:00:00.000Z'],
+    ['2025-01-01', 'Asia/Tokyo', '2024-12-31T15:00:00.000Z'],
+    ['2025-01-01', 'UTC', '2025-01-01T00:00:00.000Z'],
+  ])('starts %s in %s at %s', (date, timeZone, expected) => {
+    expect(startOfDayInTimeZone(date, timeZone)).toBe(expected)
+  })
+})
@@ -66,3 +66,42 @@ export function formatInputDate(date: Date | string | number): string {
   const dateObj = typeof date === 'string' || typeof date === 'number' ? new Date(date) : date
   return dateObj.toISOString().split('T')[0]
 }
+
+// Milliseconds the time zone is ahead of UTC at a given moment
+function getTimeZoneOffset(date: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(date)
+  const part = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((candidate) => candidate.type === type)?.value)
+
+  const asUtc = Date.UTC(
+    part('year'),
+    part('month') - 1,
+    part('day'),
+    part('hour'),
+    part('minute'),
+    part('second')
+  )
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000
+}
+
+/**
+ * Moment a calendar day starts in a time zone
+ * @param date - Day as YYYY-MM-DD
+ * @param timeZone - IANA time zone, e.g. BUSINESS_CONFIG.timeZone
+ * @returns ISO timestamp (UTC) of midnight that day in the time zone
+ */
+export function startOfDayInTimeZone(date: string, timeZone: string): string {
+  const midnightUtc = new Date(`${date}T00:00:00Z`)
+  const guess = new Date(midnightUtc.getTime() - getTimeZoneOffset(midnightUtc, timeZone))
+  // The offset can differ at the guessed moment when a DST change falls in between
+  return new Date(midnightUtc.getTime() - getTimeZoneOffset(guess, timeZone)).toISOString()
+}
@@ -0,0 +1,39 @@
+import { createHash } from 'node:crypto'
+import { NextResponse } from 'next/server'
+
+/**
+ * Cache-Control for public catalog data
+ * CDNs keep it for a minute and may serve it stale for five more while they
+ * refetch; admin changes show up within that window
+ */
+export const PUBLIC_CATALOG_CACHE_CONTROL = 'public, s-maxage=60, stale-while-revalidate=300'
+
+/**
+ * JSON response with an ETag, answering 304 when the client already has it
+ * @param request - Incoming request, checked for If-None-Match
+ * @param body - Response body
+ * @param cacheControl - Cache-Control header value
+ */
+export function cachedJsonResponse(request: Request, body: unknown, cacheControl: string): Response {
+  const json = JSON.stringify(body)
+  const etag = `W/"${createHash('sha1').update(json).digest('base64url')}"`
+  const headers = {
+    'Cache-Control': cacheControl,
+    ETag: etag,
+  }
+
+  const ifNoneMatch = request.headers.get('if-none-match')
+  const matches = ifNoneMatch
+    ?.split(',')
+    .map((tag) => tag.trim())
+    .some((tag) => tag === '*' || tag === etag || `W/${tag}` === etag)
+
+  if (matches) {
+    return new NextResponse(null, { status: 304, headers })
+  }
+
+  return new NextResponse(json, {
+    status: 200,
+    headers: { ...headers, 'Content-Type': 'application/json' },
+  })
+}
@@ -0,0 +1,36 @@
+/**
+ * Convert text to a URL-friendly slug
+ * @param text - Text to convert (e.g. "Altar para Niños")
+ * @returns Lowercase slug without accents (e.g. "altar-para-ninos")
+ */
+export function slugify(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .trim()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 255)
+}
+
+/**
+ * Pick the first slug not present in a list of taken slugs
+ * @param base - Desired slug
+ * @param taken - Slugs already in use
+ * @returns base, or base-2, base-3, ... when taken
+ */
+export function uniqueSlug(base: string, taken: string[]): string {
+  const used = new Set(taken)
+
+  if (!used.has(base)) {
+    return base
+  }
+
+  let suffix = 2
+  while (used.has(`${base}-${suffix}`)) {
+    suffix++
+  }
+
+  return `${base}-${suffix}`
+}
@@ -0,0 +1,70 @@
+import { z } from 'zod'
+
+const TYPE_MESSAGES: Record<string, string> = {
+  string: 'Debe ser texto',
+  number: 'Debe ser un número',
+  int: 'Debe ser un número entero',
+  boolean: 'Debe ser sí o no',
+  array: 'Debe ser una lista',
+  object: 'Datos inválidos',
+  date: 'Fecha inválida',
+}
+
+const FORMAT_MESSAGES: Record<string, string> = {
+  email: 'Ingresa un correo electrónico válido',
+  url: 'Ingresa una URL válida',
+  uuid: 'Identificador inválido',
+  datetime: 'Fecha inválida',
+  date: 'Fecha inválida',
+  time: 'Hora inválida',
+}
+
+/**
+ * Spanish messages for zod's built-in issues
+ * Messages set on a schema still take precedence over these.
+ */
+export const zodErrorMap: z.core.$ZodErrorMap = (issue) => {
+  switch (issue.code) {
+    case 'invalid_type':
+      if (issue.input === undefined || issue.input === null || issue.input === '') {
+        return 'Este campo es obligatorio'
+      }
+      return TYPE_MESSAGES[issue.expected] ?? 'Valor inválido'
+    case 'too_small': {
+      const minimum = Number(issue.minimum)
+      if (issue.origin === 'string') {
+        return minimum <= 1
+          ? 'Este campo es obligatorio'
+          : `Debe tener al menos ${minimum} caracteres`
+      }
+      if (issue.origin === 'array' || issue.origin === 'set') {
+        return minimum <= 1 ? 'Agrega al menos un elemento' : `Agrega al menos ${minimum} elementos`
+      }
+      return issue.inclusive ? `Debe ser mayor o igual a ${minimum}` : `Debe ser mayor a ${minimum}`
+    }
+    case 'too_big': {
+      const maximum = Number(issue.maximum)
+      if (issue.origin === 'string') {
+        return `Debe tener como máximo ${maximum} caracteres`
+      }
+      if (issue.origin === 'array' || issue.origin === 'set') {
+        return `Puede tener como máximo ${maximum} elementos`
+      }
+      return issue.inclusive ? `Debe ser menor o igual a ${maximum}` : `Debe ser menor a ${maximum}`
+    }
+    case 'invalid_format':
+      return FORMAT_MESSAGES[issue.format] ?? 'Formato inválido'
+    case 'not_multiple_of':
+      return `Debe ser múltiplo de ${issue.divisor}`
+    case 'unrecognized_keys':
+      return `Campos no permitidos: ${issue.keys.join(', ')}`
+    case 'invalid_value':
+      return 'Selecciona una opción válida'
+    default:
+      return 'Valor inválido'
+  }
+}
+
+// Applies to every parse in the bundles that import this module (server
+// actions and API routes through the error utilities)
+z.config({ customError: zodErrorMap })
@@ -1,5 +1,7 @@
 import { createServerClient } from '@supabase/ssr'
 import { NextResponse, type NextRequest } from 'next/server'
+import { canAccessRoute } from '@/lib/auth/permissions'
+import { ROUTES } from '@/lib/constants/routes'
 
 export async function middleware(request: NextRequest) {
   let supabaseResponse = NextResponse.next({
@@ -40,23 +42,36 @@ export async function middleware(request: NextRequest) {
   // Protected routes - require authentication
   if (request.nextUrl.pathname.startsWith('/admin')) {
     if (!user) {
-      // Redirect to login if accessing admin without being authenticated
+      // Redirect to login if accessing admin without being authenticated,
+      // coming back to the requested page afterwards
       const url = request.nextUrl.clone()
-      url.pathname = '/auth/login'
+      url.pathname = ROUTES.AUTH_LOGIN
+      url.search = ''
+      url.searchParams.set('next', `${request.nextUrl.pathname}${request.nextUrl.search}`)
       return NextResponse.redirect(url)
     }
 
     // Check if user is admin
     const { data: adminUser } = await supabase
       .from('admin_usuarios')
-      .select('activo')
+      .select('activo, rol')
       .eq('id', user.id)
-      .single()
+      .maybeSingle()
 
     if (!adminUser || !adminUser.activo) {
-      // Redirect to home if not an active admin
+      // Explain the missing access instead of silently bouncing to home
       const url = request.nextUrl.clone()
-      url.pathname = '/'
+      url.pathname = ROUTES.AUTH_NO_ACCESS
+      url.search = ''
+      return NextResponse.redirect(url)
+    }
+
+    // Check the admin's role allows this section
+    if (!canAccessRoute(adminUser.rol, request.nextUrl.pathname)) {
+      const url = request.nextUrl.clone()
+      url.pathname = ROUTES.AUTH_NO_ACCESS
+      url.search = ''
+      url.searchParams.set('seccion', request.nextUrl.pathname)
       return NextResponse.redirect(url)
     }
   }
@@ -1,6 +1,115 @@
 import type { NextConfig } from "next";
+import withPWAInit from "next-pwa";
+
+// Altar images uploaded from the admin are served from the Supabase Storage bucket
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
+  ? new URL(process.env.NEXT_PUBLIC_SUPABASE_URL)
+  : null;
+
+const supabaseOrigin = supabaseUrl?.origin.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+const DAY = 24 * 60 * 60;
+
+// Public tables the browser reads for infinite scroll and cart prices
+const CATALOG_TABLES = [
+  "altares",
+  "configuraciones",
+  "reglas_precio",
+  "reglas_descuento",
+  "items_extra",
+].join("|");
+
+// Service worker (production builds only). The build output is precached;
+// catalog pages, public catalog data and images are cached as they are
+// visited, so the catalog and the cart keep working offline. Workbox uses
+// the first matching rule; function patterns are copied into the worker and
+// can't use variables from this file.
+const withPWA = withPWAInit({
+  dest: "public",
+  disable: process.env.NODE_ENV === "development",
+  // Not an asset the App Router serves, so it can't be precached
+  buildExcludes: [/app-build-manifest\.json$/],
+  fallbacks: { document: "/offline" },
+  runtimeCaching: [
+    {
+      // Catalog, product, cart and checkout pages, and their RSC payloads
+      urlPattern: ({ url, sameOrigin }) =>
+        sameOrigin &&
+        (url.pathname === "/" ||
+          url.pathname.startsWith("/producto/") ||
+          url.pathname === "/carrito" ||
+          url.pathname === "/checkout"),
+      handler: "NetworkFirst",
+      options: {
+        cacheName: "catalog-pages",
+        networkTimeoutSeconds: 3,
+        expiration: { maxEntries: 100, maxAgeSeconds: 7 * DAY },
+      },
+    },
+    {
+      urlPattern: ({ url, sameOrigin }) =>
+        sameOrigin && (url.pathname === "/api/altares" || url.pathname === "/api/items-extra"),
+      handler: "NetworkFirst",
+      options: {
+        cacheName: "catalog-api",
+        networkTimeoutSeconds: 3,
+        expiration: { maxEntries: 50, maxAgeSeconds: 7 * DAY },
+      },
+    },
+    ...(supabaseOrigin
+      ? [
+          {
+            urlPattern: new RegExp(`^${supabaseOrigin}/rest/v1/(${CATALOG_TABLES})\\?`),
+            handler: "NetworkFirst" as const,
+            options: {
+              cacheName: "catalog-data",
+              networkTimeoutSeconds: 5,
+              expiration: { maxEntries: 100, maxAgeSeconds: 7 * DAY },
+            },
+          },
+          {
+            urlPattern: new RegExp(`^${supabaseOrigin}/storage/v1/object/public/altares/`),
+            handler: "CacheFirst" as const,
+            options: {
+              cacheName: "altar-images",
+              expiration: { maxEntries: 300, maxAgeSeconds: 30 * DAY },
+              cacheableResponse: { statuses: [0, 200] },
+            },
+          },
+        ]
+      : []),
+    {
+      urlPattern: ({ url, sameOrigin }) =>
+        sameOrigin &&
+        (url.pathname === "/_next/image" ||
+          /\.(?:png|jpg|jpeg|svg|webp|ico)$/i.test(url.pathname)),
+      handler: "CacheFirst",
+      options: {
+        cacheName: "images",
+        expiration: { maxEntries: 300, maxAgeSeconds: 30 * DAY },
+      },
+    },
+    {
+      // Any other page is only shown online; offline it falls back to /offline
+      urlPattern: ({ request }) => request.mode === "navigate",
+      handler: "NetworkOnly",
+    },
+  ],
+});
 
 const nextConfig: NextConfig = {
+  images: {
+    remotePatterns: supabaseUrl
+      ? [
+          {
+            protocol: supabaseUrl.protocol === "http:" ? "http" : "https",
+            hostname: supabaseUrl.hostname,
+            port: supabaseUrl.port,
+            pathname: "/storage/v1/object/public/altares/**",
+          },
+        ]
+      : [],
+  },
   turbopack: {
     rules: {
       "*.svg": {
@@ -11,4 +120,4 @@ const nextConfig: NextConfig = {
   },
 };
 
-export default nextConfig;
+export default withPWA(nextConfig);
@@ -0,0 +1,26 @@
+-- ============================================
+-- CHECKOUT FUNCTIONS
+-- ============================================
+-- Created: 2025-01-22
+-- Description: Lets the public checkout mark an order as sent by WhatsApp
+
+-- Customers can insert pedidos but cannot update them (only admins can),
+-- so flagging whatsapp_enviado goes through a narrow SECURITY DEFINER function.
+-- The order UUID is only known to the client that created it.
+CREATE OR REPLACE FUNCTION marcar_pedido_whatsapp_enviado(p_pedido_id UUID)
+RETURNS BOOLEAN AS $$
+BEGIN
+  UPDATE pedidos
+  SET whatsapp_enviado = true,
+      whatsapp_enviado_at = now()
+  WHERE id = p_pedido_id
+    AND whatsapp_enviado = false;
+
+  RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION marcar_pedido_whatsapp_enviado(UUID) TO anon, authenticated;
+
+COMMENT ON FUNCTION marcar_pedido_whatsapp_enviado(UUID)
+  IS 'Marks a pedido as sent by WhatsApp (only once); callable by the public checkout';
@@ -0,0 +1,22 @@
+-- ============================================
+-- ALTARES SOFT DELETE
+-- ============================================
+-- Created: 2025-01-23
+-- Description: Admins delete altars by flagging them instead of removing rows,
+-- so historical pedidos keep pointing at an existing altar
+
+ALTER TABLE altares ADD COLUMN eliminado_at TIMESTAMPTZ;
+
+CREATE INDEX idx_altares_eliminado_at ON altares(eliminado_at) WHERE eliminado_at IS NULL;
+
+-- Deleted altars are never public, even if activo was left true
+DROP POLICY "Public can view active altares" ON altares;
+
+CREATE POLICY "Public can view active altares"
+  ON altares FOR SELECT
+  USING (activo = true AND eliminado_at IS NULL);
+
+COMMENT ON POLICY "Public can view active altares" ON altares
+  IS 'Allows public to browse active, non-deleted altar products';
+
+COMMENT ON COLUMN altares.eliminado_at IS 'Soft delete timestamp; NULL for live altars';
@@ -0,0 +1,77 @@
+-- ============================================
+-- PEDIDOS STATUS TRANSITIONS
+-- ============================================
+-- Created: 2025-01-24
+-- Description: Enforces the order status workflow and keeps a history of
+-- every status change with the admin who made it
+
+-- Allowed moves (completado and cancelado are final):
+--   pendiente  -> confirmado, cancelado
+--   confirmado -> completado, cancelado
+CREATE OR REPLACE FUNCTION is_valid_order_status_transition(
+  p_from order_status,
+  p_to order_status
+)
+RETURNS BOOLEAN AS $$
+BEGIN
+  RETURN (p_from = 'pendiente' AND p_to IN ('confirmado', 'cancelado'))
+      OR (p_from = 'confirmado' AND p_to IN ('completado', 'cancelado'));
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+CREATE TABLE pedido_estados_historial (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  pedido_id UUID NOT NULL REFERENCES pedidos(id) ON DELETE CASCADE,
+  estado_anterior order_status NOT NULL,
+  estado_nuevo order_status NOT NULL,
+  admin_id UUID REFERENCES admin_usuarios(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX idx_pedido_estados_historial_pedido
+  ON pedido_estados_historial(pedido_id, created_at DESC);
+
+-- Rejects invalid moves whatever client performs the update
+CREATE OR REPLACE FUNCTION validate_pedido_estado_transition()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NOT is_valid_order_status_transition(OLD.estado, NEW.estado) THEN
+    RAISE EXCEPTION 'Invalid order status transition: % -> %', OLD.estado, NEW.estado
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Runs as definer so the history stays append-only for admins
+CREATE OR REPLACE FUNCTION record_pedido_estado_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO pedido_estados_historial (pedido_id, estado_anterior, estado_nuevo, admin_id)
+  VALUES (NEW.id, OLD.estado, NEW.estado, auth.uid());
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER validate_pedidos_estado
+  BEFORE UPDATE OF estado ON pedidos
+  FOR EACH ROW
+  WHEN (OLD.estado IS DISTINCT FROM NEW.estado)
+  EXECUTE FUNCTION validate_pedido_estado_transition();
+
+CREATE TRIGGER record_pedidos_estado
+  AFTER UPDATE OF estado ON pedidos
+  FOR EACH ROW
+  WHEN (OLD.estado IS DISTINCT FROM NEW.estado)
+  EXECUTE FUNCTION record_pedido_estado_change();
+
+ALTER TABLE pedido_estados_historial ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view pedido_estados_historial"
+  ON pedido_estados_historial FOR SELECT
+  USING (is_admin());
+
+COMMENT ON TABLE pedido_estados_historial IS 'Order status changes with the admin who made them';
+COMMENT ON COLUMN pedido_estados_historial.admin_id IS 'auth.uid() of the admin; NULL for service-role updates';
@@ -0,0 +1,13 @@
+-- ============================================
+-- PEDIDOS ITEMS SHAPE
+-- ============================================
+-- Created: 2025-01-25
+-- Description: Guards the top-level shape of pedidos.items. Line contents
+-- are validated by pedidoItemsSchema (features/checkout) on write and read;
+-- each line carries a "version" key (missing means version 1).
+
+ALTER TABLE pedidos
+  ADD CONSTRAINT check_items_array
+  CHECK (jsonb_typeof(items) = 'array' AND jsonb_array_length(items) > 0);
+
+COMMENT ON COLUMN pedidos.items IS 'JSONB array of versioned order lines (see pedidoItemsSchema)';
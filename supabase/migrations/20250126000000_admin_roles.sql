@@ -0,0 +1,157 @@
+-- ============================================
+-- ADMIN ROLES AND PERMISSIONS
+-- ============================================
+-- Created: 2025-01-26
+-- Description: Replaces the single "admin" role with defined roles and
+-- narrows admin RLS policies to the permissions of each role.
+-- Keep the permission map in sync with lib/auth/permissions.ts
+
+CREATE TYPE admin_role AS ENUM ('owner', 'catalog_editor', 'production', 'viewer');
+
+-- Existing admins had full access, so they become owners
+ALTER TABLE admin_usuarios ALTER COLUMN rol DROP DEFAULT;
+ALTER TABLE admin_usuarios
+  ALTER COLUMN rol TYPE admin_role
+  USING (CASE WHEN rol IN ('catalog_editor', 'production', 'viewer') THEN rol ELSE 'owner' END)::admin_role;
+ALTER TABLE admin_usuarios ALTER COLUMN rol SET DEFAULT 'viewer';
+ALTER TABLE admin_usuarios ALTER COLUMN rol SET NOT NULL;
+
+-- Email copy for the users screen (auth.users is not exposed to the API)
+ALTER TABLE admin_usuarios ADD COLUMN email VARCHAR(255);
+
+UPDATE admin_usuarios
+SET email = users.email
+FROM auth.users AS users
+WHERE users.id = admin_usuarios.id;
+
+-- ============================================
+-- PERMISSION HELPERS
+-- ============================================
+
+-- Role of the current user, NULL when not an active admin
+CREATE OR REPLACE FUNCTION current_admin_role()
+RETURNS admin_role AS $$
+  SELECT rol
+  FROM admin_usuarios
+  WHERE id = auth.uid()
+    AND activo = true;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION role_has_permission(p_role admin_role, p_permission TEXT)
+RETURNS BOOLEAN AS $$
+BEGIN
+  RETURN CASE p_permission
+    WHEN 'catalog.read' THEN p_role IS NOT NULL
+    WHEN 'pedidos.read' THEN p_role IS NOT NULL
+    WHEN 'catalog.write' THEN p_role IN ('owner', 'catalog_editor')
+    WHEN 'pricing.write' THEN p_role = 'owner'
+    WHEN 'pedidos.update' THEN p_role IN ('owner', 'production')
+    WHEN 'users.manage' THEN p_role = 'owner'
+    ELSE false
+  END;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION has_admin_permission(p_permission TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT COALESCE(role_has_permission(current_admin_role(), p_permission), false);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION current_admin_role() TO authenticated;
+GRANT EXECUTE ON FUNCTION has_admin_permission(TEXT) TO authenticated;
+
+-- ============================================
+-- ADMIN POLICIES
+-- ============================================
+-- Every active admin can read; writes depend on the role
+
+DROP POLICY "Admins have full access to altares" ON altares;
+DROP POLICY "Admins have full access to configuraciones" ON configuraciones;
+DROP POLICY "Admins have full access to items_extra" ON items_extra;
+DROP POLICY "Admins have full access to reglas_precio" ON reglas_precio;
+DROP POLICY "Admins have full access to reglas_descuento" ON reglas_descuento;
+DROP POLICY "Admins can update pedidos" ON pedidos;
+DROP POLICY "Admins can update own profile" ON admin_usuarios;
+
+CREATE POLICY "Admins can view altares"
+  ON altares FOR SELECT
+  USING (has_admin_permission('catalog.read'));
+
+CREATE POLICY "Catalog editors can manage altares"
+  ON altares FOR ALL
+  USING (has_admin_permission('catalog.write'))
+  WITH CHECK (has_admin_permission('catalog.write'));
+
+CREATE POLICY "Admins can view configuraciones"
+  ON configuraciones FOR SELECT
+  USING (has_admin_permission('catalog.read'));
+
+CREATE POLICY "Catalog editors can manage configuraciones"
+  ON configuraciones FOR ALL
+  USING (has_admin_permission('catalog.write'))
+  WITH CHECK (has_admin_permission('catalog.write'));
+
+CREATE POLICY "Admins can view items_extra"
+  ON items_extra FOR SELECT
+  USING (has_admin_permission('catalog.read'));
+
+CREATE POLICY "Catalog editors can manage items_extra"
+  ON items_extra FOR ALL
+  USING (has_admin_permission('catalog.write'))
+  WITH CHECK (has_admin_permission('catalog.write'));
+
+CREATE POLICY "Admins can view reglas_precio"
+  ON reglas_precio FOR SELECT
+  USING (has_admin_permission('catalog.read'));
+
+CREATE POLICY "Pricing managers can manage reglas_precio"
+  ON reglas_precio FOR ALL
+  USING (has_admin_permission('pricing.write'))
+  WITH CHECK (has_admin_permission('pricing.write'));
+
+CREATE POLICY "Admins can view reglas_descuento"
+  ON reglas_descuento FOR SELECT
+  USING (has_admin_permission('catalog.read'));
+
+CREATE POLICY "Pricing managers can manage reglas_descuento"
+  ON reglas_descuento FOR ALL
+  USING (has_admin_permission('pricing.write'))
+  WITH CHECK (has_admin_permission('pricing.write'));
+
+CREATE POLICY "Production can update pedidos"
+  ON pedidos FOR UPDATE
+  USING (has_admin_permission('pedidos.update'))
+  WITH CHECK (has_admin_permission('pedidos.update'));
+
+CREATE POLICY "Owners can manage admin_usuarios"
+  ON admin_usuarios FOR ALL
+  USING (has_admin_permission('users.manage'))
+  WITH CHECK (has_admin_permission('users.manage'));
+
+-- Anyone can still edit their own name, but not their role or status
+CREATE POLICY "Admins can update own profile"
+  ON admin_usuarios FOR UPDATE
+  USING (auth.uid() = id)
+  WITH CHECK (auth.uid() = id);
+
+CREATE OR REPLACE FUNCTION protect_admin_usuarios_access()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF (NEW.rol IS DISTINCT FROM OLD.rol OR NEW.activo IS DISTINCT FROM OLD.activo)
+     AND auth.uid() IS NOT NULL
+     AND NOT has_admin_permission('users.manage') THEN
+    RAISE EXCEPTION 'Only owners can change roles or deactivate admins'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER protect_admin_usuarios_access
+  BEFORE UPDATE ON admin_usuarios
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_admin_usuarios_access();
+
+COMMENT ON TYPE admin_role IS 'owner: everything; catalog_editor: catalog; production: orders; viewer: read only';
+COMMENT ON FUNCTION has_admin_permission(TEXT) IS 'Whether the current user is an active admin whose role grants the permission';
@@ -0,0 +1,103 @@
+-- ============================================
+-- TRANSACTIONAL PRICING RULE SAVES
+-- ============================================
+-- Created: 2025-01-27
+-- Description: Replaces the pricing rules of one thickness in a single
+-- transaction and refuses rule sets that leave an available size without
+-- exactly one active rule, so the storefront never sees a half-updated table
+
+-- Available altura × anchura combinations of a thickness that aren't priced
+-- by exactly one active rule. Empty when the thickness itself is unavailable.
+-- Mirrors findMatchingRules (features/pricing/calculate-price.ts)
+CREATE OR REPLACE FUNCTION reglas_precio_coverage_problems(p_grosor_id UUID)
+RETURNS TABLE (altura DECIMAL, anchura DECIMAL, reglas INTEGER) AS $$
+  SELECT a.valor, w.valor, matches.total::INTEGER
+  FROM configuraciones g
+  CROSS JOIN configuraciones a
+  CROSS JOIN configuraciones w
+  CROSS JOIN LATERAL (
+    SELECT count(*) AS total
+    FROM reglas_precio r
+    WHERE r.grosor_id = g.id
+      AND r.activo = true
+      AND (r.altura_min IS NULL OR a.valor >= r.altura_min)
+      AND (r.altura_max IS NULL OR a.valor <= r.altura_max)
+      AND (r.anchura_min IS NULL OR w.valor >= r.anchura_min)
+      AND (r.anchura_max IS NULL OR w.valor <= r.anchura_max)
+  ) matches
+  WHERE g.id = p_grosor_id
+    AND g.tipo = 'grosor'
+    AND g.disponible = true
+    AND a.tipo = 'altura'
+    AND a.disponible = true
+    AND w.tipo = 'anchura'
+    AND w.disponible = true
+    AND matches.total <> 1
+  ORDER BY a.valor, w.valor;
+$$ LANGUAGE sql STABLE;
+
+-- Runs as the caller, so the reglas_precio RLS policies (pricing.write) apply
+CREATE OR REPLACE FUNCTION guardar_reglas_precio(p_grosor_id UUID, p_reglas JSONB)
+RETURNS SETOF reglas_precio AS $$
+DECLARE
+  v_problemas INTEGER;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM configuraciones WHERE id = p_grosor_id AND tipo = 'grosor') THEN
+    RAISE EXCEPTION 'Grosor % not found', p_grosor_id
+      USING ERRCODE = 'foreign_key_violation';
+  END IF;
+
+  -- Serialize concurrent saves of the same thickness
+  PERFORM pg_advisory_xact_lock(hashtext('reglas_precio:' || p_grosor_id::TEXT));
+
+  DELETE FROM reglas_precio
+  WHERE grosor_id = p_grosor_id
+    AND id NOT IN (
+      SELECT (regla->>'id')::UUID
+      FROM jsonb_array_elements(p_reglas) AS regla
+      WHERE regla->>'id' IS NOT NULL
+    );
+
+  INSERT INTO reglas_precio (
+    id, grosor_id, altura_min, altura_max, anchura_min, anchura_max,
+    precio_base, precio_pintado, activo
+  )
+  SELECT
+    COALESCE((regla->>'id')::UUID, uuid_generate_v4()),
+    p_grosor_id,
+    (regla->>'altura_min')::DECIMAL,
+    (regla->>'altura_max')::DECIMAL,
+    (regla->>'anchura_min')::DECIMAL,
+    (regla->>'anchura_max')::DECIMAL,
+    (regla->>'precio_base')::DECIMAL,
+    (regla->>'precio_pintado')::DECIMAL,
+    COALESCE((regla->>'activo')::BOOLEAN, true)
+  FROM jsonb_array_elements(p_reglas) AS regla
+  ON CONFLICT (id) DO UPDATE SET
+    altura_min = EXCLUDED.altura_min,
+    altura_max = EXCLUDED.altura_max,
+    anchura_min = EXCLUDED.anchura_min,
+    anchura_max = EXCLUDED.anchura_max,
+    precio_base = EXCLUDED.precio_base,
+    precio_pintado = EXCLUDED.precio_pintado,
+    activo = EXCLUDED.activo
+  -- Never move a rule from another thickness
+  WHERE reglas_precio.grosor_id = p_grosor_id;
+
+  SELECT count(*) INTO v_problemas FROM reglas_precio_coverage_problems(p_grosor_id);
+
+  IF v_problemas > 0 THEN
+    RAISE EXCEPTION 'Pricing rules leave % size(s) of grosor % without exactly one rule',
+      v_problemas, p_grosor_id
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN QUERY
+    SELECT * FROM reglas_precio
+    WHERE grosor_id = p_grosor_id
+    ORDER BY altura_min NULLS FIRST, anchura_min NULLS FIRST, created_at;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION guardar_reglas_precio(UUID, JSONB) IS
+  'Replaces every pricing rule of a thickness atomically; rules missing from p_reglas are deleted';
@@ -0,0 +1,28 @@
+-- ============================================
+-- ITEMS EXTRA TYPE ENUM
+-- ============================================
+-- Created: 2025-01-28
+-- Description: Turns items_extra.tipo from free text into an enum so the
+-- storefront can group extras and match them to the items an altar includes.
+-- Keep the values in sync with ItemExtraTypeEnum (features/items-extra)
+
+CREATE TYPE item_extra_type AS ENUM ('portaretrato', 'calavera', 'vaso', 'pan', 'other');
+
+-- Free text may have other casing or plurals; anything unknown becomes 'other'
+ALTER TABLE items_extra
+  ALTER COLUMN tipo TYPE item_extra_type
+  USING (
+    CASE regexp_replace(lower(trim(tipo)), 's$', '')
+      WHEN 'portaretrato' THEN 'portaretrato'
+      WHEN 'portarretrato' THEN 'portaretrato'
+      WHEN 'calavera' THEN 'calavera'
+      WHEN 'vaso' THEN 'vaso'
+      WHEN 'pan' THEN 'pan'
+      ELSE 'other'
+    END
+  )::item_extra_type;
+
+ALTER TABLE items_extra ALTER COLUMN tipo SET DEFAULT 'other';
+
+COMMENT ON COLUMN items_extra.tipo IS
+  'Groups extras in the storefront; portaretrato/calavera/vaso/pan match the altares *_incluidos columns';
@@ -0,0 +1,46 @@
+-- ============================================
+-- DISCOUNT RULE WINDOWS AND COUPON CODES
+-- ============================================
+-- Created: 2025-01-29
+-- Description: Date windows, coupon codes and stacking for reglas_descuento
+
+-- A rule without codigo is a quantity tier applied automatically; a rule with
+-- codigo only applies when the customer enters that code. Both honour the
+-- optional vigente_desde / vigente_hasta window (e.g. a promotion that ends
+-- on Nov 2). An acumulable coupon is applied on top of the quantity tier;
+-- otherwise the better of the two wins.
+ALTER TABLE reglas_descuento
+  ADD COLUMN vigente_desde TIMESTAMPTZ,
+  ADD COLUMN vigente_hasta TIMESTAMPTZ,
+  ADD COLUMN codigo TEXT,
+  ADD COLUMN acumulable BOOLEAN NOT NULL DEFAULT false,
+  ADD CONSTRAINT check_vigencia
+    CHECK (vigente_desde IS NULL OR vigente_hasta IS NULL OR vigente_hasta > vigente_desde),
+  ADD CONSTRAINT check_codigo_format
+    CHECK (codigo IS NULL OR codigo ~ '^[A-Z0-9_-]{3,40}$');
+
+CREATE UNIQUE INDEX idx_reglas_descuento_codigo
+  ON reglas_descuento (codigo)
+  WHERE codigo IS NOT NULL;
+
+-- Coupon rules must not be listed publicly, or anyone could read the codes
+DROP POLICY "Public can view active discount rules" ON reglas_descuento;
+
+CREATE POLICY "Public can view active discount rules"
+  ON reglas_descuento FOR SELECT
+  USING (activo = true AND codigo IS NULL);
+
+-- Looks up a single coupon by its exact code, so codes can be validated
+-- without exposing the others
+CREATE OR REPLACE FUNCTION buscar_regla_descuento(p_codigo TEXT)
+RETURNS SETOF reglas_descuento AS $$
+  SELECT *
+  FROM reglas_descuento
+  WHERE activo = true
+    AND codigo = upper(trim(p_codigo));
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION buscar_regla_descuento(TEXT) TO anon, authenticated;
+
+COMMENT ON FUNCTION buscar_regla_descuento(TEXT)
+  IS 'Returns the active coupon rule for a code; callable by the public cart and checkout';
@@ -0,0 +1,244 @@
+-- ============================================
+-- PROMO CODES
+-- ============================================
+-- Created: 2025-01-30
+-- Description: Campaign codes with fixed or percentage discounts, usage
+-- limits, date windows and minimum order totals, recorded on each pedido.
+-- Replaces the coupon rules kept in reglas_descuento.codigo, which become
+-- quantity tiers only again.
+-- Keep the enum values in sync with PromoDiscountTypeEnum (features/pricing)
+
+CREATE TYPE promo_discount_type AS ENUM ('porcentaje', 'monto_fijo');
+
+CREATE TABLE codigos_promocion (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  codigo TEXT NOT NULL UNIQUE,             -- e.g., 'MUERTOS25', stored upper-case
+  descripcion TEXT,
+  tipo promo_discount_type NOT NULL DEFAULT 'porcentaje',
+  valor DECIMAL(10, 2) NOT NULL,           -- percentage or amount, depending on tipo
+  acumulable BOOLEAN NOT NULL DEFAULT false, -- stacks on top of the quantity tier
+  minimo_compra DECIMAL(10, 2),            -- order subtotal needed to use it
+  usos_maximos INTEGER,                    -- NULL = unlimited
+  usos_por_telefono INTEGER,               -- NULL = unlimited
+  vigente_desde TIMESTAMPTZ,
+  vigente_hasta TIMESTAMPTZ,
+  activo BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now(),
+
+  -- Constraints
+  CONSTRAINT check_codigo_format CHECK (codigo ~ '^[A-Z0-9_-]{3,40}$'),
+  CONSTRAINT check_positive_valor CHECK (valor > 0),
+  CONSTRAINT check_porcentaje_valor CHECK (tipo <> 'porcentaje' OR valor <= 100),
+  CONSTRAINT check_minimo_compra CHECK (minimo_compra IS NULL OR minimo_compra >= 0),
+  CONSTRAINT check_usos_maximos CHECK (usos_maximos IS NULL OR usos_maximos > 0),
+  CONSTRAINT check_usos_por_telefono CHECK (usos_por_telefono IS NULL OR usos_por_telefono > 0),
+  CONSTRAINT check_vigencia
+    CHECK (vigente_desde IS NULL OR vigente_hasta IS NULL OR vigente_hasta > vigente_desde)
+);
+
+CREATE TRIGGER update_codigos_promocion_updated_at
+  BEFORE UPDATE ON codigos_promocion
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE codigos_promocion ENABLE ROW LEVEL SECURITY;
+
+-- Codes are never listed publicly; see buscar_codigo_promocion
+CREATE POLICY "Pricing managers can manage codigos_promocion"
+  ON codigos_promocion FOR ALL
+  USING (has_admin_permission('pricing.write'))
+  WITH CHECK (has_admin_permission('pricing.write'));
+
+-- ============================================
+-- MOVE COUPON RULES OUT OF reglas_descuento
+-- ============================================
+
+-- Minimum quantities have no equivalent on codes; set minimo_compra by hand
+-- for any migrated code that relied on one
+INSERT INTO codigos_promocion
+  (codigo, descripcion, tipo, valor, acumulable, vigente_desde, vigente_hasta, activo)
+SELECT codigo, descripcion, 'porcentaje', porcentaje_descuento, acumulable,
+       vigente_desde, vigente_hasta, activo
+FROM reglas_descuento
+WHERE codigo IS NOT NULL
+  AND porcentaje_descuento > 0;
+
+DELETE FROM reglas_descuento WHERE codigo IS NOT NULL;
+
+DROP FUNCTION buscar_regla_descuento(TEXT);
+DROP INDEX idx_reglas_descuento_codigo;
+
+DROP POLICY "Public can view active discount rules" ON reglas_descuento;
+
+CREATE POLICY "Public can view active discount rules"
+  ON reglas_descuento FOR SELECT
+  USING (activo = true);
+
+ALTER TABLE reglas_descuento
+  DROP CONSTRAINT check_codigo_format,
+  DROP COLUMN codigo,
+  DROP COLUMN acumulable;
+
+-- ============================================
+-- PEDIDOS
+-- ============================================
+
+-- codigo_promocion keeps the code's text for reporting (set by the trigger
+-- below); codes that were used cannot be deleted, only deactivated
+ALTER TABLE pedidos
+  ADD COLUMN codigo_promocion_id UUID REFERENCES codigos_promocion(id) ON DELETE RESTRICT,
+  ADD COLUMN codigo_promocion TEXT,
+  ADD COLUMN descuento_promocion DECIMAL(10, 2) NOT NULL DEFAULT 0;
+
+CREATE INDEX idx_pedidos_codigo_promocion ON pedidos(codigo_promocion_id)
+  WHERE codigo_promocion_id IS NOT NULL;
+
+-- Phone numbers are typed freely (spaces, dashes, +52), so limits compare digits only
+CREATE OR REPLACE FUNCTION normalizar_telefono(p_telefono TEXT)
+RETURNS TEXT AS $$
+  SELECT regexp_replace(coalesce(p_telefono, ''), '\D', '', 'g');
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Cancelled pedidos give the use back
+CREATE OR REPLACE FUNCTION contar_usos_codigo_promocion(
+  p_codigo_id UUID,
+  p_telefono TEXT DEFAULT NULL
+)
+RETURNS INTEGER AS $$
+  SELECT count(*)::INTEGER
+  FROM pedidos
+  WHERE codigo_promocion_id = p_codigo_id
+    AND estado <> 'cancelado'
+    AND (
+      p_telefono IS NULL
+      OR normalizar_telefono(cliente_telefono) = normalizar_telefono(p_telefono)
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Only reachable through buscar_codigo_promocion and the checkout trigger
+REVOKE EXECUTE ON FUNCTION contar_usos_codigo_promocion(UUID, TEXT) FROM PUBLIC;
+
+-- ============================================
+-- PUBLIC LOOKUP
+-- ============================================
+
+-- Returns one active code with its remaining uses, so the cart and the
+-- pricing endpoint can validate it without exposing the other codes.
+-- Remaining uses are NULL when the code has no limit (or no phone was given).
+CREATE OR REPLACE FUNCTION buscar_codigo_promocion(p_codigo TEXT, p_telefono TEXT DEFAULT NULL)
+RETURNS TABLE (
+  id UUID,
+  codigo TEXT,
+  descripcion TEXT,
+  tipo promo_discount_type,
+  valor DECIMAL(10, 2),
+  acumulable BOOLEAN,
+  minimo_compra DECIMAL(10, 2),
+  vigente_desde TIMESTAMPTZ,
+  vigente_hasta TIMESTAMPTZ,
+  usos_restantes INTEGER,
+  usos_telefono_restantes INTEGER
+) AS $$
+  SELECT
+    c.id,
+    c.codigo,
+    c.descripcion,
+    c.tipo,
+    c.valor,
+    c.acumulable,
+    c.minimo_compra,
+    c.vigente_desde,
+    c.vigente_hasta,
+    CASE WHEN c.usos_maximos IS NOT NULL
+      THEN greatest(c.usos_maximos - contar_usos_codigo_promocion(c.id), 0)
+    END,
+    CASE WHEN c.usos_por_telefono IS NOT NULL AND normalizar_telefono(p_telefono) <> ''
+      THEN greatest(c.usos_por_telefono - contar_usos_codigo_promocion(c.id, p_telefono), 0)
+    END
+  FROM codigos_promocion c
+  WHERE c.activo = true
+    AND c.codigo = upper(trim(p_codigo));
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION buscar_codigo_promocion(TEXT, TEXT) TO anon, authenticated;
+
+COMMENT ON FUNCTION buscar_codigo_promocion(TEXT, TEXT)
+  IS 'Returns an active promo code with its remaining uses; callable by the public cart and checkout';
+
+-- ============================================
+-- LIMITS AT CHECKOUT
+-- ============================================
+
+-- The pricing engine already validates the code, but two checkouts can race
+-- for the last use. This re-checks under a per-code lock when the pedido is
+-- inserted. The HINT carries a code the app maps to a customer message.
+CREATE OR REPLACE FUNCTION validar_codigo_promocion_pedido()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_codigo codigos_promocion%ROWTYPE;
+BEGIN
+  IF NEW.codigo_promocion_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  PERFORM pg_advisory_xact_lock(hashtext('codigos_promocion:' || NEW.codigo_promocion_id::TEXT));
+
+  SELECT * INTO v_codigo FROM codigos_promocion WHERE id = NEW.codigo_promocion_id;
+
+  IF NOT FOUND
+    OR NOT v_codigo.activo
+    OR (v_codigo.vigente_desde IS NOT NULL AND now() < v_codigo.vigente_desde)
+    OR (v_codigo.vigente_hasta IS NOT NULL AND now() > v_codigo.vigente_hasta)
+  THEN
+    RAISE EXCEPTION 'Promo code % is not active', NEW.codigo_promocion_id
+      USING ERRCODE = 'check_violation', HINT = 'PROMO_CODE_NOT_ACTIVE';
+  END IF;
+
+  IF v_codigo.minimo_compra IS NOT NULL AND NEW.subtotal < v_codigo.minimo_compra THEN
+    RAISE EXCEPTION 'Promo code % requires a subtotal of %', v_codigo.codigo, v_codigo.minimo_compra
+      USING ERRCODE = 'check_violation', HINT = 'PROMO_CODE_MINIMUM';
+  END IF;
+
+  IF v_codigo.usos_maximos IS NOT NULL
+    AND contar_usos_codigo_promocion(v_codigo.id) >= v_codigo.usos_maximos
+  THEN
+    RAISE EXCEPTION 'Promo code % has no uses left', v_codigo.codigo
+      USING ERRCODE = 'check_violation', HINT = 'PROMO_CODE_EXHAUSTED';
+  END IF;
+
+  IF v_codigo.usos_por_telefono IS NOT NULL
+    AND contar_usos_codigo_promocion(v_codigo.id, NEW.cliente_telefono) >= v_codigo.usos_por_telefono
+  THEN
+    RAISE EXCEPTION 'Promo code % reached its limit for this phone', v_codigo.codigo
+      USING ERRCODE = 'check_violation', HINT = 'PROMO_CODE_PHONE_LIMIT';
+  END IF;
+
+  NEW.codigo_promocion := v_codigo.codigo;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER validar_codigo_promocion_pedido
+  BEFORE INSERT ON pedidos
+  FOR EACH ROW
+  EXECUTE FUNCTION validar_codigo_promocion_pedido();
+
+-- ============================================
+-- CAMPAIGN REPORT
+-- ============================================
+
+-- Uses and revenue per code; cancelled pedidos are left out
+CREATE VIEW codigos_promocion_resumen
+WITH (security_invoker = true) AS
+SELECT
+  c.*,
+  count(p.id)::INTEGER AS usos,
+  coalesce(sum(p.descuento_promocion), 0) AS descuento_otorgado,
+  coalesce(sum(p.total), 0) AS ventas,
+  max(p.created_at) AS ultimo_uso
+FROM codigos_promocion c
+LEFT JOIN pedidos p
+  ON p.codigo_promocion_id = c.id
+  AND p.estado <> 'cancelado'
+GROUP BY c.id;
@@ -0,0 +1,52 @@
+-- ============================================
+-- PAGINATED CATALOG
+-- ============================================
+-- Created: 2025-01-31
+-- Description: Indexes for keyset pagination of the public catalog under each
+-- sort order, and per-type totals counted in the database.
+
+-- ============================================
+-- KEYSET INDEXES
+-- ============================================
+
+-- One per catalog order; id breaks ties so the cursor never skips or repeats
+-- altars that share a timestamp or name
+CREATE INDEX idx_altares_catalogo_destacado
+  ON altares(destacado DESC, created_at DESC, id DESC)
+  WHERE activo = true AND eliminado_at IS NULL;
+
+CREATE INDEX idx_altares_catalogo_recientes
+  ON altares(created_at DESC, id DESC)
+  WHERE activo = true AND eliminado_at IS NULL;
+
+CREATE INDEX idx_altares_catalogo_nombre
+  ON altares(nombre, id)
+  WHERE activo = true AND eliminado_at IS NULL;
+
+-- ============================================
+-- COUNTS PER MODEL TYPE
+-- ============================================
+
+-- Same search as the catalog list (nombre or descripcion contains the term).
+-- Runs with the caller's rights, so RLS still hides what the public can't see.
+CREATE OR REPLACE FUNCTION contar_altares_por_tipo(p_busqueda TEXT DEFAULT NULL)
+RETURNS TABLE (
+  modelo_tipo model_type,
+  total INTEGER
+) AS $$
+  SELECT a.modelo_tipo, count(*)::INTEGER
+  FROM altares a
+  WHERE a.activo = true
+    AND a.eliminado_at IS NULL
+    AND (
+      coalesce(trim(p_busqueda), '') = ''
+      OR a.nombre ILIKE '%' || trim(p_busqueda) || '%'
+      OR a.descripcion ILIKE '%' || trim(p_busqueda) || '%'
+    )
+  GROUP BY a.modelo_tipo;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION contar_altares_por_tipo(TEXT) TO anon, authenticated;
+
+COMMENT ON FUNCTION contar_altares_por_tipo(TEXT)
+  IS 'Counts active altars per model type, optionally matching a catalog search term';
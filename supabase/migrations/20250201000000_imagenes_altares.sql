@@ -0,0 +1,43 @@
+-- ============================================
+-- ALTAR IMAGES IN SUPABASE STORAGE
+-- ============================================
+-- Created: 2025-02-01
+-- Description: Public bucket for altar photos uploaded from the admin, and
+-- per-image metadata (thumbnail variant, blur placeholder, size) on altares.
+
+-- ============================================
+-- BUCKET
+-- ============================================
+
+-- Each upload is a folder <YYYY-MM-DD>/<uuid>/ holding the resized variants;
+-- the date prefix lets the orphan sweep skip recent uploads cheaply
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('altares', 'altares', true, 5242880, ARRAY['image/webp', 'image/jpeg', 'image/png'])
+ON CONFLICT (id) DO NOTHING;
+
+-- Public URLs are served without a policy; writes need catalog.write
+CREATE POLICY "Catalog editors can upload altar images"
+  ON storage.objects FOR INSERT
+  WITH CHECK (bucket_id = 'altares' AND has_admin_permission('catalog.write'));
+
+CREATE POLICY "Catalog editors can list altar images"
+  ON storage.objects FOR SELECT
+  USING (bucket_id = 'altares' AND has_admin_permission('catalog.write'));
+
+CREATE POLICY "Catalog editors can delete altar images"
+  ON storage.objects FOR DELETE
+  USING (bucket_id = 'altares' AND has_admin_permission('catalog.write'));
+
+-- ============================================
+-- IMAGE METADATA
+-- ============================================
+
+-- Keyed by the image URL as stored in imagen_principal / imagenes_galeria:
+-- { "<url>": { "miniatura": "<url>", "blur": "data:image/...", "ancho": 1600, "alto": 1200 } }
+-- Images pasted as external URLs simply have no entry
+ALTER TABLE altares
+  ADD COLUMN imagenes_meta JSONB NOT NULL DEFAULT '{}'::jsonb,
+  ADD CONSTRAINT check_imagenes_meta_object CHECK (jsonb_typeof(imagenes_meta) = 'object');
+
+COMMENT ON COLUMN altares.imagenes_meta
+  IS 'Thumbnail URL, blur placeholder and dimensions per uploaded image URL';
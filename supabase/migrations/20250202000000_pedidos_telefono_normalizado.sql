@@ -0,0 +1,20 @@
+-- ============================================
+-- PEDIDOS PHONE SEARCH
+-- ============================================
+-- Created: 2025-02-02
+-- Description: Digits-only copy of cliente_telefono, so the admin board finds
+-- "55 1234 5678" and "+52 55-1234-5678" when searching "5512345678".
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- Kept in sync by Postgres; normalizar_telefono is IMMUTABLE
+ALTER TABLE pedidos
+  ADD COLUMN cliente_telefono_digitos TEXT
+    GENERATED ALWAYS AS (normalizar_telefono(cliente_telefono)) STORED;
+
+-- The board matches any part of the number (LIKE '%digits%')
+CREATE INDEX idx_pedidos_cliente_telefono_digitos ON pedidos
+  USING gin (cliente_telefono_digitos gin_trgm_ops);
+
+COMMENT ON COLUMN pedidos.cliente_telefono_digitos
+  IS 'cliente_telefono without spaces, dashes or symbols, for phone search';
@@ -0,0 +1,27 @@
+-- ============================================
+-- PROTECT PRICING RULES ON GROSOR DELETE
+-- ============================================
+-- Created: 2025-02-03
+-- Description: Deleting a grosor cascades to its reglas_precio, and the
+-- cascade skips RLS. Require pricing.write for it while rules point at it, so
+-- catalog editors cannot wipe prices by removing a thickness.
+
+CREATE OR REPLACE FUNCTION protect_grosor_reglas_precio()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.tipo = 'grosor'
+     AND auth.uid() IS NOT NULL
+     AND NOT has_admin_permission('pricing.write')
+     AND EXISTS (SELECT 1 FROM reglas_precio WHERE grosor_id = OLD.id) THEN
+    RAISE EXCEPTION 'Deleting a grosor with pricing rules requires pricing.write'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER protect_grosor_reglas_precio
+  BEFORE DELETE ON configuraciones
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_grosor_reglas_precio();
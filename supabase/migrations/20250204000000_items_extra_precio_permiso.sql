@@ -0,0 +1,26 @@
+-- ============================================
+-- ITEMS EXTRA PRICES NEED pricing.write
+-- ============================================
+-- Created: 2025-02-04
+-- Description: Catalog editors manage extras under catalog.write, but prices
+-- belong to pricing.write, as with reglas_precio. A new extra comes with its
+-- price, so creating one needs pricing.write too.
+
+CREATE OR REPLACE FUNCTION protect_items_extra_precio()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF (TG_OP = 'INSERT' OR NEW.precio IS DISTINCT FROM OLD.precio)
+     AND auth.uid() IS NOT NULL
+     AND NOT has_admin_permission('pricing.write') THEN
+    RAISE EXCEPTION 'Changing extra item prices requires pricing.write'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER protect_items_extra_precio
+  BEFORE INSERT OR UPDATE ON items_extra
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_items_extra_precio();
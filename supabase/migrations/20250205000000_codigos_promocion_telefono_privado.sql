@@ -0,0 +1,72 @@
+-- ============================================
+-- PRIVATE PER-PHONE PROMO CODE USES
+-- ============================================
+-- Created: 2025-02-05
+-- Description: buscar_codigo_promocion is public and took any phone, so anyone
+-- could check whether a number had used a code. The public lookup now only
+-- returns the per-phone limit; the uses of a phone are counted by a function
+-- reserved to the service role (server-side pricing) and by the checkout
+-- trigger, which runs as its owner.
+
+DROP FUNCTION buscar_codigo_promocion(TEXT, TEXT);
+
+-- Remaining uses are NULL when the code has no limit
+CREATE FUNCTION buscar_codigo_promocion(p_codigo TEXT)
+RETURNS TABLE (
+  id UUID,
+  codigo TEXT,
+  descripcion TEXT,
+  tipo promo_discount_type,
+  valor DECIMAL(10, 2),
+  acumulable BOOLEAN,
+  minimo_compra DECIMAL(10, 2),
+  vigente_desde TIMESTAMPTZ,
+  vigente_hasta TIMESTAMPTZ,
+  usos_restantes INTEGER,
+  usos_por_telefono INTEGER
+) AS $$
+  SELECT
+    c.id,
+    c.codigo,
+    c.descripcion,
+    c.tipo,
+    c.valor,
+    c.acumulable,
+    c.minimo_compra,
+    c.vigente_desde,
+    c.vigente_hasta,
+    CASE WHEN c.usos_maximos IS NOT NULL
+      THEN greatest(c.usos_maximos - contar_usos_codigo_promocion(c.id), 0)
+    END,
+    c.usos_por_telefono
+  FROM codigos_promocion c
+  WHERE c.activo = true
+    AND c.codigo = upper(trim(p_codigo));
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION buscar_codigo_promocion(TEXT) TO anon, authenticated;
+
+COMMENT ON FUNCTION buscar_codigo_promocion(TEXT)
+  IS 'Returns an active promo code with its remaining uses; callable by the public cart and checkout';
+
+-- NULL when the code has no per-phone limit or no phone was given
+CREATE FUNCTION usos_telefono_codigo_promocion(p_codigo_id UUID, p_telefono TEXT)
+RETURNS INTEGER AS $$
+  SELECT
+    CASE WHEN c.usos_por_telefono IS NOT NULL AND normalizar_telefono(p_telefono) <> ''
+      THEN greatest(c.usos_por_telefono - contar_usos_codigo_promocion(c.id, p_telefono), 0)
+    END
+  FROM codigos_promocion c
+  WHERE c.id = p_codigo_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Supabase grants new functions to anon and authenticated explicitly, so
+-- revoking from PUBLIC alone does not hide them
+REVOKE EXECUTE ON FUNCTION usos_telefono_codigo_promocion(UUID, TEXT)
+  FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION usos_telefono_codigo_promocion(UUID, TEXT) TO service_role;
+
+REVOKE EXECUTE ON FUNCTION contar_usos_codigo_promocion(UUID, TEXT) FROM anon, authenticated;
+
+COMMENT ON FUNCTION usos_telefono_codigo_promocion(UUID, TEXT)
+  IS 'Uses of a promo code left for a phone; service role only';
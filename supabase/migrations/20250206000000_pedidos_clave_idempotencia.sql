@@ -0,0 +1,35 @@
+-- ============================================
+-- IDEMPOTENT CHECKOUT
+-- ============================================
+-- Created: 2025-02-06
+-- Description: The checkout resends an order when the connection drops, even
+-- if the first request already saved it. Each checkout now carries a key
+-- generated by the client; a resend with the same key gets the pedido that was
+-- already created instead of a duplicate that consumes another promo code use.
+
+ALTER TABLE pedidos
+  ADD COLUMN clave_idempotencia UUID,
+  -- Breakdown quoted to the customer, returned again on a resend
+  ADD COLUMN desglose JSONB,
+  ADD CONSTRAINT pedidos_clave_idempotencia_key UNIQUE (clave_idempotencia);
+
+COMMENT ON COLUMN pedidos.clave_idempotencia
+  IS 'Key generated by the checkout client; a resend with the same key returns this pedido';
+
+-- The public can insert pedidos but not read them; the key is only known to
+-- the client that created the pedido
+CREATE FUNCTION buscar_pedido_por_clave(p_clave UUID)
+RETURNS TABLE (
+  id UUID,
+  numero_pedido VARCHAR(50),
+  desglose JSONB
+) AS $$
+  SELECT p.id, p.numero_pedido, p.desglose
+  FROM pedidos p
+  WHERE p.clave_idempotencia = p_clave;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION buscar_pedido_por_clave(UUID) TO anon, authenticated;
+
+COMMENT ON FUNCTION buscar_pedido_por_clave(UUID)
+  IS 'Returns the pedido created with a checkout key; callable by the public checkout';
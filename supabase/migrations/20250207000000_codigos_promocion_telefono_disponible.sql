@@ -0,0 +1,29 @@
+-- ============================================
+-- PER-PHONE PROMO CODE CHECK WITHOUT THE SERVICE ROLE
+-- ============================================
+-- Created: 2025-02-07
+-- Description: Pricing counted the uses of a phone through a service-role
+-- function, so the public checkout needed the service role key. The checkout
+-- now asks a public function that only answers whether the phone can still use
+-- the code; the count itself stays private. The checkout trigger still enforces
+-- the limit when the pedido is inserted.
+
+DROP FUNCTION usos_telefono_codigo_promocion(UUID, TEXT);
+
+-- True when the code has no per-phone limit or no phone was given; NULL when
+-- the code does not exist or is inactive
+CREATE FUNCTION codigo_promocion_disponible_telefono(p_codigo_id UUID, p_telefono TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT
+    c.usos_por_telefono IS NULL
+    OR normalizar_telefono(p_telefono) = ''
+    OR contar_usos_codigo_promocion(c.id, p_telefono) < c.usos_por_telefono
+  FROM codigos_promocion c
+  WHERE c.id = p_codigo_id
+    AND c.activo = true;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION codigo_promocion_disponible_telefono(UUID, TEXT) TO anon, authenticated;
+
+COMMENT ON FUNCTION codigo_promocion_disponible_telefono(UUID, TEXT)
+  IS 'Whether a phone can still use a promo code (yes/no only); callable by the public checkout';
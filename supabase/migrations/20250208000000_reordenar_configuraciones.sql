@@ -0,0 +1,21 @@
+-- ============================================
+-- TRANSACTIONAL CONFIGURACIONES REORDER
+-- ============================================
+-- Created: 2025-02-08
+-- Description: The admin saved the order of an option type with one update
+-- per option, so a failure halfway left a mixed order. The whole order is now
+-- written in a single statement.
+
+-- Runs as the caller, so the configuraciones RLS policies (catalog.write) apply.
+-- Ids of another type are ignored.
+CREATE OR REPLACE FUNCTION reordenar_configuraciones(p_tipo config_type, p_ids UUID[])
+RETURNS VOID AS $$
+  UPDATE configuraciones c
+  SET orden = nuevo.orden
+  FROM unnest(p_ids) WITH ORDINALITY AS nuevo(id, orden)
+  WHERE c.id = nuevo.id
+    AND c.tipo = p_tipo;
+$$ LANGUAGE sql;
+
+COMMENT ON FUNCTION reordenar_configuraciones(config_type, UUID[]) IS
+  'Sets the display order of one option type from an ordered list of ids, atomically';
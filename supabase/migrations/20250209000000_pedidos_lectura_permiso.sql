@@ -0,0 +1,20 @@
+-- ============================================
+-- PEDIDOS READ ACCESS BY PERMISSION
+-- ============================================
+-- Created: 2025-02-09
+-- Description: pedidos and their status history were still readable through
+-- is_admin(), while the other admin tables check the role permission since the
+-- admin roles migration. Both now require pedidos.read, so changing what a role
+-- can see only takes a change to role_has_permission.
+
+DROP POLICY "Admins can view all pedidos" ON pedidos;
+
+CREATE POLICY "Admins can view all pedidos"
+  ON pedidos FOR SELECT
+  USING (has_admin_permission('pedidos.read'));
+
+DROP POLICY "Admins can view pedido_estados_historial" ON pedido_estados_historial;
+
+CREATE POLICY "Admins can view pedido_estados_historial"
+  ON pedido_estados_historial FOR SELECT
+  USING (has_admin_permission('pedidos.read'));
@@ -0,0 +1,11 @@
+-- ============================================
+-- PAINTED PRICE NEVER BELOW THE BASE PRICE
+-- ============================================
+-- Created: 2025-02-10
+-- Description: The painted surcharge is precio_pintado - precio_base, so a
+-- lower painted price gave a negative surcharge and a painted altar cheaper
+-- than an unpainted one. guardar_reglas_precio inserts through the table, so
+-- the constraint covers its saves too.
+
+ALTER TABLE reglas_precio
+  ADD CONSTRAINT check_precio_pintado_minimo CHECK (precio_pintado >= precio_base);